@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "checkoutGroupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "checkout_groups" (
+    "id" TEXT NOT NULL,
+    "groupNumber" TEXT NOT NULL,
+    "paymentMethod" "PaymentMethod" NOT NULL,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "shipping" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "total" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "buyerId" TEXT NOT NULL,
+
+    CONSTRAINT "checkout_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_groups_groupNumber_key" ON "checkout_groups"("groupNumber");
+
+-- CreateIndex
+CREATE INDEX "checkout_groups_buyerId_idx" ON "checkout_groups"("buyerId");
+
+-- CreateIndex
+CREATE INDEX "orders_checkoutGroupId_idx" ON "orders"("checkoutGroupId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_checkoutGroupId_fkey" FOREIGN KEY ("checkoutGroupId") REFERENCES "checkout_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checkout_groups" ADD CONSTRAINT "checkout_groups_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
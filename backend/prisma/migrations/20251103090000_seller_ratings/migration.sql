@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "averageRating" DECIMAL(3,2),
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0;
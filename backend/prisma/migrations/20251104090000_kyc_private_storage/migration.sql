@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "kyc_access_logs" (
+    "id" TEXT NOT NULL,
+    "kycDocumentId" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "accessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "kyc_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "kyc_access_logs_kycDocumentId_idx" ON "kyc_access_logs"("kycDocumentId");
+
+-- AddForeignKey
+ALTER TABLE "kyc_documents" ADD CONSTRAINT "kyc_documents_reviewedBy_fkey" FOREIGN KEY ("reviewedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kyc_access_logs" ADD CONSTRAINT "kyc_access_logs_kycDocumentId_fkey" FOREIGN KEY ("kycDocumentId") REFERENCES "kyc_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kyc_access_logs" ADD CONSTRAINT "kyc_access_logs_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
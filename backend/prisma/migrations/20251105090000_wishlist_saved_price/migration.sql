@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "wishlist_items" ADD COLUMN     "price" DECIMAL(10,2);
+
+-- Backfill existing rows with the current product price
+UPDATE "wishlist_items" SET "price" = "products"."price"
+FROM "products"
+WHERE "products"."id" = "wishlist_items"."productId";
+
+ALTER TABLE "wishlist_items" ALTER COLUMN "price" SET NOT NULL;
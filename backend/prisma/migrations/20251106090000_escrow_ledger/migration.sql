@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "EscrowStatus" AS ENUM ('HELD', 'RELEASED', 'PAID_OUT', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "escrow_transactions" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "EscrowStatus" NOT NULL DEFAULT 'HELD',
+    "heldAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "releaseAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "payoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "escrow_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payouts" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reference" TEXT,
+    "paidById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escrow_transactions_orderId_key" ON "escrow_transactions"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escrow_transactions_paymentId_key" ON "escrow_transactions"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "escrow_transactions_sellerId_status_idx" ON "escrow_transactions"("sellerId", "status");
+
+-- CreateIndex
+CREATE INDEX "escrow_transactions_status_releaseAt_idx" ON "escrow_transactions"("status", "releaseAt");
+
+-- CreateIndex
+CREATE INDEX "payouts_sellerId_idx" ON "payouts"("sellerId");
+
+-- AddForeignKey
+ALTER TABLE "escrow_transactions" ADD CONSTRAINT "escrow_transactions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "escrow_transactions" ADD CONSTRAINT "escrow_transactions_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "escrow_transactions" ADD CONSTRAINT "escrow_transactions_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "escrow_transactions" ADD CONSTRAINT "escrow_transactions_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
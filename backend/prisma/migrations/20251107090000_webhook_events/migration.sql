@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventResult" AS ENUM ('PROCESSED', 'IGNORED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "webhook_events" (
+    "id" TEXT NOT NULL,
+    "gateway" "PaymentMethod" NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "status" TEXT,
+    "amount" DECIMAL(10,2),
+    "currency" TEXT,
+    "payload" JSONB NOT NULL,
+    "result" "WebhookEventResult" NOT NULL DEFAULT 'PROCESSED',
+    "message" TEXT,
+    "paymentId" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_gateway_eventId_key" ON "webhook_events"("gateway", "eventId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_paymentId_idx" ON "webhook_events"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "webhook_events" ADD CONSTRAINT "webhook_events_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "delivery_assignments" ADD COLUMN     "cashCollected" DECIMAL(10,2),
+ADD COLUMN     "cashCollectedAt" TIMESTAMP(3),
+ADD COLUMN     "cashReconciliationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "cash_reconciliations" (
+    "id" TEXT NOT NULL,
+    "partnerId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "expectedAmount" DECIMAL(10,2) NOT NULL,
+    "collectedAmount" DECIMAL(10,2) NOT NULL,
+    "receivedAmount" DECIMAL(10,2) NOT NULL,
+    "notes" TEXT,
+    "reconciledById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cash_reconciliations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cash_reconciliations_partnerId_date_key" ON "cash_reconciliations"("partnerId", "date");
+
+-- AddForeignKey
+ALTER TABLE "delivery_assignments" ADD CONSTRAINT "delivery_assignments_cashReconciliationId_fkey" FOREIGN KEY ("cashReconciliationId") REFERENCES "cash_reconciliations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_reconciliations" ADD CONSTRAINT "cash_reconciliations_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "delivery_partners"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_reconciliations" ADD CONSTRAINT "cash_reconciliations_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "delivery_assignments" ADD COLUMN     "failedAt" TIMESTAMP(3),
+ADD COLUMN     "inTransitAt" TIMESTAMP(3),
+ADD COLUMN     "outForDeliveryAt" TIMESTAMP(3),
+ADD COLUMN     "pickedUpAt" TIMESTAMP(3);
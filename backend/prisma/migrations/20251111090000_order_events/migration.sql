@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "OrderEventField" AS ENUM ('STATUS', 'DELIVERY_STATUS');
+
+-- CreateTable
+CREATE TABLE "order_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "field" "OrderEventField" NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_events_orderId_createdAt_idx" ON "order_events"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "stockReserved" BOOLEAN NOT NULL DEFAULT false;
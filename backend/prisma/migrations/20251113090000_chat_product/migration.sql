@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chats" ADD COLUMN     "productId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "chats" ADD CONSTRAINT "chats_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
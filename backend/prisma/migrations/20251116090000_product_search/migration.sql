@@ -0,0 +1,111 @@
+-- Trigram matching for typos and accent folding for "Berberé" / "berbere"
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "searchVector" tsvector,
+ADD COLUMN     "searchText" TEXT;
+
+-- Romanize Ethiopic (Ge'ez) script the way Amharic is usually typed in Latin letters, so
+-- "buna" finds ቡና. Syllables come in rows of eight from U+1200: the row gives the
+-- consonant and the position in the row the vowel. The sixth-order vowel is written either
+-- way in practice ("shro" / "shiro" for ሽሮ), so it is a parameter.
+CREATE OR REPLACE FUNCTION geez_to_latin(input TEXT, sixth_vowel TEXT DEFAULT '') RETURNS TEXT AS $$
+DECLARE
+  -- One consonant per row, ሀ (U+1200) to ፐ (U+1350); the glottal rows አ and ዐ have none
+  consonants TEXT[] := ARRAY[
+    'h', 'l', 'h', 'm', 's', 'r', 's', 'sh', 'q', 'q', 'qh', 'qh', 'b', 'v', 't', 'ch',
+    'h', 'h', 'n', 'ny', '', 'k', 'k', 'kh', 'kh', 'w', '', 'z', 'zh', 'y', 'd', 'dd',
+    'j', 'g', 'g', 'gg', 't', 'ch', 'p', 'ts', 'ts', 'f', 'p'
+  ];
+  -- The labialized rows ቈ ቘ ኈ ኰ ዀ ጐ put a w glide before the vowel
+  labialized_rows INT[] := ARRAY[10, 12, 18, 23, 25, 35];
+  vowels TEXT[] := ARRAY['e', 'u', 'i', 'a', 'e', sixth_vowel, 'o', 'wa'];
+  labialized_vowels TEXT[] := ARRAY['we', '', 'wi', 'wa', 'we', 'w', '', ''];
+  glottal_vowels TEXT[] := ARRAY['a', 'u', 'i', 'a', 'e', 'i', 'o', 'wa'];
+  result TEXT := '';
+  ch TEXT;
+  code INT;
+  row_index INT;
+  vowel_index INT;
+BEGIN
+  FOREACH ch IN ARRAY regexp_split_to_array(input, '') LOOP
+    code := ascii(ch);
+
+    IF code BETWEEN 4608 AND 4951 THEN
+      -- Syllables, U+1200 to U+1357
+      row_index := (code - 4608) / 8 + 1;
+      vowel_index := (code - 4608) % 8 + 1;
+
+      IF row_index = ANY (labialized_rows) THEN
+        result := result || consonants[row_index] || labialized_vowels[vowel_index];
+      ELSIF consonants[row_index] = '' THEN
+        result := result || glottal_vowels[vowel_index];
+      ELSE
+        result := result || consonants[row_index] || vowels[vowel_index];
+      END IF;
+    ELSIF code BETWEEN 4961 AND 4968 THEN
+      -- Punctuation, U+1361 (፡ word space) to U+1368, separates words
+      result := result || ' ';
+    ELSE
+      result := result || ch;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+-- A search query as it is matched: Ge'ez romanized, accents and case folded
+CREATE OR REPLACE FUNCTION search_normalize(input TEXT) RETURNS TEXT AS $$
+  SELECT lower(unaccent(geez_to_latin(input)))
+$$ LANGUAGE sql STABLE STRICT;
+
+-- Listing text as it is indexed: like search_normalize, plus the other spelling of the
+-- sixth-order vowel when the text has Ge'ez in it
+CREATE OR REPLACE FUNCTION search_document(input TEXT) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN input ~ '[ሀ-፿]'
+      THEN search_normalize(input) || ' ' || lower(unaccent(geez_to_latin(input, 'i')))
+    ELSE search_normalize(input)
+  END
+$$ LANGUAGE sql STABLE STRICT;
+
+-- Keep the search columns in step with the listing. Recomputed whenever the text changes
+-- or someone writes the search columns directly, so they can't be set by hand.
+CREATE OR REPLACE FUNCTION products_search_update() RETURNS trigger AS $$
+DECLARE
+  tag_text TEXT := coalesce(array_to_string(NEW."tags", ' '), '');
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW."searchVector" IS NOT NULL
+    AND NEW."title" IS NOT DISTINCT FROM OLD."title"
+    AND NEW."description" IS NOT DISTINCT FROM OLD."description"
+    AND NEW."tags" IS NOT DISTINCT FROM OLD."tags"
+    AND NEW."searchVector" IS NOT DISTINCT FROM OLD."searchVector"
+    AND NEW."searchText" IS NOT DISTINCT FROM OLD."searchText" THEN
+    RETURN NEW;
+  END IF;
+
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', search_document(NEW."title")), 'A') ||
+    setweight(to_tsvector('english', search_document(tag_text)), 'B') ||
+    setweight(to_tsvector('english', search_document(coalesce(NEW."description", ''))), 'C');
+  NEW."searchText" := search_document(NEW."title" || ' ' || tag_text);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "products_search_update"
+BEFORE INSERT OR UPDATE ON "products"
+FOR EACH ROW EXECUTE FUNCTION products_search_update();
+
+-- Backfill: the trigger fills in rows whose search columns are still empty
+UPDATE "products" SET "title" = "title";
+
+-- CreateIndex
+CREATE INDEX "products_searchVector_idx" ON "products" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "products_searchText_idx" ON "products" USING GIN ("searchText" gin_trgm_ops);
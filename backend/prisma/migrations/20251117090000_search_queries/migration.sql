@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "search_queries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "query" TEXT NOT NULL,
+    "resultCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "search_queries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_queries_userId_createdAt_idx" ON "search_queries"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "search_queries_query_createdAt_idx" ON "search_queries"("query", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "search_queries" ADD CONSTRAINT "search_queries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -37,14 +37,32 @@ const config = {
     chapa: {
       secretKey: process.env.CHAPA_SECRET_KEY,
       publicKey: process.env.CHAPA_PUBLIC_KEY,
+      webhookSecret: process.env.CHAPA_WEBHOOK_SECRET,
     },
     cbeBirr: {
       apiKey: process.env.CBE_BIRR_API_KEY,
+      webhookSecret: process.env.CBE_BIRR_WEBHOOK_SECRET,
     },
     stripe: {
       secretKey: process.env.STRIPE_SECRET_KEY,
       webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
     },
+    // Local gateway simulator - when set, payment links point here instead of the real gateways
+    simulatorUrl: process.env.PAYMENT_SIMULATOR_URL,
+  },
+  
+  // Escrow: paid orders are held until delivery plus the dispute window
+  escrow: {
+    disputeWindowDays: parseInt(process.env.ESCROW_DISPUTE_WINDOW_DAYS) || 7,
+    releaseIntervalMs: parseInt(process.env.ESCROW_RELEASE_INTERVAL_MS) || 3600000, // 1 hour
+  },
+
+  // Inventory: unpaid orders hold their stock until the payment window closes
+  inventory: {
+    paymentTimeoutMinutes: parseInt(process.env.ORDER_PAYMENT_TIMEOUT_MINUTES) || 60,
+    reservationSweepIntervalMs: parseInt(process.env.RESERVATION_SWEEP_INTERVAL_MS) || 300000, // 5 minutes
+    // Sellers always get in-app stock alerts; emails are opt-in
+    stockAlertEmails: process.env.STOCK_ALERT_EMAILS === 'true',
   },
   
   // File Upload
@@ -52,6 +70,10 @@ const config = {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE) || 10485760, // 10MB
     allowedImageTypes: process.env.ALLOWED_IMAGE_TYPES?.split(',') || ['image/jpeg', 'image/png', 'image/webp'],
     allowedVideoTypes: process.env.ALLOWED_VIDEO_TYPES?.split(',') || ['video/mp4', 'video/webm'],
+    allowedKycTypes: process.env.ALLOWED_KYC_TYPES?.split(',') || ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+    // Private bucket: KYC files are only reachable through short-lived signed URLs
+    kycBucket: process.env.KYC_BUCKET || 'balmuya-kyc',
+    kycUrlExpiresIn: parseInt(process.env.KYC_URL_EXPIRES_IN) || 300, // 5 minutes
   },
   
   // Rate Limiting
@@ -1,9 +1,41 @@
 const express = require('express');
 const prisma = require('../config/database');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { createKycDocumentUrls } = require('../utils/kycStorage');
+const { releaseDueFunds } = require('../utils/escrow');
+const { getDayRange } = require('../utils/cashOnDelivery');
+const { createNotification } = require('../utils/notifications');
+const { messageSelect } = require('../utils/chat');
 
 const router = express.Router();
 
+const REPORT_STATUSES = ['OPEN', 'WARNED', 'SUSPENDED', 'DISMISSED'];
+
+// How each moderation action resolves a report
+const REPORT_ACTIONS = {
+  WARN: 'WARNED',
+  SUSPEND: 'SUSPENDED',
+  DISMISS: 'DISMISSED'
+};
+
+// Messages shown either side of a reported message
+const REPORT_CONTEXT_MESSAGES = 3;
+
+// A delivery with the cash-on-delivery payment the courier was due to collect
+const cashAssignmentInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      payments: {
+        where: { paymentMethod: 'CASH_ON_DELIVERY' },
+        select: { amount: true },
+        take: 1
+      }
+    }
+  }
+};
+
 /**
  * @route   GET /api/admin/users
  * @desc    List all users
@@ -103,6 +135,13 @@ router.put('/users/:id/status', authenticateToken, requireAdmin, async (req, res
       });
     }
 
+    if (id === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot change your own status'
+      });
+    }
+
     // Check if user exists
     const user = await prisma.user.findUnique({
       where: { id },
@@ -165,7 +204,16 @@ router.get('/kyc-applications', authenticateToken, requireAdmin, async (req, res
     const [kycApplications, totalApplications] = await Promise.all([
       prisma.kycDocument.findMany({
         where,
-        include: {
+        // Storage paths stay server-side; files are viewed through GET /kyc/:id/documents
+        select: {
+          id: true,
+          userId: true,
+          personalInfo: true,
+          status: true,
+          submittedAt: true,
+          reviewedAt: true,
+          reviewedBy: true,
+          rejectionReason: true,
           user: {
             select: {
               id: true,
@@ -175,6 +223,16 @@ router.get('/kyc-applications', authenticateToken, requireAdmin, async (req, res
               storeName: true,
               createdAt: true
             }
+          },
+          reviewer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true
+            }
+          },
+          _count: {
+            select: { accessLogs: true }
           }
         },
         orderBy: { submittedAt: 'desc' },
@@ -206,6 +264,118 @@ router.get('/kyc-applications', authenticateToken, requireAdmin, async (req, res
   }
 });
 
+/**
+ * @route   GET /api/admin/kyc/:id/documents
+ * @desc    Get short-lived signed URLs for a KYC application's files (logged)
+ * @access  Private (Admin)
+ */
+router.get('/kyc/:id/documents', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const kycDocument = await prisma.kycDocument.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        idCard: true,
+        selfieWithId: true,
+        proofOfAddress: true
+      }
+    });
+
+    if (!kycDocument) {
+      return res.status(404).json({
+        success: false,
+        message: 'KYC application not found'
+      });
+    }
+
+    const documents = await createKycDocumentUrls(kycDocument);
+
+    // Every view is recorded, whether or not this admin ends up reviewing
+    await prisma.kycAccessLog.create({
+      data: {
+        kycDocumentId: id,
+        adminId: req.user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      data: documents
+    });
+
+  } catch (error) {
+    console.error('Get KYC documents error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/kyc/:id/access-log
+ * @desc    Who viewed a KYC application's files, and who reviewed it
+ * @access  Private (Admin)
+ */
+router.get('/kyc/:id/access-log', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const kycDocument = await prisma.kycDocument.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        reviewedAt: true,
+        reviewer: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true
+          }
+        },
+        accessLogs: {
+          select: {
+            id: true,
+            ipAddress: true,
+            accessedAt: true,
+            admin: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true
+              }
+            }
+          },
+          orderBy: { accessedAt: 'desc' }
+        }
+      }
+    });
+
+    if (!kycDocument) {
+      return res.status(404).json({
+        success: false,
+        message: 'KYC application not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: kycDocument
+    });
+
+  } catch (error) {
+    console.error('Get KYC access log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   PUT /api/admin/kyc/:id/status
  * @desc    Approve/Reject KYC
@@ -252,6 +422,19 @@ router.put('/kyc/:id/status', authenticateToken, requireAdmin, async (req, res)
       });
     }
 
+    // The reviewer must have opened the documents, so reviewedBy always has a matching access log entry
+    const viewed = await prisma.kycAccessLog.findFirst({
+      where: { kycDocumentId: id, adminId: req.user.id },
+      select: { id: true }
+    });
+
+    if (!viewed) {
+      return res.status(409).json({
+        success: false,
+        message: 'Open the documents before reviewing this application'
+      });
+    }
+
     // Update KYC status
     const updatedKyc = await prisma.kycDocument.update({
       where: { id },
@@ -305,7 +488,8 @@ router.get('/orders', authenticateToken, requireAdmin, async (req, res) => {
       status,
       paymentStatus,
       dateFrom,
-      dateTo
+      dateTo,
+      search
     } = req.query;
 
     const skip = (parseInt(page) - 1) * parseInt(limit);
@@ -327,6 +511,14 @@ router.get('/orders', authenticateToken, requireAdmin, async (req, res) => {
       if (dateTo) where.createdAt.lte = new Date(dateTo);
     }
 
+    if (search) {
+      where.OR = [
+        { orderNumber: { contains: search, mode: 'insensitive' } },
+        { buyer: { email: { contains: search, mode: 'insensitive' } } },
+        { seller: { storeName: { contains: search, mode: 'insensitive' } } }
+      ];
+    }
+
     const [orders, totalOrders] = await Promise.all([
       prisma.order.findMany({
         where,
@@ -357,6 +549,24 @@ router.get('/orders', authenticateToken, requireAdmin, async (req, res) => {
               quantity: true,
               price: true
             }
+          },
+          events: {
+            select: {
+              id: true,
+              field: true,
+              fromStatus: true,
+              toStatus: true,
+              note: true,
+              createdAt: true,
+              actor: {
+                select: {
+                  firstName: true,
+                  lastName: true,
+                  role: true
+                }
+              }
+            },
+            orderBy: { createdAt: 'asc' }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -493,7 +703,8 @@ router.get('/dashboard', authenticateToken, requireAdmin, async (req, res) => {
     };
 
     kycStats.forEach(stat => {
-      const status = stat.status.toLowerCase();
+      // UNDER_REVIEW -> underReview
+      const status = stat.status.toLowerCase().replace(/_(\w)/g, (_, letter) => letter.toUpperCase());
       if (kycStatsFormatted.hasOwnProperty(status)) {
         kycStatsFormatted[status] = stat._count.id;
       }
@@ -637,6 +848,30 @@ router.put('/categories/:id', authenticateToken, requireAdmin, async (req, res)
     const { id } = req.params;
     const { name, description, image, parentId, isActive } = req.body;
 
+    // A category cannot be moved under itself or one of its descendants
+    if (parentId) {
+      let ancestorId = parentId;
+      while (ancestorId) {
+        if (ancestorId === id) {
+          return res.status(400).json({
+            success: false,
+            message: 'A category cannot be nested under itself'
+          });
+        }
+        const ancestor = await prisma.category.findUnique({
+          where: { id: ancestorId },
+          select: { parentId: true }
+        });
+        if (!ancestor) {
+          return res.status(404).json({
+            success: false,
+            message: 'Parent category not found'
+          });
+        }
+        ancestorId = ancestor.parentId;
+      }
+    }
+
     const category = await prisma.category.update({
       where: { id },
       data: {
@@ -662,6 +897,13 @@ router.put('/categories/:id', authenticateToken, requireAdmin, async (req, res)
       });
     }
 
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'Category name already exists'
+      });
+    }
+
     console.error('Update category error:', error);
     res.status(500).json({
       success: false,
@@ -670,4 +912,643 @@ router.put('/categories/:id', authenticateToken, requireAdmin, async (req, res)
   }
 });
 
+/**
+ * @route   DELETE /api/admin/categories/:id
+ * @desc    Delete an empty category
+ * @access  Private (Admin)
+ */
+router.delete('/categories/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const category = await prisma.category.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { products: true, children: true }
+        }
+      }
+    });
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    if (category._count.products > 0 || category._count.children > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Move its products and subcategories before deleting this category'
+      });
+    }
+
+    await prisma.category.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Category deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete category error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/payouts
+ * @desc    Get sellers with released escrow funds and recent payouts
+ * @access  Private (Admin)
+ */
+router.get('/payouts', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    await releaseDueFunds();
+
+    const [available, recentPayouts] = await Promise.all([
+      prisma.escrowTransaction.groupBy({
+        by: ['sellerId'],
+        where: { status: 'RELEASED' },
+        _sum: { amount: true },
+        _count: { id: true }
+      }),
+      prisma.payout.findMany({
+        select: {
+          id: true,
+          amount: true,
+          reference: true,
+          createdAt: true,
+          seller: {
+            select: { id: true, firstName: true, lastName: true, storeName: true }
+          },
+          paidBy: {
+            select: { firstName: true, lastName: true }
+          },
+          _count: { select: { escrowTransactions: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 20
+      })
+    ]);
+
+    const sellers = await prisma.user.findMany({
+      where: { id: { in: available.map(group => group.sellerId) } },
+      select: { id: true, firstName: true, lastName: true, email: true, storeName: true }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        pending: available.map(group => ({
+          seller: sellers.find(seller => seller.id === group.sellerId),
+          amount: parseFloat(group._sum.amount || 0),
+          orderCount: group._count.id
+        })),
+        recentPayouts
+      }
+    });
+
+  } catch (error) {
+    console.error('Get payouts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/payouts
+ * @desc    Record a transfer of a seller's released funds
+ * @access  Private (Admin)
+ */
+router.post('/payouts', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { sellerId, reference } = req.body;
+
+    if (!sellerId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Seller ID is required'
+      });
+    }
+
+    await releaseDueFunds(sellerId);
+
+    const payout = await prisma.$transaction(async (tx) => {
+      const entries = await tx.escrowTransaction.findMany({
+        where: { sellerId, status: 'RELEASED' },
+        select: { id: true, amount: true }
+      });
+
+      if (entries.length === 0) {
+        return null;
+      }
+
+      const created = await tx.payout.create({
+        data: {
+          sellerId,
+          amount: entries.reduce((sum, entry) => sum + parseFloat(entry.amount), 0),
+          reference: reference || null,
+          paidById: req.user.id
+        }
+      });
+
+      // Only entries still RELEASED move, so a concurrent payout cannot pay them twice
+      const { count } = await tx.escrowTransaction.updateMany({
+        where: { id: { in: entries.map(entry => entry.id) }, status: 'RELEASED' },
+        data: { status: 'PAID_OUT', payoutId: created.id }
+      });
+
+      if (count !== entries.length) {
+        throw new Error('Escrow entries changed during payout');
+      }
+
+      return created;
+    });
+
+    if (!payout) {
+      return res.status(400).json({
+        success: false,
+        message: 'This seller has no released funds to pay out'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Payout recorded successfully',
+      data: payout
+    });
+
+  } catch (error) {
+    console.error('Create payout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/cash-reconciliation
+ * @desc    Get each courier's cash-on-delivery collections for a day (?date=YYYY-MM-DD, default today)
+ * @access  Private (Admin)
+ */
+router.get('/cash-reconciliation', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const date = req.query.date || new Date().toISOString().slice(0, 10);
+    const range = getDayRange(date);
+
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date must be in YYYY-MM-DD format'
+      });
+    }
+
+    const [assignments, reconciliations] = await Promise.all([
+      prisma.deliveryAssignment.findMany({
+        where: {
+          partnerId: { not: null },
+          cashCollectedAt: { gte: range.start, lt: range.end }
+        },
+        include: cashAssignmentInclude,
+        orderBy: { cashCollectedAt: 'asc' }
+      }),
+      prisma.cashReconciliation.findMany({
+        where: { date: range.start },
+        include: {
+          reconciledBy: {
+            select: { firstName: true, lastName: true }
+          }
+        }
+      })
+    ]);
+
+    const partners = await prisma.deliveryPartner.findMany({
+      where: {
+        id: {
+          in: [...new Set([
+            ...assignments.map(assignment => assignment.partnerId),
+            ...reconciliations.map(reconciliation => reconciliation.partnerId)
+          ])]
+        }
+      },
+      select: {
+        id: true,
+        vehicleType: true,
+        user: {
+          select: { firstName: true, lastName: true, phone: true }
+        }
+      }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        date,
+        couriers: partners.map(partner => {
+          const deliveries = assignments.filter(assignment => assignment.partnerId === partner.id);
+          const totals = getCashTotals(deliveries);
+
+          return {
+            partner,
+            ...totals,
+            deliveries: deliveries.map(assignment => ({
+              id: assignment.id,
+              orderId: assignment.order.id,
+              orderNumber: assignment.order.orderNumber,
+              expected: parseFloat(assignment.order.payments[0]?.amount || 0),
+              collected: parseFloat(assignment.cashCollected || 0),
+              collectedAt: assignment.cashCollectedAt
+            })),
+            reconciliation: reconciliations.find(reconciliation => reconciliation.partnerId === partner.id) || null
+          };
+        })
+      }
+    });
+
+  } catch (error) {
+    console.error('Get cash reconciliation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/cash-reconciliation
+ * @desc    Record the cash a courier handed in for a day's cash-on-delivery orders
+ * @access  Private (Admin)
+ */
+router.post('/cash-reconciliation', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { partnerId, date, receivedAmount, notes } = req.body;
+    const range = getDayRange(date);
+    const received = parseFloat(receivedAmount);
+
+    if (!partnerId || !range) {
+      return res.status(400).json({
+        success: false,
+        message: 'Courier and date (YYYY-MM-DD) are required'
+      });
+    }
+
+    if (!Number.isFinite(received) || received < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Received amount must be zero or more'
+      });
+    }
+
+    const reconciliation = await prisma.$transaction(async (tx) => {
+      const assignments = await tx.deliveryAssignment.findMany({
+        where: {
+          partnerId,
+          cashCollectedAt: { gte: range.start, lt: range.end },
+          cashReconciliationId: null
+        },
+        include: cashAssignmentInclude
+      });
+
+      if (assignments.length === 0) {
+        return null;
+      }
+
+      const totals = getCashTotals(assignments);
+
+      const created = await tx.cashReconciliation.create({
+        data: {
+          partnerId,
+          date: range.start,
+          expectedAmount: totals.expected,
+          collectedAmount: totals.collected,
+          receivedAmount: received,
+          notes: notes || null,
+          reconciledById: req.user.id
+        }
+      });
+
+      await tx.deliveryAssignment.updateMany({
+        where: { id: { in: assignments.map(assignment => assignment.id) } },
+        data: { cashReconciliationId: created.id }
+      });
+
+      return created;
+    });
+
+    if (!reconciliation) {
+      return res.status(400).json({
+        success: false,
+        message: 'This courier has no cash to reconcile for that day'
+      });
+    }
+
+    const shortfall = parseFloat(reconciliation.expectedAmount) - received;
+
+    res.status(201).json({
+      success: true,
+      message: Math.abs(shortfall) < 0.005
+        ? 'Cash reconciled'
+        : `Cash reconciled with a ${shortfall > 0 ? 'shortfall' : 'surplus'} of ETB ${Math.abs(shortfall).toFixed(2)}`,
+      data: reconciliation
+    });
+
+  } catch (error) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'Cash for this courier and day is already reconciled'
+      });
+    }
+
+    console.error('Reconcile cash error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/reports
+ * @desc    Moderation queue: reported users and messages, with the conversation around each message
+ * @access  Private (Admin)
+ */
+router.get('/reports', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { page = 1, limit = 20, status = 'OPEN' } = req.query;
+
+    if (!REPORT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid status'
+      });
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+    const where = { status };
+
+    const [reports, totalReports] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        select: {
+          id: true,
+          category: true,
+          details: true,
+          status: true,
+          resolutionNote: true,
+          resolvedAt: true,
+          createdAt: true,
+          messageId: true,
+          reporter: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true
+            }
+          },
+          reportedUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              storeName: true,
+              role: true,
+              status: true,
+              warningCount: true,
+              _count: {
+                select: { reportsReceived: true }
+              }
+            }
+          },
+          resolvedBy: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true
+            }
+          }
+        },
+        // Oldest open reports first; resolved ones newest first
+        orderBy: { createdAt: status === 'OPEN' ? 'asc' : 'desc' },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.report.count({ where })
+    ]);
+
+    const withContext = await Promise.all(reports.map(async ({ messageId, reportedUser, ...report }) => ({
+      ...report,
+      reportedUser: {
+        id: reportedUser.id,
+        firstName: reportedUser.firstName,
+        lastName: reportedUser.lastName,
+        email: reportedUser.email,
+        storeName: reportedUser.storeName,
+        role: reportedUser.role,
+        status: reportedUser.status,
+        warningCount: reportedUser.warningCount,
+        reportCount: reportedUser._count.reportsReceived
+      },
+      messageId,
+      context: messageId ? await getMessageContext(messageId) : []
+    })));
+
+    res.json({
+      success: true,
+      data: {
+        reports: withContext,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total: totalReports,
+          totalPages: Math.ceil(totalReports / parseInt(limit))
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/admin/reports/:id
+ * @desc    Resolve a report by warning or suspending the reported user, or dismissing it
+ * @access  Private (Admin)
+ */
+router.put('/reports/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { action, note } = req.body;
+
+    const status = REPORT_ACTIONS[action];
+    if (!status) {
+      return res.status(400).json({
+        success: false,
+        message: `Action must be one of: ${Object.keys(REPORT_ACTIONS).join(', ')}`
+      });
+    }
+
+    if (action === 'WARN' && !note?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A warning needs a note for the user'
+      });
+    }
+
+    const report = await prisma.report.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        reporterId: true,
+        reportedUserId: true,
+        status: true,
+        reportedUser: {
+          select: { role: true }
+        }
+      }
+    });
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (action === 'SUSPEND' && report.reportedUser.role === 'ADMIN') {
+      return res.status(400).json({
+        success: false,
+        message: 'Admins cannot be suspended from the moderation queue'
+      });
+    }
+
+    const resolved = await prisma.$transaction(async (tx) => {
+      // Two moderators acting on the same report: only the first one wins
+      const { count } = await tx.report.updateMany({
+        where: { id, status: 'OPEN' },
+        data: {
+          status,
+          resolvedById: req.user.id,
+          resolutionNote: note?.trim() || null,
+          resolvedAt: new Date()
+        }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      if (action === 'WARN') {
+        await tx.user.update({
+          where: { id: report.reportedUserId },
+          data: { warningCount: { increment: 1 } }
+        });
+
+        await createNotification(report.reportedUserId, {
+          type: 'MODERATION',
+          title: 'Warning from Balmuya',
+          message: note.trim(),
+          data: { reportId: id }
+        }, tx);
+      } else if (action === 'SUSPEND') {
+        await tx.user.update({
+          where: { id: report.reportedUserId },
+          data: { status: 'SUSPENDED' }
+        });
+      }
+
+      await createNotification(report.reporterId, {
+        type: 'MODERATION',
+        title: 'Your report was reviewed',
+        message: action === 'DISMISS'
+          ? 'We reviewed your report and found no violation of our rules.'
+          : 'We reviewed your report and took action. Thank you for helping keep Balmuya safe.',
+        data: { reportId: id }
+      }, tx);
+
+      return true;
+    });
+
+    if (!resolved) {
+      return res.status(409).json({
+        success: false,
+        message: 'This report has already been resolved'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Report ${status.toLowerCase()}`,
+      data: { id, status }
+    });
+
+  } catch (error) {
+    console.error('Resolve report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Helper functions
+
+/**
+ * What a courier should have collected (the COD payment amounts) against what they recorded
+ */
+function getCashTotals(assignments) {
+  return {
+    expected: assignments.reduce((sum, assignment) => sum + parseFloat(assignment.order.payments[0]?.amount || 0), 0),
+    collected: assignments.reduce((sum, assignment) => sum + parseFloat(assignment.cashCollected || 0), 0),
+    unreconciled: assignments.filter(assignment => !assignment.cashReconciliationId).length
+  };
+}
+
+/**
+ * A reported message with the messages sent just before and after it, oldest first
+ */
+async function getMessageContext(messageId) {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    select: messageSelect
+  });
+
+  if (!message) {
+    return [];
+  }
+
+  const [before, after] = await Promise.all([
+    prisma.message.findMany({
+      where: { chatId: message.chatId, createdAt: { lt: message.createdAt } },
+      select: messageSelect,
+      orderBy: { createdAt: 'desc' },
+      take: REPORT_CONTEXT_MESSAGES
+    }),
+    prisma.message.findMany({
+      where: { chatId: message.chatId, createdAt: { gt: message.createdAt } },
+      select: messageSelect,
+      orderBy: { createdAt: 'asc' },
+      take: REPORT_CONTEXT_MESSAGES
+    })
+  ]);
+
+  return [...before.reverse(), message, ...after];
+}
+
 module.exports = router;
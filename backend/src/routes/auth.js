@@ -2,7 +2,7 @@ const express = require('express');
 const bcrypt = require('bcryptjs');
 const validator = require('validator');
 const prisma = require('../config/database');
-const { generateTokenPair, generateEmailVerificationToken, generatePasswordResetToken, verifyAccessToken } = require('../utils/jwt');
+const { generateTokenPair, generateEmailVerificationToken, generatePasswordResetToken, verifyAccessToken, verifyRefreshToken } = require('../utils/jwt');
 const { sendEmailVerification, sendPasswordReset, sendWelcomeEmail } = require('../utils/email');
 const { authenticateToken } = require('../middleware/auth');
 const jwt = require('jsonwebtoken');
@@ -397,6 +397,70 @@ router.post('/reset-password', async (req, res) => {
   }
 });
 
+/**
+ * @route   POST /api/auth/change-password
+ * @desc    Change password for the logged-in user
+ * @access  Private
+ */
+router.post('/change-password', authenticateToken, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Current password and new password are required'
+      });
+    }
+
+    if (newPassword.length < 6) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password must be at least 6 characters long'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, password: true }
+    });
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+    if (!isPasswordValid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Current password is incorrect'
+      });
+    }
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      return res.status(400).json({
+        success: false,
+        message: 'New password must be different from the current password'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword }
+    });
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully'
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   POST /api/auth/refresh-token
  * @desc    Refresh access token
@@ -414,7 +478,7 @@ router.post('/refresh-token', async (req, res) => {
     }
 
     // Verify refresh token
-    const decoded = verifyAccessToken(refreshToken);
+    const decoded = verifyRefreshToken(refreshToken);
 
     // Get user
     const user = await prisma.user.findUnique({
@@ -444,7 +508,10 @@ router.post('/refresh-token', async (req, res) => {
     res.json({
       success: true,
       message: 'Token refreshed successfully',
-      data: { tokens }
+      data: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken
+      }
     });
 
   } catch (error) {
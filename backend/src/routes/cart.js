@@ -0,0 +1,465 @@
+const express = require('express');
+const prisma = require('../config/database');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+const cartProductSelect = {
+  id: true,
+  title: true,
+  price: true,
+  comparePrice: true,
+  images: true,
+  quantity: true,
+  trackQuantity: true,
+  allowBackorder: true,
+  isPublished: true,
+  status: true,
+  seller: {
+    select: {
+      id: true,
+      storeName: true,
+      firstName: true,
+      lastName: true
+    }
+  }
+};
+
+/**
+ * Maximum quantity that can be bought for a product (null when unlimited)
+ */
+const getMaxQuantity = (product) => {
+  if (!product.trackQuantity || product.allowBackorder) {
+    return null;
+  }
+  return Math.max(product.quantity, 0);
+};
+
+/**
+ * Check a product can be added to the cart at the given quantity
+ */
+const checkAvailability = (product, quantity) => {
+  if (!product || !product.isPublished || product.status !== 'PUBLISHED') {
+    return 'Product not found or not available';
+  }
+
+  const maxQuantity = getMaxQuantity(product);
+  if (maxQuantity !== null && quantity > maxQuantity) {
+    return maxQuantity === 0
+      ? `${product.title} is out of stock`
+      : `Only ${maxQuantity} of ${product.title} left in stock`;
+  }
+
+  return null;
+};
+
+/**
+ * Load the user's cart, re-validating each row against current stock and price.
+ * Saved prices are refreshed after the comparison so a change is reported once.
+ */
+const buildCart = async (userId) => {
+  const cartItems = await prisma.cartItem.findMany({
+    where: { userId },
+    include: {
+      product: { select: cartProductSelect }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const priceUpdates = [];
+
+  const items = cartItems.map(item => {
+    const { product } = item;
+    const currentPrice = parseFloat(product.price);
+    const savedPrice = parseFloat(item.price);
+    const maxQuantity = getMaxQuantity(product);
+    const issues = [];
+
+    const isAvailable = product.isPublished && product.status === 'PUBLISHED';
+    if (!isAvailable) {
+      issues.push('UNAVAILABLE');
+    } else if (maxQuantity === 0) {
+      issues.push('OUT_OF_STOCK');
+    } else if (maxQuantity !== null && item.quantity > maxQuantity) {
+      issues.push('INSUFFICIENT_STOCK');
+    }
+
+    if (currentPrice !== savedPrice) {
+      issues.push('PRICE_CHANGED');
+      priceUpdates.push(
+        prisma.cartItem.update({
+          where: { id: item.id },
+          data: { price: product.price }
+        })
+      );
+    }
+
+    return {
+      id: item.id,
+      productId: product.id,
+      quantity: item.quantity,
+      price: currentPrice,
+      previousPrice: currentPrice !== savedPrice ? savedPrice : null,
+      availableQuantity: maxQuantity,
+      issues,
+      product: {
+        id: product.id,
+        title: product.title,
+        price: currentPrice,
+        comparePrice: product.comparePrice ? parseFloat(product.comparePrice) : null,
+        image: product.images[0] || null
+      },
+      seller: {
+        id: product.seller.id,
+        storeName: product.seller.storeName || `${product.seller.firstName} ${product.seller.lastName}`
+      },
+      addedAt: item.createdAt
+    };
+  });
+
+  if (priceUpdates.length > 0) {
+    await prisma.$transaction(priceUpdates);
+  }
+
+  const purchasable = items.filter(item =>
+    !item.issues.includes('UNAVAILABLE') && !item.issues.includes('OUT_OF_STOCK')
+  );
+
+  return {
+    items,
+    summary: {
+      itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+      sellerCount: new Set(items.map(item => item.seller.id)).size,
+      subtotal: purchasable.reduce((sum, item) => sum + item.price * item.quantity, 0),
+      hasIssues: items.some(item => item.issues.some(issue => issue !== 'PRICE_CHANGED'))
+    }
+  };
+};
+
+/**
+ * @route   GET /api/cart
+ * @desc    Get user's cart with stock and price re-validation
+ * @access  Private
+ */
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const cart = await buildCart(req.user.id);
+
+    res.json({
+      success: true,
+      data: cart
+    });
+
+  } catch (error) {
+    console.error('Get cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/cart/items
+ * @desc    Add product to cart (adds to the quantity already in the cart)
+ * @access  Private
+ */
+router.post('/items', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.body;
+    const quantity = parseInt(req.body.quantity ?? 1);
+
+    if (!productId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Product ID is required'
+      });
+    }
+
+    if (isNaN(quantity) || quantity < 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity must be a positive integer'
+      });
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: cartProductSelect
+    });
+
+    if (product && product.seller.id === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot add your own product to the cart'
+      });
+    }
+
+    const existingItem = await prisma.cartItem.findUnique({
+      where: {
+        userId_productId: { userId: req.user.id, productId }
+      }
+    });
+
+    const newQuantity = (existingItem?.quantity || 0) + quantity;
+    const availabilityError = checkAvailability(product, newQuantity);
+
+    if (availabilityError) {
+      return res.status(product ? 400 : 404).json({
+        success: false,
+        message: availabilityError
+      });
+    }
+
+    await prisma.cartItem.upsert({
+      where: {
+        userId_productId: { userId: req.user.id, productId }
+      },
+      update: {
+        quantity: newQuantity,
+        price: product.price
+      },
+      create: {
+        userId: req.user.id,
+        productId,
+        quantity,
+        price: product.price
+      }
+    });
+
+    const cart = await buildCart(req.user.id);
+
+    res.status(existingItem ? 200 : 201).json({
+      success: true,
+      message: 'Product added to cart',
+      data: cart
+    });
+
+  } catch (error) {
+    console.error('Add to cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/cart/items/:productId
+ * @desc    Change quantity of a cart item
+ * @access  Private
+ */
+router.put('/items/:productId', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const quantity = parseInt(req.body.quantity);
+
+    if (isNaN(quantity) || quantity < 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity must be a positive integer'
+      });
+    }
+
+    const cartItem = await prisma.cartItem.findUnique({
+      where: {
+        userId_productId: { userId: req.user.id, productId }
+      },
+      include: {
+        product: { select: cartProductSelect }
+      }
+    });
+
+    if (!cartItem) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in cart'
+      });
+    }
+
+    const availabilityError = checkAvailability(cartItem.product, quantity);
+    if (availabilityError) {
+      return res.status(400).json({
+        success: false,
+        message: availabilityError
+      });
+    }
+
+    await prisma.cartItem.update({
+      where: { id: cartItem.id },
+      data: { quantity }
+    });
+
+    const cart = await buildCart(req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Cart updated',
+      data: cart
+    });
+
+  } catch (error) {
+    console.error('Update cart item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/cart/items/:productId
+ * @desc    Remove product from cart
+ * @access  Private
+ */
+router.delete('/items/:productId', authenticateToken, async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    const { count } = await prisma.cartItem.deleteMany({
+      where: {
+        userId: req.user.id,
+        productId
+      }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found in cart'
+      });
+    }
+
+    const cart = await buildCart(req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Product removed from cart',
+      data: cart
+    });
+
+  } catch (error) {
+    console.error('Remove from cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/cart
+ * @desc    Clear entire cart
+ * @access  Private
+ */
+router.delete('/', authenticateToken, async (req, res) => {
+  try {
+    await prisma.cartItem.deleteMany({
+      where: { userId: req.user.id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Cart cleared successfully'
+    });
+
+  } catch (error) {
+    console.error('Clear cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/cart/merge
+ * @desc    Merge an anonymous (localStorage) cart into the user's cart
+ * @access  Private
+ */
+router.post('/merge', authenticateToken, async (req, res) => {
+  try {
+    const { items } = req.body;
+
+    if (!Array.isArray(items)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Items must be an array'
+      });
+    }
+
+    const validItems = items.filter(item =>
+      item && item.productId && parseInt(item.quantity) > 0
+    );
+
+    const [products, existingItems] = await Promise.all([
+      prisma.product.findMany({
+        where: { id: { in: validItems.map(item => item.productId) } },
+        select: cartProductSelect
+      }),
+      prisma.cartItem.findMany({
+        where: { userId: req.user.id }
+      })
+    ]);
+
+    const adjustments = [];
+    const upserts = [];
+
+    for (const item of validItems) {
+      const product = products.find(p => p.id === item.productId);
+      const existingItem = existingItems.find(i => i.productId === item.productId);
+
+      if (!product || product.seller.id === req.user.id || checkAvailability(product, 1)) {
+        adjustments.push({ productId: item.productId, reason: 'UNAVAILABLE' });
+        continue;
+      }
+
+      // Clamp to what is in stock rather than dropping the item
+      const maxQuantity = getMaxQuantity(product);
+      let quantity = (existingItem?.quantity || 0) + parseInt(item.quantity);
+      if (maxQuantity !== null && quantity > maxQuantity) {
+        quantity = maxQuantity;
+        adjustments.push({ productId: item.productId, reason: 'INSUFFICIENT_STOCK' });
+      }
+
+      upserts.push(
+        prisma.cartItem.upsert({
+          where: {
+            userId_productId: { userId: req.user.id, productId: product.id }
+          },
+          update: { quantity, price: product.price },
+          create: {
+            userId: req.user.id,
+            productId: product.id,
+            quantity,
+            price: product.price
+          }
+        })
+      );
+    }
+
+    if (upserts.length > 0) {
+      await prisma.$transaction(upserts);
+    }
+
+    const cart = await buildCart(req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Cart merged successfully',
+      data: {
+        ...cart,
+        adjustments
+      }
+    });
+
+  } catch (error) {
+    console.error('Merge cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
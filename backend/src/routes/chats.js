@@ -1,9 +1,109 @@
 const express = require('express');
 const prisma = require('../config/database');
 const { authenticateToken } = require('../middleware/auth');
+const config = require('../config');
+const { openStream, publish, isOnline } = require('../utils/chatEvents');
+const { messageSelect, createChatMessage, publishChatMessages, getOrderCard } = require('../utils/chat');
+const { getBlockBetween, blockUser, unblockUser } = require('../utils/blocks');
 
 const router = express.Router();
 
+// Message types users can send; SYSTEM messages only come from the platform
+const USER_MESSAGE_TYPES = ['TEXT', 'IMAGE', 'ORDER_UPDATE'];
+
+// Chat fields shared by the chat list and single chat endpoints
+const chatSelect = {
+  id: true,
+  status: true,
+  lastMessageAt: true,
+  createdAt: true,
+  participant1: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      avatar: true,
+      storeName: true
+    }
+  },
+  participant2: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      avatar: true,
+      storeName: true
+    }
+  },
+  product: {
+    select: {
+      id: true,
+      title: true,
+      price: true,
+      images: true,
+      sellerId: true
+    }
+  },
+  messages: {
+    select: {
+      id: true,
+      content: true,
+      type: true,
+      isRead: true,
+      createdAt: true,
+      sender: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true
+        }
+      }
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 1
+  }
+};
+
+/**
+ * Format a chat from the current user's point of view. blockedByMe tells the
+ * blocker, who alone can reopen a BLOCKED chat, apart from the blocked user.
+ */
+const formatChat = (chat, userId, { unreadCount = 0, blockedByMe = false } = {}) => {
+  const otherParticipant = chat.participant1.id === userId
+    ? chat.participant2
+    : chat.participant1;
+
+  const lastMessage = chat.messages[0] || null;
+
+  return {
+    id: chat.id,
+    status: chat.status,
+    lastMessageAt: chat.lastMessageAt,
+    createdAt: chat.createdAt,
+    otherParticipant: {
+      id: otherParticipant.id,
+      name: `${otherParticipant.firstName} ${otherParticipant.lastName}`,
+      avatar: otherParticipant.avatar,
+      storeName: otherParticipant.storeName,
+      isOnline: isOnline(otherParticipant.id)
+    },
+    product: chat.product,
+    unreadCount,
+    blockedByMe,
+    lastMessage: lastMessage ? {
+      id: lastMessage.id,
+      content: lastMessage.content,
+      type: lastMessage.type,
+      isRead: lastMessage.isRead,
+      createdAt: lastMessage.createdAt,
+      sender: {
+        id: lastMessage.sender.id,
+        name: `${lastMessage.sender.firstName} ${lastMessage.sender.lastName}`
+      }
+    } : null
+  };
+};
+
 /**
  * @route   GET /api/chats
  * @desc    Get all user chats
@@ -22,47 +122,7 @@ router.get('/', authenticateToken, async (req, res) => {
             { participant2Id: req.user.id }
           ]
         },
-        select: {
-          id: true,
-          status: true,
-          lastMessageAt: true,
-          createdAt: true,
-          participant1: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true,
-              storeName: true
-            }
-          },
-          participant2: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true,
-              storeName: true
-            }
-          },
-          messages: {
-            select: {
-              id: true,
-              content: true,
-              isRead: true,
-              createdAt: true,
-              sender: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true
-                }
-              }
-            },
-            orderBy: { createdAt: 'desc' },
-            take: 1
-          }
-        },
+        select: chatSelect,
         orderBy: { lastMessageAt: 'desc' },
         skip,
         take: parseInt(limit)
@@ -77,37 +137,28 @@ router.get('/', authenticateToken, async (req, res) => {
       })
     ]);
 
-    // Format chats with other participant info
-    const formattedChats = chats.map(chat => {
-      const otherParticipant = chat.participant1.id === req.user.id 
-        ? chat.participant2 
-        : chat.participant1;
-      
-      const lastMessage = chat.messages[0] || null;
-
-      return {
-        id: chat.id,
-        status: chat.status,
-        lastMessageAt: chat.lastMessageAt,
-        createdAt: chat.createdAt,
-        otherParticipant: {
-          id: otherParticipant.id,
-          name: `${otherParticipant.firstName} ${otherParticipant.lastName}`,
-          avatar: otherParticipant.avatar,
-          storeName: otherParticipant.storeName
-        },
-        lastMessage: lastMessage ? {
-          id: lastMessage.id,
-          content: lastMessage.content,
-          isRead: lastMessage.isRead,
-          createdAt: lastMessage.createdAt,
-          sender: {
-            id: lastMessage.sender.id,
-            name: `${lastMessage.sender.firstName} ${lastMessage.sender.lastName}`
-          }
-        } : null
-      };
+    const unread = await prisma.message.groupBy({
+      by: ['chatId'],
+      where: {
+        chatId: { in: chats.map(chat => chat.id) },
+        receiverId: req.user.id,
+        isRead: false
+      },
+      _count: { id: true }
+    });
+    const unreadByChat = new Map(unread.map(row => [row.chatId, row._count.id]));
+
+    const blocks = await prisma.userBlock.findMany({
+      where: { blockerId: req.user.id },
+      select: { blockedId: true }
     });
+    const blockedIds = new Set(blocks.map(block => block.blockedId));
+
+    // Format chats with other participant info
+    const formattedChats = chats.map(chat => formatChat(chat, req.user.id, {
+      unreadCount: unreadByChat.get(chat.id) || 0,
+      blockedByMe: blockedIds.has(chat.participant1.id) || blockedIds.has(chat.participant2.id)
+    }));
 
     res.json({
       success: true,
@@ -138,7 +189,7 @@ router.get('/', authenticateToken, async (req, res) => {
  */
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { participantId } = req.body;
+    const { participantId, productId } = req.body;
 
     if (!participantId) {
       return res.status(400).json({
@@ -167,6 +218,31 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
 
+    if (await getBlockBetween(req.user.id, participantId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot message this user'
+      });
+    }
+
+    // A chat started from a product page carries that product as context
+    if (productId) {
+      const product = await prisma.product.findFirst({
+        where: {
+          id: productId,
+          sellerId: { in: [req.user.id, participantId] }
+        },
+        select: { id: true }
+      });
+
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: 'Product not found'
+        });
+      }
+    }
+
     // Check if chat already exists
     const existingChat = await prisma.chat.findFirst({
       where: {
@@ -178,6 +254,14 @@ router.post('/', authenticateToken, async (req, res) => {
     });
 
     if (existingChat) {
+      // Asking about another product moves the existing conversation on to it
+      if (productId && existingChat.productId !== productId) {
+        await prisma.chat.update({
+          where: { id: existingChat.id },
+          data: { productId }
+        });
+      }
+
       return res.status(409).json({
         success: false,
         message: 'Chat already exists',
@@ -189,7 +273,8 @@ router.post('/', authenticateToken, async (req, res) => {
     const chat = await prisma.chat.create({
       data: {
         participant1Id: req.user.id,
-        participant2Id: participantId
+        participant2Id: participantId,
+        productId: productId || null
       },
       select: {
         id: true,
@@ -268,20 +353,7 @@ router.get('/:id/messages', authenticateToken, async (req, res) => {
     const [messages, totalMessages] = await Promise.all([
       prisma.message.findMany({
         where: { chatId: id },
-        select: {
-          id: true,
-          content: true,
-          isRead: true,
-          createdAt: true,
-          sender: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              avatar: true
-            }
-          }
-        },
+        select: messageSelect,
         orderBy: { createdAt: 'desc' },
         skip,
         take: parseInt(limit)
@@ -291,15 +363,7 @@ router.get('/:id/messages', authenticateToken, async (req, res) => {
       })
     ]);
 
-    // Mark messages as read
-    await prisma.message.updateMany({
-      where: {
-        chatId: id,
-        receiverId: req.user.id,
-        isRead: false
-      },
-      data: { isRead: true }
-    });
+    await markChatRead(chat, req.user.id);
 
     res.json({
       success: true,
@@ -331,15 +395,45 @@ router.get('/:id/messages', authenticateToken, async (req, res) => {
 router.post('/:id/messages', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { content } = req.body;
+    const { content = '', type = 'TEXT', imageUrl, orderId } = req.body;
+
+    if (!USER_MESSAGE_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid message type'
+      });
+    }
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Message content must be text'
+      });
+    }
 
-    if (!content || content.trim().length === 0) {
+    // Photos and order cards can go without a caption
+    if (type === 'TEXT' && content.trim().length === 0) {
       return res.status(400).json({
         success: false,
         message: 'Message content is required'
       });
     }
 
+    // Only images uploaded by the sender through /upload/image
+    if (type === 'IMAGE' && !(imageUrl && imageUrl.startsWith(getUploadPrefix(req.user.id)))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload the image first and send its URL'
+      });
+    }
+
+    if (type === 'ORDER_UPDATE' && !orderId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Order ID is required'
+      });
+    }
+
     // Check if user has access to this chat
     const chat = await prisma.chat.findFirst({
       where: {
@@ -359,44 +453,57 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
     }
 
     // Determine receiver
-    const receiverId = chat.participant1Id === req.user.id 
-      ? chat.participant2Id 
-      : chat.participant1Id;
+    const receiverId = getOtherParticipantId(chat, req.user.id);
 
-    // Create message
-    const message = await prisma.message.create({
-      data: {
-        chatId: id,
-        senderId: req.user.id,
-        receiverId,
-        content: content.trim()
-      },
-      select: {
-        id: true,
-        content: true,
-        isRead: true,
-        createdAt: true,
-        sender: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            avatar: true
-          }
+    if (await getBlockBetween(req.user.id, receiverId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot message this user'
+      });
+    }
+
+    let metadata;
+    if (type === 'IMAGE') {
+      metadata = { imageUrl };
+    } else if (type === 'ORDER_UPDATE') {
+      // Only the seller attaches order cards, for an order the other participant placed with them
+      const order = await prisma.order.findFirst({
+        where: {
+          id: orderId,
+          buyerId: receiverId,
+          sellerId: req.user.id
+        },
+        select: {
+          id: true,
+          orderNumber: true,
+          status: true,
+          total: true
         }
+      });
+
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found among your sales to this buyer'
+        });
       }
-    });
 
-    // Update chat last message time
-    await prisma.chat.update({
-      where: { id },
-      data: { lastMessageAt: new Date() }
+      metadata = getOrderCard(order);
+    }
+
+    const post = await createChatMessage(id, {
+      senderId: req.user.id,
+      receiverId,
+      type,
+      content: content.trim(),
+      metadata
     });
+    publishChatMessages([post]);
 
     res.status(201).json({
       success: true,
       message: 'Message sent successfully',
-      data: message
+      data: post.message
     });
 
   } catch (error) {
@@ -408,6 +515,65 @@ router.post('/:id/messages', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @route   GET /api/chats/:id/orders
+ * @desc    Get the user's recent sales to the other participant, for attaching as order cards
+ * @access  Private
+ */
+router.get('/:id/orders', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Check if user has access to this chat
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id,
+        OR: [
+          { participant1Id: req.user.id },
+          { participant2Id: req.user.id }
+        ]
+      }
+    });
+
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat not found or access denied'
+      });
+    }
+
+    const otherId = getOtherParticipantId(chat, req.user.id);
+
+    const orders = await prisma.order.findMany({
+      where: {
+        buyerId: otherId,
+        sellerId: req.user.id
+      },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        total: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    });
+
+    res.json({
+      success: true,
+      data: { orders }
+    });
+
+  } catch (error) {
+    console.error('Get chat orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   POST /api/chats/:id/read
  * @desc    Mark chat as read
@@ -436,14 +602,7 @@ router.post('/:id/read', authenticateToken, async (req, res) => {
     }
 
     // Mark all messages in this chat as read for the current user
-    await prisma.message.updateMany({
-      where: {
-        chatId: id,
-        receiverId: req.user.id,
-        isRead: false
-      },
-      data: { isRead: true }
-    });
+    await markChatRead(chat, req.user.id);
 
     res.json({
       success: true,
@@ -459,6 +618,83 @@ router.post('/:id/read', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @route   POST /api/chats/:id/typing
+ * @desc    Tell the other participant the user is typing
+ * @access  Private
+ */
+router.post('/:id/typing', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { isTyping = true } = req.body;
+
+    // Check if user has access to this chat
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id,
+        OR: [
+          { participant1Id: req.user.id },
+          { participant2Id: req.user.id }
+        ]
+      }
+    });
+
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat not found or access denied'
+      });
+    }
+
+    // A blocked chat takes no messages, so there is nothing to be typing
+    if (chat.status !== 'BLOCKED') {
+      publish([getOtherParticipantId(chat, req.user.id)], 'typing', {
+        chatId: id,
+        userId: req.user.id,
+        isTyping: Boolean(isTyping)
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Typing status sent'
+    });
+
+  } catch (error) {
+    console.error('Send typing status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/chats/stream
+ * @desc    Stream new messages, typing and read receipts as Server-Sent Events
+ * @access  Private
+ */
+router.get('/stream', tokenFromQuery, authenticateToken, (req, res) => {
+  try {
+    // EventSource always asks for an event stream; anything else gets a plain answer
+    if (!(req.get('Accept') || '').includes('text/event-stream')) {
+      return res.status(406).json({
+        success: false,
+        message: 'Open this endpoint with EventSource (Accept: text/event-stream)'
+      });
+    }
+
+    openStream(req.user.id, req, res);
+
+  } catch (error) {
+    console.error('Open chat stream error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   GET /api/chats/unread-count
  * @desc    Get unread message count
@@ -487,6 +723,62 @@ router.get('/unread-count', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @route   GET /api/chats/:id
+ * @desc    Get a single chat
+ * @access  Private
+ */
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id,
+        OR: [
+          { participant1Id: req.user.id },
+          { participant2Id: req.user.id }
+        ]
+      },
+      select: chatSelect
+    });
+
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat not found or access denied'
+      });
+    }
+
+    const otherId = chat.participant1.id === req.user.id ? chat.participant2.id : chat.participant1.id;
+
+    const [unreadCount, block] = await Promise.all([
+      prisma.message.count({
+        where: {
+          chatId: id,
+          receiverId: req.user.id,
+          isRead: false
+        }
+      }),
+      prisma.userBlock.findUnique({
+        where: { blockerId_blockedId: { blockerId: req.user.id, blockedId: otherId } }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: formatChat(chat, req.user.id, { unreadCount, blockedByMe: Boolean(block) })
+    });
+
+  } catch (error) {
+    console.error('Get chat error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   PUT /api/chats/:id/status
  * @desc    Update chat status
@@ -522,10 +814,27 @@ router.put('/:id/status', authenticateToken, async (req, res) => {
       });
     }
 
-    // Update chat status
+    const otherId = getOtherParticipantId(chat, req.user.id);
+
+    // Blocking here blocks the user, not just this chat, so it follows them
+    // into any new conversation
+    if (status === 'BLOCKED') {
+      await blockUser(req.user.id, otherId);
+    } else if (chat.status === 'BLOCKED') {
+      const unblocked = await unblockUser(req.user.id, otherId);
+      if (!unblocked) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only the user who blocked this chat can reopen it'
+        });
+      }
+    }
+
+    // Unblocking leaves the chat blocked while the other user still blocks this one
+    const block = status === 'BLOCKED' ? null : await getBlockBetween(req.user.id, otherId);
     const updatedChat = await prisma.chat.update({
       where: { id },
-      data: { status }
+      data: { status: block ? 'BLOCKED' : status }
     });
 
     res.json({
@@ -546,4 +855,50 @@ router.put('/:id/status', authenticateToken, async (req, res) => {
   }
 });
 
+// Helper functions
+
+// EventSource can't send headers, so the stream takes the access token as ?token=
+function tokenFromQuery(req, res, next) {
+  if (!req.headers.authorization && req.query.token) {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+}
+
+// Public URL prefix of the user's uploads from /upload/image
+function getUploadPrefix(userId) {
+  return `${config.supabase.url}/storage/v1/object/public/balmuya-uploads/images/${userId}/`;
+}
+
+function getOtherParticipantId(chat, userId) {
+  return chat.participant1Id === userId ? chat.participant2Id : chat.participant1Id;
+}
+
+/**
+ * Mark the messages the user received in a chat as read and send the sender a
+ * read receipt
+ */
+async function markChatRead(chat, userId) {
+  const readAt = new Date();
+
+  const { count } = await prisma.message.updateMany({
+    where: {
+      chatId: chat.id,
+      receiverId: userId,
+      isRead: false
+    },
+    data: { isRead: true, readAt }
+  });
+
+  if (count > 0) {
+    publish([getOtherParticipantId(chat, userId)], 'read', {
+      chatId: chat.id,
+      readerId: userId,
+      readAt
+    });
+  }
+
+  return count;
+}
+
 module.exports = router;
@@ -0,0 +1,478 @@
+const express = require('express');
+const prisma = require('../config/database');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+const { scheduleRelease } = require('../utils/escrow');
+const { collectCashPayment } = require('../utils/cashOnDelivery');
+const { ACTIVE_DELIVERY_STATUSES, notifyDeliveryUpdate } = require('../utils/delivery');
+const { publishChatMessages } = require('../utils/chat');
+const {
+  ORDER_TRANSITIONS,
+  DELIVERY_TRANSITIONS,
+  canTransition,
+  getTransitionError,
+  recordOrderEvents
+} = require('../utils/orderStatus');
+
+const router = express.Router();
+
+// Timestamp column recorded for each step a courier reports (DELIVERED uses actualDelivery)
+const DELIVERY_STEP_TIMES = {
+  PICKED_UP: 'pickedUpAt',
+  IN_TRANSIT: 'inTransitAt',
+  OUT_FOR_DELIVERY: 'outForDeliveryAt',
+  DELIVERED: 'actualDelivery',
+  FAILED: 'failedAt'
+};
+
+// Orders a courier can still pick up from the seller
+const OPEN_JOB_ORDER_STATUSES = ['CONFIRMED', 'PROCESSING', 'SHIPPED'];
+
+// Open platform deliveries: paid (or cash on delivery), not cancelled, and not with a courier
+const openJobWhere = {
+  deliveryOption: 'PLATFORM_DELIVERY',
+  status: { in: OPEN_JOB_ORDER_STATUSES },
+  deliveryStatus: { in: ['PENDING', 'FAILED'] }
+};
+
+const assignmentInclude = {
+  order: {
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      deliveryStatus: true,
+      total: true,
+      paymentStatus: true,
+      deliveryAddress: true,
+      deliveryNotes: true,
+      buyerId: true,
+      buyer: {
+        select: {
+          firstName: true,
+          lastName: true,
+          phone: true
+        }
+      },
+      seller: {
+        select: {
+          storeName: true,
+          phone: true
+        }
+      },
+      payments: {
+        select: {
+          paymentMethod: true,
+          amount: true,
+          status: true
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 1
+      }
+    }
+  }
+};
+
+/**
+ * @route   GET /api/delivery/jobs
+ * @desc    Get open platform deliveries a courier can accept
+ * @access  Private (Delivery partner)
+ */
+router.get('/jobs', authenticateToken, requireRole('DELIVERY_PARTNER'), async (req, res) => {
+  try {
+    const { page = 1, limit = 20, city } = req.query;
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const where = {
+      ...openJobWhere,
+      ...(city && {
+        shippingAddress: {
+          city: { contains: city, mode: 'insensitive' }
+        }
+      })
+    };
+
+    const [orders, total] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        select: {
+          id: true,
+          orderNumber: true,
+          status: true,
+          deliveryStatus: true,
+          total: true,
+          shipping: true,
+          createdAt: true,
+          shippingAddress: {
+            select: { city: true, state: true }
+          },
+          seller: {
+            select: {
+              storeName: true,
+              addresses: {
+                where: { isDefault: true },
+                select: { city: true, state: true },
+                take: 1
+              }
+            }
+          },
+          payments: {
+            select: { paymentMethod: true, amount: true, status: true },
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          },
+          _count: { select: { items: true } }
+        },
+        // Oldest first so no order waits forever
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.order.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        jobs: orders.map(({ payments, seller, ...order }) => ({
+          ...order,
+          seller: {
+            storeName: seller.storeName,
+            city: seller.addresses[0]?.city || null
+          },
+          paymentMethod: payments[0]?.paymentMethod || null,
+          cashToCollect: payments[0]?.paymentMethod === 'CASH_ON_DELIVERY' && payments[0].status === 'PENDING'
+            ? parseFloat(payments[0].amount)
+            : 0
+        })),
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total,
+          totalPages: Math.ceil(total / parseInt(limit))
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get delivery jobs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/delivery/jobs/:orderId/accept
+ * @desc    Accept an open platform delivery
+ * @access  Private (Delivery partner)
+ */
+router.post('/jobs/:orderId/accept', authenticateToken, requireRole('DELIVERY_PARTNER'), async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    const partner = await getDeliveryPartner(req.user.id);
+
+    if (!partner || !partner.isActive) {
+      return res.status(403).json({
+        success: false,
+        message: 'Your courier account is not active'
+      });
+    }
+
+    const assignment = await prisma.$transaction(async (tx) => {
+      const order = await tx.order.findFirst({
+        where: { id: orderId, ...openJobWhere },
+        select: { id: true, deliveryStatus: true }
+      });
+
+      if (!order) {
+        return null;
+      }
+
+      // Claiming through the order's delivery status keeps two couriers from taking the same job
+      const { count } = await tx.order.updateMany({
+        where: { ...openJobWhere, id: orderId, deliveryStatus: order.deliveryStatus },
+        data: { deliveryStatus: 'ASSIGNED' }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await recordOrderEvents(order, { deliveryStatus: 'ASSIGNED' }, { actorId: req.user.id }, tx);
+
+      const created = await tx.deliveryAssignment.create({
+        data: {
+          orderId,
+          partnerId: partner.id,
+          status: 'ASSIGNED'
+        },
+        include: assignmentInclude
+      });
+
+      await notifyDeliveryUpdate({ id: orderId, ...created.order }, 'ASSIGNED', tx);
+
+      return created;
+    });
+
+    if (!assignment) {
+      return res.status(409).json({
+        success: false,
+        message: 'This delivery is no longer available'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Delivery accepted',
+      data: formatAssignment(assignment)
+    });
+
+  } catch (error) {
+    console.error('Accept delivery job error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/delivery/assignments
+ * @desc    Get the courier's deliveries (active ones by default, ?status=DELIVERED for history)
+ * @access  Private (Delivery partner)
+ */
+router.get('/assignments', authenticateToken, requireRole('DELIVERY_PARTNER'), async (req, res) => {
+  try {
+    const { status } = req.query;
+
+    const partner = await getDeliveryPartner(req.user.id);
+
+    if (!partner) {
+      return res.status(404).json({
+        success: false,
+        message: 'Delivery partner profile not found'
+      });
+    }
+
+    const assignments = await prisma.deliveryAssignment.findMany({
+      where: {
+        partnerId: partner.id,
+        status: status ? status.toUpperCase() : { in: ACTIVE_DELIVERY_STATUSES }
+      },
+      include: assignmentInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    res.json({
+      success: true,
+      data: {
+        assignments: assignments.map(formatAssignment)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get delivery assignments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/delivery/assignments/:id/status
+ * @desc    Move a delivery to its next step. DELIVERED records the cash collected for
+ *          cash-on-delivery orders; FAILED needs a reason and puts the order back on the job board.
+ * @access  Private (Delivery partner)
+ */
+router.put('/assignments/:id/status', authenticateToken, requireRole('DELIVERY_PARTNER'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status, cashCollected, notes } = req.body;
+
+    const partner = await getDeliveryPartner(req.user.id);
+
+    const assignment = partner && await prisma.deliveryAssignment.findFirst({
+      where: {
+        id,
+        partnerId: partner.id
+      },
+      include: assignmentInclude
+    });
+
+    if (!assignment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Delivery not found'
+      });
+    }
+
+    if (assignment.order.status === 'CANCELLED') {
+      return res.status(400).json({
+        success: false,
+        message: 'This order was cancelled'
+      });
+    }
+
+    const transitionError = getTransitionError(DELIVERY_TRANSITIONS, assignment.status, status, req.user.role);
+    if (transitionError) {
+      return res.status(400).json({
+        success: false,
+        message: transitionError
+      });
+    }
+
+    if (status === 'FAILED' && !notes?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Say why the delivery failed'
+      });
+    }
+
+    const payment = assignment.order.payments[0];
+    const isCashOnDelivery = status === 'DELIVERED'
+      && payment?.paymentMethod === 'CASH_ON_DELIVERY'
+      && payment.status === 'PENDING';
+    const cashAmount = parseFloat(cashCollected);
+
+    if (isCashOnDelivery && (!Number.isFinite(cashAmount) || cashAmount < 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Enter the cash collected from the buyer'
+      });
+    }
+
+    const now = new Date();
+    let chatPosts = [];
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only the step the courier saw moves, so a double tap cannot apply it twice
+      const { count } = await tx.deliveryAssignment.updateMany({
+        where: { id, status: assignment.status },
+        data: {
+          status,
+          notes: notes?.trim() || assignment.notes,
+          [DELIVERY_STEP_TIMES[status]]: now,
+          ...(isCashOnDelivery && {
+            cashCollected: cashAmount,
+            cashCollectedAt: now
+          })
+        }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      const orderUpdate = getOrderUpdate(assignment.order.status, status, now);
+
+      chatPosts = await recordOrderEvents(
+        assignment.order,
+        { status: orderUpdate.status, deliveryStatus: status },
+        { actorId: req.user.id, note: status === 'FAILED' ? notes.trim() : null },
+        tx
+      );
+
+      await tx.order.update({
+        where: { id: assignment.orderId },
+        data: {
+          deliveryStatus: status,
+          ...orderUpdate
+        }
+      });
+
+      if (status === 'DELIVERED') {
+        await tx.deliveryPartner.update({
+          where: { id: partner.id },
+          data: { totalDeliveries: { increment: 1 } }
+        });
+
+        // The courier now holds the buyer's cash - it counts as paid and goes into escrow
+        if (isCashOnDelivery) {
+          await collectCashPayment(assignment.orderId, true, tx);
+        }
+
+        await scheduleRelease(assignment.orderId, now, tx);
+      }
+
+      await notifyDeliveryUpdate({ id: assignment.orderId, ...assignment.order }, status, tx);
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: 'This delivery was already updated. Refresh and try again'
+      });
+    }
+
+    publishChatMessages(chatPosts);
+
+    const expected = Number(payment?.amount || 0);
+
+    res.json({
+      success: true,
+      message: isCashOnDelivery && Math.abs(cashAmount - expected) >= 0.005
+        ? `Delivered. ETB ${cashAmount} collected against ETB ${expected} due - the difference will show at reconciliation.`
+        : 'Delivery updated',
+      data: {
+        assignmentId: id,
+        orderId: assignment.orderId,
+        status,
+        cashCollected: isCashOnDelivery ? cashAmount : null
+      }
+    });
+
+  } catch (error) {
+    console.error('Update delivery status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Helper functions
+
+function getDeliveryPartner(userId) {
+  return prisma.deliveryPartner.findUnique({
+    where: { userId }
+  });
+}
+
+/**
+ * Order fields that follow a delivery step: pickup ships the order, drop-off delivers it
+ */
+function getOrderUpdate(orderStatus, deliveryStatus, now) {
+  if (deliveryStatus === 'PICKED_UP' && canTransition(ORDER_TRANSITIONS, orderStatus, 'SHIPPED', 'DELIVERY_PARTNER')) {
+    return { status: 'SHIPPED', shippedAt: now };
+  }
+
+  if (deliveryStatus === 'DELIVERED' && canTransition(ORDER_TRANSITIONS, orderStatus, 'DELIVERED', 'DELIVERY_PARTNER')) {
+    return { status: 'DELIVERED', deliveredAt: now };
+  }
+
+  return {};
+}
+
+/**
+ * Flatten an assignment for the courier, with the cash to collect for cash-on-delivery orders
+ */
+function formatAssignment(assignment) {
+  const { payments, ...order } = assignment.order;
+  const payment = payments[0];
+
+  return {
+    ...assignment,
+    order,
+    paymentMethod: payment?.paymentMethod || null,
+    cashToCollect: payment?.paymentMethod === 'CASH_ON_DELIVERY' && payment.status === 'PENDING'
+      ? parseFloat(payment.amount)
+      : 0
+  };
+}
+
+module.exports = router;
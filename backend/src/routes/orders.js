@@ -1,9 +1,133 @@
 const express = require('express');
 const prisma = require('../config/database');
 const { authenticateToken, requireSeller, requireAdmin } = require('../middleware/auth');
+const { scheduleRelease } = require('../utils/escrow');
+const { refundCancelledOrder } = require('../utils/refunds');
+const { collectCashPayment } = require('../utils/cashOnDelivery');
+const { cancelDeliveries } = require('../utils/delivery');
+const { reserveStock, emailStockAlerts, releaseStock } = require('../utils/inventory');
+const { ORDER_TRANSITIONS, canTransition, getTransitionError, recordOrderEvents } = require('../utils/orderStatus');
+const { publishChatMessages } = require('../utils/chat');
 
 const router = express.Router();
 
+const DELIVERY_OPTIONS = [
+  'SELLER_DELIVERY',
+  'BUYER_PICKUP',
+  'SPLIT_DELIVERY',
+  'PLATFORM_DELIVERY',
+  'SELLER_RESPONSIBLE',
+  'BUYER_RESPONSIBLE',
+  'SPLIT_RESPONSIBILITY'
+];
+
+const PAYMENT_METHODS = ['CHAPA', 'CBE_BIRR', 'STRIPE', 'CASH_ON_DELIVERY'];
+
+// At most this many orders per bulk status update
+const MAX_BULK_ORDERS = 50;
+
+/**
+ * Shipping fee for a single seller's order
+ * (simplified - you might want to implement more complex logic)
+ */
+const calculateShipping = (deliveryOption) => {
+  return deliveryOption === 'PLATFORM_DELIVERY' ? 50 : 0;
+};
+
+/**
+ * Snapshot of the shipping address stored on the order
+ */
+const toDeliveryAddress = (address) => ({
+  firstName: address.firstName,
+  lastName: address.lastName,
+  phone: address.phone,
+  street: address.street,
+  city: address.city,
+  state: address.state,
+  postalCode: address.postalCode,
+  country: address.country
+});
+
+const checkoutGroupInclude = {
+  orders: {
+    include: {
+      items: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              title: true,
+              images: true
+            }
+          }
+        }
+      },
+      seller: {
+        select: {
+          id: true,
+          storeName: true,
+          firstName: true,
+          lastName: true
+        }
+      },
+      payments: {
+        select: {
+          id: true,
+          status: true,
+          amount: true,
+          paymentMethod: true,
+          paymentUrl: true
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+};
+
+/**
+ * Format a checkout group with its per-seller orders for the response
+ */
+const formatCheckoutGroup = (group) => ({
+  id: group.id,
+  groupNumber: group.groupNumber,
+  paymentMethod: group.paymentMethod,
+  subtotal: parseFloat(group.subtotal),
+  shipping: parseFloat(group.shipping),
+  total: parseFloat(group.total),
+  createdAt: group.createdAt,
+  orders: group.orders.map(order => ({
+    id: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    paymentStatus: order.paymentStatus,
+    deliveryOption: order.deliveryOption,
+    subtotal: parseFloat(order.subtotal),
+    shipping: parseFloat(order.shipping),
+    total: parseFloat(order.total),
+    notes: order.notes,
+    seller: {
+      id: order.seller.id,
+      storeName: order.seller.storeName || `${order.seller.firstName} ${order.seller.lastName}`
+    },
+    items: order.items.map(item => ({
+      productId: item.productId,
+      productName: item.product.title,
+      image: item.product.images[0] || null,
+      quantity: item.quantity,
+      price: parseFloat(item.price)
+    })),
+    payment: order.payments[0]
+      ? {
+          id: order.payments[0].id,
+          status: order.payments[0].status,
+          amount: parseFloat(order.payments[0].amount),
+          paymentMethod: order.payments[0].paymentMethod,
+          paymentUrl: order.payments[0].paymentUrl
+        }
+      : null
+  }))
+});
+
 /**
  * @route   POST /api/orders
  * @desc    Create a new order
@@ -27,6 +151,14 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
 
+    // A negative or fractional quantity would put stock back and discount the order
+    if (!items.every(item => Number.isInteger(item?.quantity) && item.quantity >= 1)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity must be a positive integer'
+      });
+    }
+
     if (!shippingAddressId) {
       return res.status(400).json({
         success: false,
@@ -34,6 +166,13 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
 
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid payment method'
+      });
+    }
+
     // Verify shipping address belongs to user
     const shippingAddress = await prisma.address.findFirst({
       where: {
@@ -70,12 +209,12 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
 
-    // Check if all items are from the same seller
+    // Multi-seller carts go through POST /api/orders/checkout
     const sellerIds = [...new Set(products.map(p => p.seller.id))];
     if (sellerIds.length > 1) {
       return res.status(400).json({
         success: false,
-        message: 'All items must be from the same seller'
+        message: 'All items must be from the same seller. Use checkout for multi-seller carts'
       });
     }
 
@@ -88,7 +227,7 @@ router.post('/', authenticateToken, async (req, res) => {
     for (const item of items) {
       const product = products.find(p => p.id === item.productId);
       
-      if (product.quantity < item.quantity) {
+      if (product.trackQuantity && !product.allowBackorder && product.quantity < item.quantity) {
         return res.status(400).json({
           success: false,
           message: `Insufficient quantity for ${product.title}`
@@ -105,65 +244,84 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
 
-    // Calculate shipping (simplified - you might want to implement more complex logic)
-    const shipping = deliveryOption === 'PLATFORM_DELIVERY' ? 50 : 0;
+    const shipping = calculateShipping(deliveryOption);
     const tax = 0; // No tax for now
     const total = subtotal + shipping + tax;
 
     // Generate order number
     const orderNumber = `BALMUYA-${Date.now()}`;
+    const isCashOnDelivery = paymentMethod === 'CASH_ON_DELIVERY';
 
     // Create order with items
-    const order = await prisma.order.create({
-      data: {
-        orderNumber,
-        buyerId: req.user.id,
-        sellerId,
-        shippingAddressId,
-        subtotal,
-        shipping,
-        tax,
-        total,
-        deliveryOption,
-        notes,
-        items: {
-          create: orderItems
-        }
-      },
-      include: {
-        items: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                title: true,
-                images: true
-              }
-            }
+    // Cash on delivery needs no online payment before the seller can start
+    const status = isCashOnDelivery ? 'CONFIRMED' : 'PENDING';
+
+    // Stock is taken in the same transaction, so the order only exists if its items were still there
+    const { order, payment, stockAlerts } = await prisma.$transaction(async (tx) => {
+      const alerts = await reserveStock(orderItems, tx);
+
+      const createdOrder = await tx.order.create({
+        data: {
+          orderNumber,
+          buyerId: req.user.id,
+          sellerId,
+          shippingAddressId,
+          subtotal,
+          shipping,
+          tax,
+          total,
+          deliveryOption,
+          notes,
+          status,
+          stockReserved: true,
+          items: {
+            create: orderItems
+          },
+          events: {
+            create: { field: 'STATUS', toStatus: status, actorId: req.user.id }
           }
         },
-        shippingAddress: true,
-        seller: {
-          select: {
-            storeName: true
+        include: {
+          items: {
+            include: {
+              product: {
+                select: {
+                  id: true,
+                  title: true,
+                  images: true
+                }
+              }
+            }
+          },
+          shippingAddress: true,
+          seller: {
+            select: {
+              storeName: true
+            }
           }
         }
-      }
-    });
+      });
 
-    // Initialize payment
-    const payment = await prisma.payment.create({
-      data: {
-        orderId: order.id,
-        userId: req.user.id,
-        amount: total,
-        paymentMethod,
-        status: 'PENDING'
-      }
+      // Initialize payment
+      const createdPayment = await tx.payment.create({
+        data: {
+          orderId: createdOrder.id,
+          userId: req.user.id,
+          amount: total,
+          paymentMethod,
+          status: 'PENDING'
+        }
+      });
+
+      return { order: createdOrder, payment: createdPayment, stockAlerts: alerts };
     });
 
+    emailStockAlerts(stockAlerts);
+
     // Generate payment URL (this would integrate with actual payment gateway)
-    const paymentUrl = `https://checkout.chapa.co/checkout/payment/transaction_${payment.id}`;
+    const paymentUrl = isCashOnDelivery
+      ? null
+      : `https://checkout.chapa.co/checkout/payment/transaction_${payment.id}`;
 
     res.status(201).json({
       success: true,
@@ -190,6 +348,14 @@ router.post('/', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    // Another buyer took the last units between validation and the transaction
+    if (error.statusCode === 409) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Create order error:', error);
     res.status(500).json({
       success: false,
@@ -198,6 +364,274 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @route   POST /api/orders/checkout
+ * @desc    Check out the whole cart - creates one order (with its own payment) per seller
+ * @access  Private
+ */
+router.post('/checkout', authenticateToken, async (req, res) => {
+  try {
+    const {
+      shippingAddressId,
+      paymentMethod = 'CHAPA',
+      sellers = []
+    } = req.body;
+
+    if (!shippingAddressId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Shipping address is required'
+      });
+    }
+
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid payment method'
+      });
+    }
+
+    if (!Array.isArray(sellers)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sellers must be an array'
+      });
+    }
+
+    const invalidOption = sellers.find(s => s.deliveryOption && !DELIVERY_OPTIONS.includes(s.deliveryOption));
+    if (invalidOption) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid delivery option: ${invalidOption.deliveryOption}`
+      });
+    }
+
+    // Verify shipping address belongs to user
+    const shippingAddress = await prisma.address.findFirst({
+      where: {
+        id: shippingAddressId,
+        userId: req.user.id
+      }
+    });
+
+    if (!shippingAddress) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid shipping address'
+      });
+    }
+
+    const cartItems = await prisma.cartItem.findMany({
+      where: { userId: req.user.id },
+      include: {
+        product: {
+          select: {
+            id: true,
+            title: true,
+            price: true,
+            quantity: true,
+            trackQuantity: true,
+            allowBackorder: true,
+            isPublished: true,
+            status: true,
+            sellerId: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (cartItems.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your cart is empty'
+      });
+    }
+
+    // Re-validate the cart before creating anything
+    for (const item of cartItems) {
+      const { product } = item;
+
+      if (!product.isPublished || product.status !== 'PUBLISHED') {
+        return res.status(400).json({
+          success: false,
+          message: `${product.title} is no longer available`
+        });
+      }
+
+      if (product.trackQuantity && !product.allowBackorder && product.quantity < item.quantity) {
+        return res.status(400).json({
+          success: false,
+          message: `Insufficient quantity for ${product.title}`
+        });
+      }
+    }
+
+    // Split the cart into one order per seller
+    const sellerOrders = [];
+    for (const item of cartItems) {
+      let sellerOrder = sellerOrders.find(o => o.sellerId === item.product.sellerId);
+      if (!sellerOrder) {
+        const options = sellers.find(s => s.sellerId === item.product.sellerId) || {};
+        sellerOrder = {
+          sellerId: item.product.sellerId,
+          deliveryOption: options.deliveryOption || 'SELLER_DELIVERY',
+          notes: options.notes,
+          subtotal: 0,
+          items: []
+        };
+        sellerOrders.push(sellerOrder);
+      }
+
+      sellerOrder.subtotal += parseFloat(item.product.price) * item.quantity;
+      sellerOrder.items.push({
+        productId: item.product.id,
+        quantity: item.quantity,
+        price: item.product.price
+      });
+    }
+
+    sellerOrders.forEach(sellerOrder => {
+      sellerOrder.shipping = calculateShipping(sellerOrder.deliveryOption);
+      sellerOrder.total = sellerOrder.subtotal + sellerOrder.shipping;
+    });
+
+    const subtotal = sellerOrders.reduce((sum, o) => sum + o.subtotal, 0);
+    const shipping = sellerOrders.reduce((sum, o) => sum + o.shipping, 0);
+    const timestamp = Date.now();
+
+    const stockAlerts = [];
+
+    const group = await prisma.$transaction(async (tx) => {
+      const checkoutGroup = await tx.checkoutGroup.create({
+        data: {
+          groupNumber: `BALMUYA-G-${timestamp}`,
+          buyerId: req.user.id,
+          paymentMethod,
+          subtotal,
+          shipping,
+          total: subtotal + shipping
+        }
+      });
+
+      // Cash on delivery orders are paid at the door, so the seller can start right away
+      const status = paymentMethod === 'CASH_ON_DELIVERY' ? 'CONFIRMED' : 'PENDING';
+
+      for (const [index, sellerOrder] of sellerOrders.entries()) {
+        stockAlerts.push(...await reserveStock(sellerOrder.items, tx));
+
+        await tx.order.create({
+          data: {
+            orderNumber: `BALMUYA-${timestamp}-${index + 1}`,
+            checkoutGroupId: checkoutGroup.id,
+            buyerId: req.user.id,
+            sellerId: sellerOrder.sellerId,
+            status,
+            stockReserved: true,
+            shippingAddressId,
+            deliveryAddress: toDeliveryAddress(shippingAddress),
+            subtotal: sellerOrder.subtotal,
+            shipping: sellerOrder.shipping,
+            tax: 0,
+            total: sellerOrder.total,
+            deliveryOption: sellerOrder.deliveryOption,
+            notes: sellerOrder.notes,
+            items: {
+              create: sellerOrder.items
+            },
+            payments: {
+              create: {
+                userId: req.user.id,
+                amount: sellerOrder.total,
+                paymentMethod,
+                status: 'PENDING'
+              }
+            },
+            events: {
+              create: { field: 'STATUS', toStatus: status, actorId: req.user.id }
+            }
+          }
+        });
+      }
+
+      // Only the items that were ordered leave the cart
+      await tx.cartItem.deleteMany({
+        where: {
+          id: { in: cartItems.map(item => item.id) }
+        }
+      });
+
+      return tx.checkoutGroup.findUnique({
+        where: { id: checkoutGroup.id },
+        include: checkoutGroupInclude
+      });
+    });
+
+    emailStockAlerts(stockAlerts);
+
+    res.status(201).json({
+      success: true,
+      message: sellerOrders.length > 1
+        ? `${sellerOrders.length} orders created successfully`
+        : 'Order created successfully',
+      data: formatCheckoutGroup(group)
+    });
+
+  } catch (error) {
+    // Another buyer took the last units between validation and the transaction
+    if (error.statusCode === 409) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Checkout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/orders/checkout/:groupId
+ * @desc    Get a checkout group with all of its orders
+ * @access  Private
+ */
+router.get('/checkout/:groupId', authenticateToken, async (req, res) => {
+  try {
+    const { groupId } = req.params;
+
+    const group = await prisma.checkoutGroup.findFirst({
+      where: {
+        id: groupId,
+        buyerId: req.user.id
+      },
+      include: checkoutGroupInclude
+    });
+
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Checkout not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: formatCheckoutGroup(group)
+    });
+
+  } catch (error) {
+    console.error('Get checkout group error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   GET /api/orders
  * @desc    Get user's orders
@@ -219,33 +653,70 @@ router.get('/', authenticateToken, async (req, res) => {
       where.status = status.toUpperCase();
     }
 
-    const [orders, totalOrders] = await Promise.all([
+    const [orders, totalOrders, orderStats] = await Promise.all([
       prisma.order.findMany({
         where,
         select: {
           id: true,
           orderNumber: true,
           status: true,
+          paymentStatus: true,
+          deliveryStatus: true,
+          deliveryOption: true,
           total: true,
-          itemCount: true,
           createdAt: true,
+          shippedAt: true,
+          deliveredAt: true,
           seller: {
             select: {
               storeName: true
             }
+          },
+          items: {
+            select: {
+              quantity: true,
+              product: {
+                select: {
+                  id: true,
+                  title: true,
+                  images: true
+                }
+              }
+            }
           }
         },
         orderBy: { createdAt: 'desc' },
         skip,
         take: parseInt(limit)
       }),
-      prisma.order.count({ where })
+      prisma.order.count({ where }),
+      // Counts over all of the buyer's orders, not just the filtered page
+      prisma.order.groupBy({
+        by: ['status'],
+        where: { buyerId: req.user.id },
+        _count: { id: true }
+      })
     ]);
 
+    const orderStatsFormatted = {
+      pending: 0,
+      confirmed: 0,
+      processing: 0,
+      shipped: 0,
+      delivered: 0,
+      cancelled: 0,
+      refunded: 0
+    };
+
+    orderStats.forEach(stat => {
+      orderStatsFormatted[stat.status.toLowerCase()] = stat._count.id;
+    });
+
     res.json({
       success: true,
       data: {
         orders,
+        orderStats: orderStatsFormatted,
         pagination: {
           page: parseInt(page),
           limit: parseInt(limit),
@@ -316,6 +787,52 @@ router.get('/:id', authenticateToken, async (req, res) => {
             transactionId: true,
             paidAt: true
           }
+        },
+        // Every courier attempt, for the tracking timeline
+        deliveryAssignments: {
+          select: {
+            id: true,
+            status: true,
+            notes: true,
+            createdAt: true,
+            pickedUpAt: true,
+            inTransitAt: true,
+            outForDeliveryAt: true,
+            actualDelivery: true,
+            failedAt: true,
+            partner: {
+              select: {
+                vehicleType: true,
+                licensePlate: true,
+                user: {
+                  select: {
+                    firstName: true,
+                    lastName: true
+                  }
+                }
+              }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        },
+        // Status history, oldest first
+        events: {
+          select: {
+            id: true,
+            field: true,
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            actor: {
+              select: {
+                firstName: true,
+                lastName: true,
+                role: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
@@ -349,17 +866,13 @@ router.get('/:id', authenticateToken, async (req, res) => {
 router.put('/:id/status', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { status, trackingNumber } = req.body;
+    const { status, trackingNumber, reason } = req.body;
 
-    // Check if user can update this order
+    // Check if user can update this order (admins can update any order)
     const order = await prisma.order.findFirst({
-      where: {
-        id,
-        OR: [
-          { sellerId: req.user.id },
-          { buyerId: req.user.id, role: 'ADMIN' }
-        ]
-      }
+      where: req.user.role === 'ADMIN'
+        ? { id }
+        : { id, sellerId: req.user.id }
     });
 
     if (!order) {
@@ -369,53 +882,39 @@ router.put('/:id/status', authenticateToken, async (req, res) => {
       });
     }
 
-    // Validate status transition
-    const validTransitions = {
-      'PENDING': ['CONFIRMED', 'CANCELLED'],
-      'CONFIRMED': ['PROCESSING', 'CANCELLED'],
-      'PROCESSING': ['SHIPPED'],
-      'SHIPPED': ['DELIVERED'],
-      'DELIVERED': [],
-      'CANCELLED': [],
-      'REFUNDED': []
-    };
-
-    if (!validTransitions[order.status]?.includes(status)) {
+    const statusError = await checkStatusChange(order, status, reason, req.user.role);
+    if (statusError) {
       return res.status(400).json({
         success: false,
-        message: `Cannot change status from ${order.status} to ${status}`
+        message: statusError
       });
     }
 
-    const updateData = { status };
-    if (trackingNumber) {
-      updateData.trackingNumber = trackingNumber;
-    }
-
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        orderNumber: true,
-        status: true,
-        trackingNumber: true,
-        updatedAt: true
-      }
-    });
+    const updatedOrder = await changeOrderStatus(order, status, { trackingNumber, reason }, req.user.id);
 
     res.json({
       success: true,
-      message: 'Order status updated successfully',
+      message: updatedOrder.refundStatus === 'FAILED'
+        ? 'Order cancelled, but the refund did not go through. It is waiting for an admin'
+        : 'Order status updated successfully',
       data: {
         orderId: updatedOrder.id,
         previousStatus: order.status,
         newStatus: updatedOrder.status,
-        updatedAt: updatedOrder.updatedAt
+        updatedAt: updatedOrder.updatedAt,
+        refundStatus: updatedOrder.refundStatus
       }
     });
 
   } catch (error) {
+    // Someone else moved the order on between the check and the update
+    if (error.statusCode === 409) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Update order status error:', error);
     res.status(500).json({
       success: false,
@@ -434,7 +933,8 @@ router.get('/seller/my-orders', authenticateToken, requireSeller, async (req, re
     const {
       page = 1,
       limit = 10,
-      status
+      status,
+      search
     } = req.query;
 
     const skip = (parseInt(page) - 1) * parseInt(limit);
@@ -444,6 +944,13 @@ router.get('/seller/my-orders', authenticateToken, requireSeller, async (req, re
     if (status) {
       where.status = status.toUpperCase();
     }
+    if (search) {
+      where.OR = [
+        { orderNumber: { contains: search, mode: 'insensitive' } },
+        { buyer: { firstName: { contains: search, mode: 'insensitive' } } },
+        { buyer: { lastName: { contains: search, mode: 'insensitive' } } }
+      ];
+    }
 
     const [orders, totalOrders, statusCounts] = await Promise.all([
       prisma.order.findMany({
@@ -452,12 +959,21 @@ router.get('/seller/my-orders', authenticateToken, requireSeller, async (req, re
           id: true,
           orderNumber: true,
           status: true,
+          paymentStatus: true,
+          deliveryStatus: true,
+          deliveryOption: true,
+          trackingNumber: true,
           total: true,
           createdAt: true,
           buyer: {
             select: {
               firstName: true,
               lastName: true,
+              phone: true
+            }
+          },
+          shippingAddress: {
+            select: {
               city: true
             }
           },
@@ -465,10 +981,13 @@ router.get('/seller/my-orders', authenticateToken, requireSeller, async (req, re
             select: {
               product: {
                 select: {
-                  title: true
+                  id: true,
+                  title: true,
+                  images: true
                 }
               },
-              quantity: true
+              quantity: true,
+              price: true
             }
           }
         },
@@ -488,15 +1007,15 @@ router.get('/seller/my-orders', authenticateToken, requireSeller, async (req, re
     const stats = {
       pending: 0,
       confirmed: 0,
+      processing: 0,
       shipped: 0,
-      delivered: 0
+      delivered: 0,
+      cancelled: 0,
+      refunded: 0
     };
 
     statusCounts.forEach(count => {
-      const status = count.status.toLowerCase();
-      if (stats.hasOwnProperty(status)) {
-        stats[status] = count._count.id;
-      }
+      stats[count.status.toLowerCase()] = count._count.id;
     });
 
     res.json({
@@ -522,6 +1041,93 @@ router.get('/seller/my-orders', authenticateToken, requireSeller, async (req, re
   }
 });
 
+/**
+ * @route   PUT /api/orders/seller/bulk-status
+ * @desc    Move several of the seller's orders to the same status
+ * @access  Private (Seller)
+ */
+router.put('/seller/bulk-status', authenticateToken, requireSeller, async (req, res) => {
+  try {
+    const { orderIds, status, trackingNumbers = {}, reason } = req.body;
+
+    if (!Array.isArray(orderIds) || orderIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Select at least one order'
+      });
+    }
+
+    if (orderIds.length > MAX_BULK_ORDERS) {
+      return res.status(400).json({
+        success: false,
+        message: `At most ${MAX_BULK_ORDERS} orders can be updated at once`
+      });
+    }
+
+    if (!ORDER_TRANSITIONS[status]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid order status'
+      });
+    }
+
+    const orders = await prisma.order.findMany({
+      where: {
+        id: { in: orderIds },
+        sellerId: req.user.id
+      }
+    });
+
+    // Each order moves on its own, so one order that can't change doesn't hold back the rest
+    const results = [];
+    for (const orderId of orderIds) {
+      const order = orders.find(o => o.id === orderId);
+      if (!order) {
+        results.push({ orderId, success: false, message: 'Order not found or access denied' });
+        continue;
+      }
+
+      const statusError = await checkStatusChange(order, status, reason, req.user.role);
+      if (statusError) {
+        results.push({ orderId, orderNumber: order.orderNumber, success: false, message: statusError });
+        continue;
+      }
+
+      try {
+        await changeOrderStatus(order, status, { trackingNumber: trackingNumbers[orderId], reason }, req.user.id);
+        results.push({ orderId, orderNumber: order.orderNumber, success: true });
+      } catch (error) {
+        if (error.statusCode === 409) {
+          results.push({ orderId, orderNumber: order.orderNumber, success: false, message: error.message });
+          continue;
+        }
+        console.error(`Bulk status update error for order ${orderId}:`, error);
+        results.push({ orderId, orderNumber: order.orderNumber, success: false, message: 'Status update failed' });
+      }
+    }
+
+    const updated = results.filter(result => result.success).length;
+
+    res.json({
+      success: true,
+      message: `${updated} of ${orderIds.length} orders updated`,
+      data: {
+        status,
+        updated,
+        failed: orderIds.length - updated,
+        results
+      }
+    });
+
+  } catch (error) {
+    console.error('Bulk order status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   POST /api/orders/:id/cancel
  * @desc    Cancel an order
@@ -536,56 +1142,71 @@ router.post('/:id/cancel', authenticateToken, async (req, res) => {
     const order = await prisma.order.findFirst({
       where: {
         id,
-        buyerId: req.user.id,
-        status: { in: ['PENDING', 'CONFIRMED'] }
+        buyerId: req.user.id
       }
     });
 
-    if (!order) {
+    if (!order || !canTransition(ORDER_TRANSITIONS, order.status, 'CANCELLED', req.user.role)) {
       return res.status(400).json({
         success: false,
         message: 'Order cannot be cancelled'
       });
     }
 
-    // Update order status
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: {
-        status: 'CANCELLED',
-        cancelledAt: new Date(),
-        cancelledBy: req.user.id,
-        cancellationReason: reason
-      }
-    });
-
-    // Process refund if payment was completed
-    let refundAmount = 0;
-    if (order.paymentStatus === 'COMPLETED') {
-      refundAmount = order.total;
-      
-      // Update payment status
-      await prisma.payment.updateMany({
-        where: { orderId: id },
+    // Update order status and take it off any courier
+    let chatPosts = [];
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      // Only cancel from the status checked above - a concurrent change wins
+      const { count } = await tx.order.updateMany({
+        where: { id, status: order.status },
         data: {
-          status: 'REFUNDED',
-          refundedAt: new Date(),
-          refundAmount
+          status: 'CANCELLED',
+          cancelledAt: new Date(),
+          cancelledBy: req.user.id,
+          cancellationReason: reason
         }
       });
-    }
+
+      if (count === 0) {
+        throw createOrderChangedError();
+      }
+
+      chatPosts = await recordOrderEvents(order, { status: 'CANCELLED' }, { actorId: req.user.id, note: reason }, tx);
+      await cancelDeliveries(id, req.user.id, tx);
+      await releaseStock(id, tx);
+
+      // Read after the update so a payment that settled meanwhile is refunded
+      return tx.order.findUnique({ where: { id } });
+    });
+
+    publishChatMessages(chatPosts);
+
+    // Refund through the gateway if payment was completed
+    const refund = updatedOrder.paymentStatus === 'COMPLETED'
+      ? await refundCancellation(id, req.user.id, reason)
+      : { status: null, amount: 0 };
 
     res.json({
       success: true,
-      message: 'Order cancelled successfully',
+      message: refund.status === 'FAILED'
+        ? 'Order cancelled, but the refund did not go through. It is waiting for an admin'
+        : 'Order cancelled successfully',
       data: {
         orderId: updatedOrder.id,
         status: updatedOrder.status,
-        refundAmount
+        refundAmount: refund.amount,
+        refundStatus: refund.status
       }
     });
 
   } catch (error) {
+    if (error.statusCode === 409) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Cancel order error:', error);
     res.status(500).json({
       success: false,
@@ -594,4 +1215,138 @@ router.post('/:id/cancel', authenticateToken, async (req, res) => {
   }
 });
 
+// Helper functions
+
+/**
+ * Why the user can't move an order to the given status, or null when they can
+ */
+async function checkStatusChange(order, status, reason, role) {
+  const transitionError = getTransitionError(ORDER_TRANSITIONS, order.status, status, role);
+  if (transitionError) {
+    return transitionError;
+  }
+
+  if (status === 'CANCELLED' && !reason?.trim()) {
+    return 'A cancellation reason is required';
+  }
+
+  // A courier's platform delivery is completed by the courier, who also collects any cash
+  if (status === 'DELIVERED' && order.deliveryOption === 'PLATFORM_DELIVERY') {
+    const courierAssignment = await prisma.deliveryAssignment.findFirst({
+      where: {
+        orderId: order.id,
+        partnerId: { not: null },
+        status: { notIn: ['FAILED', 'CANCELLED'] }
+      }
+    });
+
+    if (courierAssignment) {
+      return 'The courier marks platform deliveries as delivered';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Move an order to a new status, settling delivery, escrow and refunds along the way
+ */
+async function changeOrderStatus(order, status, { trackingNumber, reason }, userId) {
+  const now = new Date();
+  const updateData = { status };
+  if (trackingNumber) {
+    updateData.trackingNumber = trackingNumber;
+  }
+  if (status === 'SHIPPED') {
+    updateData.shippedAt = now;
+  }
+  if (status === 'DELIVERED') {
+    updateData.deliveredAt = now;
+  }
+  if (status === 'CANCELLED') {
+    updateData.cancelledAt = now;
+    updateData.cancelledBy = userId;
+    updateData.cancellationReason = reason.trim();
+  }
+
+  let chatPosts = [];
+  const updatedOrder = await prisma.$transaction(async (tx) => {
+    // Only move the order from the status it was checked in - a concurrent change wins
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, status: order.status },
+      data: updateData
+    });
+
+    if (count === 0) {
+      throw createOrderChangedError();
+    }
+
+    chatPosts = await recordOrderEvents(order, { status }, { actorId: userId, note: updateData.cancellationReason }, tx);
+
+    // Read after the update so a payment that settled meanwhile is seen
+    const result = await tx.order.findUnique({
+      where: { id: order.id },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        paymentStatus: true,
+        trackingNumber: true,
+        updatedAt: true
+      }
+    });
+
+    // Delivery starts the escrow dispute window. Cash the seller took at the door settles
+    // a cash-on-delivery payment without going through escrow.
+    if (status === 'DELIVERED') {
+      await collectCashPayment(order.id, false, tx);
+      await scheduleRelease(order.id, now, tx);
+    }
+
+    if (status === 'CANCELLED') {
+      await cancelDeliveries(order.id, userId, tx);
+      await releaseStock(order.id, tx);
+    }
+
+    return result;
+  });
+
+  publishChatMessages(chatPosts);
+
+  // Cancelling a paid order refunds it through the gateway
+  let refundStatus = null;
+  if (status === 'CANCELLED' && updatedOrder.paymentStatus === 'COMPLETED') {
+    ({ status: refundStatus } = await refundCancellation(order.id, userId, updateData.cancellationReason));
+  }
+
+  return { ...updatedOrder, refundStatus };
+}
+
+/**
+ * Refund an order whose cancellation has already committed. A refund that throws
+ * must not turn the cancellation into an error, so it is logged and reported as
+ * FAILED; the order stays cancelled with its payment COMPLETED for an admin to refund.
+ */
+async function refundCancellation(orderId, userId, reason) {
+  try {
+    const refund = await refundCancelledOrder(orderId, userId, reason);
+    return {
+      status: refund?.status || null,
+      amount: refund?.status === 'COMPLETED' ? Number(refund.amount) : 0
+    };
+  } catch (error) {
+    console.error(`Cancellation refund error for order ${orderId}:`, error);
+    return { status: 'FAILED', amount: 0 };
+  }
+}
+
+/**
+ * The 409 thrown when an order's status changed after it was checked
+ */
+function createOrderChangedError() {
+  const error = new Error('The order was updated by someone else. Refresh and try again');
+  error.statusCode = 409;
+  return error;
+}
+
 module.exports = router;
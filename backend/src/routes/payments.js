@@ -1,7 +1,13 @@
 const express = require('express');
 const prisma = require('../config/database');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireSeller } = require('../middleware/auth');
 const config = require('../config');
+const { holdPayment, getSellerBalance } = require('../utils/escrow');
+const { WEBHOOK_GATEWAYS, verifyWebhookSignature, parseWebhookEvent } = require('../utils/paymentWebhooks');
+const { ORDER_TRANSITIONS, canTransition, recordOrderEvents } = require('../utils/orderStatus');
+const { recordSales } = require('../utils/inventory');
+const { publishChatMessages } = require('../utils/chat');
+const { refundCancelledOrder } = require('../utils/refunds');
 
 const router = express.Router();
 
@@ -12,7 +18,7 @@ const router = express.Router();
  */
 router.post('/initialize', authenticateToken, async (req, res) => {
   try {
-    const { orderId, paymentMethod = 'CHAPA' } = req.body;
+    const { orderId } = req.body;
 
     if (!orderId) {
       return res.status(400).json({
@@ -29,7 +35,8 @@ router.post('/initialize', authenticateToken, async (req, res) => {
       },
       include: {
         payments: {
-          where: { status: { in: ['PENDING', 'PROCESSING'] } }
+          where: { status: { in: ['PENDING', 'PROCESSING'] } },
+          orderBy: { createdAt: 'desc' }
         }
       }
     });
@@ -41,23 +48,51 @@ router.post('/initialize', authenticateToken, async (req, res) => {
       });
     }
 
-    if (order.payments.length > 0) {
+    if (order.status === 'CANCELLED' || order.paymentStatus === 'COMPLETED') {
       return res.status(400).json({
         success: false,
-        message: 'Payment already initialized for this order'
+        message: 'Order does not require payment'
       });
     }
 
-    // Create payment record
-    const payment = await prisma.payment.create({
-      data: {
-        orderId,
-        userId: req.user.id,
-        amount: order.total,
-        paymentMethod,
-        status: 'PENDING'
-      }
-    });
+    // Checkout creates a pending payment per order - reuse it instead of creating another
+    const existingPayment = order.payments[0];
+    const paymentMethod = req.body.paymentMethod || existingPayment?.paymentMethod || 'CHAPA';
+
+    if (paymentMethod === 'CASH_ON_DELIVERY') {
+      return res.status(400).json({
+        success: false,
+        message: 'Cash on delivery orders are paid on delivery'
+      });
+    }
+
+    if (existingPayment?.paymentUrl && existingPayment.paymentMethod === paymentMethod) {
+      return res.json({
+        success: true,
+        data: {
+          paymentUrl: existingPayment.paymentUrl,
+          transactionId: existingPayment.transactionId,
+          amount: order.total,
+          currency: 'ETB'
+        }
+      });
+    }
+
+    // Create or update payment record
+    const payment = existingPayment
+      ? await prisma.payment.update({
+          where: { id: existingPayment.id },
+          data: { paymentMethod }
+        })
+      : await prisma.payment.create({
+          data: {
+            orderId,
+            userId: req.user.id,
+            amount: order.total,
+            paymentMethod,
+            status: 'PENDING'
+          }
+        });
 
     // Generate payment URL based on payment method
     let paymentUrl = '';
@@ -80,6 +115,11 @@ router.post('/initialize', authenticateToken, async (req, res) => {
         });
     }
 
+    // Local testing: send the buyer to the gateway simulator instead
+    if (config.payments.simulatorUrl) {
+      paymentUrl = getSimulatorPaymentUrl(payment, order);
+    }
+
     // Update payment with transaction details
     await prisma.payment.update({
       where: { id: payment.id },
@@ -110,21 +150,25 @@ router.post('/initialize', authenticateToken, async (req, res) => {
 
 /**
  * @route   POST /api/payments/verify/:transactionId
- * @desc    Verify payment transaction
+ * @desc    Check a payment's status. Read-only: payments are only settled by signed
+ *          gateway webhooks
  * @access  Private
  */
 router.post('/verify/:transactionId', authenticateToken, async (req, res) => {
   try {
     const { transactionId } = req.params;
 
-    // Get payment
     const payment = await prisma.payment.findFirst({
       where: {
         id: transactionId,
         userId: req.user.id
       },
-      include: {
-        order: true
+      select: {
+        id: true,
+        orderId: true,
+        amount: true,
+        status: true,
+        paidAt: true
       }
     });
 
@@ -135,65 +179,14 @@ router.post('/verify/:transactionId', authenticateToken, async (req, res) => {
       });
     }
 
-    // Verify payment with payment gateway
-    let verificationResult;
-    switch (payment.paymentMethod) {
-      case 'CHAPA':
-        verificationResult = await verifyChapaPayment(transactionId);
-        break;
-      case 'CBE_BIRR':
-        verificationResult = await verifyCbeBirrPayment(transactionId);
-        break;
-      case 'STRIPE':
-        verificationResult = await verifyStripePayment(transactionId);
-        break;
-      default:
-        return res.status(400).json({
-          success: false,
-          message: 'Unsupported payment method'
-        });
-    }
-
-    if (verificationResult.success) {
-      // Update payment status
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status: 'COMPLETED',
-          paidAt: new Date()
-        }
-      });
-
-      // Update order payment status
-      await prisma.order.update({
-        where: { id: payment.orderId },
-        data: {
-          paymentStatus: 'COMPLETED',
-          status: 'CONFIRMED'
-        }
-      });
-
-      // Send order confirmation email
-      try {
-        const { sendOrderConfirmation } = require('../utils/email');
-        await sendOrderConfirmation(
-          req.user.email,
-          req.user.firstName,
-          payment.order
-        );
-      } catch (emailError) {
-        console.error('Order confirmation email failed:', emailError);
-      }
-    }
-
     res.json({
       success: true,
       data: {
-        transactionId,
-        status: verificationResult.success ? 'SUCCESS' : 'FAILED',
+        transactionId: payment.id,
+        status: payment.status,
         orderId: payment.orderId,
         amount: payment.amount,
-        paidAt: verificationResult.success ? new Date() : null
+        paidAt: payment.paidAt
       }
     });
 
@@ -252,131 +245,353 @@ router.get('/order/:orderId', authenticateToken, async (req, res) => {
 });
 
 /**
- * @route   POST /api/payments/webhook/chapa
- * @desc    Chapa webhook handler
- * @access  Public
+ * @route   GET /api/payments/seller/balance
+ * @desc    Get the seller's escrow balance (held, available, paid out)
+ * @access  Private (Seller)
  */
-router.post('/webhook/chapa', async (req, res) => {
+router.get('/seller/balance', authenticateToken, requireSeller, async (req, res) => {
   try {
-    const { transaction_id, status, amount } = req.body;
+    const balance = await getSellerBalance(req.user.id);
+
+    const [entries, payouts] = await Promise.all([
+      prisma.escrowTransaction.findMany({
+        where: { sellerId: req.user.id },
+        select: {
+          id: true,
+          amount: true,
+          status: true,
+          heldAt: true,
+          releaseAt: true,
+          releasedAt: true,
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true
+            }
+          }
+        },
+        orderBy: { heldAt: 'desc' },
+        take: 10
+      }),
+      prisma.payout.findMany({
+        where: { sellerId: req.user.id },
+        select: {
+          id: true,
+          amount: true,
+          reference: true,
+          createdAt: true
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 5
+      })
+    ]);
 
-    if (!transaction_id) {
-      return res.status(400).json({
-        success: false,
-        message: 'Transaction ID is required'
-      });
-    }
-
-    // Find payment
-    const payment = await prisma.payment.findFirst({
-      where: { transactionId: transaction_id },
-      include: { order: true }
-    });
-
-    if (!payment) {
-      return res.status(404).json({
-        success: false,
-        message: 'Payment not found'
-      });
-    }
-
-    // Update payment status
-    const paymentStatus = status === 'success' ? 'COMPLETED' : 'FAILED';
-    
-    await prisma.payment.update({
-      where: { id: payment.id },
+    res.json({
+      success: true,
       data: {
-        status: paymentStatus,
-        paidAt: paymentStatus === 'COMPLETED' ? new Date() : null
+        ...balance,
+        disputeWindowDays: config.escrow.disputeWindowDays,
+        entries,
+        payouts
       }
     });
 
-    // Update order status if payment successful
-    if (paymentStatus === 'COMPLETED') {
-      await prisma.order.update({
-        where: { id: payment.orderId },
-        data: {
-          paymentStatus: 'COMPLETED',
-          status: 'CONFIRMED'
-        }
-      });
-    }
-
-    res.json({ success: true });
-
   } catch (error) {
-    console.error('Chapa webhook error:', error);
+    console.error('Get seller balance error:', error);
     res.status(500).json({
       success: false,
-      message: 'Webhook processing failed'
+      message: 'Internal server error'
     });
   }
 });
 
+/**
+ * @route   POST /api/payments/webhook/chapa
+ * @desc    Chapa webhook handler
+ * @access  Public (signed)
+ */
+router.post('/webhook/chapa', handleWebhook(WEBHOOK_GATEWAYS.chapa));
+
 /**
  * @route   POST /api/payments/webhook/cbe-birr
  * @desc    CBE Birr webhook handler
- * @access  Public
+ * @access  Public (signed)
  */
-router.post('/webhook/cbe-birr', async (req, res) => {
-  try {
-    const { transactionId, status, amount } = req.body;
+router.post('/webhook/cbe-birr', handleWebhook(WEBHOOK_GATEWAYS.cbeBirr));
 
-    if (!transactionId) {
-      return res.status(400).json({
+/**
+ * @route   POST /api/payments/webhook/stripe
+ * @desc    Stripe webhook handler
+ * @access  Public (signed)
+ */
+router.post('/webhook/stripe', handleWebhook(WEBHOOK_GATEWAYS.stripe));
+
+// Helper functions
+
+/**
+ * Build a webhook route for a gateway: check the signature, record the event
+ * once, then settle the payment it refers to.
+ */
+function handleWebhook(gateway) {
+  return async (req, res) => {
+    let webhookEvent = null;
+
+    try {
+      if (!gateway.secret()) {
+        return res.status(503).json({
+          success: false,
+          message: `${gateway.name} webhooks are not configured`
+        });
+      }
+
+      if (!verifyWebhookSignature(gateway, req)) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid webhook signature'
+        });
+      }
+
+      const event = parseWebhookEvent(gateway, req);
+
+      if (!event.transactionId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Transaction ID is required'
+        });
+      }
+
+      // The unique (gateway, eventId) key turns retries and replays into no-ops
+      try {
+        webhookEvent = await prisma.webhookEvent.create({
+          data: {
+            gateway: gateway.method,
+            eventId: event.eventId,
+            transactionId: String(event.transactionId),
+            status: event.status ? String(event.status) : null,
+            amount: event.amount,
+            currency: event.currency,
+            payload: req.body
+          }
+        });
+      } catch (error) {
+        if (error.code === 'P2002') {
+          return res.json({
+            success: true,
+            message: 'Event already processed'
+          });
+        }
+        throw error;
+      }
+
+      const outcome = await applyWebhookEvent(gateway, event);
+
+      await prisma.webhookEvent.update({
+        where: { id: webhookEvent.id },
+        data: {
+          result: outcome.result,
+          message: outcome.message,
+          paymentId: outcome.paymentId,
+          processedAt: new Date()
+        }
+      });
+
+      if (outcome.result === 'REJECTED') {
+        return res.status(outcome.statusCode).json({
+          success: false,
+          message: outcome.message
+        });
+      }
+
+      res.json({
+        success: true,
+        message: outcome.message
+      });
+
+    } catch (error) {
+      console.error(`${gateway.name} webhook error:`, error);
+
+      // Forget the event so the gateway's retry gets processed instead of deduplicated
+      if (webhookEvent) {
+        await prisma.webhookEvent.delete({ where: { id: webhookEvent.id } }).catch(() => {});
+      }
+
+      res.status(500).json({
         success: false,
-        message: 'Transaction ID is required'
+        message: 'Webhook processing failed'
       });
     }
+  };
+}
 
-    // Find payment
-    const payment = await prisma.payment.findFirst({
-      where: { transactionId },
-      include: { order: true }
+/**
+ * Settle the payment a verified webhook event refers to.
+ * The gateway amount must match what we charged, and a settled payment is never overwritten.
+ */
+async function applyWebhookEvent(gateway, event) {
+  const payment = await prisma.payment.findFirst({
+    where: {
+      transactionId: String(event.transactionId),
+      paymentMethod: gateway.method
+    },
+    include: { order: true }
+  });
+
+  if (!payment) {
+    return { result: 'REJECTED', statusCode: 404, message: 'Payment not found', paymentId: null };
+  }
+
+  if (event.succeeded) {
+    const amountMatches = event.amount !== null &&
+      Math.abs(Number(payment.amount) - event.amount) < 0.005;
+    const currencyMatches = !event.currency || event.currency === payment.currency;
+
+    if (!amountMatches || !currencyMatches) {
+      console.warn(`${gateway.name} webhook amount mismatch for payment ${payment.id}: expected ${payment.amount} ${payment.currency}, got ${event.amount} ${event.currency}`);
+      return { result: 'REJECTED', statusCode: 400, message: 'Amount does not match the payment', paymentId: payment.id };
+    }
+  }
+
+  if (!['PENDING', 'PROCESSING', 'FAILED'].includes(payment.status)) {
+    return { result: 'IGNORED', message: `Payment already ${payment.status.toLowerCase()}`, paymentId: payment.id };
+  }
+
+  if (event.succeeded) {
+    if (!await completePayment(payment)) {
+      return { result: 'IGNORED', message: 'Payment already settled', paymentId: payment.id };
+    }
+    return { result: 'PROCESSED', message: 'Payment completed', paymentId: payment.id };
+  }
+
+  // Claimed like completePayment, so a late failure can't overwrite a payment a success event settled
+  const { count } = await prisma.payment.updateMany({
+    where: {
+      id: payment.id,
+      status: { in: ['PENDING', 'PROCESSING'] }
+    },
+    data: { status: 'FAILED' }
+  });
+
+  if (count === 0) {
+    return { result: 'IGNORED', message: 'Payment is no longer pending', paymentId: payment.id };
+  }
+
+  return { result: 'PROCESSED', message: 'Payment failed', paymentId: payment.id };
+}
+
+/**
+ * Mark a payment completed, confirm its order and hold the funds in escrow.
+ * A payment that lands after its order was cancelled (e.g. the payment window
+ * closed) is refunded straight away. Returns false, changing nothing, when the
+ * payment was already settled, so a repeated event can't count the sale twice.
+ */
+async function completePayment(payment) {
+  const paidAt = new Date();
+  let chatPosts = [];
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    // Claim the payment - only an unsettled one moves to COMPLETED
+    const { count } = await tx.payment.updateMany({
+      where: {
+        id: payment.id,
+        status: { in: ['PENDING', 'PROCESSING', 'FAILED'] }
+      },
+      data: {
+        status: 'COMPLETED',
+        paidAt
+      }
     });
 
-    if (!payment) {
-      return res.status(404).json({
-        success: false,
-        message: 'Payment not found'
-      });
+    if (count !== 1) {
+      return 'SETTLED';
     }
 
-    // Update payment status
-    const paymentStatus = status === 'success' ? 'COMPLETED' : 'FAILED';
-    
-    await prisma.payment.update({
-      where: { id: payment.id },
+    const completedPayment = await tx.payment.findUnique({
+      where: { id: payment.id }
+    });
+
+    // Marking the order paid first locks it, so the status read next can't be overtaken
+    // by a cancellation (the buyer's, or the unpaid-order sweep's) still in flight
+    await tx.order.update({
+      where: { id: payment.orderId },
       data: {
-        status: paymentStatus,
-        paidAt: paymentStatus === 'COMPLETED' ? new Date() : null
+        paymentStatus: 'COMPLETED',
+        paidAt
       }
     });
 
-    // Update order status if payment successful
-    if (paymentStatus === 'COMPLETED') {
-      await prisma.order.update({
+    const order = await tx.order.findUnique({
+      where: { id: payment.orderId },
+      select: { id: true, status: true }
+    });
+
+    // Only a pending order moves on - a late webhook must not rewind a shipped one
+    if (canTransition(ORDER_TRANSITIONS, order.status, 'CONFIRMED', 'SYSTEM')) {
+      chatPosts = await recordOrderEvents(order, { status: 'CONFIRMED' }, { note: 'Payment received' }, tx);
+
+      await tx.order.update({
         where: { id: payment.orderId },
-        data: {
-          paymentStatus: 'COMPLETED',
-          status: 'CONFIRMED'
-        }
+        data: { status: 'CONFIRMED' }
       });
     }
 
-    res.json({ success: true });
+    await holdPayment(completedPayment, tx);
 
-  } catch (error) {
-    console.error('CBE Birr webhook error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Webhook processing failed'
+    if (order.status === 'CANCELLED') {
+      return 'CANCELLED';
+    }
+
+    await recordSales(payment.orderId, tx);
+    return 'COMPLETED';
+  });
+
+  if (outcome === 'SETTLED') {
+    return false;
+  }
+
+  publishChatMessages(chatPosts);
+
+  if (outcome === 'CANCELLED') {
+    await refundCancelledOrder(payment.orderId, payment.userId, 'Payment arrived after the order was cancelled');
+    return true;
+  }
+
+  // Send order confirmation email
+  try {
+    const { sendOrderConfirmation } = require('../utils/email');
+    const buyer = await prisma.user.findUnique({
+      where: { id: payment.userId },
+      select: { email: true, firstName: true }
     });
+    await sendOrderConfirmation(buyer.email, buyer.firstName, payment.order);
+  } catch (emailError) {
+    console.error('Order confirmation email failed:', emailError);
   }
-});
+
+  return true;
+}
 
 // Payment gateway integration functions
 
+/**
+ * Link to the local gateway simulator's test payment page
+ */
+function getSimulatorPaymentUrl(payment, order) {
+  const params = new URLSearchParams({
+    gateway: payment.paymentMethod,
+    transactionId: payment.id,
+    amount: Number(payment.amount).toFixed(2),
+    currency: payment.currency,
+    orderNumber: order.orderNumber
+  });
+
+  if (order.checkoutGroupId) {
+    params.set('checkoutGroupId', order.checkoutGroupId);
+  }
+
+  return `${config.payments.simulatorUrl}?${params}`;
+}
+
 /**
  * Initialize Chapa payment
  */
@@ -404,31 +619,4 @@ async function initializeStripePayment(payment) {
   return `https://checkout.stripe.com/pay/${payment.id}`;
 }
 
-/**
- * Verify Chapa payment
- */
-async function verifyChapaPayment(transactionId) {
-  // This would integrate with Chapa API to verify payment
-  // For now, return mock success
-  return { success: true };
-}
-
-/**
- * Verify CBE Birr payment
- */
-async function verifyCbeBirrPayment(transactionId) {
-  // This would integrate with CBE Birr API to verify payment
-  // For now, return mock success
-  return { success: true };
-}
-
-/**
- * Verify Stripe payment
- */
-async function verifyStripePayment(transactionId) {
-  // This would integrate with Stripe API to verify payment
-  // For now, return mock success
-  return { success: true };
-}
-
 module.exports = router;
@@ -1,12 +1,51 @@
 const express = require('express');
 const prisma = require('../config/database');
 const { authenticateToken, requireSeller, requireKYC, optionalAuth } = require('../middleware/auth');
+const { getStockStatus } = require('../utils/inventory');
+const {
+  searchProducts,
+  recordSearch,
+  getRecentSearches,
+  getPopularSearches
+} = require('../utils/search');
 
 const router = express.Router();
 
+const MAX_INVENTORY_ALERTS = 50;
+
+// Matches of each kind in the search box suggestions
+const SUGGESTION_LIMIT = 5;
+// Shortest query worth matching against products, categories and stores
+const MIN_SUGGESTION_LENGTH = 2;
+
+// Product fields shown in listings
+const productListSelect = {
+  id: true,
+  title: true,
+  description: true,
+  price: true,
+  comparePrice: true,
+  images: true,
+  category: {
+    select: { id: true, name: true }
+  },
+  seller: {
+    select: {
+      id: true,
+      storeName: true,
+      averageRating: true
+    }
+  },
+  averageRating: true,
+  reviewCount: true,
+  isPublished: true,
+  createdAt: true
+};
+
 /**
  * @route   GET /api/products
- * @desc    Get all products with filtering and pagination
+ * @desc    Get all products with filtering and pagination. With ?search= the results are
+ *          ranked by relevance unless another sortBy is given
  * @access  Public
  */
 router.get('/', optionalAuth, async (req, res) => {
@@ -18,9 +57,9 @@ router.get('/', optionalAuth, async (req, res) => {
       minPrice,
       maxPrice,
       search,
-      sortBy = 'newest',
       sellerId
     } = req.query;
+    const sortBy = req.query.sortBy || (search ? 'relevance' : 'newest');
 
     const skip = (parseInt(page) - 1) * parseInt(limit);
 
@@ -40,12 +79,12 @@ router.get('/', optionalAuth, async (req, res) => {
       if (maxPrice) where.price.lte = parseFloat(maxPrice);
     }
 
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-        { tags: { has: search } }
-      ];
+    // Position of each match in the search ranking
+    let searchRanks = null;
+    if (search?.trim()) {
+      const matches = await searchProducts(search.trim());
+      searchRanks = new Map(matches.map((match, index) => [match.id, index]));
+      where.id = { in: matches.map(match => match.id) };
     }
 
     if (sellerId) {
@@ -72,37 +111,45 @@ router.get('/', optionalAuth, async (req, res) => {
         break;
     }
 
-    const [products, totalProducts] = await Promise.all([
-      prisma.product.findMany({
+    let products;
+    let totalProducts;
+
+    if (searchRanks && sortBy === 'relevance') {
+      // Prisma can't order by the search rank, so the page is cut from the ranked ids
+      const matching = await prisma.product.findMany({
         where,
-        select: {
-          id: true,
-          title: true,
-          description: true,
-          price: true,
-          comparePrice: true,
-          images: true,
-          category: {
-            select: { id: true, name: true }
-          },
-          seller: {
-            select: {
-              id: true,
-              storeName: true,
-              averageRating: true
-            }
-          },
-          averageRating: true,
-          reviewCount: true,
-          isPublished: true,
-          createdAt: true
-        },
-        orderBy,
-        skip,
-        take: parseInt(limit)
-      }),
-      prisma.product.count({ where })
-    ]);
+        select: { id: true }
+      });
+      const pageIds = matching
+        .map(product => product.id)
+        .sort((a, b) => searchRanks.get(a) - searchRanks.get(b))
+        .slice(skip, skip + parseInt(limit));
+
+      const pageProducts = await prisma.product.findMany({
+        where: { id: { in: pageIds } },
+        select: productListSelect
+      });
+
+      products = pageProducts.sort((a, b) => searchRanks.get(a.id) - searchRanks.get(b.id));
+      totalProducts = matching.length;
+    } else {
+      [products, totalProducts] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          select: productListSelect,
+          orderBy,
+          skip,
+          take: parseInt(limit)
+        }),
+        prisma.product.count({ where })
+      ]);
+    }
+
+    // Log each search once, not again for every page of its results
+    if (searchRanks && parseInt(page) === 1) {
+      recordSearch(search, req.user?.id, totalProducts)
+        .catch(error => console.error('Record search error:', error));
+    }
 
     res.json({
       success: true,
@@ -111,7 +158,7 @@ router.get('/', optionalAuth, async (req, res) => {
         pagination: {
           page: parseInt(page),
           limit: parseInt(limit),
-          totalProducts,
+          total: totalProducts,
           totalPages: Math.ceil(totalProducts / parseInt(limit))
         }
       }
@@ -126,6 +173,152 @@ router.get('/', optionalAuth, async (req, res) => {
   }
 });
 
+/**
+ * @route   GET /api/products/categories
+ * @desc    Get all categories (registered before /:id so it is not shadowed)
+ * @access  Public
+ */
+router.get('/categories', async (req, res) => {
+  try {
+    const categories = await prisma.category.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        image: true,
+        parentId: true,
+        children: {
+          where: { isActive: true },
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        _count: {
+          select: { products: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    // Add product count to categories
+    const categoriesWithCount = categories.map(category => ({
+      ...category,
+      productCount: category._count.products
+    }));
+
+    res.json({
+      success: true,
+      data: categoriesWithCount
+    });
+
+  } catch (error) {
+    console.error('Get categories error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/products/suggestions
+ * @desc    Search box suggestions: matching products, categories and stores, popular
+ *          searches and, when signed in, the user's recent searches (registered before
+ *          /:id so it is not shadowed)
+ * @access  Public
+ */
+router.get('/suggestions', optionalAuth, async (req, res) => {
+  try {
+    const q = (req.query.q || '').trim();
+    const matching = q.length >= MIN_SUGGESTION_LENGTH;
+
+    const [matches, categories, sellers, popular, recent] = await Promise.all([
+      matching ? searchProducts(q, SUGGESTION_LIMIT) : [],
+      matching
+        ? prisma.category.findMany({
+          where: {
+            isActive: true,
+            name: { contains: q, mode: 'insensitive' }
+          },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+          take: SUGGESTION_LIMIT
+        })
+        : [],
+      matching
+        ? prisma.user.findMany({
+          where: {
+            role: 'SELLER',
+            status: 'ACTIVE',
+            storeName: { contains: q, mode: 'insensitive' }
+          },
+          select: { id: true, storeName: true, avatar: true },
+          orderBy: { storeName: 'asc' },
+          take: SUGGESTION_LIMIT
+        })
+        : [],
+      getPopularSearches(q, SUGGESTION_LIMIT),
+      req.user ? getRecentSearches(req.user.id, q, SUGGESTION_LIMIT) : []
+    ]);
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: matches.map(match => match.id) } },
+      select: { id: true, title: true, images: true, price: true }
+    });
+    const ranks = new Map(matches.map((match, index) => [match.id, index]));
+
+    res.json({
+      success: true,
+      data: {
+        products: products
+          .sort((a, b) => ranks.get(a.id) - ranks.get(b.id))
+          .map(({ images, ...product }) => ({ ...product, image: images[0] || null })),
+        categories,
+        sellers,
+        // Recent searches are already offered, so they are not repeated as popular ones
+        popular: popular.filter(query => !recent.includes(query)),
+        recent
+      }
+    });
+
+  } catch (error) {
+    console.error('Get search suggestions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/products/recent-searches
+ * @desc    Clear the user's recent searches. The searches still count towards popular
+ *          suggestions, just no longer against the user (registered before /:id)
+ * @access  Private
+ */
+router.delete('/recent-searches', authenticateToken, async (req, res) => {
+  try {
+    await prisma.searchQuery.updateMany({
+      where: { userId: req.user.id },
+      data: { userId: null }
+    });
+
+    res.json({
+      success: true,
+      message: 'Recent searches cleared'
+    });
+
+  } catch (error) {
+    console.error('Clear recent searches error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   GET /api/products/:id
  * @desc    Get single product
@@ -144,6 +337,9 @@ router.get('/:id', optionalAuth, async (req, res) => {
         price: true,
         comparePrice: true,
         quantity: true,
+        trackQuantity: true,
+        allowBackorder: true,
+        lowStockThreshold: true,
         sku: true,
         weight: true,
         dimensions: true,
@@ -181,7 +377,10 @@ router.get('/:id', optionalAuth, async (req, res) => {
 
     res.json({
       success: true,
-      data: product
+      data: {
+        ...product,
+        stock: getStockStatus(product)
+      }
     });
 
   } catch (error) {
@@ -193,6 +392,46 @@ router.get('/:id', optionalAuth, async (req, res) => {
   }
 });
 
+/**
+ * @route   GET /api/products/:id/stock
+ * @desc    Get a product's current stock, for polling from the product page
+ * @access  Public
+ */
+router.get('/:id/stock', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      select: {
+        quantity: true,
+        trackQuantity: true,
+        allowBackorder: true,
+        lowStockThreshold: true
+      }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: getStockStatus(product)
+    });
+
+  } catch (error) {
+    console.error('Get product stock error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   POST /api/products
  * @desc    Create a new product
@@ -318,6 +557,20 @@ router.put('/:id', authenticateToken, requireSeller, async (req, res) => {
       });
     }
 
+    if (updateData.quantity !== undefined && !(parseInt(updateData.quantity) >= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity must be 0 or more'
+      });
+    }
+
+    if (updateData.lowStockThreshold !== undefined && !(parseInt(updateData.lowStockThreshold) >= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Low stock threshold must be 0 or more'
+      });
+    }
+
     // Update product
     const updatedProduct = await prisma.product.update({
       where: { id },
@@ -325,12 +578,16 @@ router.put('/:id', authenticateToken, requireSeller, async (req, res) => {
         ...updateData,
         price: updateData.price ? parseFloat(updateData.price) : undefined,
         comparePrice: updateData.comparePrice ? parseFloat(updateData.comparePrice) : undefined,
-        quantity: updateData.quantity ? parseInt(updateData.quantity) : undefined
+        // Setting stock to 0 is a real update, so only a missing quantity is skipped
+        quantity: updateData.quantity !== undefined ? parseInt(updateData.quantity) : undefined,
+        lowStockThreshold: updateData.lowStockThreshold !== undefined ? parseInt(updateData.lowStockThreshold) : undefined
       },
       select: {
         id: true,
         title: true,
         price: true,
+        quantity: true,
+        lowStockThreshold: true,
         updatedAt: true
       }
     });
@@ -454,7 +711,7 @@ router.get('/seller/my-products', authenticateToken, requireSeller, async (req,
     const draftProducts = totalProductsCount - publishedProducts;
 
     const outOfStock = await prisma.product.count({
-      where: { sellerId: req.user.id, quantity: 0 }
+      where: { sellerId: req.user.id, trackQuantity: true, quantity: { lte: 0 } }
     });
 
     res.json({
@@ -486,47 +743,55 @@ router.get('/seller/my-products', authenticateToken, requireSeller, async (req,
 });
 
 /**
- * @route   GET /api/categories
- * @desc    Get all categories
- * @access  Public
+ * @route   GET /api/products/seller/inventory-health
+ * @desc    Get the seller's tracked products that are low or out of stock
+ * @access  Private (Seller)
  */
-router.get('/categories', async (req, res) => {
+router.get('/seller/inventory-health', authenticateToken, requireSeller, async (req, res) => {
   try {
-    const categories = await prisma.category.findMany({
-      where: { isActive: true },
+    const products = await prisma.product.findMany({
+      where: {
+        sellerId: req.user.id,
+        trackQuantity: true,
+        quantity: { lte: prisma.product.fields.lowStockThreshold }
+      },
       select: {
         id: true,
-        name: true,
-        description: true,
-        image: true,
-        parentId: true,
-        children: {
-          select: {
-            id: true,
-            name: true,
-            productCount: true
-          }
-        },
-        _count: {
-          select: { products: true }
-        }
+        title: true,
+        images: true,
+        quantity: true,
+        lowStockThreshold: true,
+        allowBackorder: true,
+        isPublished: true,
+        salesCount: true
       },
-      orderBy: { name: 'asc' }
+      // Emptiest first, then the best sellers among equally low products
+      orderBy: [
+        { quantity: 'asc' },
+        { salesCount: 'desc' }
+      ],
+      take: MAX_INVENTORY_ALERTS
     });
 
-    // Add product count to categories
-    const categoriesWithCount = categories.map(category => ({
-      ...category,
-      productCount: category._count.products
-    }));
+    const outOfStock = products.filter(product => product.quantity <= 0).length;
 
     res.json({
       success: true,
-      data: categoriesWithCount
+      data: {
+        products: products.map(product => ({
+          ...product,
+          quantity: Math.max(product.quantity, 0),
+          level: product.quantity <= 0 ? 'OUT_OF_STOCK' : 'LOW_STOCK'
+        })),
+        summary: {
+          outOfStock,
+          lowStock: products.length - outOfStock
+        }
+      }
     });
 
   } catch (error) {
-    console.error('Get categories error:', error);
+    console.error('Get inventory health error:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error'
@@ -535,7 +800,7 @@ router.get('/categories', async (req, res) => {
 });
 
 /**
- * @route   GET /api/categories/:id/products
+ * @route   GET /api/products/categories/:id/products
  * @desc    Get products by category
  * @access  Public
  */
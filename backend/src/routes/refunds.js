@@ -0,0 +1,409 @@
+const express = require('express');
+const prisma = require('../config/database');
+const { authenticateToken, requireSeller } = require('../middleware/auth');
+const {
+  OPEN_REFUND_STATUSES,
+  REFUND_INCLUDE,
+  getRefundableItems,
+  buildRefund,
+  completeRefund
+} = require('../utils/refunds');
+
+const router = express.Router();
+
+const REFUND_STATUSES = ['REQUESTED', 'APPROVED', 'REJECTED', 'COMPLETED', 'FAILED'];
+
+// Orders that can be refunded: paid for and not already closed out
+const REFUNDABLE_ORDER_STATUSES = ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'];
+
+/**
+ * @route   POST /api/refunds
+ * @desc    Request a refund for a whole order or some of its items
+ * @access  Private (Buyer)
+ */
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { orderId, reason, items } = req.body;
+
+    if (!orderId || !reason?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Order ID and reason are required'
+      });
+    }
+
+    if (items !== undefined && !Array.isArray(items)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Items must be a list of order items and quantities'
+      });
+    }
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: orderId,
+        buyerId: req.user.id
+      },
+      include: {
+        items: true,
+        refunds: { include: { items: true } },
+        payments: {
+          where: { status: 'COMPLETED' },
+          orderBy: { createdAt: 'desc' }
+        }
+      }
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const payment = order.payments[0];
+
+    if (!payment || !REFUNDABLE_ORDER_STATUSES.includes(order.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only paid orders can be refunded'
+      });
+    }
+
+    if (order.refunds.some(refund => OPEN_REFUND_STATUSES.includes(refund.status))) {
+      return res.status(409).json({
+        success: false,
+        message: 'This order already has a refund waiting for review'
+      });
+    }
+
+    const { amount, items: refundItems, error } = buildRefund(order, payment, items);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const refund = await prisma.refund.create({
+      data: {
+        orderId: order.id,
+        paymentId: payment.id,
+        requestedById: req.user.id,
+        amount,
+        reason: reason.trim(),
+        items: { create: refundItems }
+      },
+      include: REFUND_INCLUDE
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Refund requested. The seller will review it shortly.',
+      data: refund
+    });
+
+  } catch (error) {
+    console.error('Request refund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/refunds
+ * @desc    Get refunds to review (the seller's orders, or every order for admins)
+ * @access  Private (Seller/Admin)
+ */
+router.get('/', authenticateToken, requireSeller, async (req, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 10,
+      status
+    } = req.query;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const where = req.user.role === 'ADMIN'
+      ? {}
+      : { order: { sellerId: req.user.id } };
+
+    if (status) {
+      const refundStatus = status.toUpperCase();
+      if (!REFUND_STATUSES.includes(refundStatus)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid refund status'
+        });
+      }
+      where.status = refundStatus;
+    }
+
+    const [refunds, total] = await Promise.all([
+      prisma.refund.findMany({
+        where,
+        include: {
+          ...REFUND_INCLUDE,
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true,
+              total: true,
+              buyer: {
+                select: {
+                  firstName: true,
+                  lastName: true
+                }
+              },
+              seller: {
+                select: {
+                  storeName: true
+                }
+              }
+            }
+          },
+          payment: {
+            select: {
+              paymentMethod: true
+            }
+          }
+        },
+        orderBy: { requestedAt: 'desc' },
+        skip,
+        take: parseInt(limit)
+      }),
+      prisma.refund.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        refunds,
+        pagination: {
+          page: parseInt(page),
+          limit: parseInt(limit),
+          total,
+          totalPages: Math.ceil(total / parseInt(limit))
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get refunds error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/refunds/order/:orderId
+ * @desc    Get an order's refund history and what can still be refunded
+ * @access  Private
+ */
+router.get('/order/:orderId', authenticateToken, async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    const order = await prisma.order.findFirst({
+      where: req.user.role === 'ADMIN'
+        ? { id: orderId }
+        : {
+            id: orderId,
+            OR: [
+              { buyerId: req.user.id },
+              { sellerId: req.user.id }
+            ]
+          },
+      include: {
+        items: true,
+        refunds: {
+          include: REFUND_INCLUDE,
+          orderBy: { requestedAt: 'desc' }
+        },
+        payments: {
+          where: { status: { in: ['COMPLETED', 'REFUNDED'] } },
+          select: {
+            amount: true,
+            refundAmount: true
+          }
+        }
+      }
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found'
+      });
+    }
+
+    const paid = order.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const refunded = order.payments.reduce((sum, payment) => sum + Number(payment.refundAmount || 0), 0);
+
+    res.json({
+      success: true,
+      data: {
+        refunds: order.refunds,
+        refundableItems: getRefundableItems(order),
+        paid,
+        refunded,
+        canRequest: order.buyerId === req.user.id &&
+          order.paymentStatus === 'COMPLETED' &&
+          REFUNDABLE_ORDER_STATUSES.includes(order.status) &&
+          !order.refunds.some(refund => OPEN_REFUND_STATUSES.includes(refund.status))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get order refunds error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/refunds/:id/approve
+ * @desc    Approve a refund and pay it back through the gateway
+ * @access  Private (Seller/Admin)
+ */
+router.put('/:id/approve', authenticateToken, requireSeller, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { restock = true, note } = req.body;
+
+    const refund = await findReviewableRefund(id, req.user);
+
+    if (!refund) {
+      return res.status(404).json({
+        success: false,
+        message: 'Refund not found or access denied'
+      });
+    }
+
+    // Claim the refund first so a double click cannot pay it back twice
+    const { count } = await prisma.refund.updateMany({
+      where: { id: refund.id, status: { in: OPEN_REFUND_STATUSES } },
+      data: { status: 'APPROVED' }
+    });
+
+    if (count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund is already ${refund.status.toLowerCase()}`
+      });
+    }
+
+    const result = await completeRefund(refund.id, req.user.id, {
+      restock: restock !== false,
+      note: note?.trim() || undefined
+    });
+
+    if (result.status === 'FAILED') {
+      return res.status(502).json({
+        success: false,
+        message: 'The payment gateway refused the refund. Try again later.',
+        data: result
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Refund completed',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Approve refund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/refunds/:id/reject
+ * @desc    Reject a refund request
+ * @access  Private (Seller/Admin)
+ */
+router.put('/:id/reject', authenticateToken, requireSeller, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    if (!note?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tell the buyer why the refund is rejected'
+      });
+    }
+
+    const refund = await findReviewableRefund(id, req.user);
+
+    if (!refund) {
+      return res.status(404).json({
+        success: false,
+        message: 'Refund not found or access denied'
+      });
+    }
+
+    const { count } = await prisma.refund.updateMany({
+      where: { id: refund.id, status: { in: OPEN_REFUND_STATUSES } },
+      data: {
+        status: 'REJECTED',
+        reviewedById: req.user.id,
+        reviewedAt: new Date(),
+        note: note.trim()
+      }
+    });
+
+    if (count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund is already ${refund.status.toLowerCase()}`
+      });
+    }
+
+    const result = await prisma.refund.findUnique({
+      where: { id: refund.id },
+      include: REFUND_INCLUDE
+    });
+
+    res.json({
+      success: true,
+      message: 'Refund rejected',
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Reject refund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Helper functions
+
+/**
+ * Find a refund the user may review: any refund for admins, their own orders' refunds for sellers
+ */
+function findReviewableRefund(id, user) {
+  return prisma.refund.findFirst({
+    where: user.role === 'ADMIN'
+      ? { id }
+      : { id, order: { sellerId: user.id } }
+  });
+}
+
+module.exports = router;
@@ -0,0 +1,134 @@
+const express = require('express');
+const prisma = require('../config/database');
+const { authenticateToken } = require('../middleware/auth');
+const { blockUser } = require('../utils/blocks');
+
+const router = express.Router();
+
+const REPORT_CATEGORIES = ['HARASSMENT', 'SPAM', 'SCAM', 'INAPPROPRIATE_CONTENT', 'HATE_SPEECH', 'OTHER'];
+
+/**
+ * @route   POST /api/reports
+ * @desc    Report a user, or a message they sent, to the moderators
+ * @access  Private
+ */
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { messageId, category, details, block = false } = req.body;
+    let { reportedUserId } = req.body;
+
+    if (!REPORT_CATEGORIES.includes(category)) {
+      return res.status(400).json({
+        success: false,
+        message: `Category must be one of: ${REPORT_CATEGORIES.join(', ')}`
+      });
+    }
+
+    if (!reportedUserId && !messageId) {
+      return res.status(400).json({
+        success: false,
+        message: 'A user or message to report is required'
+      });
+    }
+
+    if (category === 'OTHER' && !details?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tell us what happened'
+      });
+    }
+
+    // A message can only be reported by the user it was sent to
+    if (messageId) {
+      const message = await prisma.message.findFirst({
+        where: { id: messageId, receiverId: req.user.id },
+        select: { senderId: true, type: true }
+      });
+
+      if (!message || message.type === 'SYSTEM') {
+        return res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        });
+      }
+
+      reportedUserId = message.senderId;
+    }
+
+    if (reportedUserId === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot report yourself'
+      });
+    }
+
+    const reportedUser = await prisma.user.findUnique({
+      where: { id: reportedUserId },
+      select: { id: true }
+    });
+
+    if (!reportedUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // One open report per user or message is enough for the queue
+    const existing = await prisma.report.findFirst({
+      where: {
+        reporterId: req.user.id,
+        reportedUserId,
+        messageId: messageId || null,
+        status: 'OPEN'
+      },
+      select: { id: true }
+    });
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reported this and it is being reviewed'
+      });
+    }
+
+    const report = await prisma.$transaction(async (tx) => {
+      const created = await tx.report.create({
+        data: {
+          reporterId: req.user.id,
+          reportedUserId,
+          messageId: messageId || null,
+          category,
+          details: details?.trim() || null
+        },
+        select: {
+          id: true,
+          category: true,
+          status: true,
+          createdAt: true
+        }
+      });
+
+      if (block) {
+        await blockUser(req.user.id, reportedUserId, tx);
+      }
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      message: block ? 'Report sent and user blocked' : 'Report sent',
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+module.exports = router;
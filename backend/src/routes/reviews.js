@@ -440,10 +440,55 @@ router.get('/my-reviews', authenticateToken, async (req, res) => {
       })
     ]);
 
+    // Delivered products the buyer has not reviewed yet (one review per product)
+    const unreviewedItems = await prisma.orderItem.findMany({
+      where: {
+        order: {
+          buyerId: req.user.id,
+          status: 'DELIVERED'
+        },
+        product: {
+          reviews: { none: { userId: req.user.id } }
+        }
+      },
+      select: {
+        productId: true,
+        product: {
+          select: {
+            id: true,
+            title: true,
+            images: true
+          }
+        },
+        order: {
+          select: {
+            id: true,
+            orderNumber: true,
+            deliveredAt: true,
+            seller: {
+              select: {
+                storeName: true
+              }
+            }
+          }
+        }
+      },
+      distinct: ['productId'],
+      orderBy: { order: { deliveredAt: 'desc' } },
+      take: 10
+    });
+
     res.json({
       success: true,
       data: {
         reviews,
+        awaitingReview: unreviewedItems.map(({ product, order }) => ({
+          product,
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          deliveredAt: order.deliveredAt,
+          seller: order.seller
+        })),
         pagination: {
           page: parseInt(page),
           limit: parseInt(limit),
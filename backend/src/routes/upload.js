@@ -2,7 +2,8 @@ const express = require('express');
 const multer = require('multer');
 const { v4: uuidv4 } = require('uuid');
 const { supabaseAdmin } = require('../config/supabase');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireSeller } = require('../middleware/auth');
+const { uploadKycFile } = require('../utils/kycStorage');
 const config = require('../config');
 
 const router = express.Router();
@@ -36,6 +37,21 @@ const upload = multer({
   }
 });
 
+// KYC files go to the private bucket and may also be PDFs
+const kycUpload = multer({
+  storage,
+  limits: {
+    fileSize: config.upload.maxFileSize
+  },
+  fileFilter: (req, file, cb) => {
+    if (config.upload.allowedKycTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid document type. Allowed types: ' + config.upload.allowedKycTypes.join(', ')), false);
+    }
+  }
+});
+
 /**
  * @route   POST /api/upload/image
  * @desc    Upload image file
@@ -160,6 +176,42 @@ router.post('/video', authenticateToken, upload.single('file'), async (req, res)
   }
 });
 
+/**
+ * @route   POST /api/upload/kyc
+ * @desc    Upload a KYC document to private storage
+ * @access  Private (Seller)
+ */
+router.post('/kyc', authenticateToken, requireSeller, kycUpload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file provided'
+      });
+    }
+
+    const filePath = await uploadKycFile(req.user.id, req.file);
+
+    // No URL in the response: the file is only viewable by admins through signed URLs
+    res.json({
+      success: true,
+      message: 'Document uploaded successfully',
+      data: {
+        filePath,
+        size: req.file.size,
+        mimeType: req.file.mimetype
+      }
+    });
+
+  } catch (error) {
+    console.error('KYC upload error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'File upload failed'
+    });
+  }
+});
+
 /**
  * @route   POST /api/upload/multiple
  * @desc    Upload multiple files
@@ -1,9 +1,13 @@
 const express = require('express');
 const prisma = require('../config/database');
 const { authenticateToken, requireSeller, requireAdmin } = require('../middleware/auth');
+const { isOwnKycPath } = require('../utils/kycStorage');
+const { blockUser, unblockUser } = require('../utils/blocks');
 
 const router = express.Router();
 
+const ADDRESS_TYPES = ['SHIPPING', 'BILLING'];
+
 /**
  * @route   GET /api/users/profile
  * @desc    Get user profile
@@ -59,13 +63,14 @@ router.put('/profile', authenticateToken, async (req, res) => {
     
     if (firstName) updateData.firstName = firstName;
     if (lastName) updateData.lastName = lastName;
-    if (phone) updateData.phone = phone;
-    if (avatar) updateData.avatar = avatar;
+    // Optional fields can be cleared by sending an empty value
+    if (phone !== undefined) updateData.phone = phone || null;
+    if (avatar !== undefined) updateData.avatar = avatar || null;
     
     // Seller-specific fields
     if (req.user.role === 'SELLER' || req.user.role === 'ADMIN') {
       if (storeName) updateData.storeName = storeName;
-      if (bio) updateData.bio = bio;
+      if (bio !== undefined) updateData.bio = bio || null;
     }
 
     const user = await prisma.user.update({
@@ -90,6 +95,13 @@ router.put('/profile', authenticateToken, async (req, res) => {
     });
 
   } catch (error) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'Store name is already taken'
+      });
+    }
+
     console.error('Update profile error:', error);
     res.status(500).json({
       success: false,
@@ -188,6 +200,50 @@ router.get('/seller-stats', authenticateToken, requireSeller, async (req, res) =
   }
 });
 
+/**
+ * @route   GET /api/users/kyc-verification
+ * @desc    Get KYC status and latest submission
+ * @access  Private (Seller)
+ */
+router.get('/kyc-verification', authenticateToken, requireSeller, async (req, res) => {
+  try {
+    const [user, submission] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: req.user.id },
+        select: { kycStatus: true, kycApprovedAt: true }
+      }),
+      prisma.kycDocument.findFirst({
+        where: { userId: req.user.id },
+        select: {
+          id: true,
+          personalInfo: true,
+          status: true,
+          submittedAt: true,
+          reviewedAt: true,
+          rejectionReason: true
+        },
+        orderBy: { submittedAt: 'desc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        kycStatus: user.kycStatus,
+        kycApprovedAt: user.kycApprovedAt,
+        submission
+      }
+    });
+
+  } catch (error) {
+    console.error('Get KYC status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route   POST /api/users/kyc-verification
  * @desc    Submit KYC documents
@@ -214,6 +270,14 @@ router.post('/kyc-verification', authenticateToken, requireSeller, async (req, r
       });
     }
 
+    // Documents must be files this seller uploaded to private KYC storage
+    if (![idCard, selfieWithId, proofOfAddress].every(filePath => isOwnKycPath(req.user.id, filePath))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Documents must be uploaded through /upload/kyc'
+      });
+    }
+
     if (!dateOfBirth || !address) {
       return res.status(400).json({
         success: false,
@@ -223,7 +287,8 @@ router.post('/kyc-verification', authenticateToken, requireSeller, async (req, r
 
     // Check if KYC is already submitted
     const existingKYC = await prisma.kycDocument.findFirst({
-      where: { userId: req.user.id }
+      where: { userId: req.user.id },
+      orderBy: { submittedAt: 'desc' }
     });
 
     if (existingKYC && existingKYC.status !== 'REJECTED') {
@@ -233,21 +298,9 @@ router.post('/kyc-verification', authenticateToken, requireSeller, async (req, r
       });
     }
 
-    // Create or update KYC document
-    const kycDocument = await prisma.kycDocument.upsert({
-      where: { userId: req.user.id },
-      update: {
-        idCard,
-        selfieWithId,
-        proofOfAddress,
-        personalInfo: {
-          dateOfBirth,
-          address
-        },
-        status: 'UNDER_REVIEW',
-        submittedAt: new Date()
-      },
-      create: {
+    // Resubmissions get a new document so rejected ones stay on record
+    const kycDocument = await prisma.kycDocument.create({
+      data: {
         userId: req.user.id,
         idCard,
         selfieWithId,
@@ -404,7 +457,7 @@ router.get('/addresses', authenticateToken, async (req, res) => {
   try {
     const addresses = await prisma.address.findMany({
       where: { userId: req.user.id },
-      orderBy: { createdAt: 'desc' }
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }]
     });
 
     res.json({
@@ -437,6 +490,7 @@ router.post('/addresses', authenticateToken, async (req, res) => {
       state,
       postalCode,
       country,
+      type = 'SHIPPING',
       isDefault = false
     } = req.body;
 
@@ -447,10 +501,23 @@ router.post('/addresses', authenticateToken, async (req, res) => {
       });
     }
 
-    // If this is set as default, unset other defaults
-    if (isDefault) {
+    if (!ADDRESS_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Address type must be SHIPPING or BILLING'
+      });
+    }
+
+    // The first address of a type always becomes its default
+    const existingCount = await prisma.address.count({
+      where: { userId: req.user.id, type }
+    });
+    const makeDefault = isDefault || existingCount === 0;
+
+    // Only one default per address type
+    if (makeDefault) {
       await prisma.address.updateMany({
-        where: { userId: req.user.id },
+        where: { userId: req.user.id, type },
         data: { isDefault: false }
       });
     }
@@ -458,6 +525,7 @@ router.post('/addresses', authenticateToken, async (req, res) => {
     const address = await prisma.address.create({
       data: {
         userId: req.user.id,
+        type,
         firstName,
         lastName,
         phone,
@@ -466,7 +534,7 @@ router.post('/addresses', authenticateToken, async (req, res) => {
         state,
         postalCode,
         country,
-        isDefault
+        isDefault: makeDefault
       }
     });
 
@@ -502,9 +570,17 @@ router.put('/addresses/:id', authenticateToken, async (req, res) => {
       state,
       postalCode,
       country,
-      isDefault = false
+      type,
+      isDefault
     } = req.body;
 
+    if (type !== undefined && !ADDRESS_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Address type must be SHIPPING or BILLING'
+      });
+    }
+
     // Check if address belongs to user
     const address = await prisma.address.findFirst({
       where: { id, userId: req.user.id }
@@ -517,10 +593,12 @@ router.put('/addresses/:id', authenticateToken, async (req, res) => {
       });
     }
 
-    // If this is set as default, unset other defaults
+    const nextType = type || address.type;
+
+    // If this is set as default, unset other defaults of the same type
     if (isDefault) {
       await prisma.address.updateMany({
-        where: { userId: req.user.id },
+        where: { userId: req.user.id, type: nextType, id: { not: id } },
         data: { isDefault: false }
       });
     }
@@ -528,6 +606,7 @@ router.put('/addresses/:id', authenticateToken, async (req, res) => {
     const updatedAddress = await prisma.address.update({
       where: { id },
       data: {
+        type,
         firstName,
         lastName,
         phone,
@@ -566,7 +645,8 @@ router.delete('/addresses/:id', authenticateToken, async (req, res) => {
 
     // Check if address belongs to user
     const address = await prisma.address.findFirst({
-      where: { id, userId: req.user.id }
+      where: { id, userId: req.user.id },
+      include: { _count: { select: { orders: true } } }
     });
 
     if (!address) {
@@ -576,10 +656,33 @@ router.delete('/addresses/:id', authenticateToken, async (req, res) => {
       });
     }
 
+    // Orders keep pointing at their shipping address
+    if (address._count.orders > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'This address is used by existing orders and cannot be deleted'
+      });
+    }
+
     await prisma.address.delete({
       where: { id }
     });
 
+    // Promote the most recent remaining address so the type keeps a default
+    if (address.isDefault) {
+      const nextDefault = await prisma.address.findFirst({
+        where: { userId: req.user.id, type: address.type },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      if (nextDefault) {
+        await prisma.address.update({
+          where: { id: nextDefault.id },
+          data: { isDefault: true }
+        });
+      }
+    }
+
     res.json({
       success: true,
       message: 'Address deleted successfully'
@@ -594,4 +697,120 @@ router.delete('/addresses/:id', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @route   GET /api/users/blocked
+ * @desc    Get users the current user has blocked
+ * @access  Private
+ */
+router.get('/blocked', authenticateToken, async (req, res) => {
+  try {
+    const blocks = await prisma.userBlock.findMany({
+      where: { blockerId: req.user.id },
+      select: {
+        createdAt: true,
+        blocked: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            avatar: true,
+            storeName: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        users: blocks.map(block => ({ ...block.blocked, blockedAt: block.createdAt }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/users/:id/block
+ * @desc    Block a user from messaging the current user, in every chat
+ * @access  Private
+ */
+router.post('/:id/block', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot block yourself'
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    await prisma.$transaction(tx => blockUser(req.user.id, id, tx));
+
+    res.json({
+      success: true,
+      message: 'User blocked'
+    });
+
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/users/:id/block
+ * @desc    Unblock a user
+ * @access  Private
+ */
+router.delete('/:id/block', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const unblocked = await prisma.$transaction(tx => unblockUser(req.user.id, id, tx));
+
+    if (!unblocked) {
+      return res.status(404).json({
+        success: false,
+        message: 'This user is not blocked'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'User unblocked'
+    });
+
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 module.exports = router;
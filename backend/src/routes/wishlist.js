@@ -19,6 +19,7 @@ router.get('/', authenticateToken, async (req, res) => {
         where: { userId: req.user.id },
         select: {
           id: true,
+          price: true,
           createdAt: true,
           product: {
             select: {
@@ -57,6 +58,8 @@ router.get('/', authenticateToken, async (req, res) => {
       data: validItems.map(item => ({
         id: item.id,
         product: item.product,
+        savedPrice: parseFloat(item.price),
+        priceDrop: getPriceDrop(item),
         addedAt: item.createdAt
       })),
       pagination: {
@@ -126,7 +129,8 @@ router.post('/', authenticateToken, async (req, res) => {
     const wishlistItem = await prisma.wishlistItem.create({
       data: {
         userId: req.user.id,
-        productId
+        productId,
+        price: product.price
       },
       select: {
         id: true,
@@ -267,13 +271,20 @@ router.post('/clear', authenticateToken, async (req, res) => {
  */
 router.get('/count', authenticateToken, async (req, res) => {
   try {
-    const count = await prisma.wishlistItem.count({
-      where: { userId: req.user.id }
+    const items = await prisma.wishlistItem.findMany({
+      where: { userId: req.user.id },
+      select: {
+        price: true,
+        product: { select: { price: true } }
+      }
     });
 
     res.json({
       success: true,
-      data: { count }
+      data: {
+        count: items.length,
+        priceDrops: items.filter(item => getPriceDrop(item) > 0).length
+      }
     });
 
   } catch (error) {
@@ -287,7 +298,7 @@ router.get('/count', authenticateToken, async (req, res) => {
 
 /**
  * @route   POST /api/wishlist/move-to-cart/:productId
- * @desc    Move product from wishlist to cart (placeholder for future cart functionality)
+ * @desc    Move product from wishlist to cart
  * @access  Private
  */
 router.post('/move-to-cart/:productId', authenticateToken, async (req, res) => {
@@ -309,16 +320,50 @@ router.post('/move-to-cart/:productId', authenticateToken, async (req, res) => {
       });
     }
 
-    // Remove from wishlist
-    await prisma.wishlistItem.delete({
-      where: { id: wishlistItem.id }
+    const product = await prisma.product.findFirst({
+      where: {
+        id: productId,
+        isPublished: true
+      },
+      select: { id: true, price: true, quantity: true, trackQuantity: true, allowBackorder: true }
     });
 
-    // In a real implementation, you would add to cart here
-    // For now, just return success
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found or not available'
+      });
+    }
+
+    if (product.trackQuantity && !product.allowBackorder && product.quantity < 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Product is out of stock'
+      });
+    }
+
+    // Add one unit to the cart and remove from wishlist together
+    await prisma.$transaction([
+      prisma.cartItem.upsert({
+        where: {
+          userId_productId: { userId: req.user.id, productId }
+        },
+        update: {},
+        create: {
+          userId: req.user.id,
+          productId,
+          quantity: 1,
+          price: product.price
+        }
+      }),
+      prisma.wishlistItem.delete({
+        where: { id: wishlistItem.id }
+      })
+    ]);
+
     res.json({
       success: true,
-      message: 'Product moved to cart (cart functionality not implemented yet)'
+      message: 'Product moved to cart'
     });
 
   } catch (error) {
@@ -330,4 +375,14 @@ router.post('/move-to-cart/:productId', authenticateToken, async (req, res) => {
   }
 });
 
+// Helper functions
+
+/**
+ * How much cheaper the product is now than when it was saved (0 if not cheaper)
+ */
+function getPriceDrop(item) {
+  const drop = parseFloat(item.price) - parseFloat(item.product.price);
+  return drop > 0 ? Math.round(drop * 100) / 100 : 0;
+}
+
 module.exports = router;
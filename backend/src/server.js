@@ -59,9 +59,14 @@ const userRoutes = importRoute('./routes/users');
 const productRoutes = importRoute('./routes/products');
 const orderRoutes = importRoute('./routes/orders');
 const paymentRoutes = importRoute('./routes/payments');
+const refundRoutes = importRoute('./routes/refunds');
+const deliveryRoutes = importRoute('./routes/delivery');
+const notificationRoutes = importRoute('./routes/notifications');
 const reviewRoutes = importRoute('./routes/reviews');
 const wishlistRoutes = importRoute('./routes/wishlist');
+const cartRoutes = importRoute('./routes/cart');
 const chatRoutes = importRoute('./routes/chats');
+const reportRoutes = importRoute('./routes/reports');
 const adminRoutes = importRoute('./routes/admin');
 const uploadRoutes = importRoute('./routes/upload');
 
@@ -130,7 +135,13 @@ const limiter = rateLimit({
 app.use(limiter);
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw bytes around - payment webhook signatures are computed over them
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request logging middleware
@@ -167,9 +178,14 @@ app.use('/api/users', userRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/refunds', refundRoutes);
+app.use('/api/delivery', deliveryRoutes);
+app.use('/api/notifications', notificationRoutes);
 app.use('/api/reviews', reviewRoutes);
 app.use('/api/wishlist', wishlistRoutes);
+app.use('/api/cart', cartRoutes);
 app.use('/api/chats', chatRoutes);
+app.use('/api/reports', reportRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/upload', uploadRoutes);
 
@@ -185,9 +201,14 @@ app.get('/api', (req, res) => {
       products: '/api/products',
       orders: '/api/orders',
       payments: '/api/payments',
+      refunds: '/api/refunds',
+      delivery: '/api/delivery',
+      notifications: '/api/notifications',
       reviews: '/api/reviews',
       wishlist: '/api/wishlist',
+      cart: '/api/cart',
       chats: '/api/chats',
+      reports: '/api/reports',
       admin: '/api/admin',
       upload: '/api/upload'
     },
@@ -202,11 +223,19 @@ app.use(notFound);
 app.use(errorHandler);
 
 // Start server - CRITICAL FOR RENDER: use 0.0.0.0
-const PORT = config.port || process.env.PORT || 5000;
-const HOST = '0.0.0.0';
+// (only when run directly, so tests can mount the app on their own port)
+if (require.main === module) {
+  const PORT = config.port || process.env.PORT || 5000;
+  const HOST = '0.0.0.0';
+
+  // Move escrow holds past their dispute window into seller balances
+  require('./utils/escrow').startReleaseSweep();
 
-app.listen(PORT, HOST, () => {
-  console.log(`
+  // Cancel orders left unpaid past the payment window and put their stock back
+  require('./utils/inventory').startReservationSweep();
+
+  app.listen(PORT, HOST, () => {
+    console.log(`
 🚀 Balmuya Backend Server is running!
 📍 Host: ${HOST}
 📍 Port: ${PORT}
@@ -215,17 +244,18 @@ app.listen(PORT, HOST, () => {
 ❤️  Health: http://${HOST}:${PORT}/health
 💡 Empowering women entrepreneurs through technology
   `);
-});
+  });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  process.exit(0);
-});
+  // Graceful shutdown
+  process.on('SIGTERM', () => {
+    console.log('SIGTERM received, shutting down gracefully');
+    process.exit(0);
+  });
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
+  process.on('SIGINT', () => {
+    console.log('SIGINT received, shutting down gracefully');
+    process.exit(0);
+  });
+}
 
 module.exports = app;
\ No newline at end of file
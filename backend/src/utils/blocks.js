@@ -0,0 +1,73 @@
+const prisma = require('../config/database');
+
+// Chats between two users, whoever started them
+const chatsBetween = (userId, otherUserId) => ({
+  OR: [
+    { participant1Id: userId, participant2Id: otherUserId },
+    { participant1Id: otherUserId, participant2Id: userId }
+  ]
+});
+
+/**
+ * A block between two users in either direction, or null. Either side's block
+ * stops both from messaging the other.
+ */
+const getBlockBetween = (userId, otherUserId, client = prisma) =>
+  client.userBlock.findFirst({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: otherUserId },
+        { blockerId: otherUserId, blockedId: userId }
+      ]
+    }
+  });
+
+/**
+ * Block a user and close any conversation with them
+ */
+const blockUser = async (blockerId, blockedId, client = prisma) => {
+  const block = await client.userBlock.upsert({
+    where: { blockerId_blockedId: { blockerId, blockedId } },
+    create: { blockerId, blockedId },
+    update: {}
+  });
+
+  await client.chat.updateMany({
+    where: chatsBetween(blockerId, blockedId),
+    data: { status: 'BLOCKED' }
+  });
+
+  return block;
+};
+
+/**
+ * Lift a user's own block. Their conversation reopens unless the other user
+ * has blocked them too.
+ */
+const unblockUser = async (blockerId, blockedId, client = prisma) => {
+  const { count } = await client.userBlock.deleteMany({
+    where: { blockerId, blockedId }
+  });
+
+  const reverseBlock = await client.userBlock.findUnique({
+    where: { blockerId_blockedId: { blockerId: blockedId, blockedId: blockerId } }
+  });
+
+  if (!reverseBlock) {
+    await client.chat.updateMany({
+      where: {
+        ...chatsBetween(blockerId, blockedId),
+        status: 'BLOCKED'
+      },
+      data: { status: 'ACTIVE' }
+    });
+  }
+
+  return count > 0;
+};
+
+module.exports = {
+  getBlockBetween,
+  blockUser,
+  unblockUser
+};
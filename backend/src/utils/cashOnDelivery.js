@@ -0,0 +1,74 @@
+const prisma = require('../config/database');
+const { holdPayment } = require('./escrow');
+const { recordSales } = require('./inventory');
+
+/**
+ * Settle a cash-on-delivery order once the cash is in hand. Cash a courier
+ * collected is held in escrow for the seller like an online payment; cash the
+ * seller took at the door is already theirs. Call after the order is DELIVERED
+ * so the escrow hold starts its dispute window straight away.
+ */
+const collectCashPayment = async (orderId, collectedByCourier, client = prisma) => {
+  const payment = await client.payment.findFirst({
+    where: {
+      orderId,
+      paymentMethod: 'CASH_ON_DELIVERY',
+      status: 'PENDING'
+    }
+  });
+
+  if (!payment) {
+    return null;
+  }
+
+  const paidAt = new Date();
+
+  const completedPayment = await client.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: 'COMPLETED',
+      paidAt
+    }
+  });
+
+  await client.order.update({
+    where: { id: orderId },
+    data: {
+      paymentStatus: 'COMPLETED',
+      paidAt
+    }
+  });
+
+  if (collectedByCourier) {
+    await holdPayment(completedPayment, client);
+  }
+
+  await recordSales(orderId, client);
+
+  return completedPayment;
+};
+
+/**
+ * Start and end of a calendar day (YYYY-MM-DD, UTC) for range queries.
+ * Returns null for a malformed date.
+ */
+const getDayRange = (date) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '')) {
+    return null;
+  }
+
+  const start = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(start.getTime())) {
+    return null;
+  }
+
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  return { start, end };
+};
+
+module.exports = {
+  collectCashPayment,
+  getDayRange
+};
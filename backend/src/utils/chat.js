@@ -0,0 +1,153 @@
+const prisma = require('../config/database');
+const { publish } = require('./chatEvents');
+const { getBlockBetween } = require('./blocks');
+
+// Message fields sent over REST and the event stream alike
+const messageSelect = {
+  id: true,
+  chatId: true,
+  content: true,
+  type: true,
+  metadata: true,
+  isRead: true,
+  readAt: true,
+  createdAt: true,
+  sender: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      avatar: true
+    }
+  }
+};
+
+// How an automatic order update reads in the chat
+const ORDER_UPDATE_TEXT = {
+  CONFIRMED: 'was confirmed',
+  PROCESSING: 'is being prepared',
+  SHIPPED: 'has shipped',
+  DELIVERED: 'was delivered',
+  CANCELLED: 'was cancelled',
+  REFUNDED: 'was refunded'
+};
+
+/**
+ * The chat between two users, created the first time either of them needs it
+ */
+const findOrCreateChat = async (userId, otherUserId, client = prisma) => {
+  const chat = await client.chat.findFirst({
+    where: {
+      OR: [
+        { participant1Id: userId, participant2Id: otherUserId },
+        { participant1Id: otherUserId, participant2Id: userId }
+      ]
+    }
+  });
+
+  return chat || client.chat.create({
+    data: {
+      participant1Id: userId,
+      participant2Id: otherUserId
+    }
+  });
+};
+
+/**
+ * Save a message and bump the chat. Nothing is pushed to the participants'
+ * streams here - call publishChatMessages once any surrounding transaction has
+ * committed, so a rolled-back message never reaches them.
+ */
+const createChatMessage = async (chatId, { senderId, receiverId, type = 'TEXT', content, metadata }, client = prisma) => {
+  const message = await client.message.create({
+    data: {
+      chatId,
+      senderId,
+      receiverId,
+      type,
+      content,
+      metadata: metadata || undefined
+    },
+    select: messageSelect
+  });
+
+  await client.chat.update({
+    where: { id: chatId },
+    data: { lastMessageAt: message.createdAt }
+  });
+
+  return { message, receiverId };
+};
+
+/**
+ * Push saved messages, as returned by createChatMessage, to both participants'
+ * open streams
+ */
+const publishChatMessages = (posts) => {
+  for (const { message, receiverId } of posts) {
+    // The sender's other tabs get it too
+    publish([receiverId, message.sender.id], 'message', message);
+  }
+};
+
+/**
+ * The snapshot of an order an order card shows
+ */
+const getOrderCard = (order) => ({
+  orderId: order.id,
+  orderNumber: order.orderNumber,
+  status: order.status,
+  total: Number(order.total)
+});
+
+/**
+ * Post an order's status change into its buyer-seller chat. A buyer's own
+ * change goes to the seller; everything else is posted from the seller to the
+ * buyer, including courier and platform changes. Nothing is posted between
+ * users who have blocked each other. Returns the post for publishChatMessages,
+ * or null.
+ */
+const postOrderUpdate = async (orderId, { fromStatus, toStatus }, { actorId = null, note = null } = {}, client = prisma) => {
+  const order = await client.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      orderNumber: true,
+      total: true,
+      buyerId: true,
+      sellerId: true
+    }
+  });
+
+  const fromBuyer = actorId === order.buyerId;
+  const senderId = fromBuyer ? order.buyerId : order.sellerId;
+  const receiverId = fromBuyer ? order.sellerId : order.buyerId;
+
+  if (await getBlockBetween(senderId, receiverId, client)) {
+    return null;
+  }
+
+  const chat = await findOrCreateChat(senderId, receiverId, client);
+
+  const text = `Order ${order.orderNumber} ${ORDER_UPDATE_TEXT[toStatus] || `is now ${toStatus.toLowerCase()}`}`;
+
+  return createChatMessage(chat.id, {
+    senderId,
+    receiverId,
+    type: 'ORDER_UPDATE',
+    content: note ? `${text}. ${note}` : text,
+    metadata: {
+      ...getOrderCard({ ...order, status: toStatus }),
+      fromStatus
+    }
+  }, client);
+};
+
+module.exports = {
+  messageSelect,
+  findOrCreateChat,
+  createChatMessage,
+  publishChatMessages,
+  getOrderCard,
+  postOrderUpdate
+};
@@ -0,0 +1,69 @@
+const HEARTBEAT_MS = 25 * 1000;
+
+// Open event streams by user id. A user can have several (one per tab). They
+// live in this process only, so running more than one server instance would
+// need a shared pub/sub between them.
+const streams = new Map();
+
+/**
+ * Turn a response into a Server-Sent Events stream for the user. The stream
+ * stays open until the client disconnects, with a comment line every 25s so
+ * proxies don't close it as idle.
+ */
+const openStream = (userId, req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stops nginx buffering events
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // Browsers reconnect after this many milliseconds if the connection drops
+  res.write('retry: 5000\n\n');
+
+  if (!streams.has(userId)) {
+    streams.set(userId, new Set());
+  }
+  streams.get(userId).add(res);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+
+    const userStreams = streams.get(userId);
+    if (userStreams) {
+      userStreams.delete(res);
+      if (userStreams.size === 0) {
+        streams.delete(userId);
+      }
+    }
+  });
+};
+
+/**
+ * Send an event to every open stream of the given users. Users without an
+ * open stream simply miss it and catch up over REST.
+ */
+const publish = (userIds, event, data) => {
+  const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+  for (const userId of userIds) {
+    for (const res of streams.get(userId) || []) {
+      res.write(payload);
+    }
+  }
+};
+
+/**
+ * Whether the user has a stream open right now
+ */
+const isOnline = (userId) => streams.has(userId);
+
+module.exports = {
+  openStream,
+  publish,
+  isOnline
+};
@@ -0,0 +1,61 @@
+const prisma = require('../config/database');
+const { createNotification } = require('./notifications');
+const { recordOrderEvents } = require('./orderStatus');
+
+// Assignments a courier still has to finish
+const ACTIVE_DELIVERY_STATUSES = ['ASSIGNED', 'PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY'];
+
+const DELIVERY_UPDATE_MESSAGES = {
+  ASSIGNED: 'A courier has accepted your delivery and will pick it up from the seller soon.',
+  PICKED_UP: 'The courier has picked up your order from the seller.',
+  IN_TRANSIT: 'Your order is on its way.',
+  OUT_FOR_DELIVERY: 'Your order is out for delivery and will arrive shortly.',
+  DELIVERED: 'Your order has been delivered.',
+  FAILED: 'The courier could not deliver your order. It will be sent out again.',
+  CANCELLED: 'The delivery of your order was cancelled.'
+};
+
+/**
+ * Tell the buyer their order's delivery moved to a new status
+ */
+const notifyDeliveryUpdate = (order, status, client = prisma) =>
+  createNotification(order.buyerId, {
+    type: 'DELIVERY_UPDATE',
+    title: `Order ${order.orderNumber}: ${status.replace(/_/g, ' ').toLowerCase()}`,
+    message: DELIVERY_UPDATE_MESSAGES[status],
+    data: { orderId: order.id, deliveryStatus: status }
+  }, client);
+
+/**
+ * Take a cancelled order off its courier. Only orders that have not been picked up
+ * can be cancelled, so the courier has nothing to return.
+ */
+const cancelDeliveries = async (orderId, actorId, client = prisma) => {
+  const { count } = await client.deliveryAssignment.updateMany({
+    where: {
+      orderId,
+      status: { in: ACTIVE_DELIVERY_STATUSES }
+    },
+    data: { status: 'CANCELLED' }
+  });
+
+  const order = await client.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, deliveryStatus: true }
+  });
+
+  await recordOrderEvents(order, { deliveryStatus: 'CANCELLED' }, { actorId }, client);
+
+  await client.order.update({
+    where: { id: orderId },
+    data: { deliveryStatus: 'CANCELLED' }
+  });
+
+  return count;
+};
+
+module.exports = {
+  ACTIVE_DELIVERY_STATUSES,
+  notifyDeliveryUpdate,
+  cancelDeliveries
+};
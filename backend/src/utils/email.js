@@ -3,7 +3,7 @@ const config = require('../config');
 
 // Create transporter
 const createTransporter = () => {
-  return nodemailer.createTransporter({
+  return nodemailer.createTransport({
     host: config.email.host,
     port: config.email.port,
     secure: config.email.port === 465,
@@ -161,9 +161,48 @@ const sendOrderConfirmation = async (email, firstName, order) => {
   return await transporter.sendMail(mailOptions);
 };
 
+/**
+ * Send a seller the products that just ran low or out of stock
+ */
+const sendStockAlert = async (email, firstName, alerts) => {
+  const transporter = createTransporter();
+
+  const rows = alerts.map(alert => `
+          <tr>
+            <td style="padding: 8px 0;">${alert.title}</td>
+            <td style="padding: 8px 0; text-align: right; color: ${alert.level === 'OUT_OF_STOCK' ? '#e74c3c' : '#e67e22'};">
+              ${alert.level === 'OUT_OF_STOCK' ? 'Out of stock' : `${alert.quantity} left`}
+            </td>
+          </tr>`).join('');
+
+  const mailOptions = {
+    from: config.email.from,
+    to: email,
+    subject: alerts.length === 1 ? `Stock alert: ${alerts[0].title}` : `Stock alert: ${alerts.length} products need restocking`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #2c3e50;">Time to restock</h2>
+        <p>Hello ${firstName},</p>
+        <p>These products are running low after recent orders:</p>
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">${rows}
+        </table>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${config.cors.origin}/seller" 
+             style="background-color: #e74c3c; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            Update Stock
+          </a>
+        </div>
+      </div>
+    `
+  };
+
+  return await transporter.sendMail(mailOptions);
+};
+
 module.exports = {
   sendEmailVerification,
   sendPasswordReset,
   sendWelcomeEmail,
-  sendOrderConfirmation
+  sendOrderConfirmation,
+  sendStockAlert
 };
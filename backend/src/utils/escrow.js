@@ -0,0 +1,134 @@
+const prisma = require('../config/database');
+const config = require('../config');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hold a completed payment's amount for the seller of its order.
+ * Safe to call more than once for the same payment (verify and webhook can both fire).
+ * Pass a transaction client to hold inside the caller's transaction.
+ */
+const holdPayment = async (payment, client = prisma) => {
+  const order = await client.order.findUnique({
+    where: { id: payment.orderId },
+    select: { id: true, sellerId: true, status: true, deliveredAt: true }
+  });
+
+  return client.escrowTransaction.upsert({
+    where: { orderId: order.id },
+    update: {},
+    create: {
+      orderId: order.id,
+      paymentId: payment.id,
+      sellerId: order.sellerId,
+      amount: payment.amount,
+      // An order can be delivered before its payment lands (e.g. a late webhook)
+      releaseAt: order.status === 'DELIVERED' ? getReleaseDate(order.deliveredAt) : null
+    }
+  });
+};
+
+/**
+ * Start the dispute window for a delivered order's held funds
+ */
+const scheduleRelease = (orderId, deliveredAt, client = prisma) =>
+  client.escrowTransaction.updateMany({
+    where: { orderId, status: 'HELD' },
+    data: { releaseAt: getReleaseDate(deliveredAt) }
+  });
+
+/**
+ * Take a refund out of an order's escrow entry while the seller has not been paid yet.
+ * A refund that uses up the entry returns it to the buyer entirely.
+ */
+const refundFromHold = async (orderId, amount, client = prisma) => {
+  const entry = await client.escrowTransaction.findUnique({ where: { orderId } });
+
+  if (!entry || !['HELD', 'RELEASED'].includes(entry.status)) {
+    return null;
+  }
+
+  if (Number(entry.amount) - amount < 0.005) {
+    return client.escrowTransaction.update({
+      where: { orderId },
+      data: { status: 'REFUNDED', refundedAt: new Date() }
+    });
+  }
+
+  return client.escrowTransaction.update({
+    where: { orderId },
+    data: { amount: { decrement: amount } }
+  });
+};
+
+/**
+ * Move every hold whose dispute window has passed to the seller's available balance.
+ * Limit to one seller with sellerId, or sweep all sellers without it.
+ */
+const releaseDueFunds = (sellerId) =>
+  prisma.escrowTransaction.updateMany({
+    where: {
+      ...(sellerId && { sellerId }),
+      status: 'HELD',
+      releaseAt: { lte: new Date() }
+    },
+    data: { status: 'RELEASED', releasedAt: new Date() }
+  });
+
+/**
+ * Held, available and paid-out totals for a seller
+ */
+const getSellerBalance = async (sellerId) => {
+  await releaseDueFunds(sellerId);
+
+  const totals = await prisma.escrowTransaction.groupBy({
+    by: ['status'],
+    where: { sellerId },
+    _sum: { amount: true }
+  });
+
+  const balance = {
+    held: 0,
+    available: 0,
+    paidOut: 0,
+    refunded: 0
+  };
+  const keys = { HELD: 'held', RELEASED: 'available', PAID_OUT: 'paidOut', REFUNDED: 'refunded' };
+
+  totals.forEach(total => {
+    balance[keys[total.status]] = parseFloat(total._sum.amount || 0);
+  });
+
+  return balance;
+};
+
+const getReleaseDate = (deliveredAt) =>
+  new Date(new Date(deliveredAt || Date.now()).getTime() + config.escrow.disputeWindowDays * DAY_MS);
+
+/**
+ * Release due funds on an interval for as long as the server runs
+ */
+const startReleaseSweep = () => {
+  const sweep = async () => {
+    try {
+      const { count } = await releaseDueFunds();
+      if (count > 0) {
+        console.log(`Escrow: released ${count} held payment(s)`);
+      }
+    } catch (error) {
+      console.error('Escrow release sweep error:', error);
+    }
+  };
+
+  sweep();
+  return setInterval(sweep, config.escrow.releaseIntervalMs);
+};
+
+module.exports = {
+  holdPayment,
+  scheduleRelease,
+  refundFromHold,
+  releaseDueFunds,
+  getSellerBalance,
+  startReleaseSweep
+};
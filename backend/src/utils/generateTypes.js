@@ -0,0 +1,197 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Generate frontend TypeScript from the backend sources of truth:
+ *   prisma/schema.prisma    -> frontend/src/types/prisma.ts
+ *   src/config/apiRoutes.js -> frontend/src/lib/apiRoutes.ts
+ *
+ * Usage:
+ *   node src/utils/generateTypes.js          write the generated files
+ *   node src/utils/generateTypes.js --check  exit 1 if any file is out of date
+ */
+
+const SCHEMA_PATH = path.join(__dirname, '../../prisma/schema.prisma');
+const TYPES_OUTPUT_PATH = path.join(__dirname, '../../../frontend/src/types/prisma.ts');
+const ROUTES_OUTPUT_PATH = path.join(__dirname, '../../../frontend/src/lib/apiRoutes.ts');
+
+// Fields that never leave the backend
+const OMITTED_FIELDS = {
+  User: ['password'],
+  Product: ['searchText']
+};
+
+// Prisma scalars as the frontend reads them from JSON (Decimal columns are treated as numbers)
+const SCALAR_TYPES = {
+  String: 'string',
+  Boolean: 'boolean',
+  Int: 'number',
+  BigInt: 'string',
+  Float: 'number',
+  Decimal: 'number',
+  DateTime: 'string',
+  Json: 'JsonValue',
+  Bytes: 'string'
+};
+
+/**
+ * Parse the enum and model blocks out of a Prisma schema
+ */
+const parseSchema = (source) => {
+  const enums = [];
+  const models = [];
+  const blockPattern = /^(enum|model)\s+(\w+)\s*\{([\s\S]*?)^\}/gm;
+  let match;
+
+  while ((match = blockPattern.exec(source)) !== null) {
+    const [, kind, name, body] = match;
+    const lines = body
+      .split('\n')
+      .map(line => line.replace(/\/\/.*$/, '').trim())
+      .filter(line => line && !line.startsWith('@@'));
+
+    if (kind === 'enum') {
+      enums.push({ name, values: lines.map(line => line.split(/\s+/)[0]) });
+      continue;
+    }
+
+    const fields = lines.map(line => {
+      const [fieldName, rawType] = line.split(/\s+/);
+      const isList = rawType.endsWith('[]');
+      const isOptional = rawType.endsWith('?');
+      return {
+        name: fieldName,
+        type: rawType.replace(/(\[\]|\?)$/, ''),
+        isList,
+        isOptional
+      };
+    });
+
+    models.push({ name, fields });
+  }
+
+  return { enums, models };
+};
+
+/**
+ * Render the parsed schema as TypeScript
+ */
+const renderTypes = ({ enums, models }) => {
+  const enumNames = new Set(enums.map(e => e.name));
+  const modelNames = new Set(models.map(m => m.name));
+  const out = [];
+
+  out.push('// This file is generated from backend/prisma/schema.prisma - do not edit it by hand.');
+  out.push('// Regenerate with `npm run types:generate` in backend/.');
+  out.push('');
+  out.push('export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };');
+
+  for (const { name, values } of enums) {
+    out.push('');
+    out.push(`export const ${name}Values = [${values.map(v => `'${v}'`).join(', ')}] as const;`);
+    out.push(`export type ${name} = typeof ${name}Values[number];`);
+  }
+
+  for (const { name, fields } of models) {
+    const omitted = OMITTED_FIELDS[name] || [];
+    out.push('');
+    out.push(`export interface ${name} {`);
+
+    for (const field of fields) {
+      if (omitted.includes(field.name) || field.type.startsWith('Unsupported(')) {
+        continue;
+      }
+
+      if (modelNames.has(field.type)) {
+        // Relations are only present when the route includes them
+        out.push(`  ${field.name}?: ${field.type}${field.isList ? '[]' : ' | null'};`);
+        continue;
+      }
+
+      const tsType = enumNames.has(field.type) ? field.type : SCALAR_TYPES[field.type];
+      if (!tsType) {
+        throw new Error(`Unknown type ${field.type} on ${name}.${field.name}`);
+      }
+
+      const suffix = field.isList ? '[]' : field.isOptional ? ' | null' : '';
+      out.push(`  ${field.name}: ${tsType}${suffix};`);
+    }
+
+    out.push('}');
+  }
+
+  return out.join('\n') + '\n';
+};
+
+/**
+ * Render the route manifest as a typed const object
+ */
+const renderRoutes = (routes) => {
+  const out = [];
+
+  out.push('// This file is generated from backend/src/config/apiRoutes.js - do not edit it by hand.');
+  out.push('// Regenerate with `npm run types:generate` in backend/.');
+  out.push('');
+  out.push("import type { UserRole } from '../types/prisma';");
+  out.push('');
+  out.push("export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';");
+  out.push('');
+  out.push('export interface ApiRoute {');
+  out.push('  method: ApiMethod;');
+  out.push('  path: string;');
+  out.push('  role?: UserRole;');
+  out.push('}');
+  out.push('');
+  out.push('export const apiRoutes = {');
+
+  for (const [group, entries] of Object.entries(routes)) {
+    out.push(`  ${group}: {`);
+    for (const [name, route] of Object.entries(entries)) {
+      const role = route.role ? `, role: '${route.role}'` : '';
+      out.push(`    ${name}: { method: '${route.method}', path: '${route.path}'${role} },`);
+    }
+    out.push('  },');
+  }
+
+  out.push('} as const satisfies Record<string, Record<string, ApiRoute>>;');
+  out.push('');
+  out.push('export type ApiRoutes = typeof apiRoutes;');
+
+  return out.join('\n') + '\n';
+};
+
+const generate = () => [
+  {
+    outputPath: TYPES_OUTPUT_PATH,
+    content: renderTypes(parseSchema(fs.readFileSync(SCHEMA_PATH, 'utf8')))
+  },
+  {
+    outputPath: ROUTES_OUTPUT_PATH,
+    content: renderRoutes(require('../config/apiRoutes'))
+  }
+];
+
+if (require.main === module) {
+  const files = generate();
+
+  if (process.argv.includes('--check')) {
+    const stale = files.filter(({ outputPath, content }) =>
+      !fs.existsSync(outputPath) || fs.readFileSync(outputPath, 'utf8') !== content
+    );
+
+    stale.forEach(({ outputPath }) => {
+      console.error(`${path.relative(process.cwd(), outputPath)} is out of date. Run npm run types:generate`);
+    });
+    if (stale.length > 0) {
+      process.exit(1);
+    }
+    console.log('Frontend types are up to date');
+  } else {
+    files.forEach(({ outputPath, content }) => {
+      fs.writeFileSync(outputPath, content);
+      console.log(`Wrote ${path.relative(process.cwd(), outputPath)}`);
+    });
+  }
+}
+
+module.exports = { parseSchema, renderTypes, renderRoutes, generate };
@@ -0,0 +1,317 @@
+const prisma = require('../config/database');
+const config = require('../config');
+const { cancelDeliveries } = require('./delivery');
+const { createNotification } = require('./notifications');
+const { sendStockAlert } = require('./email');
+const { recordOrderEvents } = require('./orderStatus');
+const { publishChatMessages } = require('./chat');
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Take ordered quantities out of stock inside the order's transaction. A tracked
+ * product that can't be backordered only loses stock while enough is left, so two
+ * buyers racing for the last units can't both get them. Throws an error with a
+ * 409 statusCode naming the first product that ran out.
+ *
+ * Sellers get a notification for each product the order takes to its low-stock
+ * threshold or out of stock; the alerts are returned for emailStockAlerts to
+ * send once the transaction has committed.
+ */
+const reserveStock = async (items, client = prisma) => {
+  const alerts = [];
+
+  for (const item of items) {
+    const { count } = await client.product.updateMany({
+      where: {
+        id: item.productId,
+        trackQuantity: true,
+        OR: [
+          { allowBackorder: true },
+          { quantity: { gte: item.quantity } }
+        ]
+      },
+      data: { quantity: { decrement: item.quantity } }
+    });
+
+    if (count === 0) {
+      const product = await client.product.findUnique({
+        where: { id: item.productId },
+        select: { title: true, quantity: true, trackQuantity: true }
+      });
+
+      // Untracked products have no stock to take
+      if (product && !product.trackQuantity) {
+        continue;
+      }
+
+      const error = new Error(product && product.quantity > 0
+        ? `Only ${product.quantity} of ${product.title} left in stock`
+        : `${product?.title || 'A product'} is out of stock`);
+      error.statusCode = 409;
+      throw error;
+    }
+
+    const alert = await createStockAlert(item.productId, item.quantity, client);
+    if (alert) {
+      alerts.push(alert);
+    }
+  }
+
+  return alerts;
+};
+
+/**
+ * Notify the seller when taking a quantity out of stock crossed the product's
+ * low-stock threshold or emptied it. Only the crossing alerts, so a product
+ * sitting below its threshold doesn't notify on every order.
+ */
+const createStockAlert = async (productId, taken, client = prisma) => {
+  const product = await client.product.findUnique({
+    where: { id: productId },
+    select: {
+      id: true,
+      title: true,
+      quantity: true,
+      lowStockThreshold: true,
+      sellerId: true
+    }
+  });
+
+  const previous = product.quantity + taken;
+  let level = null;
+
+  if (previous > 0 && product.quantity <= 0) {
+    level = 'OUT_OF_STOCK';
+  } else if (previous > product.lowStockThreshold && product.quantity <= product.lowStockThreshold) {
+    level = 'LOW_STOCK';
+  }
+
+  if (!level) {
+    return null;
+  }
+
+  const available = Math.max(product.quantity, 0);
+
+  await createNotification(product.sellerId, {
+    type: 'STOCK_ALERT',
+    title: level === 'OUT_OF_STOCK' ? `${product.title} is out of stock` : `${product.title} is running low`,
+    message: level === 'OUT_OF_STOCK'
+      ? 'Your last units just sold. Restock it so buyers can keep ordering.'
+      : `Only ${available} left. Time to make or order more.`,
+    data: { productId: product.id, level, quantity: available }
+  }, client);
+
+  return {
+    productId: product.id,
+    sellerId: product.sellerId,
+    title: product.title,
+    level,
+    quantity: available
+  };
+};
+
+/**
+ * Email sellers the stock alerts an order raised, when stock alert emails are
+ * turned on. Failures are logged - the in-app notification is already saved.
+ */
+const emailStockAlerts = async (alerts) => {
+  if (!config.inventory.stockAlertEmails || alerts.length === 0) {
+    return;
+  }
+
+  const sellerIds = [...new Set(alerts.map(alert => alert.sellerId))];
+
+  try {
+    const sellers = await prisma.user.findMany({
+      where: { id: { in: sellerIds } },
+      select: { id: true, email: true, firstName: true }
+    });
+
+    for (const seller of sellers) {
+      await sendStockAlert(
+        seller.email,
+        seller.firstName,
+        alerts.filter(alert => alert.sellerId === seller.id)
+      );
+    }
+  } catch (error) {
+    console.error('Stock alert email error:', error);
+  }
+};
+
+/**
+ * Put an order's reserved stock back. Safe to call more than once - only the
+ * first call for a reserving order restocks. Units a completed refund already
+ * restocked are left out so they aren't put back twice.
+ */
+const releaseStock = async (orderId, client = prisma) => {
+  const { count } = await client.order.updateMany({
+    where: { id: orderId, stockReserved: true },
+    data: { stockReserved: false }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const items = await client.orderItem.findMany({
+    where: { orderId },
+    select: {
+      productId: true,
+      quantity: true,
+      refundItems: {
+        where: { refund: { status: 'COMPLETED', restock: true } },
+        select: { quantity: true }
+      }
+    }
+  });
+
+  for (const item of items) {
+    const restocked = item.refundItems.reduce((sum, refundItem) => sum + refundItem.quantity, 0);
+    const quantity = item.quantity - restocked;
+
+    if (quantity <= 0) {
+      continue;
+    }
+
+    await client.product.updateMany({
+      where: { id: item.productId, trackQuantity: true },
+      data: { quantity: { increment: quantity } }
+    });
+  }
+
+  return true;
+};
+
+/**
+ * Count a paid order's items towards each product's sales
+ */
+const recordSales = async (orderId, client = prisma) => {
+  const items = await client.orderItem.findMany({
+    where: { orderId },
+    select: { productId: true, quantity: true }
+  });
+
+  for (const item of items) {
+    await client.product.update({
+      where: { id: item.productId },
+      data: { salesCount: { increment: item.quantity } }
+    });
+  }
+};
+
+/**
+ * What a buyer can see about a product's stock. available is null when the
+ * product isn't tracked; lowStock is set at or below its lowStockThreshold.
+ */
+const getStockStatus = (product) => {
+  if (!product.trackQuantity) {
+    return { inStock: true, available: null, lowStock: false, backorder: false };
+  }
+
+  const available = Math.max(product.quantity, 0);
+
+  if (available === 0) {
+    return { inStock: product.allowBackorder, available: 0, lowStock: false, backorder: product.allowBackorder };
+  }
+
+  return { inStock: true, available, lowStock: available <= product.lowStockThreshold, backorder: false };
+};
+
+/**
+ * Cancel unpaid orders whose payment window has closed and put their stock back
+ */
+const expireUnpaidOrders = async () => {
+  const cutoff = new Date(Date.now() - config.inventory.paymentTimeoutMinutes * MINUTE_MS);
+
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      paymentStatus: 'PENDING',
+      stockReserved: true,
+      createdAt: { lt: cutoff }
+    },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      buyerId: true
+    },
+    take: 100
+  });
+
+  let count = 0;
+  for (const order of orders) {
+    let chatPosts = [];
+    const expired = await prisma.$transaction(async (tx) => {
+      // A payment landing during the sweep wins - only a still-unpaid order is cancelled
+      const { count: updated } = await tx.order.updateMany({
+        where: { id: order.id, status: 'PENDING', paymentStatus: 'PENDING' },
+        data: {
+          status: 'CANCELLED',
+          cancelledAt: new Date(),
+          cancellationReason: 'Payment not received in time'
+        }
+      });
+
+      if (updated === 0) {
+        return false;
+      }
+
+      chatPosts = await recordOrderEvents(order, { status: 'CANCELLED' }, { note: 'Payment not received in time' }, tx);
+      await cancelDeliveries(order.id, null, tx);
+      await releaseStock(order.id, tx);
+
+      await tx.payment.updateMany({
+        where: { orderId: order.id, status: { in: ['PENDING', 'PROCESSING'] } },
+        data: { status: 'FAILED' }
+      });
+
+      await createNotification(order.buyerId, {
+        type: 'ORDER_UPDATE',
+        title: `Order ${order.orderNumber} cancelled`,
+        message: 'We did not receive your payment in time, so the order was cancelled and its items released.',
+        data: { orderId: order.id }
+      }, tx);
+
+      return true;
+    });
+
+    if (expired) {
+      publishChatMessages(chatPosts);
+      count++;
+    }
+  }
+
+  return { count };
+};
+
+/**
+ * Expire unpaid orders on an interval for as long as the server runs
+ */
+const startReservationSweep = () => {
+  const sweep = async () => {
+    try {
+      const { count } = await expireUnpaidOrders();
+      if (count > 0) {
+        console.log(`Inventory: cancelled ${count} unpaid order(s)`);
+      }
+    } catch (error) {
+      console.error('Reservation sweep error:', error);
+    }
+  };
+
+  sweep();
+  return setInterval(sweep, config.inventory.reservationSweepIntervalMs);
+};
+
+module.exports = {
+  reserveStock,
+  emailStockAlerts,
+  releaseStock,
+  recordSales,
+  getStockStatus,
+  expireUnpaidOrders,
+  startReservationSweep
+};
@@ -0,0 +1,72 @@
+const { v4: uuidv4 } = require('uuid');
+const { supabaseAdmin } = require('../config/supabase');
+const config = require('../config');
+
+const KYC_DOCUMENT_FIELDS = ['idCard', 'selfieWithId', 'proofOfAddress'];
+
+/**
+ * Upload a KYC file to the private bucket.
+ * Returns the storage path only - KYC files never get a public URL.
+ */
+const uploadKycFile = async (userId, file) => {
+  const fileExtension = file.originalname.split('.').pop();
+  const filePath = `${userId}/${uuidv4()}.${fileExtension}`;
+
+  const { error } = await supabaseAdmin.storage
+    .from(config.upload.kycBucket)
+    .upload(filePath, file.buffer, {
+      contentType: file.mimetype,
+      upsert: false
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return filePath;
+};
+
+/**
+ * Check that a submitted path points into the user's own KYC folder
+ */
+const isOwnKycPath = (userId, filePath) =>
+  typeof filePath === 'string' &&
+  filePath.startsWith(`${userId}/`) &&
+  !filePath.includes('..');
+
+/**
+ * Create short-lived signed URLs for every file of a KYC document.
+ * A file that cannot be signed comes back as null instead of failing the whole view.
+ */
+const createKycDocumentUrls = async (kycDocument) => {
+  const expiresIn = config.upload.kycUrlExpiresIn;
+  const urls = {};
+
+  for (const field of KYC_DOCUMENT_FIELDS) {
+    urls[field] = null;
+    if (!kycDocument[field]) continue;
+
+    const { data, error } = await supabaseAdmin.storage
+      .from(config.upload.kycBucket)
+      .createSignedUrl(kycDocument[field], expiresIn);
+
+    if (error) {
+      console.error(`KYC signed URL error (${field}):`, error);
+      continue;
+    }
+
+    urls[field] = data.signedUrl;
+  }
+
+  return {
+    ...urls,
+    expiresAt: new Date(Date.now() + expiresIn * 1000)
+  };
+};
+
+module.exports = {
+  KYC_DOCUMENT_FIELDS,
+  uploadKycFile,
+  isOwnKycPath,
+  createKycDocumentUrls
+};
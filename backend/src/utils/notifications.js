@@ -0,0 +1,20 @@
+const prisma = require('../config/database');
+
+/**
+ * Add an in-app notification for a user.
+ * Pass a transaction client to create it inside the caller's transaction.
+ */
+const createNotification = (userId, { type, title, message, data }, client = prisma) =>
+  client.notification.create({
+    data: {
+      userId,
+      type,
+      title,
+      message,
+      data: data || undefined
+    }
+  });
+
+module.exports = {
+  createNotification
+};
@@ -0,0 +1,142 @@
+const prisma = require('../config/database');
+const { postOrderUpdate } = require('./chat');
+
+/**
+ * Order and delivery state machines. Each status lists the statuses it can move
+ * to and the roles allowed to make that move. SYSTEM stands for changes the
+ * platform makes itself - a payment confirming an order, a refund completing.
+ */
+const ORDER_TRANSITIONS = {
+  PENDING: {
+    CONFIRMED: ['SELLER', 'ADMIN', 'SYSTEM'],
+    // SYSTEM cancels orders left unpaid past the payment window
+    CANCELLED: ['BUYER', 'SELLER', 'ADMIN', 'SYSTEM']
+  },
+  CONFIRMED: {
+    PROCESSING: ['SELLER', 'ADMIN'],
+    // A courier picking up a platform delivery ships the order
+    SHIPPED: ['DELIVERY_PARTNER'],
+    CANCELLED: ['BUYER', 'SELLER', 'ADMIN'],
+    REFUNDED: ['SYSTEM']
+  },
+  PROCESSING: {
+    SHIPPED: ['SELLER', 'ADMIN', 'DELIVERY_PARTNER'],
+    REFUNDED: ['SYSTEM']
+  },
+  SHIPPED: {
+    DELIVERED: ['SELLER', 'ADMIN', 'DELIVERY_PARTNER'],
+    REFUNDED: ['SYSTEM']
+  },
+  DELIVERED: {
+    REFUNDED: ['SYSTEM']
+  },
+  CANCELLED: {},
+  REFUNDED: {}
+};
+
+// Covers both an order's delivery status and its courier assignments, which share the steps
+const DELIVERY_TRANSITIONS = {
+  PENDING: {
+    ASSIGNED: ['DELIVERY_PARTNER'],
+    CANCELLED: ['BUYER', 'SELLER', 'ADMIN', 'SYSTEM']
+  },
+  ASSIGNED: {
+    PICKED_UP: ['DELIVERY_PARTNER'],
+    FAILED: ['DELIVERY_PARTNER'],
+    CANCELLED: ['BUYER', 'SELLER', 'ADMIN', 'SYSTEM']
+  },
+  PICKED_UP: {
+    IN_TRANSIT: ['DELIVERY_PARTNER'],
+    FAILED: ['DELIVERY_PARTNER']
+  },
+  IN_TRANSIT: {
+    OUT_FOR_DELIVERY: ['DELIVERY_PARTNER'],
+    FAILED: ['DELIVERY_PARTNER']
+  },
+  OUT_FOR_DELIVERY: {
+    DELIVERED: ['DELIVERY_PARTNER'],
+    FAILED: ['DELIVERY_PARTNER']
+  },
+  // A failed assignment is finished. The order goes back on the job board, and a retry -
+  // by the same courier or another - is a new claim through /jobs/:orderId/accept
+  FAILED: {
+    CANCELLED: ['BUYER', 'SELLER', 'ADMIN', 'SYSTEM']
+  },
+  DELIVERED: {},
+  CANCELLED: {}
+};
+
+/**
+ * Whether the role may move from one status to another in the given machine
+ */
+const canTransition = (transitions, from, to, role) =>
+  Boolean(transitions[from]?.[to]?.includes(role));
+
+/**
+ * Why the role can't make the move, or null when it can
+ */
+const getTransitionError = (transitions, from, to, role) => {
+  if (!transitions[from]?.[to]) {
+    return `Cannot change status from ${from} to ${to}`;
+  }
+
+  if (!canTransition(transitions, from, to, role)) {
+    return `Only ${formatRoles(transitions[from][to])} can change status from ${from} to ${to}`;
+  }
+
+  return null;
+};
+
+/**
+ * Record the status and delivery status changes about to be made to an order.
+ * Pass the order as it was before the change; fields that don't change are skipped.
+ * A status change is also posted into the buyer-seller chat; the posts are
+ * returned for publishChatMessages to push once the transaction has committed.
+ */
+const recordOrderEvents = async (order, { status, deliveryStatus }, { actorId = null, note = null } = {}, client = prisma) => {
+  const events = [];
+
+  if (status && status !== order.status) {
+    events.push({ field: 'STATUS', fromStatus: order.status, toStatus: status });
+  }
+
+  if (deliveryStatus && deliveryStatus !== order.deliveryStatus) {
+    events.push({ field: 'DELIVERY_STATUS', fromStatus: order.deliveryStatus, toStatus: deliveryStatus });
+  }
+
+  if (events.length === 0) {
+    return [];
+  }
+
+  await client.orderEvent.createMany({
+    data: events.map(event => ({
+      ...event,
+      orderId: order.id,
+      actorId,
+      note
+    }))
+  });
+
+  const posts = [];
+  if (status && status !== order.status) {
+    const post = await postOrderUpdate(order.id, { fromStatus: order.status, toStatus: status }, { actorId, note }, client);
+    if (post) {
+      posts.push(post);
+    }
+  }
+
+  return posts;
+};
+
+const formatRoles = (roles) =>
+  roles
+    .map(role => role === 'SYSTEM' ? 'the platform' : `${role.replace(/_/g, ' ').toLowerCase()}s`)
+    .join(' or ');
+
+module.exports = {
+  ORDER_TRANSITIONS,
+  DELIVERY_TRANSITIONS,
+  canTransition,
+  getTransitionError,
+  recordOrderEvents
+};
@@ -0,0 +1,139 @@
+const crypto = require('crypto');
+const config = require('../config');
+
+// Stripe signatures older than this are treated as replays
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Webhook settings per gateway: the payment method it settles, where the
+ * signature travels and how a delivery maps onto our payment fields.
+ */
+const WEBHOOK_GATEWAYS = {
+  chapa: {
+    method: 'CHAPA',
+    name: 'Chapa',
+    signatureHeaders: ['chapa-signature', 'x-chapa-signature'],
+    secret: () => config.payments.chapa.webhookSecret,
+    parse: (body) => ({
+      eventId: body.reference ? `${body.event || 'charge'}:${body.reference}` : null,
+      transactionId: body.tx_ref || body.transaction_id,
+      status: body.status,
+      succeeded: body.status === 'success',
+      amount: parseAmount(body.amount),
+      currency: body.currency
+    })
+  },
+  cbeBirr: {
+    method: 'CBE_BIRR',
+    name: 'CBE Birr',
+    signatureHeaders: ['x-cbe-birr-signature'],
+    secret: () => config.payments.cbeBirr.webhookSecret,
+    parse: (body) => ({
+      eventId: body.eventId,
+      transactionId: body.transactionId,
+      status: body.status,
+      succeeded: body.status === 'success',
+      amount: parseAmount(body.amount),
+      currency: body.currency
+    })
+  },
+  stripe: {
+    method: 'STRIPE',
+    name: 'Stripe',
+    signatureHeaders: ['stripe-signature'],
+    secret: () => config.payments.stripe.webhookSecret,
+    parse: (body) => {
+      const session = body.data?.object || {};
+      const amount = parseAmount(session.amount_total);
+
+      return {
+        eventId: body.id,
+        transactionId: session.client_reference_id,
+        status: body.type,
+        succeeded: body.type === 'checkout.session.completed' && session.payment_status === 'paid',
+        // Stripe reports amounts in the smallest currency unit
+        amount: amount === null ? null : amount / 100,
+        currency: session.currency
+      };
+    }
+  }
+};
+
+/**
+ * Check a webhook request against its gateway signature.
+ * Chapa and CBE Birr sign the raw body with HMAC-SHA256; Stripe signs
+ * "<timestamp>.<body>" and sends both in the Stripe-Signature header.
+ */
+const verifyWebhookSignature = (gateway, req) => {
+  const secret = gateway.secret();
+  const header = gateway.signatureHeaders
+    .map(name => req.get(name))
+    .find(Boolean);
+
+  if (!secret || !header || !req.rawBody) {
+    return false;
+  }
+
+  if (gateway.method === 'STRIPE') {
+    const parts = Object.fromEntries(
+      header.split(',').map(part => part.trim().split('='))
+    );
+    const timestamp = parseInt(parts.t);
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    return safeEqual(parts.v1, sign(secret, `${timestamp}.${req.rawBody.toString('utf8')}`));
+  }
+
+  return safeEqual(header, sign(secret, req.rawBody));
+};
+
+/**
+ * Normalize a webhook body. Deliveries without an event id are keyed by a
+ * hash of the raw body, so a retried delivery still maps to the same event.
+ */
+const parseWebhookEvent = (gateway, req) => {
+  const event = gateway.parse(req.body || {});
+
+  return {
+    ...event,
+    eventId: event.eventId
+      ? String(event.eventId)
+      : crypto.createHash('sha256').update(req.rawBody).digest('hex'),
+    currency: event.currency ? String(event.currency).toUpperCase() : null
+  };
+};
+
+// Helper functions
+
+function sign(secret, payload) {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+// Compares bytes, not characters - timingSafeEqual throws on buffers of different lengths
+function safeEqual(received, expected) {
+  if (typeof received !== 'string') {
+    return false;
+  }
+
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+}
+
+function parseAmount(value) {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+module.exports = {
+  WEBHOOK_GATEWAYS,
+  verifyWebhookSignature,
+  parseWebhookEvent
+};
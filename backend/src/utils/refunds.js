@@ -0,0 +1,341 @@
+const prisma = require('../config/database');
+const { refundFromHold } = require('./escrow');
+const { ORDER_TRANSITIONS, canTransition, recordOrderEvents } = require('./orderStatus');
+const { publishChatMessages } = require('./chat');
+
+// Refunds that still count against an order's items - only a rejected one frees them
+const ACTIVE_REFUND_STATUSES = ['REQUESTED', 'APPROVED', 'COMPLETED', 'FAILED'];
+
+// Refunds waiting on the seller or an admin (a failed one can be approved again)
+const OPEN_REFUND_STATUSES = ['REQUESTED', 'FAILED'];
+
+const REFUND_INCLUDE = {
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          id: true,
+          quantity: true,
+          price: true,
+          product: {
+            select: {
+              id: true,
+              title: true,
+              images: true
+            }
+          }
+        }
+      }
+    }
+  },
+  requestedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true
+    }
+  },
+  reviewedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      role: true
+    }
+  }
+};
+
+/**
+ * Gateway refund adapters by payment method. Each returns the gateway's reference
+ * for the refund and throws when the gateway refuses it. Replace one with
+ * registerRefundAdapter when a real gateway client is wired in.
+ */
+const refundAdapters = {
+  CHAPA: {
+    refund: async (payment, amount) => {
+      // This would call the Chapa refund API with the original transaction
+      // For now, return a mock reference
+      return { reference: `chapa_refund_${payment.transactionId || payment.id}_${Date.now()}` };
+    }
+  },
+  CBE_BIRR: {
+    refund: async (payment, amount) => {
+      // This would call the CBE Birr reversal API
+      // For now, return a mock reference
+      return { reference: `cbe_refund_${payment.transactionId || payment.id}_${Date.now()}` };
+    }
+  },
+  STRIPE: {
+    refund: async (payment, amount) => {
+      // This would create a Stripe refund against the payment intent
+      // For now, return a mock reference
+      return { reference: `re_mock_${payment.id}_${Date.now()}` };
+    }
+  },
+  // Cash goes back by hand, so there is no gateway to call
+  CASH_ON_DELIVERY: {
+    refund: async () => ({ reference: null })
+  }
+};
+
+const registerRefundAdapter = (paymentMethod, adapter) => {
+  refundAdapters[paymentMethod] = adapter;
+};
+
+/**
+ * Bought, refunded and still refundable quantities per order item.
+ * Expects the order to include its items and its refunds with their items.
+ */
+const getRefundableItems = (order) => {
+  const activeRefundItems = order.refunds
+    .filter(refund => ACTIVE_REFUND_STATUSES.includes(refund.status))
+    .flatMap(refund => refund.items);
+
+  return order.items.map(item => {
+    const refundedQuantity = activeRefundItems
+      .filter(refundItem => refundItem.orderItemId === item.id)
+      .reduce((sum, refundItem) => sum + refundItem.quantity, 0);
+
+    return {
+      orderItemId: item.id,
+      productId: item.productId,
+      price: Number(item.price),
+      quantity: item.quantity,
+      refundedQuantity,
+      refundableQuantity: item.quantity - refundedQuantity
+    };
+  });
+};
+
+/**
+ * Work out the items and amount of a refund. Leaving out items refunds everything
+ * still refundable. A refund that covers the rest of the order also returns the
+ * shipping, so the refunds of an order always add up to what was paid.
+ * Returns { error } when the request cannot be refunded.
+ */
+const buildRefund = (order, payment, requestedItems) => {
+  const refundable = getRefundableItems(order);
+  let items;
+
+  if (!requestedItems || requestedItems.length === 0) {
+    items = refundable
+      .filter(item => item.refundableQuantity > 0)
+      .map(item => ({ ...item, refundQuantity: item.refundableQuantity }));
+  } else {
+    items = [];
+
+    for (const requested of requestedItems) {
+      const item = refundable.find(entry => entry.orderItemId === requested.orderItemId);
+      const quantity = parseInt(requested.quantity);
+
+      if (!item) {
+        return { error: 'Item is not part of this order' };
+      }
+      if (items.some(entry => entry.orderItemId === item.orderItemId)) {
+        return { error: 'Each item can only be listed once' };
+      }
+      if (!quantity || quantity < 1 || quantity > item.refundableQuantity) {
+        return { error: `Only ${item.refundableQuantity} of this item can be refunded` };
+      }
+
+      items.push({ ...item, refundQuantity: quantity });
+    }
+  }
+
+  if (items.length === 0) {
+    return { error: 'Nothing left to refund on this order' };
+  }
+
+  const alreadyRefunded = order.refunds
+    .filter(refund => ACTIVE_REFUND_STATUSES.includes(refund.status))
+    .reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const remaining = Number(payment.amount) - alreadyRefunded;
+
+  const coversRest = refundable.every(item => {
+    const requested = items.find(entry => entry.orderItemId === item.orderItemId);
+    return (requested?.refundQuantity || 0) === item.refundableQuantity;
+  });
+  const itemsTotal = items.reduce((sum, item) => sum + item.price * item.refundQuantity, 0);
+
+  return {
+    amount: roundAmount(coversRest ? remaining : Math.min(itemsTotal, remaining)),
+    items: items.map(item => ({
+      orderItemId: item.orderItemId,
+      quantity: item.refundQuantity,
+      amount: roundAmount(item.price * item.refundQuantity)
+    }))
+  };
+};
+
+/**
+ * Pay an APPROVED refund back through its payment's gateway, then record it:
+ * restock the items, update the payment and order, and take the amount out of
+ * escrow. A gateway failure leaves the refund FAILED so it can be approved again.
+ */
+const completeRefund = async (refundId, reviewerId, { restock = true, note } = {}) => {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: {
+      order: true,
+      payment: true,
+      items: { include: { orderItem: true } }
+    }
+  });
+
+  const reviewedAt = new Date();
+  const amount = Number(refund.amount);
+  let gatewayResult;
+
+  try {
+    const adapter = refundAdapters[refund.payment.paymentMethod];
+    if (!adapter) {
+      throw new Error(`No refund adapter for ${refund.payment.paymentMethod}`);
+    }
+
+    gatewayResult = await adapter.refund(refund.payment, amount, refund);
+  } catch (error) {
+    console.error('Gateway refund error:', error);
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: 'FAILED',
+        reviewedById: reviewerId,
+        reviewedAt,
+        note: note || `Gateway refused the refund: ${error.message}`
+      },
+      include: REFUND_INCLUDE
+    });
+  }
+
+  let chatPosts = [];
+  const completed = await prisma.$transaction(async (tx) => {
+    if (restock) {
+      for (const item of refund.items) {
+        await tx.product.updateMany({
+          where: { id: item.orderItem.productId, trackQuantity: true },
+          data: { quantity: { increment: item.quantity } }
+        });
+      }
+    }
+
+    // refundAmount starts out null, so add to it here rather than with an increment
+    const payment = await tx.payment.findUnique({ where: { id: refund.paymentId } });
+    const refundAmount = roundAmount(Number(payment.refundAmount || 0) + amount);
+    const fullyRefunded = Number(payment.amount) - refundAmount < 0.005;
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        refundAmount,
+        refundedAt: reviewedAt,
+        status: fullyRefunded ? 'REFUNDED' : undefined
+      }
+    });
+
+    // A cancelled order keeps its status; any other order is marked refunded once fully paid back
+    if (fullyRefunded) {
+      const status = canTransition(ORDER_TRANSITIONS, refund.order.status, 'REFUNDED', 'SYSTEM')
+        ? 'REFUNDED'
+        : undefined;
+
+      chatPosts = await recordOrderEvents(refund.order, { status }, { actorId: reviewerId, note: refund.reason }, tx);
+
+      await tx.order.update({
+        where: { id: refund.orderId },
+        data: {
+          paymentStatus: 'REFUNDED',
+          status
+        }
+      });
+    }
+
+    await refundFromHold(refund.orderId, amount, tx);
+
+    return tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: 'COMPLETED',
+        reviewedById: reviewerId,
+        reviewedAt,
+        completedAt: reviewedAt,
+        restock,
+        note: note || null,
+        gatewayReference: gatewayResult.reference
+      },
+      include: REFUND_INCLUDE
+    });
+  });
+
+  publishChatMessages(chatPosts);
+  return completed;
+};
+
+/**
+ * Refund a paid order in full as it is cancelled. Open refund requests are
+ * closed first since the cancellation covers them. Stock is left alone here -
+ * cancelling releases it separately.
+ */
+const refundCancelledOrder = async (orderId, userId, reason) => {
+  const payment = await prisma.payment.findFirst({
+    where: { orderId, status: 'COMPLETED' },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  if (!payment) {
+    return null;
+  }
+
+  await prisma.refund.updateMany({
+    where: { orderId, status: { in: OPEN_REFUND_STATUSES } },
+    data: {
+      status: 'REJECTED',
+      reviewedById: userId,
+      reviewedAt: new Date(),
+      note: 'Replaced by the cancellation refund'
+    }
+  });
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: true,
+      refunds: { include: { items: true } }
+    }
+  });
+
+  const { amount, items, error } = buildRefund(order, payment);
+  if (error) {
+    return null;
+  }
+
+  const refund = await prisma.refund.create({
+    data: {
+      orderId,
+      paymentId: payment.id,
+      requestedById: userId,
+      status: 'APPROVED',
+      amount,
+      reason: reason || 'Order cancelled',
+      items: { create: items }
+    }
+  });
+
+  return completeRefund(refund.id, userId, { restock: false });
+};
+
+// Helper functions
+
+function roundAmount(value) {
+  return Math.round(value * 100) / 100;
+}
+
+module.exports = {
+  ACTIVE_REFUND_STATUSES,
+  OPEN_REFUND_STATUSES,
+  REFUND_INCLUDE,
+  registerRefundAdapter,
+  getRefundableItems,
+  buildRefund,
+  completeRefund,
+  refundCancelledOrder
+};
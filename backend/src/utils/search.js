@@ -0,0 +1,107 @@
+const prisma = require('../config/database');
+
+// Matches ranked per search; pages past this are rarely what anyone is after
+const MAX_SEARCH_RESULTS = 500;
+
+// How far back searches count towards the popular suggestions
+const POPULAR_SEARCH_DAYS = 30;
+
+// Signed-in users who must have made a search before it is suggested to everyone
+const MIN_POPULAR_SEARCH_USERS = 3;
+
+// Longest query kept in the search log
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Published products matching a search, best match first, as { id, rank } rows.
+ *
+ * The matching runs in Postgres (see the product_search migration). A trigger
+ * indexes each listing's title, tags and description as a weighted tsvector
+ * after folding accents and romanizing Ge'ez script, so "berbere", "Berberé"
+ * and "በርበሬ" all meet, and English stemming covers plurals. Trigram similarity
+ * on the title and tags also lets near misses through, which absorbs typos.
+ */
+const searchProducts = (query, limit = MAX_SEARCH_RESULTS, client = prisma) =>
+  client.$queryRaw`
+    SELECT p."id",
+      (ts_rank(p."searchVector", q.tsquery) + word_similarity(q.text, p."searchText"))::float AS "rank"
+    FROM "products" p,
+      (SELECT websearch_to_tsquery('english', search_normalize(${query})) AS tsquery,
+        search_normalize(${query}) AS text) q
+    WHERE p."isPublished" = true
+      AND p."status" = 'PUBLISHED'
+      AND (p."searchVector" @@ q.tsquery OR q.text <% p."searchText")
+    ORDER BY "rank" DESC
+    LIMIT ${limit}
+  `;
+
+/**
+ * The form searches are logged and suggested in: trimmed, lower case and single
+ * spaced, so "Coffee  Beans" and "coffee beans" count as the same search
+ */
+const normalizeQuery = (query) =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_QUERY_LENGTH);
+
+/**
+ * Log a search for the popular suggestions and, when signed in, the user's
+ * recent searches
+ */
+const recordSearch = (query, userId, resultCount, client = prisma) =>
+  client.searchQuery.create({
+    data: {
+      query: normalizeQuery(query),
+      userId: userId || null,
+      resultCount
+    }
+  });
+
+/**
+ * The user's latest distinct searches, newest first, optionally only those
+ * starting with a prefix
+ */
+const getRecentSearches = async (userId, prefix = '', limit = 5, client = prisma) => {
+  const searches = await client.searchQuery.findMany({
+    where: {
+      userId,
+      query: { startsWith: normalizeQuery(prefix) }
+    },
+    distinct: ['query'],
+    select: { query: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+
+  return searches.map(search => search.query);
+};
+
+/**
+ * The most frequent recent searches that found something, optionally only
+ * those starting with a prefix. A search only counts once enough different
+ * signed-in users have made it, so one person's searches are never shown to
+ * everyone else.
+ */
+const getPopularSearches = async (prefix = '', limit = 5, client = prisma) => {
+  const since = new Date(Date.now() - POPULAR_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+
+  const searches = await client.$queryRaw`
+    SELECT "query"
+    FROM "search_queries"
+    WHERE starts_with("query", ${normalizeQuery(prefix)})
+      AND "resultCount" > 0
+      AND "createdAt" >= ${since}
+    GROUP BY "query"
+    HAVING COUNT(DISTINCT "userId") >= ${MIN_POPULAR_SEARCH_USERS}
+    ORDER BY COUNT(*) DESC
+    LIMIT ${limit}
+  `;
+
+  return searches.map(search => search.query);
+};
+
+module.exports = {
+  searchProducts,
+  normalizeQuery,
+  recordSearch,
+  getRecentSearches,
+  getPopularSearches
+};
@@ -0,0 +1,358 @@
+/**
+ * Route contract test.
+ *
+ * Boots the Express app against a local Postgres and calls every route in
+ * src/config/apiRoutes.js (one per frontend apiClient method). A route passes when it
+ * is mounted, does not fail with a 5xx, and answers with the { success, ... } envelope.
+ *
+ * Needs a disposable database with the migrations applied:
+ *   DATABASE_URL=postgresql://localhost:5432/balmuya_test npx prisma migrate deploy
+ *   DATABASE_URL=postgresql://localhost:5432/balmuya_test npm run test:contract
+ */
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const bcrypt = require('bcryptjs');
+
+// Placeholder secrets so the app boots without a full .env
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'contract-test-secret';
+process.env.JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'contract-test-refresh-secret';
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'contract-test';
+process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'contract-test';
+
+const app = require('../src/server');
+const prisma = require('../src/config/database');
+const apiRoutes = require('../src/config/apiRoutes');
+const { generateTokenPair } = require('../src/utils/jwt');
+
+const PASSWORD = 'Contract123!';
+
+let server;
+let baseUrl;
+let fixtures;
+
+/**
+ * Create one buyer, seller, admin and courier plus the records the routes look up
+ */
+const createFixtures = async () => {
+  const suffix = Date.now().toString(36);
+  const password = await bcrypt.hash(PASSWORD, 10);
+
+  const createUser = (role, extra = {}) => prisma.user.create({
+    data: {
+      email: `contract-${role.toLowerCase()}-${suffix}@balmuya.test`,
+      password,
+      firstName: 'Contract',
+      lastName: role,
+      role,
+      isVerified: true,
+      ...extra
+    }
+  });
+
+  const buyer = await createUser('BUYER');
+  const seller = await createUser('SELLER', {
+    storeName: `Contract Store ${suffix}`,
+    kycStatus: 'APPROVED'
+  });
+  const admin = await createUser('ADMIN');
+  const courier = await createUser('DELIVERY_PARTNER', {
+    deliveryPartner: {
+      create: { vehicleType: 'Motorcycle' }
+    }
+  });
+
+  const category = await prisma.category.create({
+    data: { name: `Contract Category ${suffix}` }
+  });
+
+  const createProduct = (title) => prisma.product.create({
+    data: {
+      title,
+      description: 'Created by the route contract test',
+      price: 250,
+      quantity: 10,
+      status: 'PUBLISHED',
+      isPublished: true,
+      sellerId: seller.id,
+      categoryId: category.id
+    }
+  });
+
+  const product = await createProduct('Contract Product');
+  // Separate product for the update/delete routes so the order above keeps a valid item
+  const spareProduct = await createProduct('Contract Spare Product');
+
+  const address = await prisma.address.create({
+    data: {
+      userId: buyer.id,
+      firstName: 'Contract',
+      lastName: 'Buyer',
+      phone: '+251911000000',
+      street: 'Bole Road',
+      city: 'Addis Ababa',
+      state: 'Addis Ababa',
+      postalCode: '1000',
+      isDefault: true
+    }
+  });
+
+  const checkoutGroup = await prisma.checkoutGroup.create({
+    data: {
+      groupNumber: `CONTRACT-${suffix}`,
+      paymentMethod: 'CHAPA',
+      subtotal: 250,
+      total: 250,
+      buyerId: buyer.id
+    }
+  });
+
+  const order = await prisma.order.create({
+    data: {
+      orderNumber: `CONTRACT-${suffix}-1`,
+      subtotal: 250,
+      total: 250,
+      deliveryOption: 'SELLER_DELIVERY',
+      buyerId: buyer.id,
+      sellerId: seller.id,
+      shippingAddressId: address.id,
+      checkoutGroupId: checkoutGroup.id,
+      items: {
+        create: [{ productId: product.id, quantity: 1, price: 250 }]
+      },
+      payments: {
+        create: [{ userId: buyer.id, amount: 250, paymentMethod: 'CHAPA' }]
+      }
+    },
+    include: { items: true, payments: true }
+  });
+
+  const review = await prisma.review.create({
+    data: {
+      productId: product.id,
+      orderId: order.id,
+      userId: buyer.id,
+      sellerId: seller.id,
+      rating: 5,
+      comment: 'Contract review'
+    }
+  });
+
+  const chat = await prisma.chat.create({
+    data: {
+      participant1Id: buyer.id,
+      participant2Id: seller.id,
+      messages: {
+        create: [{ senderId: seller.id, receiverId: buyer.id, content: 'Contract message' }]
+      }
+    }
+  });
+
+  // Open refund request for the review routes
+  const refund = await prisma.refund.create({
+    data: {
+      orderId: order.id,
+      paymentId: order.payments[0].id,
+      requestedById: buyer.id,
+      amount: 250,
+      reason: 'Contract refund',
+      items: {
+        create: [{ orderItemId: order.items[0].id, quantity: 1, amount: 250 }]
+      }
+    }
+  });
+
+  const deliveryPartner = await prisma.deliveryPartner.findUnique({ where: { userId: courier.id } });
+  const deliveryAssignment = await prisma.deliveryAssignment.create({
+    data: {
+      orderId: order.id,
+      partnerId: deliveryPartner.id,
+      status: 'ASSIGNED'
+    }
+  });
+
+  const notification = await prisma.notification.create({
+    data: {
+      userId: buyer.id,
+      type: 'DELIVERY_UPDATE',
+      title: 'Contract notification',
+      message: 'Created by the route contract test'
+    }
+  });
+
+  const kycDocument = await prisma.kycDocument.create({
+    data: { userId: seller.id, status: 'UNDER_REVIEW' }
+  });
+
+  // Open report for the moderation routes
+  const report = await prisma.report.create({
+    data: { reporterId: buyer.id, reportedUserId: seller.id, category: 'SPAM' }
+  });
+
+  return {
+    users: { BUYER: buyer, SELLER: seller, ADMIN: admin, DELIVERY_PARTNER: courier },
+    category,
+    product,
+    spareProduct,
+    address,
+    checkoutGroup,
+    order,
+    payment: order.payments[0],
+    refund,
+    review,
+    chat,
+    deliveryAssignment,
+    notification,
+    kycDocument,
+    report
+  };
+};
+
+/**
+ * Remove everything the fixtures (and the requests) created
+ */
+const removeFixtures = async () => {
+  const userIds = Object.values(fixtures.users).map(user => user.id);
+
+  await prisma.review.deleteMany({ where: { userId: { in: userIds } } });
+  // Assignments keep orders from being deleted
+  await prisma.deliveryAssignment.deleteMany({ where: { order: { buyerId: { in: userIds } } } });
+  await prisma.cashReconciliation.deleteMany({ where: { reconciledById: { in: userIds } } });
+  await prisma.order.deleteMany({ where: { buyerId: { in: userIds } } });
+  await prisma.checkoutGroup.deleteMany({ where: { buyerId: { in: userIds } } });
+  await prisma.chat.deleteMany({
+    where: {
+      OR: [
+        { participant1Id: { in: userIds } },
+        { participant2Id: { in: userIds } }
+      ]
+    }
+  });
+  // Access logs keep admins from being deleted, so clear them first
+  await prisma.kycAccessLog.deleteMany({ where: { adminId: { in: userIds } } });
+  await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+  await prisma.category.delete({ where: { id: fixtures.category.id } });
+};
+
+// Path params and bodies per manifest entry. Entries that are not listed are called
+// with no params and no body (validation errors still prove the route is live).
+const requestCases = {
+  'auth.login': f => ({ data: { email: f.users.BUYER.email, password: PASSWORD } }),
+  'auth.refreshToken': f => ({ data: { refreshToken: generateTokenPair(f.users.BUYER).refreshToken } }),
+  'auth.changePassword': () => ({ data: { currentPassword: PASSWORD, newPassword: PASSWORD } }),
+  'users.updateAddress': f => ({ params: { id: f.address.id }, data: { city: 'Adama' } }),
+  // Used by the fixture order, so this answers 409 and the address survives
+  'users.deleteAddress': f => ({ params: { id: f.address.id } }),
+  'users.getStorefront': f => ({ params: { id: f.users.SELLER.id } }),
+  // The courier, so the buyer can still message the seller in the chat cases
+  'users.blockUser': f => ({ params: { id: f.users.DELIVERY_PARTNER.id } }),
+  'users.unblockUser': f => ({ params: { id: f.users.DELIVERY_PARTNER.id } }),
+  'products.getById': f => ({ params: { id: f.product.id } }),
+  'products.getStock': f => ({ params: { id: f.product.id } }),
+  'products.getByCategory': f => ({ params: { id: f.category.id } }),
+  'products.update': f => ({ params: { id: f.spareProduct.id }, data: { title: 'Contract Spare Product (updated)' } }),
+  'products.delete': f => ({ params: { id: f.spareProduct.id } }),
+  'orders.getById': f => ({ params: { id: f.order.id } }),
+  'orders.getCheckoutGroup': f => ({ params: { groupId: f.checkoutGroup.id } }),
+  'orders.updateStatus': f => ({ params: { id: f.order.id }, data: { status: 'CONFIRMED' } }),
+  // Already confirmed above, so the order is reported as not updated
+  'orders.bulkUpdateStatus': f => ({ data: { orderIds: [f.order.id], status: 'CONFIRMED' } }),
+  'orders.cancel': f => ({ params: { id: f.order.id }, data: { reason: 'Contract test' } }),
+  'payments.initialize': f => ({ data: { orderId: f.order.id } }),
+  'payments.verify': f => ({ params: { transactionId: f.payment.id } }),
+  'payments.getByOrder': f => ({ params: { orderId: f.order.id } }),
+  // The fixture order is unpaid, so this answers 400
+  'refunds.request': f => ({ data: { orderId: f.order.id, reason: 'Contract test' } }),
+  'refunds.getByOrder': f => ({ params: { orderId: f.order.id } }),
+  'refunds.approve': f => ({ params: { id: f.refund.id }, data: { restock: false } }),
+  // Already approved above, so this answers 400
+  'refunds.reject': f => ({ params: { id: f.refund.id }, data: { note: 'Contract test' } }),
+  'reviews.getByProduct': f => ({ params: { productId: f.product.id } }),
+  'reviews.getBySeller': f => ({ params: { sellerId: f.users.SELLER.id } }),
+  'reviews.update': f => ({ params: { id: f.review.id }, data: { rating: 4 } }),
+  'reviews.delete': f => ({ params: { id: f.review.id } }),
+  'wishlist.add': f => ({ data: { productId: f.product.id } }),
+  'wishlist.remove': f => ({ params: { productId: f.product.id } }),
+  'cart.addItem': f => ({ data: { productId: f.product.id, quantity: 1 } }),
+  'cart.updateItem': f => ({ params: { productId: f.product.id }, data: { quantity: 2 } }),
+  'cart.removeItem': f => ({ params: { productId: f.product.id } }),
+  'cart.merge': f => ({ data: { items: [{ productId: f.product.id, quantity: 1 }] } }),
+  // A seller delivery, so this answers 409
+  'delivery.acceptJob': f => ({ params: { orderId: f.order.id } }),
+  // The fixture order is cancelled by now, so this answers 400
+  'delivery.updateStatus': f => ({ params: { id: f.deliveryAssignment.id }, data: { status: 'PICKED_UP' } }),
+  'notifications.markRead': f => ({ params: { id: f.notification.id } }),
+  'chats.getById': f => ({ params: { id: f.chat.id } }),
+  'chats.create': f => ({ data: { participantId: f.users.SELLER.id } }),
+  'chats.getMessages': f => ({ params: { id: f.chat.id } }),
+  'chats.sendMessage': f => ({ params: { id: f.chat.id }, data: { content: 'Contract reply' } }),
+  'chats.getOrders': f => ({ params: { id: f.chat.id } }),
+  'chats.markRead': f => ({ params: { id: f.chat.id } }),
+  'chats.sendTyping': f => ({ params: { id: f.chat.id }, data: { isTyping: true } }),
+  'reports.create': f => ({ data: { reportedUserId: f.users.DELIVERY_PARTNER.id, category: 'SPAM' } }),
+  'admin.updateUserStatus': f => ({ params: { id: f.users.BUYER.id }, data: { status: 'ACTIVE' } }),
+  'admin.getKYCDocuments': f => ({ params: { id: f.kycDocument.id } }),
+  'admin.getKYCAccessLog': f => ({ params: { id: f.kycDocument.id } }),
+  'admin.reviewKYC': f => ({ params: { id: f.kycDocument.id }, data: { status: 'APPROVED' } }),
+  'admin.resolveReport': f => ({ params: { id: f.report.id }, data: { action: 'DISMISS' } }),
+  'admin.updateCategory': f => ({ params: { id: f.category.id }, data: { description: 'Updated by the contract test' } }),
+  // Still has products, so this answers 409 and the category survives for cleanup
+  'admin.deleteCategory': f => ({ params: { id: f.category.id } }),
+  // Nothing was collected today, so this answers 400
+  'admin.reconcileCash': f => ({
+    data: {
+      partnerId: f.deliveryAssignment.partnerId,
+      date: new Date().toISOString().slice(0, 10),
+      receivedAmount: 0
+    }
+  })
+};
+
+const buildPath = (path, params = {}) =>
+  path.replace(/:(\w+)/g, (_, key) => {
+    assert.ok(params[key], `missing ${key} param for ${path}`);
+    return encodeURIComponent(params[key]);
+  });
+
+// Deletes run last so the other routes still find their records
+const entries = Object.entries(apiRoutes)
+  .flatMap(([group, routes]) =>
+    Object.entries(routes).map(([name, route]) => ({ key: `${group}.${name}`, ...route }))
+  )
+  .sort((a, b) => (a.method === 'DELETE') - (b.method === 'DELETE'));
+
+before(async () => {
+  fixtures = await createFixtures();
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await removeFixtures();
+  await prisma.$disconnect();
+});
+
+for (const entry of entries) {
+  test(`${entry.key} -> ${entry.method} ${entry.path}`, async () => {
+    const { params, data } = requestCases[entry.key] ? requestCases[entry.key](fixtures) : {};
+    const path = buildPath(entry.path, params);
+
+    const headers = { 'Content-Type': 'application/json' };
+    if (entry.role) {
+      headers.Authorization = `Bearer ${generateTokenPair(fixtures.users[entry.role]).accessToken}`;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: entry.method,
+      headers,
+      body: data === undefined ? undefined : JSON.stringify(data)
+    });
+    const body = await response.json();
+
+    assert.notEqual(body.message, `Not Found - /api${path}`, 'route is not mounted');
+    assert.ok(response.status < 500, `responded ${response.status}: ${body.message}`);
+    assert.equal(typeof body.success, 'boolean', 'response is missing the success flag');
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Placeholder settings so the unit tests can load src/ without a .env.
+ * Nothing here connects - the Prisma client only opens a connection on its first query.
+ */
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/balmuya_test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'unit-test-secret';
+process.env.JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'unit-test-refresh-secret';
+process.env.CHAPA_WEBHOOK_SECRET = 'chapa-test-secret';
+process.env.CBE_BIRR_WEBHOOK_SECRET = 'cbe-test-secret';
+process.env.STRIPE_WEBHOOK_SECRET = 'stripe-test-secret';
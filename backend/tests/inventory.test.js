@@ -0,0 +1,70 @@
+/**
+ * Stock release tests for releaseStock, against a fake Prisma client:
+ *   npm run test:unit
+ */
+require('./env');
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { releaseStock } = require('../src/utils/inventory');
+
+// Records product updates; the order is reserving while stockReserved is true
+const createClient = ({ stockReserved = true, items = [] } = {}) => {
+  const increments = [];
+
+  return {
+    increments,
+    order: {
+      updateMany: async () => {
+        const count = stockReserved ? 1 : 0;
+        stockReserved = false;
+        return { count };
+      }
+    },
+    orderItem: {
+      findMany: async () => items
+    },
+    product: {
+      updateMany: async ({ where, data }) => {
+        increments.push({ productId: where.id, quantity: data.quantity.increment });
+        return { count: 1 };
+      }
+    }
+  };
+};
+
+test('releasing puts every reserved unit back', async () => {
+  const client = createClient({
+    items: [
+      { productId: 'product-a', quantity: 2, refundItems: [] },
+      { productId: 'product-b', quantity: 1, refundItems: [] }
+    ]
+  });
+
+  assert.equal(await releaseStock('order-1', client), true);
+  assert.deepEqual(client.increments, [
+    { productId: 'product-a', quantity: 2 },
+    { productId: 'product-b', quantity: 1 }
+  ]);
+});
+
+test('units a refund already restocked are not put back twice', async () => {
+  const client = createClient({
+    items: [
+      { productId: 'product-a', quantity: 3, refundItems: [{ quantity: 1 }, { quantity: 1 }] },
+      { productId: 'product-b', quantity: 1, refundItems: [{ quantity: 1 }] }
+    ]
+  });
+
+  await releaseStock('order-1', client);
+  assert.deepEqual(client.increments, [{ productId: 'product-a', quantity: 1 }]);
+});
+
+test('only the first release restocks', async () => {
+  const client = createClient({
+    items: [{ productId: 'product-a', quantity: 2, refundItems: [] }]
+  });
+
+  assert.equal(await releaseStock('order-1', client), true);
+  assert.equal(await releaseStock('order-1', client), false);
+  assert.deepEqual(client.increments, [{ productId: 'product-a', quantity: 2 }]);
+});
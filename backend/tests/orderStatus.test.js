@@ -0,0 +1,87 @@
+/**
+ * Order and delivery state machine tests. No database needed:
+ *   npm run test:unit
+ */
+require('./env');
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  ORDER_TRANSITIONS,
+  DELIVERY_TRANSITIONS,
+  canTransition,
+  getTransitionError
+} = require('../src/utils/orderStatus');
+
+test('only the listed roles can make an order move', () => {
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'PENDING', 'CONFIRMED', 'SELLER'), true);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'PENDING', 'CONFIRMED', 'SYSTEM'), true);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'PENDING', 'CONFIRMED', 'BUYER'), false);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'CONFIRMED', 'SHIPPED', 'DELIVERY_PARTNER'), true);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'CONFIRMED', 'SHIPPED', 'SELLER'), false);
+});
+
+test('buyers can cancel only before the order is processed', () => {
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'PENDING', 'CANCELLED', 'BUYER'), true);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'CONFIRMED', 'CANCELLED', 'BUYER'), true);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'PROCESSING', 'CANCELLED', 'BUYER'), false);
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'SHIPPED', 'CANCELLED', 'ADMIN'), false);
+});
+
+test('only the platform marks an order refunded', () => {
+  for (const from of ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED']) {
+    assert.equal(canTransition(ORDER_TRANSITIONS, from, 'REFUNDED', 'SYSTEM'), true, from);
+    assert.equal(canTransition(ORDER_TRANSITIONS, from, 'REFUNDED', 'ADMIN'), false, from);
+  }
+});
+
+test('finished orders and deliveries have no moves left', () => {
+  for (const status of ['CANCELLED', 'REFUNDED']) {
+    assert.deepEqual(ORDER_TRANSITIONS[status], {});
+  }
+  for (const status of ['DELIVERED', 'CANCELLED']) {
+    assert.deepEqual(DELIVERY_TRANSITIONS[status], {});
+  }
+});
+
+test('a failed delivery is not reassigned in place', () => {
+  assert.equal(canTransition(DELIVERY_TRANSITIONS, 'FAILED', 'ASSIGNED', 'DELIVERY_PARTNER'), false);
+  assert.equal(
+    getTransitionError(DELIVERY_TRANSITIONS, 'FAILED', 'ASSIGNED', 'DELIVERY_PARTNER'),
+    'Cannot change status from FAILED to ASSIGNED'
+  );
+  assert.equal(canTransition(DELIVERY_TRANSITIONS, 'FAILED', 'CANCELLED', 'SYSTEM'), true);
+});
+
+test('couriers walk a delivery forward one step at a time', () => {
+  const steps = ['PENDING', 'ASSIGNED', 'PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED'];
+
+  for (let i = 0; i < steps.length - 1; i++) {
+    assert.equal(canTransition(DELIVERY_TRANSITIONS, steps[i], steps[i + 1], 'DELIVERY_PARTNER'), true, steps[i]);
+  }
+  assert.equal(canTransition(DELIVERY_TRANSITIONS, 'ASSIGNED', 'DELIVERED', 'DELIVERY_PARTNER'), false);
+  assert.equal(canTransition(DELIVERY_TRANSITIONS, 'PICKED_UP', 'CANCELLED', 'SELLER'), false);
+});
+
+test('getTransitionError explains why a move is refused', () => {
+  assert.equal(getTransitionError(ORDER_TRANSITIONS, 'PENDING', 'CONFIRMED', 'SELLER'), null);
+  assert.equal(
+    getTransitionError(ORDER_TRANSITIONS, 'DELIVERED', 'CANCELLED', 'ADMIN'),
+    'Cannot change status from DELIVERED to CANCELLED'
+  );
+  assert.equal(
+    getTransitionError(ORDER_TRANSITIONS, 'PENDING', 'CONFIRMED', 'BUYER'),
+    'Only sellers or admins or the platform can change status from PENDING to CONFIRMED'
+  );
+  assert.equal(
+    getTransitionError(ORDER_TRANSITIONS, 'CONFIRMED', 'SHIPPED', 'SELLER'),
+    'Only delivery partners can change status from CONFIRMED to SHIPPED'
+  );
+});
+
+test('unknown statuses are refused rather than thrown on', () => {
+  assert.equal(canTransition(ORDER_TRANSITIONS, 'LOST', 'CONFIRMED', 'ADMIN'), false);
+  assert.equal(
+    getTransitionError(ORDER_TRANSITIONS, 'LOST', 'CONFIRMED', 'ADMIN'),
+    'Cannot change status from LOST to CONFIRMED'
+  );
+});
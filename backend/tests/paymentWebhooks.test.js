@@ -0,0 +1,105 @@
+/**
+ * Webhook signature tests. No database needed:
+ *   npm run test:unit
+ */
+require('./env');
+const crypto = require('crypto');
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  WEBHOOK_GATEWAYS,
+  verifyWebhookSignature,
+  parseWebhookEvent
+} = require('../src/utils/paymentWebhooks');
+
+const sign = (secret, payload) => crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+// Just the parts of an Express request the helpers read
+const createRequest = (headers, rawBody) => ({
+  get: (name) => headers[name.toLowerCase()],
+  rawBody: rawBody === undefined ? undefined : Buffer.from(rawBody),
+  body: rawBody ? JSON.parse(rawBody) : undefined
+});
+
+const chapaBody = JSON.stringify({ event: 'charge.success', reference: 'ref-1', tx_ref: 'tx-1', status: 'success', amount: '280', currency: 'etb' });
+
+test('a body signed with the gateway secret is accepted', () => {
+  const signature = sign(process.env.CHAPA_WEBHOOK_SECRET, chapaBody);
+
+  assert.equal(verifyWebhookSignature(WEBHOOK_GATEWAYS.chapa, createRequest({ 'chapa-signature': signature }, chapaBody)), true);
+  assert.equal(verifyWebhookSignature(WEBHOOK_GATEWAYS.chapa, createRequest({ 'x-chapa-signature': signature }, chapaBody)), true);
+});
+
+test('a wrong, missing or tampered signature is refused', () => {
+  const signature = sign(process.env.CHAPA_WEBHOOK_SECRET, chapaBody);
+  const gateway = WEBHOOK_GATEWAYS.chapa;
+
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'chapa-signature': sign('other-secret', chapaBody) }, chapaBody)), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({}, chapaBody)), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'chapa-signature': signature })), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'chapa-signature': signature }, chapaBody.replace('280', '1'))), false);
+  // Signed with another gateway's secret
+  assert.equal(verifyWebhookSignature(WEBHOOK_GATEWAYS.cbeBirr, createRequest({ 'x-cbe-birr-signature': signature }, chapaBody)), false);
+});
+
+test('a signature with multi-byte characters is refused, not thrown on', () => {
+  // As many characters as a real signature, but more bytes
+  const signature = 'é'.repeat(64);
+
+  assert.equal(verifyWebhookSignature(WEBHOOK_GATEWAYS.chapa, createRequest({ 'chapa-signature': signature }, chapaBody)), false);
+});
+
+const stripeBody = JSON.stringify({
+  id: 'evt_1',
+  type: 'checkout.session.completed',
+  data: { object: { client_reference_id: 'tx-2', payment_status: 'paid', amount_total: 28000, currency: 'etb' } }
+});
+
+const stripeHeader = (timestamp, body = stripeBody, secret = process.env.STRIPE_WEBHOOK_SECRET) =>
+  `t=${timestamp},v1=${sign(secret, `${timestamp}.${body}`)}`;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+test('a fresh Stripe signature is accepted', () => {
+  const gateway = WEBHOOK_GATEWAYS.stripe;
+
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': stripeHeader(now()) }, stripeBody)), true);
+  // Stripe may put spaces after the commas
+  assert.equal(
+    verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': stripeHeader(now()).replace(',', ', ') }, stripeBody)),
+    true
+  );
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': stripeHeader(now() - 290) }, stripeBody)), true);
+});
+
+test('a stale or malformed Stripe signature is refused', () => {
+  const gateway = WEBHOOK_GATEWAYS.stripe;
+  const timestamp = now();
+  const v1 = sign(process.env.STRIPE_WEBHOOK_SECRET, `${timestamp}.${stripeBody}`);
+
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': stripeHeader(timestamp - 600) }, stripeBody)), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': stripeHeader(timestamp + 600) }, stripeBody)), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': `v1=${v1}` }, stripeBody)), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': `t=${timestamp}` }, stripeBody)), false);
+  // The signature covers the timestamp, so it can't be moved to a newer one
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': `t=${timestamp + 1},v1=${v1}` }, stripeBody)), false);
+  assert.equal(verifyWebhookSignature(gateway, createRequest({ 'stripe-signature': stripeHeader(timestamp, stripeBody, 'other-secret') }, stripeBody)), false);
+});
+
+test('parseWebhookEvent normalizes amounts, currency and event ids', () => {
+  const stripe = parseWebhookEvent(WEBHOOK_GATEWAYS.stripe, createRequest({}, stripeBody));
+
+  assert.equal(stripe.eventId, 'evt_1');
+  assert.equal(stripe.transactionId, 'tx-2');
+  assert.equal(stripe.succeeded, true);
+  assert.equal(stripe.amount, 280);
+  assert.equal(stripe.currency, 'ETB');
+
+  // Without an event id, a retried delivery hashes to the same id
+  const cbeBody = JSON.stringify({ transactionId: 'tx-3', status: 'success', amount: 280 });
+  const first = parseWebhookEvent(WEBHOOK_GATEWAYS.cbeBirr, createRequest({}, cbeBody));
+  const retry = parseWebhookEvent(WEBHOOK_GATEWAYS.cbeBirr, createRequest({}, cbeBody));
+
+  assert.equal(first.eventId, crypto.createHash('sha256').update(cbeBody).digest('hex'));
+  assert.equal(retry.eventId, first.eventId);
+});
@@ -0,0 +1,98 @@
+/**
+ * Refund amount tests for buildRefund. No database needed:
+ *   npm run test:unit
+ */
+require('./env');
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { buildRefund } = require('../src/utils/refunds');
+
+// Two units at 100 and one at 50, paid 280 - the last 30 is shipping
+const createOrder = (refunds = []) => ({
+  items: [
+    { id: 'item-a', productId: 'product-a', price: '100.00', quantity: 2 },
+    { id: 'item-b', productId: 'product-b', price: '50.00', quantity: 1 }
+  ],
+  refunds
+});
+const payment = { amount: '280.00' };
+
+test('refunding everything returns what was paid, shipping included', () => {
+  const refund = buildRefund(createOrder(), payment);
+
+  assert.equal(refund.error, undefined);
+  assert.equal(refund.amount, 280);
+  assert.deepEqual(refund.items, [
+    { orderItemId: 'item-a', quantity: 2, amount: 200 },
+    { orderItemId: 'item-b', quantity: 1, amount: 50 }
+  ]);
+});
+
+test('a partial refund returns the price of the items only', () => {
+  const refund = buildRefund(createOrder(), payment, [{ orderItemId: 'item-a', quantity: 1 }]);
+
+  assert.equal(refund.amount, 100);
+  assert.deepEqual(refund.items, [{ orderItemId: 'item-a', quantity: 1, amount: 100 }]);
+});
+
+test('the refund that covers the rest of the order takes what is left', () => {
+  const order = createOrder([
+    { status: 'COMPLETED', amount: '100.00', items: [{ orderItemId: 'item-a', quantity: 1 }] }
+  ]);
+  const refund = buildRefund(order, payment);
+
+  assert.equal(refund.amount, 180);
+  assert.deepEqual(refund.items, [
+    { orderItemId: 'item-a', quantity: 1, amount: 100 },
+    { orderItemId: 'item-b', quantity: 1, amount: 50 }
+  ]);
+});
+
+test('a rejected refund frees its items again', () => {
+  const order = createOrder([
+    { status: 'REJECTED', amount: '280.00', items: [{ orderItemId: 'item-a', quantity: 2 }] }
+  ]);
+
+  assert.equal(buildRefund(order, payment).amount, 280);
+});
+
+test('requests beyond what is refundable are refused', () => {
+  const order = createOrder([
+    { status: 'REQUESTED', amount: '100.00', items: [{ orderItemId: 'item-a', quantity: 1 }] }
+  ]);
+
+  assert.deepEqual(
+    buildRefund(order, payment, [{ orderItemId: 'item-a', quantity: 2 }]),
+    { error: 'Only 1 of this item can be refunded' }
+  );
+  assert.deepEqual(
+    buildRefund(order, payment, [{ orderItemId: 'item-a', quantity: 0 }]),
+    { error: 'Only 1 of this item can be refunded' }
+  );
+  assert.deepEqual(
+    buildRefund(order, payment, [{ orderItemId: 'item-c', quantity: 1 }]),
+    { error: 'Item is not part of this order' }
+  );
+  assert.deepEqual(
+    buildRefund(order, payment, [
+      { orderItemId: 'item-b', quantity: 1 },
+      { orderItemId: 'item-b', quantity: 1 }
+    ]),
+    { error: 'Each item can only be listed once' }
+  );
+});
+
+test('a fully refunded order has nothing left to refund', () => {
+  const order = createOrder([
+    {
+      status: 'COMPLETED',
+      amount: '280.00',
+      items: [
+        { orderItemId: 'item-a', quantity: 2 },
+        { orderItemId: 'item-b', quantity: 1 }
+      ]
+    }
+  ]);
+
+  assert.deepEqual(buildRefund(order, payment), { error: 'Nothing left to refund on this order' });
+});
@@ -0,0 +1,163 @@
+import { createHash, createHmac, randomUUID } from 'node:crypto'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Plugin } from 'vite'
+
+// Local stand-in for Chapa, CBE Birr and Stripe. The /test-payment page asks it to
+// send a signed webhook to the backend, exactly as the real gateway would.
+
+type Gateway = 'CHAPA' | 'CBE_BIRR' | 'STRIPE'
+type Outcome = 'success' | 'failed'
+
+interface SimulatedPayment {
+  gateway: Gateway
+  transactionId: string
+  amount: number
+  currency: string
+  outcome: Outcome
+}
+
+interface Delivery {
+  gateway: Gateway
+  rawBody: string
+}
+
+interface SimulatorOptions {
+  apiUrl: string
+  secrets: Record<Gateway, string | undefined>
+}
+
+const webhookPaths: Record<Gateway, string> = {
+  CHAPA: '/payments/webhook/chapa',
+  CBE_BIRR: '/payments/webhook/cbe-birr',
+  STRIPE: '/payments/webhook/stripe',
+}
+
+const buildPayload = ({ gateway, transactionId, amount, currency, outcome }: SimulatedPayment) => {
+  switch (gateway) {
+    case 'CHAPA':
+      return {
+        event: outcome === 'success' ? 'charge.success' : 'charge.failed',
+        reference: `SIM-${randomUUID()}`,
+        tx_ref: transactionId,
+        status: outcome,
+        amount: amount.toFixed(2),
+        currency,
+      }
+    case 'CBE_BIRR':
+      return {
+        eventId: randomUUID(),
+        transactionId,
+        status: outcome,
+        amount: amount.toFixed(2),
+        currency,
+      }
+    case 'STRIPE':
+      return {
+        id: `evt_sim_${randomUUID().replace(/-/g, '')}`,
+        type: outcome === 'success' ? 'checkout.session.completed' : 'checkout.session.async_payment_failed',
+        data: {
+          object: {
+            client_reference_id: transactionId,
+            payment_status: outcome === 'success' ? 'paid' : 'unpaid',
+            amount_total: Math.round(amount * 100),
+            currency: currency.toLowerCase(),
+          },
+        },
+      }
+  }
+}
+
+const signatureHeaders = (gateway: Gateway, secret: string, rawBody: string): Record<string, string> => {
+  const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('hex')
+
+  switch (gateway) {
+    case 'CHAPA':
+      return { 'Chapa-Signature': sign(rawBody) }
+    case 'CBE_BIRR':
+      return { 'X-CBE-Birr-Signature': sign(rawBody) }
+    case 'STRIPE': {
+      const timestamp = Math.floor(Date.now() / 1000)
+      return { 'Stripe-Signature': `t=${timestamp},v1=${sign(`${timestamp}.${rawBody}`)}` }
+    }
+  }
+}
+
+const readJson = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {}
+}
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.statusCode = statusCode
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+export function gatewaySimulator({ apiUrl, secrets }: SimulatorOptions): Plugin {
+  // The last delivery is kept so the page can replay it and check idempotency
+  let lastDelivery: Delivery | null = null
+
+  const deliver = async ({ gateway, rawBody }: Delivery) => {
+    const secret = secrets[gateway]
+    if (!secret) {
+      throw new Error(`No webhook secret configured for ${gateway}`)
+    }
+
+    const response = await fetch(`${apiUrl}${webhookPaths[gateway]}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...signatureHeaders(gateway, secret, rawBody),
+      },
+      body: rawBody,
+    })
+
+    return {
+      status: response.status,
+      response: await response.json().catch(() => null),
+      eventHash: createHash('sha256').update(rawBody).digest('hex').slice(0, 12),
+      payload: JSON.parse(rawBody),
+    }
+  }
+
+  return {
+    name: 'balemuya-gateway-simulator',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__gateway', async (req, res, next) => {
+        if (req.method !== 'POST') {
+          return next()
+        }
+
+        try {
+          if (req.url === '/webhook') {
+            const payment = (await readJson(req)) as SimulatedPayment
+            if (!webhookPaths[payment.gateway] || !payment.transactionId || !Number.isFinite(payment.amount)) {
+              return sendJson(res, 400, { message: 'gateway, transactionId and amount are required' })
+            }
+
+            lastDelivery = {
+              gateway: payment.gateway,
+              rawBody: JSON.stringify(buildPayload({ ...payment, currency: payment.currency || 'ETB' })),
+            }
+            return sendJson(res, 200, await deliver(lastDelivery))
+          }
+
+          if (req.url === '/replay') {
+            if (!lastDelivery) {
+              return sendJson(res, 400, { message: 'Nothing to replay yet' })
+            }
+            return sendJson(res, 200, await deliver(lastDelivery))
+          }
+
+          next()
+        } catch (error) {
+          sendJson(res, 502, { message: error instanceof Error ? error.message : 'Webhook delivery failed' })
+        }
+      })
+    },
+  }
+}
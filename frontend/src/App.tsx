@@ -3,6 +3,8 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
+import { CartProvider } from './contexts/CartContext';
+import { ChatProvider } from './contexts/ChatContext';
 
 // Pages
 import LandingPage from './pages/LandingPage';
@@ -15,9 +17,18 @@ import ProductListingPage from './pages/products/ProductListingPage';
 import ProductDetailPage from './pages/products/ProductDetailPage';
 import CartPage from './pages/cart/CartPage';
 import CheckoutPage from './pages/checkout/CheckoutPage';
+import CheckoutConfirmationPage from './pages/checkout/CheckoutConfirmationPage';
+import TestPaymentPage from './pages/checkout/TestPaymentPage';
+import OrdersPage from './pages/orders/OrdersPage';
+import OrderDetailPage from './pages/orders/OrderDetailPage';
+import MessagesPage from './pages/messages/MessagesPage';
 import ProfilePage from './pages/profile/ProfilePage';
 import SellerDashboard from './pages/seller/SellerDashboard';
+import KycVerificationPage from './pages/seller/KycVerificationPage';
+import SellerOrdersPage from './pages/seller/SellerOrdersPage';
+import PackingSlipPage from './pages/seller/PackingSlipPage';
 import AdminDashboard from './pages/admin/AdminDashboard';
+import DeliveryDashboard from './pages/delivery/DeliveryDashboard';
 import NotFoundPage from './pages/NotFoundPage';
 
 // Layouts
@@ -40,104 +51,164 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router>
-          <div className="min-h-screen bg-neutral-50">
-            <Routes>
-              {/* Public Routes */}
-              <Route path="/" element={<LandingPage />} />
+        <CartProvider>
+          <ChatProvider>
+            <Router>
+              <div className="min-h-screen bg-neutral-50">
+                <Routes>
+                  {/* Public Routes */}
+                  <Route path="/" element={<LandingPage />} />
               
-              {/* Auth Routes */}
-              <Route path="/auth" element={<AuthLayout />}>
-                <Route path="login" element={<LoginPage />} />
-                <Route path="register" element={<RegisterPage />} />
-                <Route path="forgot-password" element={<ForgotPasswordPage />} />
-                <Route path="reset-password" element={<ResetPasswordPage />} />
-              </Route>
+                  {/* Auth Routes */}
+                  <Route path="/auth" element={<AuthLayout />}>
+                    <Route path="login" element={<LoginPage />} />
+                    <Route path="register" element={<RegisterPage />} />
+                    <Route path="forgot-password" element={<ForgotPasswordPage />} />
+                    <Route path="reset-password" element={<ResetPasswordPage />} />
+                  </Route>
 
-              {/* Protected Routes */}
-              <Route path="/" element={<MainLayout />}>
-                {/* Buyer Routes */}
-                <Route path="dashboard" element={
-                  <ProtectedRoute allowedRoles={['BUYER']}>
-                    <BuyerDashboard />
-                  </ProtectedRoute>
-                } />
+                  {/* Printable pages, outside the site layout */}
+                  <Route path="/seller/orders/:id/packing-slip" element={
+                    <ProtectedRoute allowedRoles={['SELLER']}>
+                      <PackingSlipPage />
+                    </ProtectedRoute>
+                  } />
+
+                  {/* Protected Routes */}
+                  <Route path="/" element={<MainLayout />}>
+                    {/* Buyer Routes */}
+                    <Route path="dashboard" element={
+                      <ProtectedRoute allowedRoles={['BUYER']}>
+                        <BuyerDashboard />
+                      </ProtectedRoute>
+                    } />
+                
+                    {/* Product Routes */}
+                    <Route path="products" element={<ProductListingPage />} />
+                    <Route path="products/:id" element={<ProductDetailPage />} />
+                
+                    {/* Cart & Checkout Routes */}
+                    <Route path="cart" element={
+                      <ProtectedRoute allowedRoles={['BUYER']}>
+                        <CartPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="checkout" element={
+                      <ProtectedRoute allowedRoles={['BUYER']}>
+                        <CheckoutPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="checkout/confirmation/:groupId" element={
+                      <ProtectedRoute allowedRoles={['BUYER']}>
+                        <CheckoutConfirmationPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="orders" element={
+                      <ProtectedRoute allowedRoles={['BUYER']}>
+                        <OrdersPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="orders/:id" element={
+                      <ProtectedRoute>
+                        <OrderDetailPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="test-payment" element={
+                      <ProtectedRoute allowedRoles={['BUYER']}>
+                        <TestPaymentPage />
+                      </ProtectedRoute>
+                    } />
                 
-                {/* Product Routes */}
-                <Route path="products" element={<ProductListingPage />} />
-                <Route path="products/:id" element={<ProductDetailPage />} />
+                    {/* Messaging Routes */}
+                    <Route path="messages" element={
+                      <ProtectedRoute>
+                        <MessagesPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="messages/:chatId" element={
+                      <ProtectedRoute>
+                        <MessagesPage />
+                      </ProtectedRoute>
+                    } />
                 
-                {/* Cart & Checkout Routes */}
-                <Route path="cart" element={
-                  <ProtectedRoute allowedRoles={['BUYER']}>
-                    <CartPage />
-                  </ProtectedRoute>
-                } />
-                <Route path="checkout" element={
-                  <ProtectedRoute allowedRoles={['BUYER']}>
-                    <CheckoutPage />
-                  </ProtectedRoute>
-                } />
+                    {/* Profile Routes */}
+                    <Route path="profile" element={
+                      <ProtectedRoute>
+                        <ProfilePage />
+                      </ProtectedRoute>
+                    } />
                 
-                {/* Profile Routes */}
-                <Route path="profile" element={
-                  <ProtectedRoute>
-                    <ProfilePage />
-                  </ProtectedRoute>
-                } />
+                    {/* Seller Routes */}
+                    <Route path="seller" element={
+                      <ProtectedRoute allowedRoles={['SELLER']}>
+                        <SellerDashboard />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="seller/products/add" element={
+                      <ProtectedRoute allowedRoles={['SELLER']}>
+                        <AddProduct />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="seller/orders" element={
+                      <ProtectedRoute allowedRoles={['SELLER']}>
+                        <SellerOrdersPage />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="seller/kyc" element={
+                      <ProtectedRoute allowedRoles={['SELLER']}>
+                        <KycVerificationPage />
+                      </ProtectedRoute>
+                    } />
                 
-                {/* Seller Routes */}
-                <Route path="seller" element={
-                  <ProtectedRoute allowedRoles={['SELLER']}>
-                    <SellerDashboard />
-                  </ProtectedRoute>
-                } />
-                <Route path="seller" element={
-                  <ProtectedRoute allowedRoles={['SELLER']}>
-                    <AddProduct />
-                  </ProtectedRoute>
-                } />
+                    {/* Admin Routes */}
+                    <Route path="admin" element={
+                      <ProtectedRoute allowedRoles={['ADMIN']}>
+                        <AdminDashboard />
+                      </ProtectedRoute>
+                    } />
                 
-                {/* Admin Routes */}
-                <Route path="admin" element={
-                  <ProtectedRoute allowedRoles={['ADMIN']}>
-                    <AdminDashboard />
-                  </ProtectedRoute>
-                } />
-              </Route>
+                    {/* Delivery Partner Routes */}
+                    <Route path="delivery" element={
+                      <ProtectedRoute allowedRoles={['DELIVERY_PARTNER']}>
+                        <DeliveryDashboard />
+                      </ProtectedRoute>
+                    } />
+                  </Route>
 
-              {/* 404 Route */}
-              <Route path="*" element={<NotFoundPage />} />
-            </Routes>
+                  {/* 404 Route */}
+                  <Route path="*" element={<NotFoundPage />} />
+                </Routes>
             
-            {/* Toast Notifications */}
-            <Toaster
-              position="top-right"
-              toastOptions={{
-                duration: 4000,
-                style: {
-                  background: '#fff',
-                  color: '#404040',
-                  border: '1px solid #e5e5e5',
-                  borderRadius: '8px',
-                  boxShadow: '0 4px 6px -1px rgba(118, 69, 155, 0.1)',
-                },
-                success: {
-                  iconTheme: {
-                    primary: '#76459b',
-                    secondary: '#fff',
-                  },
-                },
-                error: {
-                  iconTheme: {
-                    primary: '#ef4444',
-                    secondary: '#fff',
-                  },
-                },
-              }}
-            />
-          </div>
-        </Router>
+                {/* Toast Notifications */}
+                <Toaster
+                  position="top-right"
+                  toastOptions={{
+                    duration: 4000,
+                    style: {
+                      background: '#fff',
+                      color: '#404040',
+                      border: '1px solid #e5e5e5',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(118, 69, 155, 0.1)',
+                    },
+                    success: {
+                      iconTheme: {
+                        primary: '#76459b',
+                        secondary: '#fff',
+                      },
+                    },
+                    error: {
+                      iconTheme: {
+                        primary: '#ef4444',
+                        secondary: '#fff',
+                      },
+                    },
+                  }}
+                />
+              </div>
+            </Router>
+          </ChatProvider>
+        </CartProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,125 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '../ui/Button';
+import { AddressTypeValues } from '../../types';
+import type { Address } from '../../types';
+
+const addressSchema = z.object({
+  firstName: z.string().min(2, 'First name is required'),
+  lastName: z.string().min(2, 'Last name is required'),
+  phone: z.string().min(10, 'Valid phone number is required'),
+  street: z.string().min(5, 'Street address is required'),
+  city: z.string().min(2, 'City is required'),
+  state: z.string().min(2, 'Region is required'),
+  postalCode: z.string(),
+  country: z.string().min(2, 'Country is required'),
+  type: z.enum(AddressTypeValues),
+  isDefault: z.boolean()
+});
+
+export type AddressFormData = z.infer<typeof addressSchema>;
+
+interface AddressFormProps {
+  initialValues?: Partial<Address>;
+  submitLabel?: string;
+  // Let the user pick SHIPPING or BILLING (checkout only collects shipping addresses)
+  showTypeSelect?: boolean;
+  onSubmit: (data: AddressFormData) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const AddressForm: React.FC<AddressFormProps> = ({
+  initialValues,
+  submitLabel = 'Save Address',
+  showTypeSelect = false,
+  onSubmit,
+  onCancel
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting }
+  } = useForm<AddressFormData>({
+    resolver: zodResolver(addressSchema),
+    defaultValues: {
+      firstName: initialValues?.firstName || '',
+      lastName: initialValues?.lastName || '',
+      phone: initialValues?.phone || '',
+      street: initialValues?.street || '',
+      city: initialValues?.city || '',
+      state: initialValues?.state || '',
+      postalCode: initialValues?.postalCode || '',
+      country: initialValues?.country || 'Ethiopia',
+      type: initialValues?.type || 'SHIPPING',
+      isDefault: initialValues?.isDefault || false
+    }
+  });
+
+  const fields: Array<{ name: keyof Omit<AddressFormData, 'type' | 'isDefault'>; label: string; placeholder: string; wide?: boolean }> = [
+    { name: 'firstName', label: 'First Name *', placeholder: 'Enter first name' },
+    { name: 'lastName', label: 'Last Name *', placeholder: 'Enter last name' },
+    { name: 'phone', label: 'Phone *', placeholder: '+251 9XX XXX XXX' },
+    { name: 'street', label: 'Street Address *', placeholder: 'House number, street, kebele', wide: true },
+    { name: 'city', label: 'City *', placeholder: 'Enter city' },
+    { name: 'state', label: 'Region *', placeholder: 'Enter region' },
+    { name: 'postalCode', label: 'Postal Code', placeholder: 'Enter postal code' },
+    { name: 'country', label: 'Country *', placeholder: 'Enter country' }
+  ];
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {showTypeSelect && (
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-neutral-700 mb-2">
+              Address Type *
+            </label>
+            <select {...register('type')} className="input-field">
+              <option value="SHIPPING">Shipping</option>
+              <option value="BILLING">Billing</option>
+            </select>
+          </div>
+        )}
+        {fields.map((field) => (
+          <div key={field.name} className={field.wide ? 'md:col-span-2' : undefined}>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              {...register(field.name)}
+              className="input-field"
+              placeholder={field.placeholder}
+            />
+            {errors[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center mt-4">
+        <input
+          {...register('isDefault')}
+          type="checkbox"
+          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300 rounded"
+        />
+        <span className="ml-2 text-sm text-neutral-700">Set as default address</span>
+      </label>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" loading={isSubmitting}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AddressForm;
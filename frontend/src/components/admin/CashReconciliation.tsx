@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { formatDateTime, getErrorMessage } from '../../lib/utils';
+import type { AdminCashReconciliation, CourierCashSummary } from '../../types';
+
+const CashReconciliation: React.FC = () => {
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [summary, setSummary] = useState<AdminCashReconciliation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [date]);
+
+  const fetchSummary = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getCashReconciliation({ date });
+      setSummary(response.data.data || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReconcile = async (courier: CourierCashSummary) => {
+    const partnerId = courier.partner.id;
+    const amount = received[partnerId] ?? String(courier.collected);
+
+    if (amount === '' || Number(amount) < 0) {
+      toast.error('Enter the cash the courier handed in');
+      return;
+    }
+
+    setSavingId(partnerId);
+    try {
+      const response = await apiClient.admin.reconcileCash({
+        partnerId,
+        date,
+        receivedAmount: Number(amount),
+        notes: notes[partnerId]?.trim() || undefined,
+      });
+      toast.success(response.data.message || 'Cash reconciled');
+      fetchSummary();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-neutral-900 mb-1">Cash on Delivery</h2>
+          <p className="text-sm text-neutral-500">
+            Cash each courier collected on the day, checked against what the orders were due.
+          </p>
+        </div>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => e.target.value && setDate(e.target.value)}
+          className="input-field w-44"
+        />
+      </div>
+
+      {loading || !summary ? (
+        <div className="space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="loading-skeleton h-20 rounded-lg"></div>
+          ))}
+        </div>
+      ) : summary.couriers.length === 0 ? (
+        <p className="text-sm text-neutral-500">No cash was collected on this day.</p>
+      ) : (
+        <div className="divide-y divide-neutral-100">
+          {summary.couriers.map(courier => {
+            const { partner, reconciliation } = courier;
+            const difference = courier.collected - courier.expected;
+
+            return (
+              <div key={partner.id} className="py-4 text-sm space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      {partner.user.firstName} {partner.user.lastName}
+                    </p>
+                    <p className="text-neutral-500">
+                      {partner.vehicleType}{partner.user.phone && `, ${partner.user.phone}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-6 text-right">
+                    <div>
+                      <p className="text-xs text-neutral-500">Expected</p>
+                      <p className="font-semibold text-neutral-900">ETB {courier.expected.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-neutral-500">Collected</p>
+                      <p className={`font-semibold ${Math.abs(difference) < 0.005 ? 'text-neutral-900' : 'text-red-600'}`}>
+                        ETB {courier.collected.toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                <ul className="text-neutral-500">
+                  {courier.deliveries.map(delivery => (
+                    <li key={delivery.id}>
+                      Order {delivery.orderNumber}: ETB {delivery.collected.toLocaleString()} of {delivery.expected.toLocaleString()}
+                    </li>
+                  ))}
+                </ul>
+
+                {reconciliation ? (
+                  <p className="text-neutral-600">
+                    ETB {Number(reconciliation.receivedAmount).toLocaleString()} received
+                    {' '}{formatDateTime(reconciliation.createdAt)} by {reconciliation.reconciledBy.firstName} {reconciliation.reconciledBy.lastName}
+                    {reconciliation.notes && ` - ${reconciliation.notes}`}
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={received[partner.id] ?? String(courier.collected)}
+                      onChange={(e) => setReceived(prev => ({ ...prev, [partner.id]: e.target.value }))}
+                      className="input-field w-36"
+                      aria-label="Cash received"
+                    />
+                    <input
+                      value={notes[partner.id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [partner.id]: e.target.value }))}
+                      className="input-field flex-1 min-w-[12rem]"
+                      placeholder="Notes (e.g. reason for a shortfall)"
+                    />
+                    <Button
+                      size="sm"
+                      variant="success"
+                      loading={savingId === partner.id}
+                      disabled={savingId !== null}
+                      onClick={() => handleReconcile(courier)}
+                    >
+                      Reconcile
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashReconciliation;
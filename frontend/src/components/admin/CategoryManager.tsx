@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PlusIcon, PencilSquareIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { getErrorMessage } from '../../lib/utils';
+import type { AdminCategory } from '../../types';
+
+interface CategoryNode {
+  category: AdminCategory;
+  depth: number;
+}
+
+interface CategoryFormState {
+  id?: string;
+  name: string;
+  description: string;
+  image: string;
+  parentId: string;
+  isActive: boolean;
+}
+
+const emptyForm: CategoryFormState = {
+  name: '',
+  description: '',
+  image: '',
+  parentId: '',
+  isActive: true,
+};
+
+// Flatten the category list into depth-first order so it renders as an indented tree
+const buildTree = (categories: AdminCategory[]): CategoryNode[] => {
+  const byParent = new Map<string | null, AdminCategory[]>();
+  categories.forEach(category => {
+    const siblings = byParent.get(category.parentId) || [];
+    siblings.push(category);
+    byParent.set(category.parentId, siblings);
+  });
+
+  const nodes: CategoryNode[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (byParent.get(parentId) || []).forEach(category => {
+      nodes.push({ category, depth });
+      visit(category.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return nodes;
+};
+
+// Ids of a category and everything below it (not valid as its new parent)
+const getSubtreeIds = (categories: AdminCategory[], rootId: string): Set<string> => {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach(category => {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+const CategoryManager: React.FC = () => {
+  const [categories, setCategories] = useState<AdminCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<CategoryFormState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const tree = useMemo(() => buildTree(categories), [categories]);
+
+  const parentOptions = useMemo(() => {
+    const excluded = form?.id ? getSubtreeIds(categories, form.id) : new Set<string>();
+    return tree.filter(node => !excluded.has(node.category.id));
+  }, [tree, categories, form?.id]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getCategories();
+      setCategories(response.data.data || []);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEdit = (category: AdminCategory) => {
+    setForm({
+      id: category.id,
+      name: category.name,
+      description: category.description || '',
+      image: category.image || '',
+      parentId: category.parentId || '',
+      isActive: category.isActive,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (!form.name.trim()) {
+      toast.error('Category name is required');
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      image: form.image.trim() || null,
+      parentId: form.parentId || null,
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      const response = form.id
+        ? await apiClient.admin.updateCategory(form.id, data)
+        : await apiClient.admin.createCategory(data);
+      toast.success(response.data.message || 'Category saved');
+      setForm(null);
+      fetchCategories();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (category: AdminCategory) => {
+    try {
+      await apiClient.admin.updateCategory(category.id, { isActive: !category.isActive });
+      setCategories(prev => prev.map(c => (c.id === category.id ? { ...c, isActive: !c.isActive } : c)));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async (category: AdminCategory) => {
+    if (!window.confirm(`Delete the "${category.name}" category?`)) {
+      return;
+    }
+
+    setDeletingId(category.id);
+    try {
+      await apiClient.admin.deleteCategory(category.id);
+      toast.success('Category deleted');
+      setCategories(prev => prev.filter(c => c.id !== category.id));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Tree */}
+      <div className="card lg:col-span-2">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-neutral-900">Categories</h2>
+          <Button size="sm" leftIcon={<PlusIcon className="h-4 w-4" />} onClick={() => setForm(emptyForm)}>
+            New Category
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="loading-skeleton h-10 rounded-lg"></div>
+            ))}
+          </div>
+        ) : tree.length === 0 ? (
+          <p className="text-sm text-neutral-500">No categories yet.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100">
+            {tree.map(({ category, depth }) => (
+              <li
+                key={category.id}
+                className="flex items-center justify-between py-3"
+                style={{ paddingLeft: `${depth * 1.5}rem` }}
+              >
+                <div>
+                  <p className={`font-medium ${category.isActive ? 'text-neutral-900' : 'text-neutral-400 line-through'}`}>
+                    {category.name}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {category._count.products} products
+                    {category.children.length > 0 && ` - ${category.children.length} subcategories`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleToggleActive(category)}
+                    className="px-2 py-1 text-xs text-neutral-600 hover:text-neutral-900"
+                  >
+                    {category.isActive ? 'Hide' : 'Show'}
+                  </button>
+                  <button
+                    onClick={() => setForm({ ...emptyForm, parentId: category.id })}
+                    className="p-1 text-neutral-500 hover:text-primary-600"
+                    aria-label={`Add subcategory to ${category.name}`}
+                  >
+                    <PlusIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => openEdit(category)}
+                    className="p-1 text-neutral-500 hover:text-primary-600"
+                    aria-label={`Edit ${category.name}`}
+                  >
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(category)}
+                    disabled={deletingId === category.id}
+                    className="p-1 text-neutral-500 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Editor */}
+      <div className="card">
+        {!form ? (
+          <p className="text-sm text-neutral-500">
+            Pick a category to edit it, or create a new one. Hidden categories are not offered to sellers or buyers.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h2 className="text-lg font-semibold text-neutral-900">
+              {form.id ? 'Edit Category' : 'New Category'}
+            </h2>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Name *</label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="input-field"
+                placeholder="e.g. Traditional Clothing"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Parent</label>
+              <select
+                value={form.parentId}
+                onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+                className="input-field"
+              >
+                <option value="">None (top level)</option>
+                {parentOptions.map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {'\u00a0'.repeat(depth * 3)}{category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Description</label>
+              <textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Image URL</label>
+              <input
+                value={form.image}
+                onChange={(e) => setForm({ ...form, image: e.target.value })}
+                className="input-field"
+                placeholder="https://..."
+              />
+            </div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                className="text-primary-600 focus:ring-primary-500"
+              />
+              <span className="ml-2 text-sm text-neutral-700">Visible to sellers and buyers</span>
+            </label>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="secondary" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={saving}>
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,333 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowPathIcon, ArrowTopRightOnSquareIcon, DocumentIcon, EyeIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import Pagination from '../ui/Pagination';
+import { apiClient } from '../../lib/api';
+import { formatDate, formatDateTime, formatEnumLabel, getErrorMessage, isImageFile } from '../../lib/utils';
+import { KYCStatusValues } from '../../types';
+import type {
+  KycAccessHistory,
+  KycApplication,
+  KycDocumentField,
+  KycDocumentUrls,
+  KYCStatus,
+  Pagination as PaginationInfo,
+} from '../../types';
+
+const statusStyles: Record<KYCStatus, string> = {
+  PENDING: 'bg-neutral-100 text-neutral-800',
+  UNDER_REVIEW: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+};
+
+const documentFields: Array<{ key: KycDocumentField; label: string }> = [
+  { key: 'idCard', label: 'ID Card' },
+  { key: 'selfieWithId', label: 'Selfie with ID' },
+  { key: 'proofOfAddress', label: 'Proof of Address' },
+];
+
+const DocumentPreview: React.FC<{ label: string; url: string | null }> = ({ label, url }) => (
+  <div>
+    <p className="text-sm font-medium text-neutral-700 mb-2">{label}</p>
+    {!url ? (
+      <div className="h-40 rounded-lg border border-dashed border-neutral-300 flex items-center justify-center text-sm text-neutral-400">
+        Not available
+      </div>
+    ) : (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="group block relative">
+        {isImageFile(url.split('?')[0]) ? (
+          <img src={url} alt={label} className="h-40 w-full rounded-lg object-cover border border-neutral-200" />
+        ) : (
+          <div className="h-40 rounded-lg border border-neutral-200 flex flex-col items-center justify-center text-neutral-500">
+            <DocumentIcon className="h-10 w-10 mb-2" />
+            <span className="text-sm">Open document</span>
+          </div>
+        )}
+        <ArrowTopRightOnSquareIcon className="absolute top-2 right-2 h-5 w-5 text-white drop-shadow opacity-0 group-hover:opacity-100" />
+      </a>
+    )}
+  </div>
+);
+
+const KycReviewQueue: React.FC = () => {
+  const [applications, setApplications] = useState<KycApplication[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<KYCStatus | ''>('UNDER_REVIEW');
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<KycApplication | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [reviewing, setReviewing] = useState<'APPROVED' | 'REJECTED' | null>(null);
+  const [documents, setDocuments] = useState<KycDocumentUrls | null>(null);
+  const [accessHistory, setAccessHistory] = useState<KycAccessHistory | null>(null);
+  const [loadingDocuments, setLoadingDocuments] = useState(false);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [status, page]);
+
+  // Signed URLs are requested per view (and logged), never cached across selections
+  useEffect(() => {
+    setDocuments(null);
+    setAccessHistory(null);
+    if (selected) {
+      fetchDocuments(selected.id);
+    }
+  }, [selected?.id]);
+
+  const fetchDocuments = async (id: string) => {
+    try {
+      setLoadingDocuments(true);
+      const documentsResponse = await apiClient.admin.getKYCDocuments(id);
+      setDocuments(documentsResponse.data.data || null);
+      const historyResponse = await apiClient.admin.getKYCAccessLog(id);
+      setAccessHistory(historyResponse.data.data || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoadingDocuments(false);
+    }
+  };
+
+  const fetchApplications = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getKYCApplications({
+        page,
+        limit: 10,
+        status: status || undefined,
+      });
+      const data = response.data.data;
+      setApplications(data?.applications || []);
+      setPagination(data?.pagination || null);
+      setSelected(data?.applications[0] || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = (application: KycApplication) => {
+    setSelected(application);
+    setRejectionReason('');
+  };
+
+  const handleReview = async (decision: 'APPROVED' | 'REJECTED') => {
+    if (!selected) return;
+
+    if (decision === 'REJECTED' && !rejectionReason.trim()) {
+      toast.error('Please give the seller a reason for the rejection');
+      return;
+    }
+
+    setReviewing(decision);
+    try {
+      const response = await apiClient.admin.reviewKYC(selected.id, {
+        status: decision,
+        rejectionReason: decision === 'REJECTED' ? rejectionReason.trim() : undefined,
+      });
+      toast.success(response.data.message || 'Application reviewed');
+      setRejectionReason('');
+      fetchApplications();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Queue */}
+      <div className="card lg:col-span-1">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-neutral-900">Applications</h2>
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as KYCStatus | '');
+              setPage(1);
+            }}
+            className="input-field w-auto"
+          >
+            <option value="">All</option>
+            {KYCStatusValues.map(value => (
+              <option key={value} value={value}>{formatEnumLabel(value)}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="loading-skeleton h-16 rounded-lg"></div>
+            ))}
+          </div>
+        ) : applications.length === 0 ? (
+          <p className="text-sm text-neutral-500">The queue is empty.</p>
+        ) : (
+          <div className="space-y-2">
+            {applications.map(application => (
+              <button
+                key={application.id}
+                onClick={() => handleSelect(application)}
+                className={`w-full text-left p-3 rounded-lg border ${
+                  selected?.id === application.id
+                    ? 'border-primary-500 bg-primary-50'
+                    : 'border-neutral-200 hover:border-primary-300'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-neutral-900">
+                    {application.user.storeName || `${application.user.firstName} ${application.user.lastName}`}
+                  </p>
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[application.status]}`}>
+                    {formatEnumLabel(application.status)}
+                  </span>
+                </div>
+                <p className="text-xs text-neutral-500 mt-1">Submitted {formatDateTime(application.submittedAt)}</p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {pagination && (
+          <Pagination page={pagination.page} totalPages={pagination.totalPages} onPageChange={setPage} />
+        )}
+      </div>
+
+      {/* Review panel */}
+      <div className="card lg:col-span-2">
+        {!selected ? (
+          <p className="text-sm text-neutral-500">Select an application to review it.</p>
+        ) : (
+          <>
+            <div className="flex items-start justify-between mb-6">
+              <div>
+                <h2 className="text-lg font-semibold text-neutral-900">
+                  {selected.user.firstName} {selected.user.lastName}
+                </h2>
+                <p className="text-sm text-neutral-600">{selected.user.email}</p>
+                {selected.user.storeName && (
+                  <p className="text-sm text-neutral-600">Store: {selected.user.storeName}</p>
+                )}
+                <p className="text-xs text-neutral-500 mt-1">Member since {formatDate(selected.user.createdAt)}</p>
+              </div>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[selected.status]}`}>
+                {formatEnumLabel(selected.status)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-xs text-neutral-500">
+                {documents
+                  ? `Private links expire at ${new Date(documents.expiresAt).toLocaleTimeString()}`
+                  : 'Loading private document links...'}
+              </p>
+              <button
+                onClick={() => fetchDocuments(selected.id)}
+                disabled={loadingDocuments}
+                className="flex items-center text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-1" />
+                Reload documents
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              {documentFields.map(field =>
+                loadingDocuments || !documents ? (
+                  <div key={field.key} className="loading-skeleton h-48 rounded-lg"></div>
+                ) : (
+                  <DocumentPreview key={field.key} label={field.label} url={documents[field.key]} />
+                )
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6 text-sm">
+              <div>
+                <p className="font-medium text-neutral-700">Date of Birth</p>
+                <p className="text-neutral-900">
+                  {selected.personalInfo?.dateOfBirth ? formatDate(selected.personalInfo.dateOfBirth) : '-'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium text-neutral-700">Address</p>
+                <p className="text-neutral-900">{selected.personalInfo?.address || '-'}</p>
+              </div>
+            </div>
+
+            {selected.status === 'REJECTED' && selected.rejectionReason && (
+              <div className="mb-6 p-3 rounded-lg bg-red-50 text-sm text-red-800">
+                Rejected{selected.reviewedAt && ` on ${formatDate(selected.reviewedAt)}`}
+                {selected.reviewer && ` by ${selected.reviewer.firstName} ${selected.reviewer.lastName}`}: {selected.rejectionReason}
+              </div>
+            )}
+
+            {selected.status !== 'APPROVED' && (
+              <div className="border-t border-neutral-200 pt-6">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  Rejection reason
+                </label>
+                <textarea
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={3}
+                  className="input-field mb-4"
+                  placeholder="Shown to the seller so they can fix and resubmit their documents"
+                />
+                <div className="flex justify-end gap-3">
+                  <Button
+                    variant="destructive"
+                    loading={reviewing === 'REJECTED'}
+                    disabled={reviewing !== null || !documents}
+                    onClick={() => handleReview('REJECTED')}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    variant="success"
+                    loading={reviewing === 'APPROVED'}
+                    disabled={reviewing !== null || !documents}
+                    onClick={() => handleReview('APPROVED')}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Access log */}
+            <div className="border-t border-neutral-200 pt-6 mt-6">
+              <h3 className="flex items-center text-sm font-semibold text-neutral-900 mb-3">
+                <EyeIcon className="h-4 w-4 mr-2" />
+                Document access log
+              </h3>
+              {!accessHistory ? (
+                <div className="loading-skeleton h-10 rounded-lg"></div>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {accessHistory.accessLogs.map(log => (
+                    <li key={log.id} className="flex justify-between text-neutral-700">
+                      <span>
+                        {log.admin.firstName} {log.admin.lastName}
+                        {accessHistory.reviewer?.id === log.admin.id && (
+                          <span className="ml-2 text-xs text-primary-600">reviewer</span>
+                        )}
+                      </span>
+                      <span className="text-neutral-500">{formatDateTime(log.accessedAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KycReviewQueue;
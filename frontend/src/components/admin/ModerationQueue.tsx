@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import Pagination from '../ui/Pagination';
+import MessageContent from '../chat/MessageContent';
+import { apiClient } from '../../lib/api';
+import { formatDateTime, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { ReportStatusValues } from '../../types';
+import type { ModerationReport, Pagination as PaginationInfo, ReportAction, ReportStatus } from '../../types';
+
+const statusStyles: Record<ReportStatus, string> = {
+  OPEN: 'bg-yellow-100 text-yellow-800',
+  WARNED: 'bg-orange-100 text-orange-800',
+  SUSPENDED: 'bg-red-100 text-red-800',
+  DISMISSED: 'bg-neutral-100 text-neutral-800',
+};
+
+const ModerationQueue: React.FC = () => {
+  const [reports, setReports] = useState<ModerationReport[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<ReportStatus>('OPEN');
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<ModerationReport | null>(null);
+  const [note, setNote] = useState('');
+  const [resolving, setResolving] = useState<ReportAction | null>(null);
+
+  useEffect(() => {
+    fetchReports();
+  }, [status, page]);
+
+  const fetchReports = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getReports({ page, limit: 10, status });
+      const data = response.data.data;
+      setReports(data?.reports || []);
+      setPagination(data?.pagination || null);
+      setSelected(data?.reports[0] || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = (report: ModerationReport) => {
+    setSelected(report);
+    setNote('');
+  };
+
+  const handleResolve = async (action: ReportAction) => {
+    if (!selected) return;
+
+    const { reportedUser } = selected;
+    if (action === 'WARN' && !note.trim()) {
+      toast.error('Write the warning the user will see');
+      return;
+    }
+    if (action === 'SUSPEND' && !window.confirm(`Suspend ${reportedUser.firstName} ${reportedUser.lastName}? They will lose access to their account.`)) {
+      return;
+    }
+
+    setResolving(action);
+    try {
+      const response = await apiClient.admin.resolveReport(selected.id, {
+        action,
+        note: note.trim() || undefined,
+      });
+      toast.success(response.data.message || 'Report resolved');
+      setNote('');
+      fetchReports();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Queue */}
+      <div className="card lg:col-span-1">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-neutral-900">Reports</h2>
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as ReportStatus);
+              setPage(1);
+            }}
+            className="input-field w-auto"
+          >
+            {ReportStatusValues.map(value => (
+              <option key={value} value={value}>{formatEnumLabel(value)}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="loading-skeleton h-16 rounded-lg"></div>
+            ))}
+          </div>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-neutral-500">The queue is empty.</p>
+        ) : (
+          <div className="space-y-2">
+            {reports.map(report => (
+              <button
+                key={report.id}
+                onClick={() => handleSelect(report)}
+                className={`w-full text-left p-3 rounded-lg border ${
+                  selected?.id === report.id
+                    ? 'border-primary-500 bg-primary-50'
+                    : 'border-neutral-200 hover:border-primary-300'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-neutral-900">
+                    {report.reportedUser.firstName} {report.reportedUser.lastName}
+                  </p>
+                  <span className="text-xs font-medium text-red-700">{formatEnumLabel(report.category)}</span>
+                </div>
+                <p className="text-xs text-neutral-500 mt-1">
+                  {report.messageId ? 'Message' : 'User'} reported {formatDateTime(report.createdAt)}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {pagination && (
+          <Pagination page={pagination.page} totalPages={pagination.totalPages} onPageChange={setPage} />
+        )}
+      </div>
+
+      {/* Review panel */}
+      <div className="card lg:col-span-2">
+        {!selected ? (
+          <p className="text-sm text-neutral-500">Select a report to review it.</p>
+        ) : (
+          <>
+            <div className="flex items-start justify-between mb-6">
+              <div>
+                <h2 className="text-lg font-semibold text-neutral-900">
+                  {selected.reportedUser.firstName} {selected.reportedUser.lastName}
+                </h2>
+                <p className="text-sm text-neutral-600">{selected.reportedUser.email}</p>
+                {selected.reportedUser.storeName && (
+                  <p className="text-sm text-neutral-600">Store: {selected.reportedUser.storeName}</p>
+                )}
+                <p className="text-xs text-neutral-500 mt-1">
+                  {formatEnumLabel(selected.reportedUser.role)} · {formatEnumLabel(selected.reportedUser.status)}
+                  {' · '}{selected.reportedUser.reportCount} report{selected.reportedUser.reportCount === 1 ? '' : 's'}
+                  {' · '}{selected.reportedUser.warningCount} warning{selected.reportedUser.warningCount === 1 ? '' : 's'}
+                </p>
+              </div>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[selected.status]}`}>
+                {formatEnumLabel(selected.status)}
+              </span>
+            </div>
+
+            <div className="mb-6 text-sm">
+              <p className="font-medium text-neutral-700">
+                {formatEnumLabel(selected.category)}, reported by {selected.reporter.firstName} {selected.reporter.lastName}
+              </p>
+              {selected.details && <p className="text-neutral-900 mt-1 whitespace-pre-wrap">{selected.details}</p>}
+            </div>
+
+            {/* The reported message with the conversation around it */}
+            {selected.messageId && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-neutral-900 mb-3">Conversation</h3>
+                {selected.context.length === 0 ? (
+                  <p className="text-sm text-neutral-500">The message is no longer available.</p>
+                ) : (
+                  <div className="space-y-3 rounded-lg bg-neutral-50 p-4 max-h-96 overflow-y-auto">
+                    {selected.context.map(message => {
+                      const fromReporter = message.sender.id === selected.reporter.id;
+                      const isReported = message.id === selected.messageId;
+                      return (
+                        <div key={message.id} className={`flex flex-col ${fromReporter ? 'items-end' : 'items-start'}`}>
+                          <p className="text-xs text-neutral-500 mb-1">
+                            {message.sender.firstName} {message.sender.lastName} · {formatDateTime(message.createdAt)}
+                          </p>
+                          <div className={`max-w-[75%] ${isReported ? 'ring-2 ring-red-500 rounded-lg' : ''}`}>
+                            <MessageContent message={message} isOwn={fromReporter} />
+                          </div>
+                          {isReported && (
+                            <span className="flex items-center text-xs text-red-600 mt-1">
+                              <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                              Reported message
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {selected.status === 'OPEN' ? (
+              <div className="border-t border-neutral-200 pt-6">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  Note
+                </label>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  className="input-field mb-4"
+                  placeholder="Required for a warning, which the user receives as a notification"
+                />
+                <div className="flex justify-end gap-3">
+                  <Button
+                    variant="ghost"
+                    loading={resolving === 'DISMISS'}
+                    disabled={resolving !== null}
+                    onClick={() => handleResolve('DISMISS')}
+                  >
+                    Dismiss
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    loading={resolving === 'WARN'}
+                    disabled={resolving !== null}
+                    onClick={() => handleResolve('WARN')}
+                  >
+                    Warn
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    loading={resolving === 'SUSPEND'}
+                    disabled={resolving !== null || selected.reportedUser.status === 'SUSPENDED'}
+                    onClick={() => handleResolve('SUSPEND')}
+                  >
+                    Suspend
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="p-3 rounded-lg bg-neutral-50 text-sm text-neutral-700">
+                {formatEnumLabel(selected.status)}
+                {selected.resolvedAt && ` on ${formatDateTime(selected.resolvedAt)}`}
+                {selected.resolvedBy && ` by ${selected.resolvedBy.firstName} ${selected.resolvedBy.lastName}`}
+                {selected.resolutionNote && `: ${selected.resolutionNote}`}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModerationQueue;
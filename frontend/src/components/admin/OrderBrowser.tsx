@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { MagnifyingGlassIcon, ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import Pagination from '../ui/Pagination';
+import OrderHistory from '../orders/OrderHistory';
+import { apiClient } from '../../lib/api';
+import { getDeliveryOptionLabel, orderStatusStyles, paymentStatusStyles } from '../../lib/orders';
+import { formatDateTime, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { OrderStatusValues, PaymentStatusValues } from '../../types';
+import type { AdminOrder, OrderStatus, Pagination as PaginationInfo, PaymentStatus } from '../../types';
+
+interface OrderFilters {
+  page: number;
+  search: string;
+  status: OrderStatus | '';
+  paymentStatus: PaymentStatus | '';
+  dateFrom: string;
+  dateTo: string;
+}
+
+const initialFilters: OrderFilters = {
+  page: 1,
+  search: '',
+  status: '',
+  paymentStatus: '',
+  dateFrom: '',
+  dateTo: '',
+};
+
+const OrderBrowser: React.FC = () => {
+  const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<OrderFilters>(initialFilters);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [filters]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getOrders({
+        page: filters.page,
+        limit: 20,
+        search: filters.search || undefined,
+        status: filters.status || undefined,
+        paymentStatus: filters.paymentStatus || undefined,
+        dateFrom: filters.dateFrom || undefined,
+        // Include the whole end day
+        dateTo: filters.dateTo ? `${filters.dateTo}T23:59:59.999` : undefined,
+      });
+      setOrders(response.data.data?.orders || []);
+      setPagination(response.data.data?.pagination || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilterChange = <K extends keyof OrderFilters>(key: K, value: OrderFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleFilterChange('search', searchInput.trim());
+  };
+
+  const handleReset = () => {
+    setSearchInput('');
+    setFilters(initialFilters);
+  };
+
+  return (
+    <div className="card">
+      <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-neutral-400" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="input-field pl-10"
+            placeholder="Search by order number, buyer email or store"
+          />
+        </div>
+        <Button type="submit" variant="secondary">Search</Button>
+      </form>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+        <select
+          value={filters.status}
+          onChange={(e) => handleFilterChange('status', e.target.value as OrderStatus | '')}
+          className="input-field"
+        >
+          <option value="">All order statuses</option>
+          {OrderStatusValues.map(status => (
+            <option key={status} value={status}>{formatEnumLabel(status)}</option>
+          ))}
+        </select>
+        <select
+          value={filters.paymentStatus}
+          onChange={(e) => handleFilterChange('paymentStatus', e.target.value as PaymentStatus | '')}
+          className="input-field"
+        >
+          <option value="">All payment statuses</option>
+          {PaymentStatusValues.map(status => (
+            <option key={status} value={status}>{formatEnumLabel(status)}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.dateFrom}
+          onChange={(e) => handleFilterChange('dateFrom', e.target.value)}
+          className="input-field"
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filters.dateTo}
+          onChange={(e) => handleFilterChange('dateTo', e.target.value)}
+          className="input-field"
+          aria-label="To date"
+        />
+        <Button variant="ghost" onClick={handleReset}>Clear filters</Button>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="loading-skeleton h-12 rounded-lg"></div>
+          ))}
+        </div>
+      ) : orders.length === 0 ? (
+        <p className="text-sm text-neutral-500">No orders match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                <th className="py-3 pr-4 font-medium">Order</th>
+                <th className="py-3 pr-4 font-medium">Buyer</th>
+                <th className="py-3 pr-4 font-medium">Seller</th>
+                <th className="py-3 pr-4 font-medium">Total</th>
+                <th className="py-3 pr-4 font-medium">Status</th>
+                <th className="py-3 pr-4 font-medium">Payment</th>
+                <th className="py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map(order => (
+                <React.Fragment key={order.id}>
+                  <tr className="border-b border-neutral-100">
+                    <td className="py-3 pr-4">
+                      <p className="font-medium text-neutral-900">#{order.orderNumber}</p>
+                      <p className="text-neutral-500">{formatDateTime(order.createdAt)}</p>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <p className="text-neutral-900">{order.buyer.firstName} {order.buyer.lastName}</p>
+                      <p className="text-neutral-500">{order.buyer.email}</p>
+                    </td>
+                    <td className="py-3 pr-4 text-neutral-700">
+                      {order.seller.storeName || `${order.seller.firstName} ${order.seller.lastName}`}
+                    </td>
+                    <td className="py-3 pr-4 font-medium text-neutral-900">
+                      ETB {Number(order.total).toLocaleString()}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${orderStatusStyles[order.status]}`}>
+                        {formatEnumLabel(order.status)}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${paymentStatusStyles[order.paymentStatus]}`}>
+                        {formatEnumLabel(order.paymentStatus)}
+                      </span>
+                    </td>
+                    <td className="py-3 text-right">
+                      <button
+                        onClick={() => setExpandedId(expandedId === order.id ? null : order.id)}
+                        className="p-1 text-neutral-500 hover:text-neutral-700"
+                        aria-label="Toggle order details"
+                      >
+                        {expandedId === order.id ? <ChevronUpIcon className="h-5 w-5" /> : <ChevronDownIcon className="h-5 w-5" />}
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === order.id && (
+                    <tr className="bg-neutral-50 border-b border-neutral-100">
+                      <td colSpan={7} className="px-4 py-3">
+                        <p className="text-neutral-600 mb-2">
+                          {getDeliveryOptionLabel(order.deliveryOption)}
+                          {order.trackingNumber && ` - tracking ${order.trackingNumber}`}
+                        </p>
+                        <ul className="space-y-1">
+                          {order.items.map((item, index) => (
+                            <li key={index} className="flex justify-between text-neutral-700">
+                              <span>{item.product.title} x {item.quantity}</span>
+                              <span>ETB {(Number(item.price) * item.quantity).toLocaleString()}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        <h3 className="font-medium text-neutral-900 mt-4 mb-1">History</h3>
+                        <OrderHistory events={order.events} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pagination && (
+        <Pagination
+          page={pagination.page}
+          totalPages={pagination.totalPages}
+          onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default OrderBrowser;
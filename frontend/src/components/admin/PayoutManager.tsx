@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { formatDateTime, getErrorMessage } from '../../lib/utils';
+import type { AdminPayouts } from '../../types';
+
+const PayoutManager: React.FC = () => {
+  const [payouts, setPayouts] = useState<AdminPayouts | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [references, setReferences] = useState<Record<string, string>>({});
+  const [payingId, setPayingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPayouts();
+  }, []);
+
+  const fetchPayouts = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getPayouts();
+      setPayouts(response.data.data || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePayout = async (sellerId: string, amount: number) => {
+    if (!window.confirm(`Record a payout of ETB ${amount.toLocaleString()}? Make the transfer first.`)) {
+      return;
+    }
+
+    setPayingId(sellerId);
+    try {
+      await apiClient.admin.createPayout({
+        sellerId,
+        reference: references[sellerId]?.trim() || undefined,
+      });
+      toast.success('Payout recorded');
+      fetchPayouts();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setPayingId(null);
+    }
+  };
+
+  if (loading || !payouts) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="card loading-skeleton h-16"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="card">
+        <h2 className="text-lg font-semibold text-neutral-900 mb-1">Released Funds</h2>
+        <p className="text-sm text-neutral-500 mb-4">
+          Delivered orders past their dispute window. Transfer the amount to the seller, then record it here.
+        </p>
+
+        {payouts.pending.length === 0 ? (
+          <p className="text-sm text-neutral-500">No sellers are waiting for a payout.</p>
+        ) : (
+          <div className="divide-y divide-neutral-100">
+            {payouts.pending.map(({ seller, amount, orderCount }) => (
+              <div key={seller.id} className="flex flex-wrap items-center gap-4 py-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="font-medium text-neutral-900">
+                    {seller.storeName || `${seller.firstName} ${seller.lastName}`}
+                  </p>
+                  <p className="text-sm text-neutral-500">{seller.email}</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-neutral-900">ETB {amount.toLocaleString()}</p>
+                  <p className="text-xs text-neutral-500">{orderCount} orders</p>
+                </div>
+                <input
+                  value={references[seller.id] || ''}
+                  onChange={(e) => setReferences(prev => ({ ...prev, [seller.id]: e.target.value }))}
+                  className="input-field w-48"
+                  placeholder="Transfer reference"
+                />
+                <Button
+                  size="sm"
+                  variant="success"
+                  loading={payingId === seller.id}
+                  onClick={() => handlePayout(seller.id, amount)}
+                >
+                  Mark paid
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="card">
+        <h2 className="text-lg font-semibold text-neutral-900 mb-4">Recent Payouts</h2>
+        {payouts.recentPayouts.length === 0 ? (
+          <p className="text-sm text-neutral-500">No payouts recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                  <th className="py-3 pr-4 font-medium">Seller</th>
+                  <th className="py-3 pr-4 font-medium">Amount</th>
+                  <th className="py-3 pr-4 font-medium">Orders</th>
+                  <th className="py-3 pr-4 font-medium">Reference</th>
+                  <th className="py-3 pr-4 font-medium">Recorded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payouts.recentPayouts.map(payout => (
+                  <tr key={payout.id} className="border-b border-neutral-100">
+                    <td className="py-3 pr-4 text-neutral-900">
+                      {payout.seller.storeName || `${payout.seller.firstName} ${payout.seller.lastName}`}
+                    </td>
+                    <td className="py-3 pr-4 font-medium text-neutral-900">
+                      ETB {Number(payout.amount).toLocaleString()}
+                    </td>
+                    <td className="py-3 pr-4 text-neutral-700">{payout._count.escrowTransactions}</td>
+                    <td className="py-3 pr-4 text-neutral-700">{payout.reference || '-'}</td>
+                    <td className="py-3 pr-4 text-neutral-500">
+                      {formatDateTime(payout.createdAt)} by {payout.paidBy.firstName} {payout.paidBy.lastName}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayoutManager;
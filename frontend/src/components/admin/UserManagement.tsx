@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import Pagination from '../ui/Pagination';
+import { apiClient } from '../../lib/api';
+import { formatDate, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { UserRoleValues, UserStatusValues } from '../../types';
+import type { AdminUser, Pagination as PaginationInfo, UserRole, UserStatus } from '../../types';
+
+const statusStyles: Record<UserStatus, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  SUSPENDED: 'bg-red-100 text-red-800',
+  PENDING_VERIFICATION: 'bg-yellow-100 text-yellow-800',
+};
+
+const UserManagement: React.FC = () => {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<{ page: number; search: string; role: UserRole | ''; status: UserStatus | '' }>({
+    page: 1,
+    search: '',
+    role: '',
+    status: '',
+  });
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [filters]);
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.admin.getUsers({
+        page: filters.page,
+        limit: 20,
+        search: filters.search || undefined,
+        role: filters.role || undefined,
+        status: filters.status || undefined,
+      });
+      setUsers(response.data.data?.users || []);
+      setPagination(response.data.data?.pagination || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(prev => ({ ...prev, page: 1, search: searchInput.trim() }));
+  };
+
+  const handleToggleStatus = async (user: AdminUser) => {
+    const status = user.status === 'SUSPENDED' ? 'ACTIVE' : 'SUSPENDED';
+    if (status === 'SUSPENDED' && !window.confirm(`Suspend ${user.firstName} ${user.lastName}? They will lose access to their account.`)) {
+      return;
+    }
+
+    setUpdatingId(user.id);
+    try {
+      const response = await apiClient.admin.updateUserStatus(user.id, { status });
+      setUsers(prev => prev.map(u => (u.id === user.id ? { ...u, status: response.data.data!.status } : u)));
+      toast.success(response.data.message || 'User updated');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-4 mb-6">
+        <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-neutral-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="input-field pl-10"
+              placeholder="Search by name, email or store"
+            />
+          </div>
+          <Button type="submit" variant="secondary">Search</Button>
+        </form>
+
+        <div className="flex gap-2">
+          <select
+            value={filters.role}
+            onChange={(e) => setFilters(prev => ({ ...prev, page: 1, role: e.target.value as UserRole | '' }))}
+            className="input-field"
+          >
+            <option value="">All roles</option>
+            {UserRoleValues.map(role => (
+              <option key={role} value={role}>{formatEnumLabel(role)}</option>
+            ))}
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({ ...prev, page: 1, status: e.target.value as UserStatus | '' }))}
+            className="input-field"
+          >
+            <option value="">All statuses</option>
+            {UserStatusValues.map(status => (
+              <option key={status} value={status}>{formatEnumLabel(status)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="loading-skeleton h-12 rounded-lg"></div>
+          ))}
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-neutral-500">No users match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                <th className="py-3 pr-4 font-medium">User</th>
+                <th className="py-3 pr-4 font-medium">Role</th>
+                <th className="py-3 pr-4 font-medium">Status</th>
+                <th className="py-3 pr-4 font-medium">KYC</th>
+                <th className="py-3 pr-4 font-medium">Joined</th>
+                <th className="py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map(user => (
+                <tr key={user.id} className="border-b border-neutral-100">
+                  <td className="py-3 pr-4">
+                    <p className="font-medium text-neutral-900">{user.firstName} {user.lastName}</p>
+                    <p className="text-neutral-500">{user.email}</p>
+                    {user.storeName && <p className="text-neutral-500">{user.storeName}</p>}
+                  </td>
+                  <td className="py-3 pr-4 text-neutral-700">{formatEnumLabel(user.role)}</td>
+                  <td className="py-3 pr-4">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[user.status]}`}>
+                      {formatEnumLabel(user.status)}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-4 text-neutral-700">
+                    {user.role === 'SELLER' ? formatEnumLabel(user.kycStatus) : '-'}
+                  </td>
+                  <td className="py-3 pr-4 text-neutral-700">{formatDate(user.createdAt)}</td>
+                  <td className="py-3 text-right">
+                    {user.role !== 'ADMIN' && (
+                      <Button
+                        size="sm"
+                        variant={user.status === 'SUSPENDED' ? 'success' : 'destructive'}
+                        loading={updatingId === user.id}
+                        onClick={() => handleToggleStatus(user)}
+                      >
+                        {user.status === 'SUSPENDED' ? 'Activate' : 'Suspend'}
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pagination && (
+        <Pagination
+          page={pagination.page}
+          totalPages={pagination.totalPages}
+          onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -39,6 +39,8 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
           return <Navigate to="/seller" replace />;
         case 'ADMIN':
           return <Navigate to="/admin" replace />;
+        case 'DELIVERY_PARTNER':
+          return <Navigate to="/delivery" replace />;
         default:
           return <Navigate to="/dashboard" replace />;
       }
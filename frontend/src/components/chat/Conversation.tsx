@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import {
+  ArrowLeftIcon,
+  FlagIcon,
+  NoSymbolIcon,
+  PaperAirplaneIcon,
+  PhotoIcon,
+  ShoppingBagIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '../ui/Button';
+import MessageContent from './MessageContent';
+import ReportForm from './ReportForm';
+import { useAuth } from '../../contexts/AuthContext';
+import { useChat } from '../../contexts/ChatContext';
+import { apiClient } from '../../lib/api';
+import { TYPING_TIMEOUT_MS } from '../../lib/chats';
+import { formatDate, formatEnumLabel, getErrorMessage, getRelativeTime, throttle } from '../../lib/utils';
+import type { ChatMessage, ChatMessageInput, ChatOrderOption, ChatProduct, ChatSummary } from '../../types';
+
+// Typing events are sent at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
+
+interface ConversationProps {
+  chat: ChatSummary;
+  onBack: () => void;
+  onChatChange: (chat: ChatSummary) => void;
+}
+
+const Conversation: React.FC<ConversationProps> = ({ chat, onBack, onChatChange }) => {
+  const { user } = useAuth();
+  const { subscribe, refreshUnreadCount } = useChat();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [isTyping, setIsTyping] = useState(false);
+  const [orders, setOrders] = useState<ChatOrderOption[] | null>(null);
+  const [showOrders, setShowOrders] = useState(false);
+  // The report form, for the user or one of their messages
+  const [reporting, setReporting] = useState<{ message?: ChatMessage } | null>(null);
+  const [blocking, setBlocking] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const typingTimer = useRef<number | undefined>(undefined);
+
+  const sendTyping = useMemo(
+    () => throttle(() => apiClient.chats.sendTyping(chat.id, true).catch(() => {}), TYPING_THROTTLE_MS),
+    [chat.id]
+  );
+
+  useEffect(() => {
+    fetchMessages();
+    setOrders(null);
+    setShowOrders(false);
+    setReporting(null);
+  }, [chat.id]);
+
+  useEffect(() => {
+    return subscribe(event => {
+      if (event.data.chatId !== chat.id) {
+        return;
+      }
+
+      if (event.type === 'message') {
+        addMessage(event.data);
+        if (event.data.sender.id !== user?.id) {
+          setIsTyping(false);
+          // The conversation is open, so the new message is read straight away
+          apiClient.chats.markRead(chat.id).then(() => refreshUnreadCount()).catch(() => {});
+        }
+      } else if (event.type === 'typing') {
+        window.clearTimeout(typingTimer.current);
+        setIsTyping(event.data.isTyping);
+        if (event.data.isTyping) {
+          typingTimer.current = window.setTimeout(() => setIsTyping(false), TYPING_TIMEOUT_MS);
+        }
+      } else if (event.type === 'read') {
+        setMessages(prev => prev.map(message =>
+          message.sender.id === user?.id && !message.isRead
+            ? { ...message, isRead: true, readAt: event.data.readAt }
+            : message
+        ));
+      }
+    });
+  }, [chat.id, user?.id, subscribe, refreshUnreadCount]);
+
+  useEffect(() => {
+    return () => window.clearTimeout(typingTimer.current);
+  }, []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, isTyping]);
+
+  const fetchMessages = async () => {
+    try {
+      setLoading(true);
+      setIsTyping(false);
+      // Loading the messages marks them read on the server
+      const response = await apiClient.chats.getMessages(chat.id, { limit: 50 });
+      setMessages(response.data.data?.messages || []);
+      refreshUnreadCount();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The stream also echoes our own messages back, so skip ones already shown
+  const addMessage = (message: ChatMessage) => {
+    setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+  };
+
+  const sendMessage = async (data: ChatMessageInput) => {
+    setSending(true);
+    try {
+      const response = await apiClient.chats.sendMessage(chat.id, data);
+      addMessage(response.data.data!);
+      return true;
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      return false;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) {
+      return;
+    }
+
+    if (await sendMessage({ content: draft.trim() })) {
+      setDraft('');
+    }
+  };
+
+  // The draft goes out as the photo's caption
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setSending(true);
+    try {
+      const upload = await apiClient.upload.image(file);
+      if (await sendMessage({ type: 'IMAGE', imageUrl: upload.data.data!.url, content: draft.trim() })) {
+        setDraft('');
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setSending(false);
+    }
+  };
+
+  const toggleOrders = async () => {
+    setShowOrders(!showOrders);
+    if (orders === null) {
+      try {
+        const response = await apiClient.chats.getOrders(chat.id);
+        setOrders(response.data.data?.orders || []);
+      } catch (error) {
+        toast.error(getErrorMessage(error));
+      }
+    }
+  };
+
+  const handleAttachOrder = async (orderId: string) => {
+    if (await sendMessage({ type: 'ORDER_UPDATE', orderId, content: draft.trim() })) {
+      setDraft('');
+      setShowOrders(false);
+    }
+  };
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (value.trim()) {
+      sendTyping();
+    }
+  };
+
+  // Blocking is per user, so the chat is reloaded to pick up the new status
+  const refreshChat = async () => {
+    try {
+      const response = await apiClient.chats.getById(chat.id);
+      onChatChange(response.data.data!);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleToggleBlock = async () => {
+    const name = chat.otherParticipant.name;
+    if (!chat.blockedByMe && !window.confirm(`Block ${name}? Neither of you will be able to message the other until you unblock them.`)) {
+      return;
+    }
+
+    setBlocking(true);
+    try {
+      const response = chat.blockedByMe
+        ? await apiClient.users.unblockUser(chat.otherParticipant.id)
+        : await apiClient.users.blockUser(chat.otherParticipant.id);
+      toast.success(response.data.message || 'Updated');
+      await refreshChat();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setBlocking(false);
+    }
+  };
+
+  const handleReported = (blocked: boolean) => {
+    setReporting(null);
+    if (blocked) {
+      refreshChat();
+    }
+  };
+
+  const isBlocked = chat.status === 'BLOCKED';
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender.id === user?.id);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-neutral-200">
+        <button onClick={onBack} className="md:hidden text-neutral-500 hover:text-neutral-700">
+          <ArrowLeftIcon className="h-5 w-5" />
+        </button>
+        <div>
+          <p className="font-semibold text-neutral-900">
+            {chat.otherParticipant.storeName || chat.otherParticipant.name}
+          </p>
+          <p className="text-xs text-neutral-500">
+            {isBlocked ? 'Blocked' : isTyping ? 'typing…' : chat.otherParticipant.isOnline ? 'Online' : 'Offline'}
+          </p>
+        </div>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            title={`Report ${chat.otherParticipant.name}`}
+            onClick={() => setReporting(reporting && !reporting.message ? null : {})}
+            className="p-2 text-neutral-500 hover:text-red-600"
+          >
+            <FlagIcon className="h-5 w-5" />
+          </button>
+          {/* Only the blocker can unblock; the blocked user has nothing to toggle */}
+          {(chat.blockedByMe || !isBlocked) && (
+            <button
+              type="button"
+              title={chat.blockedByMe ? `Unblock ${chat.otherParticipant.name}` : `Block ${chat.otherParticipant.name}`}
+              disabled={blocking}
+              onClick={handleToggleBlock}
+              className={`p-2 hover:text-red-600 ${chat.blockedByMe ? 'text-red-600' : 'text-neutral-500'}`}
+            >
+              <NoSymbolIcon className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {chat.product && <ChatProductCard product={chat.product} />}
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="loading-skeleton h-10 rounded-lg w-2/3"></div>
+            ))}
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-8">
+            No messages yet. Say hello!
+          </p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.sender.id === user?.id;
+            const alignment = message.type === 'SYSTEM' ? 'items-center' : isOwn ? 'items-end' : 'items-start';
+            return (
+              <div key={message.id} className={`group flex flex-col ${alignment}`}>
+                <div className="max-w-[75%]">
+                  <MessageContent message={message} isOwn={isOwn} />
+                </div>
+                {!isOwn && message.type !== 'SYSTEM' && (
+                  <button
+                    type="button"
+                    onClick={() => setReporting({ message })}
+                    className="text-xs text-neutral-400 hover:text-red-600 mt-1 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  >
+                    Report
+                  </button>
+                )}
+                {message.id === lastOwnMessage?.id && (
+                  <span className="text-xs text-neutral-500 mt-1">
+                    {message.isRead && message.readAt ? `Seen ${getRelativeTime(message.readAt)}` : 'Sent'}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+        {isTyping && (
+          <p className="text-xs text-neutral-500 italic">
+            {chat.otherParticipant.name} is typing…
+          </p>
+        )}
+        <div ref={bottomRef}></div>
+      </div>
+
+      {reporting && (
+        <ReportForm
+          key={reporting.message?.id || 'user'}
+          userId={chat.otherParticipant.id}
+          userName={chat.otherParticipant.name}
+          message={reporting.message}
+          alreadyBlocked={isBlocked}
+          onClose={() => setReporting(null)}
+          onReported={handleReported}
+        />
+      )}
+
+      {showOrders && !isBlocked && (
+        <div className="border-t border-neutral-200 max-h-48 overflow-y-auto">
+          {orders === null ? (
+            <div className="loading-skeleton h-12 m-4 rounded-lg"></div>
+          ) : orders.length === 0 ? (
+            <p className="text-sm text-neutral-500 px-4 py-3">This buyer has no orders with you yet.</p>
+          ) : (
+            orders.map(order => (
+              <button
+                key={order.id}
+                type="button"
+                disabled={sending}
+                onClick={() => handleAttachOrder(order.id)}
+                className="w-full flex justify-between px-4 py-2 text-sm text-left hover:bg-neutral-50"
+              >
+                <span>
+                  <span className="font-medium text-neutral-900">#{order.orderNumber}</span>
+                  <span className="text-neutral-500"> · {formatDate(order.createdAt)}</span>
+                </span>
+                <span className="text-neutral-600">
+                  {formatEnumLabel(order.status)} · ETB {Number(order.total).toLocaleString()}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {isBlocked ? (
+        <div className="px-4 py-3 border-t border-neutral-200 text-sm text-neutral-600 flex items-center justify-between gap-2">
+          {chat.blockedByMe ? (
+            <>
+              <span>You blocked {chat.otherParticipant.name}. They can't message you.</span>
+              <Button variant="secondary" size="sm" loading={blocking} onClick={handleToggleBlock}>
+                Unblock
+              </Button>
+            </>
+          ) : (
+            <span>You can't reply to this conversation.</span>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSend} className="flex items-end gap-2 px-4 py-3 border-t border-neutral-200">
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handlePhoto} />
+          <button
+            type="button"
+            title="Send a photo"
+            disabled={sending}
+            onClick={() => fileInputRef.current?.click()}
+            className="p-2 text-neutral-500 hover:text-primary-600"
+          >
+            <PhotoIcon className="h-5 w-5" />
+          </button>
+          {/* Sellers attach order cards for their buyers */}
+          {user?.role === 'SELLER' && (
+            <button
+              type="button"
+              title="Attach an order"
+              onClick={toggleOrders}
+              className={`p-2 hover:text-primary-600 ${showOrders ? 'text-primary-600' : 'text-neutral-500'}`}
+            >
+              <ShoppingBagIcon className="h-5 w-5" />
+            </button>
+          )}
+          <textarea
+            value={draft}
+            onChange={(e) => handleDraftChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                handleSend(e);
+              }
+            }}
+            rows={1}
+            className="input-field flex-1 resize-none"
+            placeholder="Write a message"
+          />
+          <Button type="submit" loading={sending} leftIcon={<PaperAirplaneIcon className="h-4 w-4" />}>
+            Send
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// The product the buyer was looking at when they started the conversation
+const ChatProductCard: React.FC<{ product: ChatProduct }> = ({ product }) => (
+  <Link
+    to={`/products/${product.id}`}
+    className="flex items-center gap-3 px-4 py-2 border-b border-neutral-200 bg-neutral-50 hover:bg-neutral-100"
+  >
+    {product.images[0] && (
+      <img src={product.images[0]} alt={product.title} className="h-10 w-10 rounded object-cover" />
+    )}
+    <div className="min-w-0">
+      <p className="text-sm font-medium text-neutral-900 truncate">{product.title}</p>
+      <p className="text-xs text-neutral-600">ETB {Number(product.price).toLocaleString()}</p>
+    </div>
+  </Link>
+);
+
+export default Conversation;
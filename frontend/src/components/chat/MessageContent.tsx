@@ -0,0 +1,68 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ShoppingBagIcon } from '@heroicons/react/24/outline';
+import { orderStatusStyles } from '../../lib/orders';
+import { formatDateTime, formatEnumLabel } from '../../lib/utils';
+import type { ChatMessage, ChatOrderCard } from '../../types';
+
+interface MessageContentProps {
+  message: ChatMessage;
+  isOwn: boolean;
+}
+
+const bubbleStyles = (isOwn: boolean) =>
+  isOwn ? 'bg-primary-600 text-white' : 'bg-neutral-100 text-neutral-900';
+
+// Renders a chat message according to its type
+const MessageContent: React.FC<MessageContentProps> = ({ message, isOwn }) => {
+  switch (message.type) {
+    case 'IMAGE':
+      return <ImageMessage imageUrl={message.metadata.imageUrl} caption={message.content} isOwn={isOwn} />;
+    case 'ORDER_UPDATE':
+      return <OrderCardMessage card={message.metadata} text={message.content} />;
+    case 'SYSTEM':
+      return <p className="text-xs text-neutral-500 text-center">{message.content}</p>;
+    default:
+      return (
+        <div
+          className={`rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words ${bubbleStyles(isOwn)}`}
+          title={formatDateTime(message.createdAt)}
+        >
+          {message.content}
+        </div>
+      );
+  }
+};
+
+const ImageMessage: React.FC<{ imageUrl: string; caption: string; isOwn: boolean }> = ({
+  imageUrl,
+  caption,
+  isOwn,
+}) => (
+  <div className={`rounded-lg overflow-hidden ${bubbleStyles(isOwn)}`}>
+    <a href={imageUrl} target="_blank" rel="noopener noreferrer">
+      <img src={imageUrl} alt={caption || 'Photo'} className="max-h-64 w-full object-cover" />
+    </a>
+    {caption && <p className="px-3 py-2 text-sm whitespace-pre-wrap break-words">{caption}</p>}
+  </div>
+);
+
+const OrderCardMessage: React.FC<{ card: ChatOrderCard; text: string }> = ({ card, text }) => (
+  <div className="rounded-lg border border-neutral-200 bg-white text-sm w-64">
+    {text && <p className="px-3 pt-2 text-neutral-700">{text}</p>}
+    <Link to={`/orders/${card.orderId}`} className="flex items-start gap-3 p-3 hover:bg-neutral-50">
+      <ShoppingBagIcon className="h-5 w-5 text-primary-600 flex-shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-neutral-900 truncate">Order #{card.orderNumber}</p>
+        <p className="text-neutral-600">ETB {Number(card.total).toLocaleString()}</p>
+        <span className={`inline-flex mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${orderStatusStyles[card.status]}`}>
+          {card.fromStatus
+            ? `${formatEnumLabel(card.fromStatus)} → ${formatEnumLabel(card.status)}`
+            : formatEnumLabel(card.status)}
+        </span>
+      </div>
+    </Link>
+  </div>
+);
+
+export default MessageContent;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { ReportCategoryValues } from '../../types';
+import type { ChatMessage, ReportCategory } from '../../types';
+
+interface ReportFormProps {
+  userId: string;
+  userName: string;
+  // Set when reporting a single message rather than the user
+  message?: ChatMessage;
+  alreadyBlocked: boolean;
+  onClose: () => void;
+  onReported: (blocked: boolean) => void;
+}
+
+// Reports a user, or one message they sent, to the moderators
+const ReportForm: React.FC<ReportFormProps> = ({ userId, userName, message, alreadyBlocked, onClose, onReported }) => {
+  const [category, setCategory] = useState<ReportCategory | ''>('');
+  const [details, setDetails] = useState('');
+  const [block, setBlock] = useState(!alreadyBlocked);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!category) {
+      toast.error('Choose what is wrong');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const target = message ? { messageId: message.id } : { reportedUserId: userId };
+      const response = await apiClient.reports.create({
+        ...target,
+        category,
+        details: details.trim() || undefined,
+        block: block && !alreadyBlocked,
+      });
+      toast.success(response.data.message || 'Report sent');
+      onReported(block && !alreadyBlocked);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-neutral-200 px-4 py-3 space-y-2">
+      <p className="text-sm font-medium text-neutral-900">
+        {message ? `Report this message from ${userName}` : `Report ${userName}`}
+      </p>
+      {message && message.content && (
+        <p className="text-sm text-neutral-600 bg-neutral-50 rounded-lg px-3 py-2 line-clamp-2">
+          {message.content}
+        </p>
+      )}
+      <select
+        value={category}
+        onChange={(e) => setCategory(e.target.value as ReportCategory | '')}
+        className="input-field"
+      >
+        <option value="">What is wrong?</option>
+        {ReportCategoryValues.map(value => (
+          <option key={value} value={value}>{formatEnumLabel(value)}</option>
+        ))}
+      </select>
+      <textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        rows={2}
+        className="input-field"
+        placeholder={category === 'OTHER' ? 'Tell us what happened' : 'Anything else the moderators should know (optional)'}
+      />
+      {!alreadyBlocked && (
+        <label className="flex items-center gap-2 text-sm text-neutral-700">
+          <input type="checkbox" checked={block} onChange={(e) => setBlock(e.target.checked)} />
+          Also block {userName}
+        </label>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="destructive" size="sm" loading={submitting} onClick={handleSubmit}>
+          Send report
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportForm;
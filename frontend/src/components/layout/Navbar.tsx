@@ -1,29 +1,26 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import { useChat } from '../../contexts/ChatContext';
+import NotificationBell from './NotificationBell';
+import SearchBox from './SearchBox';
 import { 
   Bars3Icon, 
   XMarkIcon, 
   ShoppingBagIcon, 
   UserIcon,
   HeartIcon,
-  BellIcon,
-  MagnifyingGlassIcon
+  ChatBubbleLeftRightIcon
 } from '@heroicons/react/24/outline';
 
 const Navbar: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const { user, isAuthenticated, logout } = useAuth();
+  const { itemCount } = useCart();
+  const { unreadCount } = useChat();
   const navigate = useNavigate();
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/products?search=${encodeURIComponent(searchQuery)}`);
-    }
-  };
-
   const handleLogout = () => {
     logout();
     navigate('/');
@@ -44,20 +41,7 @@ const Navbar: React.FC = () => {
 
           {/* Search Bar - Desktop */}
           <div className="hidden md:flex flex-1 max-w-lg mx-8">
-            <form onSubmit={handleSearch} className="w-full">
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <MagnifyingGlassIcon className="h-5 w-5 text-neutral-400" />
-                </div>
-                <input
-                  type="text"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="block w-full pl-10 pr-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  placeholder="Search products..."
-                />
-              </div>
-            </form>
+            <SearchBox />
           </div>
 
           {/* Desktop Navigation */}
@@ -76,9 +60,11 @@ const Navbar: React.FC = () => {
                   className="text-neutral-600 hover:text-primary-600 p-2 rounded-md transition-colors relative"
                 >
                   <ShoppingBagIcon className="h-6 w-6" />
-                  <span className="absolute -top-1 -right-1 bg-primary-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                    0
-                  </span>
+                  {itemCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-primary-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                      {itemCount > 99 ? '99+' : itemCount}
+                    </span>
+                  )}
                 </Link>
                 
                 <Link
@@ -88,9 +74,19 @@ const Navbar: React.FC = () => {
                   <HeartIcon className="h-6 w-6" />
                 </Link>
                 
-                <button className="text-neutral-600 hover:text-primary-600 p-2 rounded-md transition-colors">
-                  <BellIcon className="h-6 w-6" />
-                </button>
+                <Link
+                  to="/messages"
+                  className="text-neutral-600 hover:text-primary-600 p-2 rounded-md transition-colors relative"
+                >
+                  <ChatBubbleLeftRightIcon className="h-6 w-6" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-primary-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                      {unreadCount > 9 ? '9+' : unreadCount}
+                    </span>
+                  )}
+                </Link>
+                
+                <NotificationBell />
                 
                 <div className="relative group">
                   <button className="flex items-center text-neutral-600 hover:text-primary-600 p-2 rounded-md transition-colors">
@@ -113,6 +109,14 @@ const Navbar: React.FC = () => {
                       >
                         Dashboard
                       </Link>
+                      {user?.role === 'BUYER' && (
+                        <Link
+                          to="/orders"
+                          className="block px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50"
+                        >
+                          My Orders
+                        </Link>
+                      )}
                       {user?.role === 'SELLER' && (
                         <Link
                           to="/seller"
@@ -129,6 +133,14 @@ const Navbar: React.FC = () => {
                           Admin Panel
                         </Link>
                       )}
+                      {user?.role === 'DELIVERY_PARTNER' && (
+                        <Link
+                          to="/delivery"
+                          className="block px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50"
+                        >
+                          My Deliveries
+                        </Link>
+                      )}
                       <button
                         onClick={handleLogout}
                         className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50"
@@ -174,20 +186,7 @@ const Navbar: React.FC = () => {
 
         {/* Mobile Search Bar */}
         <div className="md:hidden pb-4">
-          <form onSubmit={handleSearch}>
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <MagnifyingGlassIcon className="h-5 w-5 text-neutral-400" />
-              </div>
-              <input
-                type="text"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                placeholder="Search products..."
-              />
-            </div>
-          </form>
+          <SearchBox />
         </div>
 
         {/* Mobile Navigation Menu */}
@@ -209,7 +208,7 @@ const Navbar: React.FC = () => {
                     className="text-neutral-600 hover:text-primary-600 block px-3 py-2 rounded-md text-base font-medium"
                     onClick={() => setIsOpen(false)}
                   >
-                    Cart
+                    Cart{itemCount > 0 && ` (${itemCount})`}
                   </Link>
                   <Link
                     to="/wishlist"
@@ -218,6 +217,13 @@ const Navbar: React.FC = () => {
                   >
                     Wishlist
                   </Link>
+                  <Link
+                    to="/messages"
+                    className="text-neutral-600 hover:text-primary-600 block px-3 py-2 rounded-md text-base font-medium"
+                    onClick={() => setIsOpen(false)}
+                  >
+                    Messages{unreadCount > 0 && ` (${unreadCount})`}
+                  </Link>
                   <Link
                     to="/profile"
                     className="text-neutral-600 hover:text-primary-600 block px-3 py-2 rounded-md text-base font-medium"
@@ -232,6 +238,15 @@ const Navbar: React.FC = () => {
                   >
                     Dashboard
                   </Link>
+                  {user?.role === 'BUYER' && (
+                    <Link
+                      to="/orders"
+                      className="text-neutral-600 hover:text-primary-600 block px-3 py-2 rounded-md text-base font-medium"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      My Orders
+                    </Link>
+                  )}
                   {user?.role === 'SELLER' && (
                     <Link
                       to="/seller"
@@ -241,6 +256,15 @@ const Navbar: React.FC = () => {
                       Seller Dashboard
                     </Link>
                   )}
+                  {user?.role === 'DELIVERY_PARTNER' && (
+                    <Link
+                      to="/delivery"
+                      className="text-neutral-600 hover:text-primary-600 block px-3 py-2 rounded-md text-base font-medium"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      My Deliveries
+                    </Link>
+                  )}
                   <button
                     onClick={() => {
                       handleLogout();
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellIcon } from '@heroicons/react/24/outline';
+import { apiClient } from '../../lib/api';
+import { getRelativeTime } from '../../lib/utils';
+import type { Notification } from '../../types';
+
+const NotificationBell: React.FC = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchNotifications();
+  }, []);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await apiClient.notifications.getAll({ limit: 10 });
+      setNotifications(response.data.data?.notifications || []);
+      setUnreadCount(response.data.data?.unreadCount || 0);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      fetchNotifications();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    setIsOpen(false);
+    if (!notification.isRead) {
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, isRead: true } : n));
+      setUnreadCount(count => Math.max(count - 1, 0));
+      apiClient.notifications.markRead(notification.id).catch(() => {});
+    }
+    if (notification.data?.orderId) {
+      navigate(`/orders/${notification.data.orderId}`);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await apiClient.notifications.markAllRead();
+      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="text-neutral-600 hover:text-primary-600 p-2 rounded-md transition-colors relative"
+      >
+        <BellIcon className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-primary-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-tilet-lg border border-neutral-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-neutral-100">
+            <span className="text-sm font-medium text-neutral-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-primary-600 hover:text-primary-700">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-neutral-500 text-center">No notifications yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-neutral-100">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={`block w-full text-left px-4 py-3 hover:bg-neutral-50 ${
+                    notification.isRead ? '' : 'bg-primary-50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-neutral-900">{notification.title}</p>
+                  <p className="text-sm text-neutral-600">{notification.message}</p>
+                  <p className="text-xs text-neutral-400 mt-1">{getRelativeTime(notification.createdAt)}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useMemo, useRef, useId } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  MagnifyingGlassIcon,
+  ClockIcon,
+  ArrowTrendingUpIcon,
+  TagIcon,
+  BuildingStorefrontIcon,
+  PhotoIcon
+} from '@heroicons/react/24/outline';
+import { apiClient } from '../../lib/api';
+import { cn, debounce, formatPrice } from '../../lib/utils';
+import type { SearchSuggestions } from '../../types';
+
+type SuggestionSection = 'recent' | 'popular' | 'products' | 'categories' | 'sellers';
+
+interface SuggestionOption {
+  key: string;
+  section: SuggestionSection;
+  label: string;
+  to: string;
+  // Shown next to product suggestions
+  image?: string | null;
+  price?: number;
+}
+
+const sectionTitles: Record<SuggestionSection, string> = {
+  recent: 'Recent searches',
+  popular: 'Popular searches',
+  products: 'Products',
+  categories: 'Categories',
+  sellers: 'Stores',
+};
+
+const sectionIcons: Record<Exclude<SuggestionSection, 'products'>, React.ElementType> = {
+  recent: ClockIcon,
+  popular: ArrowTrendingUpIcon,
+  categories: TagIcon,
+  sellers: BuildingStorefrontIcon,
+};
+
+const searchPath = (query: string) => `/products?search=${encodeURIComponent(query)}`;
+
+// One list in display order, so the arrow keys walk the dropdown top to bottom
+const toOptions = (suggestions: SearchSuggestions): SuggestionOption[] => [
+  ...suggestions.recent.map(query => ({
+    key: `recent-${query}`, section: 'recent' as const, label: query, to: searchPath(query),
+  })),
+  ...suggestions.popular.map(query => ({
+    key: `popular-${query}`, section: 'popular' as const, label: query, to: searchPath(query),
+  })),
+  ...suggestions.products.map(product => ({
+    key: `product-${product.id}`,
+    section: 'products' as const,
+    label: product.title,
+    to: `/products/${product.id}`,
+    image: product.image,
+    price: Number(product.price),
+  })),
+  ...suggestions.categories.map(category => ({
+    key: `category-${category.id}`, section: 'categories' as const, label: category.name, to: `/products?category=${category.id}`,
+  })),
+  ...suggestions.sellers.map(seller => ({
+    key: `seller-${seller.id}`, section: 'sellers' as const, label: seller.storeName || 'Store', to: `/products?sellerId=${seller.id}`,
+  })),
+];
+
+// Navbar search with type-ahead suggestions
+const SearchBox: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const latestQuery = useRef('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listId = useId();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const currentSearch = searchParams.get('search') || '';
+
+  // Keep the box showing what the results page is searching for
+  useEffect(() => {
+    setQuery(currentSearch);
+  }, [currentSearch]);
+
+  const fetchSuggestions = useMemo(() => debounce(async (q: string) => {
+    try {
+      const response = await apiClient.products.getSuggestions(q);
+      // Drop answers to queries the user has already typed past
+      if (q === latestQuery.current) {
+        setSuggestions(response.data.data || null);
+        setActiveIndex(-1);
+      }
+    } catch (error) {
+      console.error('Error fetching search suggestions:', error);
+    }
+  }, 250), []);
+
+  const requestSuggestions = (q: string) => {
+    latestQuery.current = q.trim();
+    fetchSuggestions(q.trim());
+  };
+
+  const options = useMemo(() => (suggestions ? toOptions(suggestions) : []), [suggestions]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    setIsOpen(true);
+    requestSuggestions(e.target.value);
+  };
+
+  const handleFocus = () => {
+    setIsOpen(true);
+    requestSuggestions(query);
+  };
+
+  const handleSelect = (option: SuggestionOption) => {
+    if (option.section === 'recent' || option.section === 'popular') {
+      setQuery(option.label);
+    }
+    setIsOpen(false);
+    inputRef.current?.blur();
+    navigate(option.to);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isOpen && activeIndex >= 0 && options[activeIndex]) {
+      handleSelect(options[activeIndex]);
+      return;
+    }
+    if (query.trim()) {
+      setIsOpen(false);
+      inputRef.current?.blur();
+      navigate(searchPath(query.trim()));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+      return;
+    }
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+
+    e.preventDefault();
+    if (!isOpen) {
+      setIsOpen(true);
+      return;
+    }
+    if (options.length === 0) return;
+
+    // Wraps around, with the typed text (-1) between the last and first options
+    const step = e.key === 'ArrowDown' ? 1 : -1;
+    setActiveIndex(index => ((index + 1 + step + options.length + 1) % (options.length + 1)) - 1);
+  };
+
+  const handleClearRecent = async () => {
+    try {
+      await apiClient.products.clearRecentSearches();
+      setSuggestions(prev => (prev ? { ...prev, recent: [] } : prev));
+      setActiveIndex(-1);
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+    }
+  };
+
+  const showDropdown = isOpen && options.length > 0;
+
+  return (
+    <form onSubmit={handleSearch} className="w-full">
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <MagnifyingGlassIcon className="h-5 w-5 text-neutral-400" />
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={handleChange}
+          onFocus={handleFocus}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+          autoComplete="off"
+          className="block w-full pl-10 pr-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          placeholder="Search in English or አማርኛ..."
+        />
+
+        {showDropdown && (
+          // mousedown would blur the input and close the list before a click lands
+          <div
+            id={listId}
+            role="listbox"
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute left-0 right-0 mt-2 max-h-96 overflow-y-auto bg-white rounded-md shadow-tilet-lg border border-neutral-200 z-50 py-1"
+          >
+            {options.map((option, index) => {
+              const Icon = option.section === 'products' ? null : sectionIcons[option.section];
+              const startsSection = index === 0 || options[index - 1].section !== option.section;
+
+              return (
+                <React.Fragment key={option.key}>
+                  {startsSection && (
+                    <div className="flex items-center justify-between px-4 pt-2 pb-1">
+                      <span className="text-xs font-medium uppercase tracking-wide text-neutral-500">
+                        {sectionTitles[option.section]}
+                      </span>
+                      {option.section === 'recent' && (
+                        <button
+                          type="button"
+                          onClick={handleClearRecent}
+                          className="text-xs text-primary-600 hover:text-primary-700"
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <div
+                    id={`${listId}-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    onClick={() => handleSelect(option)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={cn(
+                      'flex items-center px-4 py-2 cursor-pointer text-sm text-neutral-700',
+                      index === activeIndex && 'bg-primary-50 text-primary-700'
+                    )}
+                  >
+                    {Icon ? (
+                      <Icon className="h-4 w-4 mr-3 flex-shrink-0 text-neutral-400" />
+                    ) : option.image ? (
+                      <img src={option.image} alt="" className="h-8 w-8 mr-3 flex-shrink-0 rounded object-cover" />
+                    ) : (
+                      <PhotoIcon className="h-8 w-8 mr-3 flex-shrink-0 text-neutral-300" />
+                    )}
+                    <span className="flex-1 truncate">{option.label}</span>
+                    {option.price !== undefined && (
+                      <span className="ml-3 text-xs text-neutral-500">{formatPrice(option.price)}</span>
+                    )}
+                  </div>
+                </React.Fragment>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { openChatWith } from '../../lib/chats';
+import { getErrorMessage } from '../../lib/utils';
+import type { OrderDetail } from '../../types';
+
+interface ContactSellerProps {
+  order: OrderDetail;
+}
+
+const ContactSeller: React.FC<ContactSellerProps> = ({ order }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!message.trim()) {
+      toast.error('Write a message first');
+      return;
+    }
+
+    setSending(true);
+    try {
+      const chatId = await openChatWith(order.sellerId);
+      await apiClient.chats.sendMessage(chatId, {
+        content: `About order ${order.orderNumber}: ${message.trim()}`,
+      });
+      toast.success('Message sent to the seller');
+      setMessage('');
+      setIsOpen(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        leftIcon={<ChatBubbleLeftRightIcon className="h-4 w-4" />}
+        onClick={() => setIsOpen(true)}
+      >
+        Contact seller
+      </Button>
+    );
+  }
+
+  return (
+    <div className="w-full space-y-2">
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        rows={3}
+        className="input-field"
+        placeholder={`Message ${order.seller.storeName || 'the seller'} about this order`}
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+          Cancel
+        </Button>
+        <Button size="sm" loading={sending} onClick={handleSend}>
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ContactSeller;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { TruckIcon } from '@heroicons/react/24/outline';
+import { deliveryStatusLabels, getOrderProgress, orderStatusStyles } from '../../lib/orders';
+import { formatDate, formatEnumLabel } from '../../lib/utils';
+import type { OrderSummary } from '../../types';
+
+interface OrderCardProps {
+  order: OrderSummary;
+}
+
+// A buyer's order with its progress, linking to the order page
+const OrderCard: React.FC<OrderCardProps> = ({ order }) => {
+  const [firstItem, ...otherItems] = order.items;
+  const isClosed = order.status === 'CANCELLED' || order.status === 'REFUNDED';
+
+  return (
+    <div className="p-4 border border-neutral-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex-1 min-w-0">
+          <Link to={`/orders/${order.id}`} className="block font-medium text-neutral-900 truncate hover:text-primary-600">
+            {firstItem?.product.title}
+            {otherItems.length > 0 && ` +${otherItems.length} more`}
+          </Link>
+          <p className="text-sm text-neutral-600">
+            #{order.orderNumber}{order.seller.storeName && ` from ${order.seller.storeName}`}
+          </p>
+          <p className="text-xs text-neutral-500">{formatDate(order.createdAt)}</p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold text-neutral-900">ETB {Number(order.total).toLocaleString()}</p>
+          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${orderStatusStyles[order.status]}`}>
+            {formatEnumLabel(order.status)}
+          </span>
+        </div>
+      </div>
+
+      {!isClosed && (
+        <div className="mt-3">
+          <div className="w-full bg-neutral-200 rounded-full h-1.5">
+            <div
+              className="bg-primary-600 h-1.5 rounded-full transition-all duration-300"
+              style={{ width: `${Math.max(getOrderProgress(order.status) * 100, 5)}%` }}
+            ></div>
+          </div>
+          <p className="flex items-center mt-2 text-xs text-neutral-600">
+            <TruckIcon className="h-4 w-4 mr-1" />
+            {order.status === 'DELIVERED' && order.deliveredAt
+              ? `Delivered ${formatDate(order.deliveredAt)}`
+              : deliveryStatusLabels[order.deliveryStatus]}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderCard;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { deliveryStatusLabels } from '../../lib/orders';
+import { formatDateTime, formatEnumLabel } from '../../lib/utils';
+import type { DeliveryStatus, OrderHistoryEntry } from '../../types';
+
+interface OrderHistoryProps {
+  events: OrderHistoryEntry[];
+}
+
+const describeEvent = (event: OrderHistoryEntry): string => {
+  if (event.field === 'DELIVERY_STATUS') {
+    return `Delivery: ${deliveryStatusLabels[event.toStatus as DeliveryStatus]}`;
+  }
+
+  if (!event.fromStatus) {
+    return `Order placed (${formatEnumLabel(event.toStatus).toLowerCase()})`;
+  }
+
+  return `${formatEnumLabel(event.fromStatus)} → ${formatEnumLabel(event.toStatus)}`;
+};
+
+// Every recorded status change on an order, oldest first, with who made it
+const OrderHistory: React.FC<OrderHistoryProps> = ({ events }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-neutral-500">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-neutral-100 text-sm">
+      {events.map(event => (
+        <li key={event.id} className="py-2 flex flex-col sm:flex-row sm:justify-between gap-1">
+          <div>
+            <p className="font-medium text-neutral-900">{describeEvent(event)}</p>
+            <p className="text-neutral-500">
+              {event.actor
+                ? `${event.actor.firstName} ${event.actor.lastName} (${formatEnumLabel(event.actor.role).toLowerCase()})`
+                : 'Automatic'}
+            </p>
+            {event.note && <p className="text-neutral-600">{event.note}</p>}
+          </div>
+          <p className="text-neutral-500 whitespace-nowrap">{formatDateTime(event.createdAt)}</p>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default OrderHistory;
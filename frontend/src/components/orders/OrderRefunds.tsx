@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { ReceiptRefundIcon } from '@heroicons/react/24/outline';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { formatDateTime, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { refundStatusStyles } from '../../lib/orders';
+import type { OrderDetail, OrderRefunds as OrderRefundsData } from '../../types';
+
+interface OrderRefundsProps {
+  order: OrderDetail;
+  // Called after a refund changes the order (e.g. it becomes REFUNDED)
+  onChange?: () => void;
+}
+
+const OrderRefunds: React.FC<OrderRefundsProps> = ({ order, onChange }) => {
+  const [data, setData] = useState<OrderRefundsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [fullRefund, setFullRefund] = useState(true);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchRefunds();
+  }, [order.id]);
+
+  const fetchRefunds = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.refunds.getByOrder(order.id);
+      setData(response.data.data || null);
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      toast.error('Tell the seller why you want a refund');
+      return;
+    }
+    if (!fullRefund && selectedItems.length === 0) {
+      toast.error('Choose the items to refund');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await apiClient.refunds.request({
+        orderId: order.id,
+        reason: reason.trim(),
+        items: fullRefund ? undefined : selectedItems,
+      });
+      toast.success(response.data.message || 'Refund requested');
+      setShowForm(false);
+      setReason('');
+      setQuantities({});
+      fetchRefunds();
+      onChange?.();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || !data) {
+    return <div className="card loading-skeleton h-24"></div>;
+  }
+
+  if (data.refunds.length === 0 && !data.canRequest) {
+    return null;
+  }
+
+  const itemTitles = Object.fromEntries(order.items.map(item => [item.id, item.product.title]));
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ReceiptRefundIcon className="h-5 w-5 text-neutral-500" />
+          <h2 className="text-lg font-semibold text-neutral-900">Refunds</h2>
+        </div>
+        {data.refunded > 0 && (
+          <span className="text-sm text-neutral-600">
+            ETB {data.refunded.toLocaleString()} of {data.paid.toLocaleString()} refunded
+          </span>
+        )}
+      </div>
+
+      {data.canRequest && !showForm && (
+        <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+          Request a refund
+        </Button>
+      )}
+
+      {showForm && (
+        <div className="space-y-4 border border-neutral-200 rounded-lg p-4 mb-4">
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={fullRefund} onChange={() => setFullRefund(true)} />
+              Whole order
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={!fullRefund} onChange={() => setFullRefund(false)} />
+              Some items
+            </label>
+          </div>
+
+          {!fullRefund && (
+            <div className="space-y-2">
+              {data.refundableItems.filter(item => item.refundableQuantity > 0).map(item => (
+                <div key={item.orderItemId} className="flex items-center justify-between text-sm">
+                  <span className="text-neutral-900">
+                    {itemTitles[item.orderItemId]}
+                    <span className="text-neutral-500"> - ETB {item.price.toLocaleString()} each</span>
+                  </span>
+                  <select
+                    value={quantities[item.orderItemId] || 0}
+                    onChange={(e) => setQuantities(prev => ({ ...prev, [item.orderItemId]: Number(e.target.value) }))}
+                    className="input-field w-24"
+                  >
+                    {[...Array(item.refundableQuantity + 1)].map((_, quantity) => (
+                      <option key={quantity} value={quantity}>{quantity}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            className="input-field"
+            placeholder="What went wrong with your order?"
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" loading={submitting} onClick={handleSubmit}>
+              Submit request
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {data.refunds.length > 0 && (
+        <div className="divide-y divide-neutral-100 mt-4">
+          {data.refunds.map(refund => (
+            <div key={refund.id} className="py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-neutral-900">ETB {Number(refund.amount).toLocaleString()}</p>
+                  <p className="text-neutral-500">Requested {formatDateTime(refund.requestedAt)}</p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${refundStatusStyles[refund.status]}`}>
+                  {formatEnumLabel(refund.status)}
+                </span>
+              </div>
+              <p className="text-neutral-700 mt-1">{refund.reason}</p>
+              <ul className="text-neutral-500 mt-1">
+                {refund.items.map(item => (
+                  <li key={item.id}>{item.quantity} x {item.orderItem.product.title}</li>
+                ))}
+              </ul>
+              {refund.note && (
+                <p className="text-neutral-600 mt-1 italic">
+                  {refund.reviewedBy ? `${refund.reviewedBy.firstName}: ` : ''}{refund.note}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderRefunds;
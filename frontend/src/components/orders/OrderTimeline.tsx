@@ -0,0 +1,52 @@
+import React from 'react';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { getOrderTimeline } from '../../lib/orders';
+import { formatDateTime } from '../../lib/utils';
+import type { OrderDetail } from '../../types';
+
+interface OrderTimelineProps {
+  order: OrderDetail;
+}
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ order }) => {
+  const events = getOrderTimeline(order);
+
+  return (
+    <ol className="relative">
+      {events.map((event, index) => {
+        const isLast = index === events.length - 1;
+        const isDone = event.date !== null;
+
+        return (
+          <li key={event.key} className="relative flex gap-4 pb-6 last:pb-0">
+            {!isLast && (
+              <span
+                className={`absolute left-3 top-6 -ml-px h-full w-0.5 ${
+                  events[index + 1].date ? 'bg-primary-500' : 'bg-neutral-200'
+                }`}
+              />
+            )}
+            <span
+              className={`relative z-10 flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full ${
+                event.failed
+                  ? 'bg-red-500 text-white'
+                  : isDone
+                    ? 'bg-primary-500 text-white'
+                    : 'border-2 border-neutral-300 bg-white'
+              }`}
+            >
+              {event.failed ? <XMarkIcon className="h-4 w-4" /> : isDone && <CheckIcon className="h-4 w-4" />}
+            </span>
+            <div className="text-sm">
+              <p className={`font-medium ${isDone ? 'text-neutral-900' : 'text-neutral-500'}`}>{event.label}</p>
+              {event.date && <p className="text-neutral-500">{formatDateTime(event.date)}</p>}
+              {event.detail && <p className="text-neutral-600">{event.detail}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
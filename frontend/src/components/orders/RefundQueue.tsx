@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { apiClient } from '../../lib/api';
+import { formatDateTime, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { paymentMethodLabels, refundStatusStyles } from '../../lib/orders';
+import type { RefundReview, RefundStatus } from '../../types';
+
+interface RefundQueueProps {
+  // Admins review every seller's refunds, so show whose order each one is
+  showSeller?: boolean;
+}
+
+const statusFilters: Array<{ value: RefundStatus | ''; label: string }> = [
+  { value: 'REQUESTED', label: 'Waiting' },
+  { value: 'FAILED', label: 'Failed' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: '', label: 'All' },
+];
+
+const RefundQueue: React.FC<RefundQueueProps> = ({ showSeller = false }) => {
+  const [refunds, setRefunds] = useState<RefundReview[]>([]);
+  const [status, setStatus] = useState<RefundStatus | ''>('REQUESTED');
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [actingId, setActingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRefunds();
+  }, [status]);
+
+  const fetchRefunds = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.refunds.getAll({ status: status || undefined, limit: 20 });
+      setRefunds(response.data.data?.refunds || []);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (refund: RefundReview) => {
+    if (!window.confirm(`Refund ETB ${Number(refund.amount).toLocaleString()} to the buyer?`)) {
+      return;
+    }
+
+    setActingId(refund.id);
+    try {
+      await apiClient.refunds.approve(refund.id, {
+        restock: restock[refund.id] ?? true,
+        note: notes[refund.id]?.trim() || undefined,
+      });
+      toast.success('Refund completed');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setActingId(null);
+      fetchRefunds();
+    }
+  };
+
+  const handleReject = async (refund: RefundReview) => {
+    const note = notes[refund.id]?.trim();
+    if (!note) {
+      toast.error('Add a note telling the buyer why');
+      return;
+    }
+
+    setActingId(refund.id);
+    try {
+      await apiClient.refunds.reject(refund.id, { note });
+      toast.success('Refund rejected');
+      fetchRefunds();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {statusFilters.map(filter => (
+          <button
+            key={filter.label}
+            onClick={() => setStatus(filter.value)}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${
+              status === filter.value
+                ? 'bg-primary-600 text-white'
+                : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="card loading-skeleton h-24"></div>
+          ))}
+        </div>
+      ) : refunds.length === 0 ? (
+        <p className="text-sm text-neutral-500">No refunds here.</p>
+      ) : (
+        <div className="divide-y divide-neutral-100">
+          {refunds.map(refund => {
+            const isOpen = refund.status === 'REQUESTED' || refund.status === 'FAILED';
+
+            return (
+              <div key={refund.id} className="py-4 text-sm space-y-2">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      Order {refund.order.orderNumber} - ETB {Number(refund.amount).toLocaleString()}
+                      <span className="text-neutral-500"> of {Number(refund.order.total).toLocaleString()}</span>
+                    </p>
+                    <p className="text-neutral-500">
+                      {refund.order.buyer.firstName} {refund.order.buyer.lastName}
+                      {showSeller && refund.order.seller.storeName && ` from ${refund.order.seller.storeName}`}
+                      {' '}via {paymentMethodLabels[refund.payment.paymentMethod]}, {formatDateTime(refund.requestedAt)}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${refundStatusStyles[refund.status]}`}>
+                    {formatEnumLabel(refund.status)}
+                  </span>
+                </div>
+
+                <p className="text-neutral-700">{refund.reason}</p>
+                <ul className="text-neutral-500">
+                  {refund.items.map(item => (
+                    <li key={item.id}>
+                      {item.quantity} of {item.orderItem.quantity} x {item.orderItem.product.title}
+                    </li>
+                  ))}
+                </ul>
+                {refund.note && <p className="text-neutral-600 italic">{refund.note}</p>}
+
+                {isOpen && (
+                  <div className="flex flex-wrap items-center gap-3 pt-1">
+                    <input
+                      value={notes[refund.id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [refund.id]: e.target.value }))}
+                      className="input-field flex-1 min-w-[12rem]"
+                      placeholder="Note to the buyer"
+                    />
+                    <label className="flex items-center gap-2 text-neutral-700">
+                      <input
+                        type="checkbox"
+                        checked={restock[refund.id] ?? true}
+                        onChange={(e) => setRestock(prev => ({ ...prev, [refund.id]: e.target.checked }))}
+                      />
+                      Restock items
+                    </label>
+                    <Button
+                      size="sm"
+                      variant="success"
+                      loading={actingId === refund.id}
+                      disabled={actingId !== null}
+                      onClick={() => handleApprove(refund)}
+                    >
+                      {refund.status === 'FAILED' ? 'Retry refund' : 'Approve'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={actingId !== null}
+                      onClick={() => handleReject(refund)}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefundQueue;
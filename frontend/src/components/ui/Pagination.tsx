@@ -0,0 +1,64 @@
+import React from 'react';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, totalPages, onPageChange }) => {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  return (
+    <div className="flex justify-center mt-6">
+      <nav className="flex items-center space-x-2">
+        <button
+          onClick={() => onPageChange(Math.max(1, page - 1))}
+          disabled={page === 1}
+          className="px-3 py-2 text-sm text-neutral-500 hover:text-neutral-700 disabled:opacity-50"
+        >
+          Previous
+        </button>
+
+        {[...Array(totalPages)].map((_, i) => {
+          const current = i + 1;
+          // Show first page, last page, and pages around current page
+          if (
+            current === 1 ||
+            current === totalPages ||
+            (current >= page - 1 && current <= page + 1)
+          ) {
+            return (
+              <button
+                key={current}
+                onClick={() => onPageChange(current)}
+                className={`px-3 py-2 text-sm rounded-lg ${
+                  page === current
+                    ? 'bg-primary-500 text-white'
+                    : 'text-neutral-500 hover:text-neutral-700'
+                }`}
+              >
+                {current}
+              </button>
+            );
+          } else if (current === page - 2 || current === page + 2) {
+            return <span key={current} className="px-2 text-neutral-400">...</span>;
+          }
+          return null;
+        })}
+
+        <button
+          onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+          disabled={page === totalPages}
+          className="px-3 py-2 text-sm text-neutral-500 hover:text-neutral-700 disabled:opacity-50"
+        >
+          Next
+        </button>
+      </nav>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -1,11 +1,12 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
 import type { ReactNode } from 'react';
-import type { User, LoginForm, RegisterForm } from '../types';
+import type { UserProfile, LoginForm, RegisterForm } from '../types';
 import { apiClient } from '../lib/api';
+import { readGuestCart, clearGuestCart } from '../lib/cartStorage';
 import toast from 'react-hot-toast';
 
 interface AuthState {
-  user: User | null;
+  user: UserProfile | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -15,7 +16,7 @@ interface AuthContextType extends AuthState {
   login: (data: LoginForm) => Promise<void>;
   register: (data: RegisterForm) => Promise<void>;
   logout: () => void;
-  updateUser: (user: User) => void;
+  updateUser: (user: UserProfile) => void;
   clearError: () => void;
 }
 
@@ -23,7 +24,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 type AuthAction =
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_USER'; payload: User | null }
+  | { type: 'SET_USER'; payload: UserProfile | null }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'CLEAR_ERROR' }
   | { type: 'LOGOUT' };
@@ -64,6 +65,26 @@ const initialState: AuthState = {
   error: null,
 };
 
+// Move anything added to the cart while logged out into the server cart.
+// A failed merge must never block the login itself.
+const mergeGuestCart = async () => {
+  const items = readGuestCart();
+  if (items.length === 0) return;
+
+  try {
+    const response = await apiClient.cart.merge({
+      items: items.map(({ productId, quantity }) => ({ productId, quantity })),
+    });
+    clearGuestCart();
+
+    if (response.data.data?.adjustments.length) {
+      toast('Some cart items were adjusted to match available stock');
+    }
+  } catch (error) {
+    console.error('Cart merge failed:', error);
+  }
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -83,7 +104,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       try {
         const response = await apiClient.users.getProfile();
-        dispatch({ type: 'SET_USER', payload: response.data.data });
+        dispatch({ type: 'SET_USER', payload: response.data.data ?? null });
       } catch (error: any) {
         console.error('Auth check failed:', error);
         
@@ -126,6 +147,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         localStorage.setItem('refreshToken', refreshToken);
       }
 
+      await mergeGuestCart();
+
       dispatch({ type: 'SET_USER', payload: user });
       toast.success('Welcome back!');
     } catch (error: any) {
@@ -166,6 +189,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         localStorage.setItem('refreshToken', refreshToken);
       }
 
+      await mergeGuestCart();
+
       dispatch({ type: 'SET_USER', payload: user });
       toast.success('Account created successfully!');
     } catch (error: any) {
@@ -190,7 +215,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     toast.success('Logged out successfully');
   };
 
-  const updateUser = (user: User) => {
+  const updateUser = (user: UserProfile) => {
     dispatch({ type: 'SET_USER', payload: user });
   };
 
@@ -0,0 +1,165 @@
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { Cart } from '../types';
+import { apiClient } from '../lib/api';
+import { getErrorMessage } from '../lib/utils';
+import { readGuestCart, writeGuestCart, guestCartToCart } from '../lib/cartStorage';
+import type { GuestCartItem } from '../lib/cartStorage';
+import { useAuth } from './AuthContext';
+import toast from 'react-hot-toast';
+
+interface CartContextType {
+  cart: Cart;
+  itemCount: number;
+  isLoading: boolean;
+  addItem: (item: GuestCartItem) => Promise<void>;
+  updateQuantity: (productId: string, quantity: number) => Promise<void>;
+  removeItem: (productId: string) => Promise<void>;
+  clearCart: () => Promise<void>;
+  refreshCart: () => Promise<void>;
+}
+
+const emptyCart: Cart = {
+  items: [],
+  summary: { itemCount: 0, sellerCount: 0, subtotal: 0, hasIssues: false },
+};
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+interface CartProviderProps {
+  children: ReactNode;
+}
+
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [cart, setCart] = useState<Cart>(emptyCart);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshCart = useCallback(async () => {
+    if (!isAuthenticated) {
+      setCart(guestCartToCart(readGuestCart()));
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const response = await apiClient.cart.get();
+      setCart(response.data.data || emptyCart);
+    } catch (error) {
+      console.error('Error fetching cart:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  // Reload whenever the user logs in or out (login merges the guest cart first)
+  useEffect(() => {
+    if (!isAuthLoading) {
+      refreshCart();
+    }
+  }, [isAuthLoading, refreshCart]);
+
+  const updateGuestCart = (update: (items: GuestCartItem[]) => GuestCartItem[]) => {
+    const items = update(readGuestCart());
+    writeGuestCart(items);
+    setCart(guestCartToCart(items));
+  };
+
+  const addItem = async (item: GuestCartItem) => {
+    if (!isAuthenticated) {
+      updateGuestCart(items => {
+        const existing = items.find(i => i.productId === item.productId);
+        if (existing) {
+          return items.map(i =>
+            i.productId === item.productId ? { ...i, quantity: i.quantity + item.quantity } : i
+          );
+        }
+        return [...items, item];
+      });
+      toast.success('Added to cart');
+      return;
+    }
+
+    try {
+      const response = await apiClient.cart.addItem({
+        productId: item.productId,
+        quantity: item.quantity,
+      });
+      setCart(response.data.data || emptyCart);
+      toast.success('Added to cart');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      throw error;
+    }
+  };
+
+  const updateQuantity = async (productId: string, quantity: number) => {
+    if (quantity < 1) {
+      return removeItem(productId);
+    }
+
+    if (!isAuthenticated) {
+      updateGuestCart(items =>
+        items.map(i => (i.productId === productId ? { ...i, quantity } : i))
+      );
+      return;
+    }
+
+    try {
+      const response = await apiClient.cart.updateItem(productId, { quantity });
+      setCart(response.data.data || emptyCart);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const removeItem = async (productId: string) => {
+    if (!isAuthenticated) {
+      updateGuestCart(items => items.filter(i => i.productId !== productId));
+      return;
+    }
+
+    try {
+      const response = await apiClient.cart.removeItem(productId);
+      setCart(response.data.data || emptyCart);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const clearCart = async () => {
+    if (!isAuthenticated) {
+      updateGuestCart(() => []);
+      return;
+    }
+
+    try {
+      await apiClient.cart.clear();
+      setCart(emptyCart);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const value: CartContextType = {
+    cart,
+    itemCount: cart.summary.itemCount,
+    isLoading,
+    addItem,
+    updateQuantity,
+    removeItem,
+    clearCart,
+    refreshCart,
+  };
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export const useCart = (): CartContextType => {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+};
@@ -0,0 +1,116 @@
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { ChatStreamEvent } from '../types';
+import { apiClient } from '../lib/api';
+import { useAuth } from './AuthContext';
+
+// How long to wait before reopening a stream the server closed (e.g. an expired token)
+const RECONNECT_DELAY_MS = 10000;
+
+type ChatListener = (event: ChatStreamEvent) => void;
+
+interface ChatContextType {
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+  subscribe: (listener: ChatListener) => () => void;
+}
+
+const ChatContext = createContext<ChatContextType | undefined>(undefined);
+
+interface ChatProviderProps {
+  children: ReactNode;
+}
+
+// Keeps one event stream open per logged-in tab and fans its events out to the chat screens
+export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const listeners = useRef(new Set<ChatListener>());
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      const response = await apiClient.chats.getUnreadCount();
+      setUnreadCount(response.data.data?.unreadCount || 0);
+    } catch (error) {
+      console.error('Error fetching unread messages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let reconnectTimer: number | undefined;
+    let closed = false;
+
+    const emit = (event: ChatStreamEvent) => {
+      listeners.current.forEach(listener => listener(event));
+    };
+
+    const connect = async () => {
+      source = await apiClient.chats.stream();
+      if (closed) {
+        source.close();
+        return;
+      }
+
+      // Catch up on anything sent while the stream was down
+      source.onopen = () => refreshUnreadCount();
+
+      source.addEventListener('message', (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        if (data.sender.id !== user.id) {
+          setUnreadCount(count => count + 1);
+        }
+        emit({ type: 'message', data });
+      });
+      source.addEventListener('typing', (e) => {
+        emit({ type: 'typing', data: JSON.parse((e as MessageEvent).data) });
+      });
+      source.addEventListener('read', (e) => {
+        emit({ type: 'read', data: JSON.parse((e as MessageEvent).data) });
+      });
+
+      // The browser retries dropped connections itself, but gives up on an error response
+      source.onerror = () => {
+        if (source?.readyState === EventSource.CLOSED && !closed) {
+          reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      window.clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [isAuthenticated, user?.id, refreshUnreadCount]);
+
+  const subscribe = useCallback((listener: ChatListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  const value: ChatContextType = {
+    unreadCount,
+    refreshUnreadCount,
+    subscribe,
+  };
+
+  return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
+};
+
+export const useChat = (): ChatContextType => {
+  const context = useContext(ChatContext);
+  if (context === undefined) {
+    throw new Error('useChat must be used within a ChatProvider');
+  }
+  return context;
+};
@@ -1,6 +1,98 @@
 import axios from 'axios';
 import type { AxiosInstance, AxiosResponse } from 'axios';
-import type { ApiResponse, PaginatedResponse } from '../types';
+import type {
+  ApiResponse,
+  PaginatedData,
+  PaginatedResponse,
+  AuthResponse,
+  TokenPair,
+  LoginForm,
+  RegisterForm,
+  User,
+  UserProfile,
+  UserRole,
+  UserStatus,
+  KYCStatus,
+  BlockedUser,
+  SellerStats,
+  Address,
+  KycSubmission,
+  KycVerification,
+  Storefront,
+  Category,
+  Product,
+  ProductSummary,
+  SellerProduct,
+  SellerProductStats,
+  InventoryHealth,
+  ProductDetail,
+  ProductStock,
+  SearchSuggestions,
+  ProductInput,
+  ProductFilters,
+  CategoryProduct,
+  OrderCreation,
+  BuyerOrders,
+  OrderDetail,
+  OrderStatus,
+  OrderStatusUpdate,
+  SellerOrders,
+  BulkStatusUpdate,
+  OrderCancellation,
+  DeliveryOption,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentInitialization,
+  PaymentVerification,
+  PaymentSummary,
+  SellerBalance,
+  Payout,
+  Refund,
+  RefundStatus,
+  RefundRequest,
+  RefundReview,
+  OrderRefunds,
+  CourierDelivery,
+  DeliveryJob,
+  DeliveryUpdate,
+  DeliveryStatus,
+  NotificationList,
+  Review,
+  KycDocument,
+  ReviewInput,
+  ProductReviews,
+  SellerReviews,
+  MyReviews,
+  WishlistEntry,
+  WishlistCount,
+  Cart,
+  CheckoutGroup,
+  CheckoutRequest,
+  Chat,
+  ChatSummary,
+  ChatMessage,
+  ChatMessageInput,
+  ChatOrderOption,
+  ReportInput,
+  UploadedFile,
+  KycUpload,
+  KycDocumentUrls,
+  KycAccessHistory,
+  AdminUser,
+  AdminOrder,
+  ModerationReport,
+  ReportAction,
+  ReportStatus,
+  KycApplication,
+  AdminPayouts,
+  AdminCashReconciliation,
+  CashReconciliation,
+  AdminDashboard,
+  AdminCategory,
+  CategoryInput,
+} from '../types';
+import { apiRoutes } from './apiRoutes';
+import type { ApiRoute, ApiRoutes } from './apiRoutes';
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
@@ -43,12 +135,11 @@ api.interceptors.response.use(
       try {
         const refreshToken = localStorage.getItem('refreshToken');
         if (refreshToken) {
-          const response = await authApi.post('/auth/refresh', {
-            refreshToken,
-          });
+          const response = await apiClient.auth.refreshToken({ refreshToken });
 
-          const { accessToken } = response.data.data;
+          const { accessToken, refreshToken: newRefreshToken } = response.data.data!;
           localStorage.setItem('accessToken', accessToken);
+          localStorage.setItem('refreshToken', newRefreshToken);
 
           // Retry the original request
           originalRequest.headers.Authorization = `Bearer ${accessToken}`;
@@ -87,169 +178,369 @@ const authApi: AxiosInstance = axios.create({
   },
 });
 
-// API methods
+// Fill in the :params of a manifest path
+const buildPath = (path: string, params: Record<string, string> = {}) =>
+  path.replace(/:(\w+)/g, (_, key: string) => {
+    if (params[key] === undefined) {
+      throw new Error(`Missing route param "${key}" for ${path}`);
+    }
+    return encodeURIComponent(params[key]);
+  });
+
+interface RequestOptions {
+  params?: Record<string, string>;
+  query?: object;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+// Send a request to a route from the shared manifest
+const send = <T>(client: AxiosInstance, route: ApiRoute, options: RequestOptions = {}) =>
+  client.request<T>({
+    method: route.method,
+    url: buildPath(route.path, options.params),
+    params: options.query,
+    data: options.data,
+    headers: options.headers,
+  });
+
+const uploadFile = (route: ApiRoute, file: File, type: 'image' | 'video') => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', type);
+
+  return send<ApiResponse<UploadedFile>>(api, route, {
+    data: formData,
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+};
+
+type RouteMethods = {
+  [Group in keyof ApiRoutes]: {
+    [Name in keyof ApiRoutes[Group]]: (...args: never[]) => Promise<unknown>;
+  };
+};
+
+// API methods (one per entry in the shared route manifest)
 export const apiClient = {
   // Auth endpoints
   auth: {
-    login: (data: { email: string; password: string }) =>
-      authApi.post<ApiResponse<{ user: any; accessToken: string; refreshToken: string }>>('/auth/login', data),
+    login: (data: LoginForm) =>
+      send<ApiResponse<AuthResponse>>(authApi, apiRoutes.auth.login, { data }),
     
-    register: (data: any) =>
-      authApi.post<ApiResponse<{ user: any; accessToken: string; refreshToken: string }>>('/auth/register', data),
+    register: (data: RegisterForm) =>
+      send<ApiResponse<AuthResponse>>(authApi, apiRoutes.auth.register, { data }),
     
     forgotPassword: (data: { email: string }) =>
-      authApi.post<ApiResponse<null>>('/auth/forgot-password', data),
+      send<ApiResponse<null>>(authApi, apiRoutes.auth.forgotPassword, { data }),
     
     resetPassword: (data: { token: string; password: string }) =>
-      authApi.post<ApiResponse<null>>('/auth/reset-password', data),
+      send<ApiResponse<null>>(authApi, apiRoutes.auth.resetPassword, { data }),
     
     verifyEmail: (data: { token: string }) =>
-      authApi.post<ApiResponse<null>>('/auth/verify-email', data),
+      send<ApiResponse<null>>(authApi, apiRoutes.auth.verifyEmail, { data }),
     
     refreshToken: (data: { refreshToken: string }) =>
-      authApi.post<ApiResponse<{ accessToken: string }>>('/auth/refresh', data),
+      send<ApiResponse<TokenPair>>(authApi, apiRoutes.auth.refreshToken, { data }),
+    
+    changePassword: (data: { currentPassword: string; newPassword: string }) =>
+      send<ApiResponse<null>>(api, apiRoutes.auth.changePassword, { data }),
   },
 
   // User endpoints
   users: {
     getProfile: () =>
-      api.get<ApiResponse<any>>('/users/profile'),
+      send<ApiResponse<UserProfile>>(api, apiRoutes.users.getProfile),
     
-    updateProfile: (data: any) =>
-      api.put<ApiResponse<any>>('/users/profile', data),
+    updateProfile: (data: Partial<Pick<UserProfile, 'firstName' | 'lastName' | 'phone' | 'avatar' | 'storeName' | 'bio'>>) =>
+      send<ApiResponse<Pick<UserProfile, 'id' | 'firstName' | 'lastName' | 'phone' | 'avatar' | 'storeName' | 'bio' | 'updatedAt'>>>(api, apiRoutes.users.updateProfile, { data }),
     
     getSellerStats: () =>
-      api.get<ApiResponse<any>>('/users/seller-stats'),
+      send<ApiResponse<SellerStats>>(api, apiRoutes.users.getSellerStats),
     
-    submitKYC: (data: any) =>
-      api.post<ApiResponse<any>>('/users/kyc', data),
+    getAddresses: () =>
+      send<ApiResponse<Address[]>>(api, apiRoutes.users.getAddresses),
     
-    getStorefront: (storeName: string) =>
-      api.get<ApiResponse<any>>(`/users/storefront/${storeName}`),
+    createAddress: (data: Partial<Address>) =>
+      send<ApiResponse<Address>>(api, apiRoutes.users.createAddress, { data }),
+    
+    updateAddress: (id: string, data: Partial<Address>) =>
+      send<ApiResponse<Address>>(api, apiRoutes.users.updateAddress, { params: { id }, data }),
+    
+    deleteAddress: (id: string) =>
+      send<ApiResponse<null>>(api, apiRoutes.users.deleteAddress, { params: { id } }),
+    
+    getKYCStatus: () =>
+      send<ApiResponse<KycVerification>>(api, apiRoutes.users.getKYCStatus),
+    
+    submitKYC: (data: KycSubmission) =>
+      send<ApiResponse<{ kycStatus: KYCStatus; submittedAt: string }>>(api, apiRoutes.users.submitKYC, { data }),
+    
+    getStorefront: (sellerId: string, query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<Storefront>>(api, apiRoutes.users.getStorefront, { params: { id: sellerId }, query }),
+    
+    getBlocked: () =>
+      send<ApiResponse<{ users: BlockedUser[] }>>(api, apiRoutes.users.getBlocked),
+    
+    blockUser: (id: string) =>
+      send<ApiResponse<null>>(api, apiRoutes.users.blockUser, { params: { id } }),
+    
+    unblockUser: (id: string) =>
+      send<ApiResponse<null>>(api, apiRoutes.users.unblockUser, { params: { id } }),
   },
 
   // Product endpoints
   products: {
-    getAll: (params?: any) =>
-      api.get<PaginatedResponse<any>>('/products', { params }),
+    getAll: (query?: ProductFilters) =>
+      send<ApiResponse<PaginatedData<'products', ProductSummary>>>(api, apiRoutes.products.getAll, { query }),
     
     getById: (id: string) =>
-      api.get<ApiResponse<any>>(`/products/${id}`),
+      send<ApiResponse<ProductDetail>>(api, apiRoutes.products.getById, { params: { id } }),
+    
+    getStock: (id: string) =>
+      send<ApiResponse<ProductStock>>(api, apiRoutes.products.getStock, { params: { id } }),
+    
+    getSuggestions: (q: string) =>
+      send<ApiResponse<SearchSuggestions>>(api, apiRoutes.products.getSuggestions, { query: { q } }),
     
-    getBySeller: (sellerId: string, params?: any) =>
-      api.get<PaginatedResponse<any>>(`/products/seller/${sellerId}`, { params }),
+    clearRecentSearches: () =>
+      send<ApiResponse<null>>(api, apiRoutes.products.clearRecentSearches),
     
-    getByCategory: (categoryId: string, params?: any) =>
-      api.get<PaginatedResponse<any>>(`/products/category/${categoryId}`, { params }),
+    getMyProducts: (query?: { page?: number; limit?: number; status?: 'published' | 'draft' }) =>
+      send<ApiResponse<PaginatedData<'products', SellerProduct> & { stats: SellerProductStats }>>(api, apiRoutes.products.getMyProducts, { query }),
     
-    create: (data: any) =>
-      api.post<ApiResponse<any>>('/products', data),
+    getInventoryHealth: () =>
+      send<ApiResponse<InventoryHealth>>(api, apiRoutes.products.getInventoryHealth),
     
-    update: (id: string, data: any) =>
-      api.put<ApiResponse<any>>(`/products/${id}`, data),
+    getByCategory: (categoryId: string, query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<PaginatedData<'products', CategoryProduct> & { category: Pick<Category, 'id' | 'name' | 'description'> }>>(api, apiRoutes.products.getByCategory, { params: { id: categoryId }, query }),
+    
+    create: (data: ProductInput) =>
+      send<ApiResponse<Pick<Product, 'id' | 'title' | 'price' | 'quantity' | 'isPublished' | 'createdAt'>>>(api, apiRoutes.products.create, { data }),
+    
+    update: (id: string, data: Partial<ProductInput>) =>
+      send<ApiResponse<Pick<Product, 'id' | 'title' | 'price' | 'quantity' | 'lowStockThreshold' | 'updatedAt'>>>(api, apiRoutes.products.update, { params: { id }, data }),
     
     delete: (id: string) =>
-      api.delete<ApiResponse<null>>(`/products/${id}`),
+      send<ApiResponse<null>>(api, apiRoutes.products.delete, { params: { id } }),
   },
 
   // Order endpoints
   orders: {
-    getAll: (params?: any) =>
-      api.get<PaginatedResponse<any>>('/orders', { params }),
+    getAll: (query?: { page?: number; limit?: number; status?: OrderStatus }) =>
+      send<ApiResponse<BuyerOrders>>(api, apiRoutes.orders.getAll, { query }),
     
     getById: (id: string) =>
-      api.get<ApiResponse<any>>(`/orders/${id}`),
+      send<ApiResponse<OrderDetail>>(api, apiRoutes.orders.getById, { params: { id } }),
+    
+    create: (data: {
+      items: Array<{ productId: string; quantity: number }>;
+      shippingAddressId: string;
+      deliveryOption?: DeliveryOption;
+      paymentMethod?: PaymentMethod;
+      notes?: string;
+    }) =>
+      send<ApiResponse<OrderCreation>>(api, apiRoutes.orders.create, { data }),
+    
+    checkout: (data: CheckoutRequest) =>
+      send<ApiResponse<CheckoutGroup>>(api, apiRoutes.orders.checkout, { data }),
+    
+    getCheckoutGroup: (groupId: string) =>
+      send<ApiResponse<CheckoutGroup>>(api, apiRoutes.orders.getCheckoutGroup, { params: { groupId } }),
     
-    create: (data: any) =>
-      api.post<ApiResponse<any>>('/orders', data),
+    updateStatus: (id: string, data: { status: OrderStatus; trackingNumber?: string; reason?: string }) =>
+      send<ApiResponse<OrderStatusUpdate>>(api, apiRoutes.orders.updateStatus, { params: { id }, data }),
     
-    updateStatus: (id: string, data: { status: string }) =>
-      api.put<ApiResponse<any>>(`/orders/${id}/status`, data),
+    getSellerOrders: (query?: { page?: number; limit?: number; status?: OrderStatus; search?: string }) =>
+      send<ApiResponse<SellerOrders>>(api, apiRoutes.orders.getSellerOrders, { query }),
+    
+    bulkUpdateStatus: (data: {
+      orderIds: string[];
+      status: OrderStatus;
+      trackingNumbers?: Record<string, string>;
+      reason?: string;
+    }) =>
+      send<ApiResponse<BulkStatusUpdate>>(api, apiRoutes.orders.bulkUpdateStatus, { data }),
     
     cancel: (id: string, data: { reason: string }) =>
-      api.put<ApiResponse<any>>(`/orders/${id}/cancel`, data),
+      send<ApiResponse<OrderCancellation>>(api, apiRoutes.orders.cancel, { params: { id }, data }),
   },
 
   // Payment endpoints
   payments: {
-    initialize: (data: any) =>
-      api.post<ApiResponse<any>>('/payments/initialize', data),
+    initialize: (data: { orderId: string; paymentMethod?: PaymentMethod }) =>
+      send<ApiResponse<PaymentInitialization>>(api, apiRoutes.payments.initialize, { data }),
+    
+    verify: (transactionId: string) =>
+      send<ApiResponse<PaymentVerification>>(api, apiRoutes.payments.verify, { params: { transactionId } }),
+    
+    getByOrder: (orderId: string) =>
+      send<ApiResponse<PaymentSummary>>(api, apiRoutes.payments.getByOrder, { params: { orderId } }),
+    
+    getSellerBalance: () =>
+      send<ApiResponse<SellerBalance>>(api, apiRoutes.payments.getSellerBalance),
+  },
+
+  // Refund endpoints
+  refunds: {
+    request: (data: RefundRequest) =>
+      send<ApiResponse<Refund>>(api, apiRoutes.refunds.request, { data }),
     
-    verify: (data: any) =>
-      api.post<ApiResponse<any>>('/payments/verify', data),
+    getAll: (query?: { page?: number; limit?: number; status?: RefundStatus }) =>
+      send<ApiResponse<PaginatedData<'refunds', RefundReview>>>(api, apiRoutes.refunds.getAll, { query }),
     
     getByOrder: (orderId: string) =>
-      api.get<ApiResponse<any>>(`/payments/order/${orderId}`),
+      send<ApiResponse<OrderRefunds>>(api, apiRoutes.refunds.getByOrder, { params: { orderId } }),
+    
+    approve: (id: string, data: { restock?: boolean; note?: string }) =>
+      send<ApiResponse<Refund>>(api, apiRoutes.refunds.approve, { params: { id }, data }),
+    
+    reject: (id: string, data: { note: string }) =>
+      send<ApiResponse<Refund>>(api, apiRoutes.refunds.reject, { params: { id }, data }),
   },
 
   // Review endpoints
   reviews: {
-    create: (data: any) =>
-      api.post<ApiResponse<any>>('/reviews', data),
+    create: (data: ReviewInput) =>
+      send<ApiResponse<Pick<Review, 'id' | 'rating' | 'comment' | 'createdAt'>>>(api, apiRoutes.reviews.create, { data }),
+    
+    getByProduct: (productId: string, query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<ProductReviews>>(api, apiRoutes.reviews.getByProduct, { params: { productId }, query }),
     
-    getByProduct: (productId: string, params?: any) =>
-      api.get<PaginatedResponse<any>>(`/reviews/product/${productId}`, { params }),
+    getBySeller: (sellerId: string, query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<SellerReviews>>(api, apiRoutes.reviews.getBySeller, { params: { sellerId }, query }),
     
-    getBySeller: (sellerId: string, params?: any) =>
-      api.get<PaginatedResponse<any>>(`/reviews/seller/${sellerId}`, { params }),
+    getMine: (query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<MyReviews>>(api, apiRoutes.reviews.getMine, { query }),
     
-    update: (id: string, data: any) =>
-      api.put<ApiResponse<any>>(`/reviews/${id}`, data),
+    update: (id: string, data: Partial<Pick<ReviewInput, 'rating' | 'comment' | 'images'>>) =>
+      send<ApiResponse<Pick<Review, 'id' | 'rating' | 'comment' | 'updatedAt'>>>(api, apiRoutes.reviews.update, { params: { id }, data }),
     
     delete: (id: string) =>
-      api.delete<ApiResponse<null>>(`/reviews/${id}`),
+      send<ApiResponse<null>>(api, apiRoutes.reviews.delete, { params: { id } }),
   },
 
   // Wishlist endpoints
   wishlist: {
-    getAll: () =>
-      api.get<ApiResponse<any[]>>('/wishlist'),
+    getAll: (query?: { page?: number; limit?: number }) =>
+      send<PaginatedResponse<WishlistEntry>>(api, apiRoutes.wishlist.getAll, { query }),
+    
+    getCount: () =>
+      send<ApiResponse<WishlistCount>>(api, apiRoutes.wishlist.getCount),
     
     add: (data: { productId: string }) =>
-      api.post<ApiResponse<any>>('/wishlist', data),
+      send<ApiResponse<{ id: string; productId: string; addedAt: string }>>(api, apiRoutes.wishlist.add, { data }),
     
     remove: (productId: string) =>
-      api.delete<ApiResponse<null>>(`/wishlist/${productId}`),
+      send<ApiResponse<null>>(api, apiRoutes.wishlist.remove, { params: { productId } }),
+  },
+
+  // Cart endpoints
+  cart: {
+    get: () =>
+      send<ApiResponse<Cart>>(api, apiRoutes.cart.get),
+    
+    addItem: (data: { productId: string; quantity: number }) =>
+      send<ApiResponse<Cart>>(api, apiRoutes.cart.addItem, { data }),
+    
+    updateItem: (productId: string, data: { quantity: number }) =>
+      send<ApiResponse<Cart>>(api, apiRoutes.cart.updateItem, { params: { productId }, data }),
+    
+    removeItem: (productId: string) =>
+      send<ApiResponse<Cart>>(api, apiRoutes.cart.removeItem, { params: { productId } }),
+    
+    clear: () =>
+      send<ApiResponse<null>>(api, apiRoutes.cart.clear),
+    
+    merge: (data: { items: Array<{ productId: string; quantity: number }> }) =>
+      send<ApiResponse<Cart & { adjustments: Array<{ productId: string; reason: string }> }>>(api, apiRoutes.cart.merge, { data }),
   },
 
   // Chat endpoints
   chats: {
-    getAll: () =>
-      api.get<ApiResponse<any[]>>('/chats'),
+    getAll: (query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<PaginatedData<'chats', ChatSummary>>>(api, apiRoutes.chats.getAll, { query }),
     
     getById: (id: string) =>
-      api.get<ApiResponse<any>>(`/chats/${id}`),
+      send<ApiResponse<ChatSummary>>(api, apiRoutes.chats.getById, { params: { id } }),
+    
+    create: (data: { participantId: string; productId?: string }) =>
+      send<ApiResponse<Pick<Chat, 'id' | 'status' | 'createdAt'> & { participants: Array<Pick<User, 'id' | 'firstName' | 'lastName' | 'avatar'>> }>>(api, apiRoutes.chats.create, { data }),
+    
+    getMessages: (chatId: string, query?: { page?: number; limit?: number }) =>
+      send<ApiResponse<PaginatedData<'messages', ChatMessage>>>(api, apiRoutes.chats.getMessages, { params: { id: chatId }, query }),
+    
+    sendMessage: (chatId: string, data: ChatMessageInput) =>
+      send<ApiResponse<ChatMessage>>(api, apiRoutes.chats.sendMessage, { params: { id: chatId }, data }),
     
-    create: (data: { participantId: string }) =>
-      api.post<ApiResponse<any>>('/chats', data),
+    getOrders: (chatId: string) =>
+      send<ApiResponse<{ orders: ChatOrderOption[] }>>(api, apiRoutes.chats.getOrders, { params: { id: chatId } }),
     
-    getMessages: (chatId: string, params?: any) =>
-      api.get<PaginatedResponse<any>>(`/chats/${chatId}/messages`, { params }),
+    markRead: (chatId: string) =>
+      send<ApiResponse<null>>(api, apiRoutes.chats.markRead, { params: { id: chatId } }),
     
-    sendMessage: (chatId: string, data: any) =>
-      api.post<ApiResponse<any>>(`/chats/${chatId}/messages`, data),
+    sendTyping: (chatId: string, isTyping: boolean) =>
+      send<ApiResponse<null>>(api, apiRoutes.chats.sendTyping, { params: { id: chatId }, data: { isTyping } }),
+    
+    getUnreadCount: () =>
+      send<ApiResponse<{ unreadCount: number }>>(api, apiRoutes.chats.getUnreadCount),
+    
+    // EventSource can't send headers, so the access token goes in the query string
+    stream: async () =>
+      new EventSource(
+        `${api.defaults.baseURL}${apiRoutes.chats.stream.path}?token=${encodeURIComponent(localStorage.getItem('accessToken') || '')}`
+      ),
+  },
+
+  // Report endpoints
+  reports: {
+    create: (data: ReportInput) =>
+      send<ApiResponse<{ id: string; category: ReportInput['category']; status: ReportStatus; createdAt: string }>>(api, apiRoutes.reports.create, { data }),
+  },
+
+  // Delivery partner endpoints
+  delivery: {
+    getJobs: (query?: { page?: number; limit?: number; city?: string }) =>
+      send<ApiResponse<PaginatedData<'jobs', DeliveryJob>>>(api, apiRoutes.delivery.getJobs, { query }),
+    
+    acceptJob: (orderId: string) =>
+      send<ApiResponse<CourierDelivery>>(api, apiRoutes.delivery.acceptJob, { params: { orderId } }),
+    
+    getAssignments: (query?: { status?: DeliveryStatus }) =>
+      send<ApiResponse<{ assignments: CourierDelivery[] }>>(api, apiRoutes.delivery.getAssignments, { query }),
+    
+    updateStatus: (id: string, data: { status: DeliveryStatus; cashCollected?: number; notes?: string }) =>
+      send<ApiResponse<DeliveryUpdate>>(api, apiRoutes.delivery.updateStatus, { params: { id }, data }),
+  },
+
+  // Notification endpoints
+  notifications: {
+    getAll: (query?: { page?: number; limit?: number; unread?: boolean }) =>
+      send<ApiResponse<NotificationList>>(api, apiRoutes.notifications.getAll, { query }),
+    
+    markAllRead: () =>
+      send<ApiResponse<{ count: number }>>(api, apiRoutes.notifications.markAllRead),
+    
+    markRead: (id: string) =>
+      send<ApiResponse<null>>(api, apiRoutes.notifications.markRead, { params: { id } }),
   },
 
   // Upload endpoints
   upload: {
-    image: (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('type', 'image');
-      
-      return api.post<ApiResponse<{ url: string }>>('/upload/image', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-    },
+    image: (file: File) =>
+      uploadFile(apiRoutes.upload.image, file, 'image'),
+    
+    video: (file: File) =>
+      uploadFile(apiRoutes.upload.video, file, 'video'),
     
-    video: (file: File) => {
+    kyc: (file: File) => {
       const formData = new FormData();
       formData.append('file', file);
-      formData.append('type', 'video');
-      
-      return api.post<ApiResponse<{ url: string }>>('/upload/video', formData, {
+
+      return send<ApiResponse<KycUpload>>(api, apiRoutes.upload.kyc, {
+        data: formData,
         headers: {
           'Content-Type': 'multipart/form-data',
         },
@@ -259,30 +550,68 @@ export const apiClient = {
 
   // Admin endpoints
   admin: {
-    getUsers: (params?: any) =>
-      api.get<PaginatedResponse<any>>('/admin/users', { params }),
+    getUsers: (query?: { page?: number; limit?: number; role?: UserRole; status?: UserStatus; search?: string }) =>
+      send<ApiResponse<PaginatedData<'users', AdminUser>>>(api, apiRoutes.admin.getUsers, { query }),
+    
+    updateUserStatus: (id: string, data: { status: Extract<UserStatus, 'ACTIVE' | 'SUSPENDED'> }) =>
+      send<ApiResponse<Pick<User, 'id' | 'email' | 'status'>>>(api, apiRoutes.admin.updateUserStatus, { params: { id }, data }),
     
-    suspendUser: (id: string) =>
-      api.put<ApiResponse<null>>(`/admin/users/${id}/suspend`),
+    getKYCApplications: (query?: { page?: number; limit?: number; status?: KYCStatus }) =>
+      send<ApiResponse<PaginatedData<'applications', KycApplication>>>(api, apiRoutes.admin.getKYCApplications, { query }),
     
-    activateUser: (id: string) =>
-      api.put<ApiResponse<null>>(`/admin/users/${id}/activate`),
+    getKYCDocuments: (id: string) =>
+      send<ApiResponse<KycDocumentUrls>>(api, apiRoutes.admin.getKYCDocuments, { params: { id } }),
     
-    getKYCApplications: (params?: any) =>
-      api.get<PaginatedResponse<any>>('/admin/kyc', { params }),
+    getKYCAccessLog: (id: string) =>
+      send<ApiResponse<KycAccessHistory>>(api, apiRoutes.admin.getKYCAccessLog, { params: { id } }),
     
-    approveKYC: (id: string) =>
-      api.put<ApiResponse<null>>(`/admin/kyc/${id}/approve`),
+    reviewKYC: (id: string, data: { status: Extract<KYCStatus, 'APPROVED' | 'REJECTED'>; rejectionReason?: string }) =>
+      send<ApiResponse<Pick<KycDocument, 'id' | 'status' | 'reviewedAt' | 'rejectionReason'>>>(api, apiRoutes.admin.reviewKYC, { params: { id }, data }),
     
-    rejectKYC: (id: string, data: { reason: string }) =>
-      api.put<ApiResponse<null>>(`/admin/kyc/${id}/reject`, data),
+    getOrders: (query?: {
+      page?: number;
+      limit?: number;
+      status?: OrderStatus;
+      paymentStatus?: PaymentStatus;
+      dateFrom?: string;
+      dateTo?: string;
+      search?: string;
+    }) =>
+      send<ApiResponse<PaginatedData<'orders', AdminOrder>>>(api, apiRoutes.admin.getOrders, { query }),
     
-    getOrders: (params?: any) =>
-      api.get<PaginatedResponse<any>>('/admin/orders', { params }),
+    getDashboard: () =>
+      send<ApiResponse<AdminDashboard>>(api, apiRoutes.admin.getDashboard),
     
-    getAnalytics: () =>
-      api.get<ApiResponse<any>>('/admin/analytics'),
+    getCategories: () =>
+      send<ApiResponse<AdminCategory[]>>(api, apiRoutes.admin.getCategories),
+    
+    createCategory: (data: CategoryInput & { name: string }) =>
+      send<ApiResponse<Category>>(api, apiRoutes.admin.createCategory, { data }),
+    
+    updateCategory: (id: string, data: CategoryInput) =>
+      send<ApiResponse<Category>>(api, apiRoutes.admin.updateCategory, { params: { id }, data }),
+    
+    deleteCategory: (id: string) =>
+      send<ApiResponse<null>>(api, apiRoutes.admin.deleteCategory, { params: { id } }),
+    
+    getPayouts: () =>
+      send<ApiResponse<AdminPayouts>>(api, apiRoutes.admin.getPayouts),
+    
+    createPayout: (data: { sellerId: string; reference?: string }) =>
+      send<ApiResponse<Payout>>(api, apiRoutes.admin.createPayout, { data }),
+    
+    getCashReconciliation: (query?: { date?: string }) =>
+      send<ApiResponse<AdminCashReconciliation>>(api, apiRoutes.admin.getCashReconciliation, { query }),
+    
+    reconcileCash: (data: { partnerId: string; date: string; receivedAmount: number; notes?: string }) =>
+      send<ApiResponse<CashReconciliation>>(api, apiRoutes.admin.reconcileCash, { data }),
+    
+    getReports: (query?: { page?: number; limit?: number; status?: ReportStatus }) =>
+      send<ApiResponse<PaginatedData<'reports', ModerationReport>>>(api, apiRoutes.admin.getReports, { query }),
+    
+    resolveReport: (id: string, data: { action: ReportAction; note?: string }) =>
+      send<ApiResponse<{ id: string; status: ReportStatus }>>(api, apiRoutes.admin.resolveReport, { params: { id }, data }),
   },
-};
+} satisfies RouteMethods;
 
 export default api;
@@ -0,0 +1,151 @@
+// This file is generated from backend/src/config/apiRoutes.js - do not edit it by hand.
+// Regenerate with `npm run types:generate` in backend/.
+
+import type { UserRole } from '../types/prisma';
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface ApiRoute {
+  method: ApiMethod;
+  path: string;
+  role?: UserRole;
+}
+
+export const apiRoutes = {
+  auth: {
+    login: { method: 'POST', path: '/auth/login' },
+    register: { method: 'POST', path: '/auth/register' },
+    forgotPassword: { method: 'POST', path: '/auth/forgot-password' },
+    resetPassword: { method: 'POST', path: '/auth/reset-password' },
+    verifyEmail: { method: 'POST', path: '/auth/verify-email' },
+    refreshToken: { method: 'POST', path: '/auth/refresh-token' },
+    changePassword: { method: 'POST', path: '/auth/change-password', role: 'BUYER' },
+  },
+  users: {
+    getProfile: { method: 'GET', path: '/users/profile', role: 'BUYER' },
+    updateProfile: { method: 'PUT', path: '/users/profile', role: 'BUYER' },
+    getSellerStats: { method: 'GET', path: '/users/seller-stats', role: 'SELLER' },
+    getAddresses: { method: 'GET', path: '/users/addresses', role: 'BUYER' },
+    createAddress: { method: 'POST', path: '/users/addresses', role: 'BUYER' },
+    updateAddress: { method: 'PUT', path: '/users/addresses/:id', role: 'BUYER' },
+    deleteAddress: { method: 'DELETE', path: '/users/addresses/:id', role: 'BUYER' },
+    getKYCStatus: { method: 'GET', path: '/users/kyc-verification', role: 'SELLER' },
+    submitKYC: { method: 'POST', path: '/users/kyc-verification', role: 'SELLER' },
+    getStorefront: { method: 'GET', path: '/users/:id/storefront' },
+    getBlocked: { method: 'GET', path: '/users/blocked', role: 'BUYER' },
+    blockUser: { method: 'POST', path: '/users/:id/block', role: 'BUYER' },
+    unblockUser: { method: 'DELETE', path: '/users/:id/block', role: 'BUYER' },
+  },
+  products: {
+    getAll: { method: 'GET', path: '/products' },
+    getById: { method: 'GET', path: '/products/:id' },
+    getStock: { method: 'GET', path: '/products/:id/stock' },
+    getSuggestions: { method: 'GET', path: '/products/suggestions' },
+    clearRecentSearches: { method: 'DELETE', path: '/products/recent-searches', role: 'BUYER' },
+    getMyProducts: { method: 'GET', path: '/products/seller/my-products', role: 'SELLER' },
+    getInventoryHealth: { method: 'GET', path: '/products/seller/inventory-health', role: 'SELLER' },
+    getByCategory: { method: 'GET', path: '/products/categories/:id/products' },
+    create: { method: 'POST', path: '/products', role: 'SELLER' },
+    update: { method: 'PUT', path: '/products/:id', role: 'SELLER' },
+    delete: { method: 'DELETE', path: '/products/:id', role: 'SELLER' },
+  },
+  orders: {
+    getAll: { method: 'GET', path: '/orders', role: 'BUYER' },
+    getById: { method: 'GET', path: '/orders/:id', role: 'BUYER' },
+    create: { method: 'POST', path: '/orders', role: 'BUYER' },
+    checkout: { method: 'POST', path: '/orders/checkout', role: 'BUYER' },
+    getCheckoutGroup: { method: 'GET', path: '/orders/checkout/:groupId', role: 'BUYER' },
+    updateStatus: { method: 'PUT', path: '/orders/:id/status', role: 'SELLER' },
+    getSellerOrders: { method: 'GET', path: '/orders/seller/my-orders', role: 'SELLER' },
+    bulkUpdateStatus: { method: 'PUT', path: '/orders/seller/bulk-status', role: 'SELLER' },
+    cancel: { method: 'POST', path: '/orders/:id/cancel', role: 'BUYER' },
+  },
+  payments: {
+    initialize: { method: 'POST', path: '/payments/initialize', role: 'BUYER' },
+    verify: { method: 'POST', path: '/payments/verify/:transactionId', role: 'BUYER' },
+    getByOrder: { method: 'GET', path: '/payments/order/:orderId', role: 'BUYER' },
+    getSellerBalance: { method: 'GET', path: '/payments/seller/balance', role: 'SELLER' },
+  },
+  refunds: {
+    request: { method: 'POST', path: '/refunds', role: 'BUYER' },
+    getAll: { method: 'GET', path: '/refunds', role: 'SELLER' },
+    getByOrder: { method: 'GET', path: '/refunds/order/:orderId', role: 'BUYER' },
+    approve: { method: 'PUT', path: '/refunds/:id/approve', role: 'SELLER' },
+    reject: { method: 'PUT', path: '/refunds/:id/reject', role: 'SELLER' },
+  },
+  reviews: {
+    create: { method: 'POST', path: '/reviews', role: 'BUYER' },
+    getByProduct: { method: 'GET', path: '/reviews/product/:productId' },
+    getBySeller: { method: 'GET', path: '/reviews/seller/:sellerId' },
+    getMine: { method: 'GET', path: '/reviews/my-reviews', role: 'BUYER' },
+    update: { method: 'PUT', path: '/reviews/:id', role: 'BUYER' },
+    delete: { method: 'DELETE', path: '/reviews/:id', role: 'BUYER' },
+  },
+  wishlist: {
+    getAll: { method: 'GET', path: '/wishlist', role: 'BUYER' },
+    getCount: { method: 'GET', path: '/wishlist/count', role: 'BUYER' },
+    add: { method: 'POST', path: '/wishlist', role: 'BUYER' },
+    remove: { method: 'DELETE', path: '/wishlist/:productId', role: 'BUYER' },
+  },
+  cart: {
+    get: { method: 'GET', path: '/cart', role: 'BUYER' },
+    addItem: { method: 'POST', path: '/cart/items', role: 'BUYER' },
+    updateItem: { method: 'PUT', path: '/cart/items/:productId', role: 'BUYER' },
+    removeItem: { method: 'DELETE', path: '/cart/items/:productId', role: 'BUYER' },
+    clear: { method: 'DELETE', path: '/cart', role: 'BUYER' },
+    merge: { method: 'POST', path: '/cart/merge', role: 'BUYER' },
+  },
+  chats: {
+    getAll: { method: 'GET', path: '/chats', role: 'BUYER' },
+    getById: { method: 'GET', path: '/chats/:id', role: 'BUYER' },
+    create: { method: 'POST', path: '/chats', role: 'BUYER' },
+    getMessages: { method: 'GET', path: '/chats/:id/messages', role: 'BUYER' },
+    sendMessage: { method: 'POST', path: '/chats/:id/messages', role: 'BUYER' },
+    getOrders: { method: 'GET', path: '/chats/:id/orders', role: 'BUYER' },
+    markRead: { method: 'POST', path: '/chats/:id/read', role: 'BUYER' },
+    sendTyping: { method: 'POST', path: '/chats/:id/typing', role: 'BUYER' },
+    getUnreadCount: { method: 'GET', path: '/chats/unread-count', role: 'BUYER' },
+    stream: { method: 'GET', path: '/chats/stream', role: 'BUYER' },
+  },
+  reports: {
+    create: { method: 'POST', path: '/reports', role: 'BUYER' },
+  },
+  delivery: {
+    getJobs: { method: 'GET', path: '/delivery/jobs', role: 'DELIVERY_PARTNER' },
+    acceptJob: { method: 'POST', path: '/delivery/jobs/:orderId/accept', role: 'DELIVERY_PARTNER' },
+    getAssignments: { method: 'GET', path: '/delivery/assignments', role: 'DELIVERY_PARTNER' },
+    updateStatus: { method: 'PUT', path: '/delivery/assignments/:id/status', role: 'DELIVERY_PARTNER' },
+  },
+  notifications: {
+    getAll: { method: 'GET', path: '/notifications', role: 'BUYER' },
+    markAllRead: { method: 'PUT', path: '/notifications/read-all', role: 'BUYER' },
+    markRead: { method: 'PUT', path: '/notifications/:id/read', role: 'BUYER' },
+  },
+  upload: {
+    image: { method: 'POST', path: '/upload/image', role: 'BUYER' },
+    video: { method: 'POST', path: '/upload/video', role: 'BUYER' },
+    kyc: { method: 'POST', path: '/upload/kyc', role: 'SELLER' },
+  },
+  admin: {
+    getUsers: { method: 'GET', path: '/admin/users', role: 'ADMIN' },
+    updateUserStatus: { method: 'PUT', path: '/admin/users/:id/status', role: 'ADMIN' },
+    getKYCApplications: { method: 'GET', path: '/admin/kyc-applications', role: 'ADMIN' },
+    getKYCDocuments: { method: 'GET', path: '/admin/kyc/:id/documents', role: 'ADMIN' },
+    getKYCAccessLog: { method: 'GET', path: '/admin/kyc/:id/access-log', role: 'ADMIN' },
+    reviewKYC: { method: 'PUT', path: '/admin/kyc/:id/status', role: 'ADMIN' },
+    getOrders: { method: 'GET', path: '/admin/orders', role: 'ADMIN' },
+    getDashboard: { method: 'GET', path: '/admin/dashboard', role: 'ADMIN' },
+    getCategories: { method: 'GET', path: '/admin/categories', role: 'ADMIN' },
+    createCategory: { method: 'POST', path: '/admin/categories', role: 'ADMIN' },
+    updateCategory: { method: 'PUT', path: '/admin/categories/:id', role: 'ADMIN' },
+    deleteCategory: { method: 'DELETE', path: '/admin/categories/:id', role: 'ADMIN' },
+    getPayouts: { method: 'GET', path: '/admin/payouts', role: 'ADMIN' },
+    createPayout: { method: 'POST', path: '/admin/payouts', role: 'ADMIN' },
+    getCashReconciliation: { method: 'GET', path: '/admin/cash-reconciliation', role: 'ADMIN' },
+    reconcileCash: { method: 'POST', path: '/admin/cash-reconciliation', role: 'ADMIN' },
+    getReports: { method: 'GET', path: '/admin/reports', role: 'ADMIN' },
+    resolveReport: { method: 'PUT', path: '/admin/reports/:id', role: 'ADMIN' },
+  },
+} as const satisfies Record<string, Record<string, ApiRoute>>;
+
+export type ApiRoutes = typeof apiRoutes;
@@ -0,0 +1,77 @@
+import type { Cart, CartItem } from '../types';
+
+// Anonymous cart kept in localStorage until the buyer logs in
+const GUEST_CART_KEY = 'cart';
+
+export interface GuestCartItem {
+  productId: string;
+  quantity: number;
+  title: string;
+  price: number;
+  image?: string | null;
+  sellerId: string;
+  storeName: string;
+  availableQuantity?: number | null;
+}
+
+// Stored carts may come from an older version of the app, so check each line
+function isGuestCartItem(value: unknown): value is GuestCartItem {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as Record<string, unknown>;
+  return typeof item.productId === 'string'
+    && item.productId !== ''
+    && typeof item.quantity === 'number'
+    && item.quantity > 0
+    && typeof item.price === 'number'
+    && typeof item.title === 'string'
+    && typeof item.sellerId === 'string'
+    && typeof item.storeName === 'string';
+}
+
+export function readGuestCart(): GuestCartItem[] {
+  try {
+    const items: unknown = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    return Array.isArray(items) ? items.filter(isGuestCartItem) : [];
+  } catch (_) {
+    return [];
+  }
+}
+
+export function writeGuestCart(items: GuestCartItem[]): void {
+  localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+}
+
+export function clearGuestCart(): void {
+  localStorage.removeItem(GUEST_CART_KEY);
+}
+
+export function guestCartToCart(items: GuestCartItem[]): Cart {
+  const cartItems: CartItem[] = items.map(item => ({
+    id: item.productId,
+    productId: item.productId,
+    quantity: item.quantity,
+    price: item.price,
+    availableQuantity: item.availableQuantity ?? null,
+    issues: [],
+    product: {
+      id: item.productId,
+      title: item.title,
+      price: item.price,
+      image: item.image ?? null,
+    },
+    seller: {
+      id: item.sellerId,
+      storeName: item.storeName,
+    },
+  }));
+
+  return {
+    items: cartItems,
+    summary: {
+      itemCount: cartItems.reduce((sum, item) => sum + item.quantity, 0),
+      sellerCount: new Set(cartItems.map(item => item.seller.id)).size,
+      subtotal: cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
+      hasIssues: false,
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// Helpers shared by the inbox and the places a conversation can be started from
+import axios from 'axios';
+import { apiClient } from './api';
+import type { MessageType } from '../types';
+
+// How long a typing indicator stays up without another typing event
+export const TYPING_TIMEOUT_MS = 4000;
+
+// One-line summary of a message for the inbox list
+export const getMessagePreview = (message: { type: MessageType; content: string }): string => {
+  if (message.content) return message.content;
+  if (message.type === 'IMAGE') return 'Sent a photo';
+  if (message.type === 'ORDER_UPDATE') return 'Shared an order';
+  return '';
+};
+
+// The user's chat with another user, created on first contact. Passing a
+// product moves the conversation on to that product.
+export const openChatWith = async (participantId: string, productId?: string): Promise<string> => {
+  try {
+    const response = await apiClient.chats.create({ participantId, productId });
+    return response.data.data!.id;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 409) {
+      return error.response.data.data.chatId;
+    }
+    throw error;
+  }
+};
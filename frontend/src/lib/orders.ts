@@ -0,0 +1,220 @@
+// Display helpers shared by the checkout and order pages
+import type {
+  DeliveryOption,
+  DeliveryStatus,
+  EscrowStatus,
+  OrderDetail,
+  OrderStatus,
+  PaymentMethod,
+  PaymentStatus,
+  RefundStatus,
+} from '../types';
+
+// Delivery options offered to buyers at checkout (fees mirror the backend calculateShipping)
+export const checkoutDeliveryOptions: Array<{
+  value: DeliveryOption;
+  label: string;
+  description: string;
+  fee: number;
+}> = [
+  {
+    value: 'SELLER_DELIVERY',
+    label: 'Seller Delivery',
+    description: 'The seller delivers to your address',
+    fee: 0,
+  },
+  {
+    value: 'PLATFORM_DELIVERY',
+    label: 'Balmuya Delivery',
+    description: 'Delivered by a Balmuya courier',
+    fee: 50,
+  },
+  {
+    value: 'BUYER_PICKUP',
+    label: 'Pickup',
+    description: 'Collect the order from the seller',
+    fee: 0,
+  },
+];
+
+export function getShippingFee(deliveryOption: DeliveryOption): number {
+  return checkoutDeliveryOptions.find(option => option.value === deliveryOption)?.fee ?? 0;
+}
+
+export function getDeliveryOptionLabel(deliveryOption: DeliveryOption): string {
+  return checkoutDeliveryOptions.find(option => option.value === deliveryOption)?.label
+    ?? deliveryOption.replace(/_/g, ' ').toLowerCase().replace(/^\w/, c => c.toUpperCase());
+}
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  CHAPA: 'Chapa',
+  CBE_BIRR: 'CBE Birr',
+  STRIPE: 'Card (Stripe)',
+  CASH_ON_DELIVERY: 'Cash on Delivery',
+};
+
+// Badge colours for order and payment statuses
+export const orderStatusStyles: Record<OrderStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  CONFIRMED: 'bg-blue-100 text-blue-800',
+  PROCESSING: 'bg-indigo-100 text-indigo-800',
+  SHIPPED: 'bg-purple-100 text-purple-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+  REFUNDED: 'bg-neutral-100 text-neutral-800',
+};
+
+export const paymentStatusStyles: Record<PaymentStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  PROCESSING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  REFUNDED: 'bg-neutral-100 text-neutral-800',
+};
+
+export const escrowStatusStyles: Record<EscrowStatus, string> = {
+  HELD: 'bg-yellow-100 text-yellow-800',
+  RELEASED: 'bg-green-100 text-green-800',
+  PAID_OUT: 'bg-blue-100 text-blue-800',
+  REFUNDED: 'bg-neutral-100 text-neutral-800',
+};
+
+export const refundStatusStyles: Record<RefundStatus, string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+// Steps a delivered order passes through, in order, for progress bars
+export const orderProgressSteps: OrderStatus[] = ['PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'];
+
+// Share of the progress steps an order has reached (cancelled/refunded orders report 0)
+export function getOrderProgress(status: OrderStatus): number {
+  const index = orderProgressSteps.indexOf(status);
+  return index < 0 ? 0 : index / (orderProgressSteps.length - 1);
+}
+
+// The fulfilment step a seller takes next from each order status
+export const sellerNextSteps: Partial<Record<OrderStatus, { status: OrderStatus; label: string }>> = {
+  PENDING: { status: 'CONFIRMED', label: 'Confirm' },
+  CONFIRMED: { status: 'PROCESSING', label: 'Process' },
+  PROCESSING: { status: 'SHIPPED', label: 'Ship' },
+};
+
+// Statuses a seller can still cancel an order from
+export const sellerCancellableStatuses: OrderStatus[] = ['PENDING', 'CONFIRMED'];
+
+export const deliveryStatusLabels: Record<DeliveryStatus, string> = {
+  PENDING: 'Awaiting dispatch',
+  ASSIGNED: 'Courier assigned',
+  PICKED_UP: 'Picked up',
+  IN_TRANSIT: 'In transit',
+  OUT_FOR_DELIVERY: 'Out for delivery',
+  DELIVERED: 'Delivered',
+  FAILED: 'Delivery failed',
+  CANCELLED: 'Delivery cancelled',
+};
+
+export interface OrderTimelineEvent {
+  key: string;
+  label: string;
+  // null for a step the order has not reached yet
+  date: string | null;
+  detail?: string;
+  failed?: boolean;
+}
+
+// Tracking timeline from the order's timestamps and every courier attempt, oldest first,
+// followed by the steps still to come
+export function getOrderTimeline(order: OrderDetail): OrderTimelineEvent[] {
+  const payment = order.payments[0];
+  const events: OrderTimelineEvent[] = [
+    { key: 'placed', label: 'Order placed', date: order.createdAt },
+  ];
+
+  if (order.paidAt) {
+    events.push({
+      key: 'paid',
+      label: 'Payment received',
+      date: order.paidAt,
+      detail: payment ? paymentMethodLabels[payment.paymentMethod] : undefined,
+    });
+  }
+
+  order.deliveryAssignments.forEach((attempt, index) => {
+    const courier = attempt.partner
+      ? `${attempt.partner.user.firstName} ${attempt.partner.user.lastName} (${attempt.partner.vehicleType})`
+      : undefined;
+    const steps: Array<[string, string | null]> = [
+      ['Courier assigned', attempt.createdAt],
+      ['Picked up from the seller', attempt.pickedUpAt],
+      ['In transit', attempt.inTransitAt],
+      ['Out for delivery', attempt.outForDeliveryAt],
+    ];
+
+    steps.forEach(([label, date]) => {
+      if (date) {
+        events.push({ key: `${attempt.id}-${label}`, label, date, detail: label === 'Courier assigned' ? courier : undefined });
+      }
+    });
+
+    if (attempt.failedAt) {
+      events.push({
+        key: `${attempt.id}-failed`,
+        label: `Delivery attempt ${index + 1} failed`,
+        date: attempt.failedAt,
+        detail: attempt.notes || undefined,
+        failed: true,
+      });
+    }
+  });
+
+  // Platform deliveries are shipped when the courier picks them up
+  if (order.shippedAt && !order.deliveryAssignments.some(attempt => attempt.pickedUpAt)) {
+    events.push({
+      key: 'shipped',
+      label: 'Shipped',
+      date: order.shippedAt,
+      detail: order.trackingNumber ? `Tracking number ${order.trackingNumber}` : undefined,
+    });
+  }
+
+  if (order.deliveredAt) {
+    events.push({ key: 'delivered', label: 'Delivered', date: order.deliveredAt });
+  }
+
+  if (order.cancelledAt) {
+    events.push({
+      key: 'cancelled',
+      label: 'Cancelled',
+      date: order.cancelledAt,
+      detail: order.cancellationReason || undefined,
+      failed: true,
+    });
+  }
+
+  events.sort((a, b) => new Date(a.date!).getTime() - new Date(b.date!).getTime());
+
+  if (order.status === 'CANCELLED' || order.status === 'REFUNDED' || order.deliveredAt) {
+    return events;
+  }
+
+  if (!order.paidAt && payment?.paymentMethod !== 'CASH_ON_DELIVERY') {
+    events.push({ key: 'paid', label: 'Payment', date: null });
+  }
+  if (!order.shippedAt) {
+    events.push({ key: 'shipped', label: order.deliveryOption === 'BUYER_PICKUP' ? 'Ready for pickup' : 'Shipped', date: null });
+  }
+  events.push({
+    key: 'delivered',
+    label: 'Delivered',
+    date: null,
+    detail: payment?.paymentMethod === 'CASH_ON_DELIVERY' && !order.paidAt
+      ? `Pay ETB ${Number(order.total).toLocaleString()} in cash on delivery`
+      : undefined,
+  });
+
+  return events;
+}
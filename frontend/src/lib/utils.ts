@@ -146,6 +146,11 @@ export function capitalizeWords(str: string): string {
   return str.replace(/\b\w/g, l => l.toUpperCase());
 }
 
+// UNDER_REVIEW -> Under review
+export function formatEnumLabel(value: string): string {
+  return capitalizeFirst(value.replace(/_/g, ' ').toLowerCase());
+}
+
 export function removeAccents(str: string): string {
   return str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
 }
@@ -1,19 +1,255 @@
-import React from 'react';
-import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  ChartBarIcon,
+  UsersIcon,
+  ShieldCheckIcon,
+  ShoppingBagIcon,
+  TagIcon,
+  CurrencyDollarIcon,
+  BuildingStorefrontIcon,
+  CubeIcon,
+  BanknotesIcon,
+  ReceiptRefundIcon,
+  TruckIcon,
+  FlagIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import UserManagement from '../../components/admin/UserManagement';
+import KycReviewQueue from '../../components/admin/KycReviewQueue';
+import ModerationQueue from '../../components/admin/ModerationQueue';
+import OrderBrowser from '../../components/admin/OrderBrowser';
+import CategoryManager from '../../components/admin/CategoryManager';
+import PayoutManager from '../../components/admin/PayoutManager';
+import CashReconciliation from '../../components/admin/CashReconciliation';
+import RefundQueue from '../../components/orders/RefundQueue';
+import { apiClient } from '../../lib/api';
+import { orderStatusStyles } from '../../lib/orders';
+import { formatEnumLabel, getErrorMessage, getRelativeTime } from '../../lib/utils';
+import { OrderStatusValues } from '../../types';
+import type { AdminDashboard as AdminDashboardData } from '../../types';
+
+const tabs = [
+  { id: 'overview', label: 'Overview', icon: ChartBarIcon },
+  { id: 'users', label: 'Users', icon: UsersIcon },
+  { id: 'kyc', label: 'KYC Review', icon: ShieldCheckIcon },
+  { id: 'reports', label: 'Reports', icon: FlagIcon },
+  { id: 'orders', label: 'Orders', icon: ShoppingBagIcon },
+  { id: 'categories', label: 'Categories', icon: TagIcon },
+  { id: 'payouts', label: 'Payouts', icon: BanknotesIcon },
+  { id: 'refunds', label: 'Refunds', icon: ReceiptRefundIcon },
+  { id: 'cash', label: 'Cash on Delivery', icon: TruckIcon },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
 
 const AdminDashboard: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab: TabId = tabs.find(tab => tab.id === searchParams.get('tab'))?.id ?? 'overview';
+
   return (
     <div className="min-h-screen bg-neutral-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <h1 className="text-3xl font-bold text-neutral-900 mb-8">Admin Dashboard</h1>
-        <div className="text-center">
-          <div className="text-6xl mb-4">⚙️</div>
-          <h2 className="text-2xl font-semibold text-neutral-900 mb-2">Admin Dashboard</h2>
-          <p className="text-neutral-600">Administrative tools coming soon...</p>
+        <h1 className="text-3xl font-bold text-neutral-900 mb-6">Admin Dashboard</h1>
+
+        {/* Tabs */}
+        <div className="border-b border-neutral-200 mb-8">
+          <nav className="flex space-x-6 overflow-x-auto">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setSearchParams(tab.id === 'overview' ? {} : { tab: tab.id })}
+                className={`flex items-center pb-3 text-sm font-medium border-b-2 whitespace-nowrap ${
+                  activeTab === tab.id
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-neutral-500 hover:text-neutral-700'
+                }`}
+              >
+                <tab.icon className="h-5 w-5 mr-2" />
+                {tab.label}
+              </button>
+            ))}
+          </nav>
         </div>
+
+        {activeTab === 'overview' && <Overview onOpenTab={(tab) => setSearchParams({ tab })} />}
+        {activeTab === 'users' && <UserManagement />}
+        {activeTab === 'kyc' && <KycReviewQueue />}
+        {activeTab === 'reports' && <ModerationQueue />}
+        {activeTab === 'orders' && <OrderBrowser />}
+        {activeTab === 'categories' && <CategoryManager />}
+        {activeTab === 'payouts' && <PayoutManager />}
+        {activeTab === 'refunds' && (
+          <div className="card">
+            <RefundQueue showSeller />
+          </div>
+        )}
+        {activeTab === 'cash' && <CashReconciliation />}
       </div>
     </div>
   );
 };
 
 export default AdminDashboard;
+
+//
+// --- Overview ---
+//
+const Overview: React.FC<{ onOpenTab: (tab: TabId) => void }> = ({ onOpenTab }) => {
+  const [dashboard, setDashboard] = useState<AdminDashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDashboard();
+  }, []);
+
+  const fetchDashboard = async () => {
+    try {
+      const response = await apiClient.admin.getDashboard();
+      setDashboard(response.data.data || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || !dashboard) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="card loading-skeleton h-28"></div>
+        ))}
+      </div>
+    );
+  }
+
+  const { overview, kycStats, orderStats, recentUsers, recentOrders } = dashboard;
+  const statCards = [
+    { title: 'Users', value: overview.totalUsers, icon: UsersIcon },
+    { title: 'Sellers', value: overview.totalSellers, icon: BuildingStorefrontIcon },
+    { title: 'Published Products', value: overview.totalProducts, icon: CubeIcon },
+    { title: 'Orders', value: overview.totalOrders, icon: ShoppingBagIcon },
+    { title: 'Revenue', value: `ETB ${overview.totalRevenue.toLocaleString()}`, icon: CurrencyDollarIcon },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+        {statCards.map(card => (
+          <div key={card.title} className="card">
+            <div className="flex items-center">
+              <div className="p-3 rounded-full bg-primary-100 text-primary-600">
+                <card.icon className="w-6 h-6" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-neutral-600">{card.title}</p>
+                <p className="text-xl font-bold text-neutral-900">{card.value}</p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-neutral-900">KYC Applications</h2>
+            <button
+              onClick={() => onOpenTab('kyc')}
+              className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+            >
+              Review queue
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {[
+              { label: 'Pending', value: kycStats.pending },
+              { label: 'Under review', value: kycStats.underReview },
+              { label: 'Approved', value: kycStats.approved },
+              { label: 'Rejected', value: kycStats.rejected },
+            ].map(stat => (
+              <div key={stat.label} className="p-3 border border-neutral-200 rounded-lg">
+                <p className="text-sm text-neutral-600">{stat.label}</p>
+                <p className="text-2xl font-bold text-neutral-900">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-neutral-900">Orders by Status</h2>
+            <button
+              onClick={() => onOpenTab('orders')}
+              className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+            >
+              Browse orders
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {OrderStatusValues.map(status => (
+              <span
+                key={status}
+                className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${orderStatusStyles[status]}`}
+              >
+                {formatEnumLabel(status)}: {orderStats[status.toLowerCase() as Lowercase<typeof status>]}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="card">
+          <h2 className="text-xl font-semibold text-neutral-900 mb-4">New Users This Week</h2>
+          {recentUsers.length === 0 ? (
+            <p className="text-sm text-neutral-500">No new users this week.</p>
+          ) : (
+            <div className="space-y-3">
+              {recentUsers.map(user => (
+                <div key={user.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-neutral-900">{user.firstName} {user.lastName}</p>
+                    <p className="text-sm text-neutral-500">{user.email}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-neutral-700">{formatEnumLabel(user.role)}</p>
+                    <p className="text-xs text-neutral-500">{getRelativeTime(user.createdAt)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="card">
+          <h2 className="text-xl font-semibold text-neutral-900 mb-4">Orders This Week</h2>
+          {recentOrders.length === 0 ? (
+            <p className="text-sm text-neutral-500">No orders this week.</p>
+          ) : (
+            <div className="space-y-3">
+              {recentOrders.map(order => (
+                <div key={order.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-neutral-900">#{order.orderNumber}</p>
+                    <p className="text-sm text-neutral-500">
+                      {order.buyer.firstName} {order.buyer.lastName}
+                      {order.seller.storeName && ` from ${order.seller.storeName}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-neutral-900">ETB {Number(order.total).toLocaleString()}</p>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${orderStatusStyles[order.status]}`}>
+                      {formatEnumLabel(order.status)}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,6 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '../../contexts/AuthContext';
-// Remove UserRole import since we're using strings now
 import { Button } from '../../components/ui/Button';
 import { EyeIcon, EyeSlashIcon, UserIcon, ShoppingBagIcon } from '@heroicons/react/24/outline';
 
@@ -15,7 +14,7 @@ const registerSchema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
   lastName: z.string().min(2, 'Last name must be at least 2 characters'),
   phone: z.string().optional(),
-  role: z.string(),
+  role: z.enum(['BUYER', 'SELLER']),
   agreeToTerms: z.boolean().refine(val => val === true, 'You must agree to the terms and conditions'),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -27,7 +26,7 @@ type RegisterForm = z.infer<typeof registerSchema>;
 const RegisterPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [selectedRole, setSelectedRole] = useState<string>('BUYER');
+  const [selectedRole, setSelectedRole] = useState<RegisterForm['role']>('BUYER');
   const { register: registerUser, isLoading } = useAuth();
   const navigate = useNavigate();
 
@@ -54,7 +53,7 @@ const RegisterPage: React.FC = () => {
     }
   };
 
-  const handleRoleChange = (role: string) => {
+  const handleRoleChange = (role: RegisterForm['role']) => {
     setSelectedRole(role);
     setValue('role', role);
   };
@@ -1,22 +1,88 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { 
-  ShoppingBagIcon, 
-  HeartIcon, 
+import {
+  ShoppingBagIcon,
+  HeartIcon,
   ClockIcon,
   StarIcon,
   ChartBarIcon,
-  EyeIcon
+  ArrowTrendingDownIcon,
 } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../../components/ui/Button';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiClient } from '../../lib/api';
+import OrderCard from '../../components/orders/OrderCard';
+import { orderStatusStyles } from '../../lib/orders';
+import { formatDate, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { OrderStatusValues } from '../../types';
+import type { AwaitingReview, OrderStats, OrderSummary, WishlistCount, WishlistEntry } from '../../types';
 
 const BuyerDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<OrderSummary[]>([]);
+  const [orderStats, setOrderStats] = useState<OrderStats | null>(null);
+  const [totalOrders, setTotalOrders] = useState(0);
+  const [wishlist, setWishlist] = useState<WishlistEntry[]>([]);
+  const [wishlistCount, setWishlistCount] = useState<WishlistCount>({ count: 0, priceDrops: 0 });
+  const [reviewCount, setReviewCount] = useState(0);
+  const [awaitingReview, setAwaitingReview] = useState<AwaitingReview[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDashboardData();
+  }, []);
+
+  const fetchDashboardData = async () => {
+    try {
+      const [ordersRes, wishlistCountRes, wishlistRes, reviewsRes] = await Promise.all([
+        apiClient.orders.getAll({ limit: 5 }),
+        apiClient.wishlist.getCount(),
+        apiClient.wishlist.getAll({ limit: 4 }),
+        apiClient.reviews.getMine({ limit: 1 }),
+      ]);
+
+      setOrders(ordersRes.data.data?.orders || []);
+      setOrderStats(ordersRes.data.data?.orderStats || null);
+      setTotalOrders(ordersRes.data.data?.pagination.total || 0);
+      setWishlistCount(wishlistCountRes.data.data || { count: 0, priceDrops: 0 });
+      setWishlist(wishlistRes.data.data || []);
+      setReviewCount(reviewsRes.data.data?.pagination.total || 0);
+      setAwaitingReview(reviewsRes.data.data?.awaitingReview || []);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  // Orders still on their way to the buyer
+  const openOrders = orderStats
+    ? orderStats.pending + orderStats.confirmed + orderStats.processing + orderStats.shipped
+    : 0;
+
+  const statCards = [
+    { title: 'Total Orders', value: totalOrders, icon: ShoppingBagIcon, color: 'text-primary-600' },
+    { title: 'Wishlist Items', value: wishlistCount.count, icon: HeartIcon, color: 'text-red-500' },
+    { title: 'Open Orders', value: openOrders, icon: ClockIcon, color: 'text-yellow-500' },
+    { title: 'Reviews Given', value: reviewCount, icon: StarIcon, color: 'text-green-500' },
+  ];
+
   return (
     <div className="min-h-screen bg-neutral-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-neutral-900 mb-2">
-            Welcome back!
+            Welcome back{user ? `, ${user.firstName}` : ''}!
           </h1>
           <p className="text-neutral-600">
             Here's what's happening with your account today.
@@ -25,58 +91,41 @@ const BuyerDashboard: React.FC = () => {
 
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <div className="card">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <ShoppingBagIcon className="h-8 w-8 text-primary-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-neutral-600">Total Orders</p>
-                <p className="text-2xl font-bold text-neutral-900">12</p>
-              </div>
-            </div>
-          </div>
-
-          <div className="card">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <HeartIcon className="h-8 w-8 text-red-500" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-neutral-600">Wishlist Items</p>
-                <p className="text-2xl font-bold text-neutral-900">8</p>
-              </div>
-            </div>
-          </div>
-
-          <div className="card">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <ClockIcon className="h-8 w-8 text-yellow-500" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-neutral-600">Pending Orders</p>
-                <p className="text-2xl font-bold text-neutral-900">3</p>
+          {statCards.map(card => (
+            <div key={card.title} className="card">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <card.icon className={`h-8 w-8 ${card.color}`} />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-neutral-600">{card.title}</p>
+                  <p className="text-2xl font-bold text-neutral-900">{card.value}</p>
+                </div>
               </div>
             </div>
-          </div>
+          ))}
+        </div>
 
-          <div className="card">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <StarIcon className="h-8 w-8 text-green-500" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-neutral-600">Reviews Given</p>
-                <p className="text-2xl font-bold text-neutral-900">7</p>
-              </div>
-            </div>
+        {/* Orders by status */}
+        {orderStats && totalOrders > 0 && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            {OrderStatusValues.map(status => {
+              const count = orderStats[status.toLowerCase() as Lowercase<typeof status>];
+              return count > 0 && (
+                <span
+                  key={status}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${orderStatusStyles[status]}`}
+                >
+                  {formatEnumLabel(status)}: {count}
+                </span>
+              );
+            })}
           </div>
-        </div>
+        )}
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Recent Orders */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-8">
+            {/* Recent Orders */}
             <div className="card">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-semibold text-neutral-900">Recent Orders</h2>
@@ -84,57 +133,46 @@ const BuyerDashboard: React.FC = () => {
                   View all
                 </Link>
               </div>
-              
-              <div className="space-y-4">
-                {[
-                  {
-                    id: 'BAL-001',
-                    product: 'Handwoven Basket',
-                    seller: 'Aster T.',
-                    status: 'Delivered',
-                    date: '2024-01-15',
-                    amount: '₦2,500'
-                  },
-                  {
-                    id: 'BAL-002',
-                    product: 'Traditional Spices',
-                    seller: 'Hirut M.',
-                    status: 'Shipped',
-                    date: '2024-01-14',
-                    amount: '₦1,800'
-                  },
-                  {
-                    id: 'BAL-003',
-                    product: 'Ethiopian Coffee',
-                    seller: 'Meron K.',
-                    status: 'Processing',
-                    date: '2024-01-13',
-                    amount: '₦3,200'
-                  }
-                ].map((order, index) => (
-                  <div key={index} className="flex items-center justify-between p-4 border border-neutral-200 rounded-lg">
-                    <div className="flex-1">
-                      <h3 className="font-medium text-neutral-900">{order.product}</h3>
-                      <p className="text-sm text-neutral-600">by {order.seller}</p>
-                      <p className="text-xs text-neutral-500">{order.date}</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-semibold text-neutral-900">{order.amount}</p>
-                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
-                        order.status === 'Delivered' ? 'bg-green-100 text-green-800' :
-                        order.status === 'Shipped' ? 'bg-blue-100 text-blue-800' :
-                        'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {order.status}
-                      </span>
-                    </div>
-                  </div>
-                ))}
-              </div>
+
+              {orders.length === 0 ? (
+                <div className="text-center py-8">
+                  <ShoppingBagIcon className="h-12 w-12 text-neutral-400 mx-auto mb-3" />
+                  <p className="text-neutral-600 mb-4">You haven't placed any orders yet.</p>
+                  <Link to="/products" className="btn-primary">Start Shopping</Link>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {orders.map(order => (
+                    <OrderCard key={order.id} order={order} />
+                  ))}
+                </div>
+              )}
             </div>
+
+            {/* Awaiting review */}
+            {awaitingReview.length > 0 && (
+              <div className="card">
+                <h2 className="text-xl font-semibold text-neutral-900 mb-1">Rate Your Purchases</h2>
+                <p className="text-sm text-neutral-600 mb-6">
+                  Your reviews help other buyers and the women who made these products.
+                </p>
+                <div className="space-y-4">
+                  {awaitingReview.map(item => (
+                    <ReviewPrompt
+                      key={item.product.id}
+                      item={item}
+                      onReviewed={() => {
+                        setAwaitingReview(prev => prev.filter(i => i.product.id !== item.product.id));
+                        setReviewCount(prev => prev + 1);
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
-          {/* Quick Actions & Recommendations */}
+          {/* Quick Actions & Wishlist */}
           <div className="space-y-6">
             {/* Quick Actions */}
             <div className="card">
@@ -164,60 +202,59 @@ const BuyerDashboard: React.FC = () => {
               </div>
             </div>
 
-            {/* Recommended Products */}
+            {/* Wishlist */}
             <div className="card">
-              <h3 className="text-lg font-semibold text-neutral-900 mb-4">Recommended for You</h3>
-              <div className="space-y-4">
-                {[
-                  {
-                    name: 'Traditional Pottery',
-                    seller: 'Aster T.',
-                    price: '₦1,500',
-                    rating: 4.8,
-                    image: '🏺'
-                  },
-                  {
-                    name: 'Handwoven Scarf',
-                    seller: 'Hirut M.',
-                    price: '₦2,200',
-                    rating: 4.9,
-                    image: '🧣'
-                  }
-                ].map((product, index) => (
-                  <div key={index} className="flex items-center space-x-3">
-                    <div className="text-2xl">{product.image}</div>
-                    <div className="flex-1">
-                      <h4 className="font-medium text-neutral-900 text-sm">{product.name}</h4>
-                      <p className="text-xs text-neutral-600">by {product.seller}</p>
-                      <div className="flex items-center mt-1">
-                        <div className="flex items-center">
-                          {[...Array(5)].map((_, i) => (
-                            <StarIcon
-                              key={i}
-                              className={`h-3 w-3 ${
-                                i < Math.floor(product.rating)
-                                  ? 'text-yellow-400'
-                                  : 'text-neutral-300'
-                              }`}
-                              fill="currentColor"
-                            />
-                          ))}
-                        </div>
-                        <span className="text-xs text-neutral-600 ml-1">{product.rating}</span>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-semibold text-neutral-900 text-sm">{product.price}</p>
-                    </div>
-                  </div>
-                ))}
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-neutral-900">From Your Wishlist</h3>
+                {wishlistCount.priceDrops > 0 && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    {wishlistCount.priceDrops} price {wishlistCount.priceDrops === 1 ? 'drop' : 'drops'}
+                  </span>
+                )}
               </div>
-              <Link
-                to="/products"
-                className="block w-full mt-4 text-center text-primary-600 hover:text-primary-500 text-sm font-medium"
-              >
-                View All Recommendations
-              </Link>
+              {wishlist.length === 0 ? (
+                <p className="text-sm text-neutral-500">
+                  Save products you love and we'll let you know when they get cheaper.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {wishlist.map(entry => (
+                    <Link
+                      key={entry.id}
+                      to={`/products/${entry.product.id}`}
+                      className="flex items-center space-x-3 group"
+                    >
+                      <div className="h-12 w-12 rounded-lg bg-neutral-100 overflow-hidden flex-shrink-0">
+                        {entry.product.images[0] && (
+                          <img src={entry.product.images[0]} alt={entry.product.title} className="h-full w-full object-cover" />
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-neutral-900 text-sm truncate group-hover:text-primary-600">
+                          {entry.product.title}
+                        </h4>
+                        <p className="text-xs text-neutral-600">by {entry.product.seller.storeName}</p>
+                        {entry.priceDrop > 0 && (
+                          <span className="inline-flex items-center mt-1 text-xs font-medium text-green-700">
+                            <ArrowTrendingDownIcon className="h-3 w-3 mr-1" />
+                            ETB {entry.priceDrop.toLocaleString()} cheaper
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-neutral-900 text-sm">
+                          ETB {Number(entry.product.price).toLocaleString()}
+                        </p>
+                        {entry.priceDrop > 0 && (
+                          <p className="text-xs text-neutral-500 line-through">
+                            ETB {entry.savedPrice.toLocaleString()}
+                          </p>
+                        )}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -227,3 +264,77 @@ const BuyerDashboard: React.FC = () => {
 };
 
 export default BuyerDashboard;
+
+const ReviewPrompt: React.FC<{ item: AwaitingReview; onReviewed: () => void }> = ({ item, onReviewed }) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await apiClient.reviews.create({
+        productId: item.product.id,
+        orderId: item.orderId,
+        rating,
+        comment: comment.trim() || undefined,
+      });
+      toast.success('Thanks for your review!');
+      onReviewed();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-neutral-200 rounded-lg">
+      <div className="flex items-center space-x-3">
+        <div className="h-12 w-12 rounded-lg bg-neutral-100 overflow-hidden flex-shrink-0">
+          {item.product.images[0] && (
+            <img src={item.product.images[0]} alt={item.product.title} className="h-full w-full object-cover" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <Link to={`/products/${item.product.id}`} className="font-medium text-neutral-900 hover:text-primary-600">
+            {item.product.title}
+          </Link>
+          <p className="text-xs text-neutral-500">
+            {item.seller.storeName && `${item.seller.storeName} - `}
+            {item.deliveredAt ? `delivered ${formatDate(item.deliveredAt)}` : `order #${item.orderNumber}`}
+          </p>
+        </div>
+        <div className="flex items-center">
+          {[1, 2, 3, 4, 5].map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setRating(value)}
+              aria-label={`${value} star${value > 1 ? 's' : ''}`}
+            >
+              <StarIcon
+                className={`h-5 w-5 ${value <= rating ? 'text-yellow-400' : 'text-neutral-300'}`}
+                fill="currentColor"
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rating > 0 && (
+        <div className="mt-3 flex gap-2">
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="input-field flex-1"
+            placeholder="What did you like about it? (optional)"
+          />
+          <Button size="sm" onClick={handleSubmit} loading={submitting}>
+            Submit
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
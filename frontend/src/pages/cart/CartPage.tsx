@@ -1,52 +1,48 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { TrashIcon, PlusIcon, MinusIcon } from '@heroicons/react/24/outline';
+import { TrashIcon, PlusIcon, MinusIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useCart } from '../../contexts/CartContext';
+import type { CartItem, CartItemIssue } from '../../types';
+
+const issueMessages: Record<CartItemIssue, (item: CartItem) => string> = {
+  UNAVAILABLE: () => 'No longer available',
+  OUT_OF_STOCK: () => 'Out of stock',
+  INSUFFICIENT_STOCK: (item) => `Only ${item.availableQuantity} left in stock`,
+  PRICE_CHANGED: (item) =>
+    `Price changed from ETB ${item.previousPrice?.toLocaleString()} to ETB ${item.price.toLocaleString()}`,
+};
 
 const CartPage: React.FC = () => {
-  const cartItems = [
-    {
-      id: '1',
-      name: 'Handwoven Traditional Basket',
-      seller: 'Aster T.',
-      price: 2500,
-      originalPrice: 3000,
-      quantity: 1,
-      image: '🧺',
-      inStock: true
-    },
-    {
-      id: '2',
-      name: 'Ethiopian Coffee Beans',
-      seller: 'Hirut M.',
-      price: 1800,
-      originalPrice: null,
-      quantity: 2,
-      image: '☕',
-      inStock: true
+  const { cart, isLoading, updateQuantity, removeItem } = useCart();
+
+  // Group items by seller - each seller becomes a separate order at checkout
+  const sellerGroups = cart.items.reduce<Array<{ seller: CartItem['seller']; items: CartItem[] }>>(
+    (groups, item) => {
+      const group = groups.find(g => g.seller.id === item.seller.id);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.push({ seller: item.seller, items: [item] });
+      }
+      return groups;
     },
-    {
-      id: '3',
-      name: 'Traditional Pottery Set',
-      seller: 'Meron K.',
-      price: 3200,
-      originalPrice: 4000,
-      quantity: 1,
-      image: '🏺',
-      inStock: false
-    }
-  ];
+    []
+  );
 
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const shipping = subtotal > 5000 ? 0 : 500;
-  const tax = subtotal * 0.15; // 15% tax
-  const total = subtotal + shipping + tax;
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-neutral-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <h1 className="text-3xl font-bold text-neutral-900 mb-8">Shopping Cart</h1>
 
-        {cartItems.length === 0 ? (
+        {cart.items.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-6xl mb-4">🛒</div>
             <h2 className="text-2xl font-semibold text-neutral-900 mb-2">Your cart is empty</h2>
@@ -58,86 +54,147 @@ const CartPage: React.FC = () => {
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Cart Items */}
-            <div className="lg:col-span-2">
-              <div className="space-y-4">
-                {cartItems.map((item) => (
-                  <div key={item.id} className="card">
-                    <div className="flex items-center space-x-4">
-                      <div className="text-4xl">{item.image}</div>
-                      <div className="flex-1">
-                        <h3 className="font-semibold text-neutral-900">{item.name}</h3>
-                        <p className="text-sm text-neutral-600">by {item.seller}</p>
-                        {!item.inStock && (
-                          <p className="text-sm text-red-600">Out of stock</p>
-                        )}
-                      </div>
-                      <div className="flex items-center space-x-4">
-                        <div className="flex items-center border border-neutral-300 rounded-lg">
-                          <button className="p-2 text-neutral-600 hover:text-neutral-900">
-                            <MinusIcon className="h-4 w-4" />
-                          </button>
-                          <span className="px-4 py-2 border-x border-neutral-300">
-                            {item.quantity}
-                          </span>
-                          <button className="p-2 text-neutral-600 hover:text-neutral-900">
-                            <PlusIcon className="h-4 w-4" />
-                          </button>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-semibold text-neutral-900">
-                            ₦{(item.price * item.quantity).toLocaleString()}
-                          </p>
-                          {item.originalPrice && (
-                            <p className="text-sm text-neutral-500 line-through">
-                              ₦{(item.originalPrice * item.quantity).toLocaleString()}
+            <div className="lg:col-span-2 space-y-6">
+              {sellerGroups.map(({ seller, items }) => (
+                <div key={seller.id} className="space-y-4">
+                  <h2 className="text-lg font-semibold text-neutral-900">
+                    Sold by {seller.storeName}
+                  </h2>
+
+                  {items.map((item) => {
+                    const isPurchasable = !item.issues.includes('UNAVAILABLE') && !item.issues.includes('OUT_OF_STOCK');
+                    const atMaxQuantity = item.availableQuantity != null && item.quantity >= item.availableQuantity;
+
+                    return (
+                      <div key={item.id} className="card">
+                        <div className="flex items-center space-x-4">
+                          <Link to={`/products/${item.productId}`} className="flex-shrink-0">
+                            {item.product.image ? (
+                              <img
+                                src={item.product.image}
+                                alt={item.product.title}
+                                className="h-20 w-20 rounded-lg object-cover"
+                              />
+                            ) : (
+                              <div className="h-20 w-20 rounded-lg bg-neutral-100 flex items-center justify-center text-3xl">
+                                📦
+                              </div>
+                            )}
+                          </Link>
+                          <div className="flex-1">
+                            <Link
+                              to={`/products/${item.productId}`}
+                              className="font-semibold text-neutral-900 hover:text-primary-600"
+                            >
+                              {item.product.title}
+                            </Link>
+                            <p className="text-sm text-neutral-600">
+                              ETB {item.price.toLocaleString()} each
                             </p>
-                          )}
+                            {item.issues.map((issue) => (
+                              <p
+                                key={issue}
+                                className={`text-sm flex items-center mt-1 ${
+                                  issue === 'PRICE_CHANGED' ? 'text-amber-600' : 'text-red-600'
+                                }`}
+                              >
+                                <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                                {issueMessages[issue](item)}
+                              </p>
+                            ))}
+                          </div>
+                          <div className="flex items-center space-x-4">
+                            <div className="flex items-center border border-neutral-300 rounded-lg">
+                              <button
+                                onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                                disabled={!isPurchasable || item.quantity <= 1}
+                                className="p-2 text-neutral-600 hover:text-neutral-900 disabled:opacity-50"
+                              >
+                                <MinusIcon className="h-4 w-4" />
+                              </button>
+                              <span className="px-4 py-2 border-x border-neutral-300">
+                                {item.quantity}
+                              </span>
+                              <button
+                                onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                                disabled={!isPurchasable || atMaxQuantity}
+                                className="p-2 text-neutral-600 hover:text-neutral-900 disabled:opacity-50"
+                              >
+                                <PlusIcon className="h-4 w-4" />
+                              </button>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold text-neutral-900">
+                                ETB {(item.price * item.quantity).toLocaleString()}
+                              </p>
+                              {item.product.comparePrice && (
+                                <p className="text-sm text-neutral-500 line-through">
+                                  ETB {(item.product.comparePrice * item.quantity).toLocaleString()}
+                                </p>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => removeItem(item.productId)}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <TrashIcon className="h-5 w-5" />
+                            </button>
+                          </div>
                         </div>
-                        <button className="text-red-500 hover:text-red-700">
-                          <TrashIcon className="h-5 w-5" />
-                        </button>
                       </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
+                    );
+                  })}
+                </div>
+              ))}
             </div>
 
             {/* Order Summary */}
             <div className="lg:col-span-1">
               <div className="card sticky top-8">
                 <h3 className="text-lg font-semibold text-neutral-900 mb-4">Order Summary</h3>
-                
+
                 <div className="space-y-3 mb-6">
                   <div className="flex justify-between">
-                    <span className="text-neutral-600">Subtotal</span>
-                    <span className="font-medium">₦{subtotal.toLocaleString()}</span>
+                    <span className="text-neutral-600">Items</span>
+                    <span className="font-medium">{cart.summary.itemCount}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-neutral-600">Shipping</span>
-                    <span className="font-medium">
-                      {shipping === 0 ? 'Free' : `₦${shipping.toLocaleString()}`}
-                    </span>
+                    <span className="text-neutral-600">Sellers</span>
+                    <span className="font-medium">{cart.summary.sellerCount}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-neutral-600">Tax</span>
-                    <span className="font-medium">₦{tax.toLocaleString()}</span>
+                    <span className="text-neutral-600">Shipping</span>
+                    <span className="font-medium text-neutral-500">Calculated at checkout</span>
                   </div>
                   <div className="border-t border-neutral-200 pt-3">
                     <div className="flex justify-between">
-                      <span className="text-lg font-semibold text-neutral-900">Total</span>
-                      <span className="text-lg font-bold text-neutral-900">₦{total.toLocaleString()}</span>
+                      <span className="text-lg font-semibold text-neutral-900">Subtotal</span>
+                      <span className="text-lg font-bold text-neutral-900">
+                        ETB {cart.summary.subtotal.toLocaleString()}
+                      </span>
                     </div>
                   </div>
                 </div>
 
-                <Link
-                  to="/checkout"
-                  className="btn-primary w-full mb-4"
-                >
-                  Proceed to Checkout
-                </Link>
-                
+                {cart.summary.hasIssues && (
+                  <p className="text-sm text-red-600 mb-4">
+                    Some items need your attention before you can check out.
+                  </p>
+                )}
+
+                {cart.summary.hasIssues ? (
+                  <button className="btn-primary w-full mb-4" disabled>
+                    Proceed to Checkout
+                  </button>
+                ) : (
+                  <Link
+                    to="/checkout"
+                    className="btn-primary w-full mb-4"
+                  >
+                    Proceed to Checkout
+                  </Link>
+                )}
+
                 <Link
                   to="/products"
                   className="btn-outline w-full"
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircleIcon, TruckIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../../components/ui/Button';
+import { apiClient } from '../../lib/api';
+import { getErrorMessage } from '../../lib/utils';
+import { getDeliveryOptionLabel, paymentMethodLabels } from '../../lib/orders';
+import type { CheckoutGroup } from '../../types';
+
+const CheckoutConfirmationPage: React.FC = () => {
+  const { groupId } = useParams();
+  const [group, setGroup] = useState<CheckoutGroup | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (groupId) {
+      fetchCheckoutGroup();
+    }
+  }, [groupId]);
+
+  const fetchCheckoutGroup = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.orders.getCheckoutGroup(groupId!);
+      setGroup(response.data.data || null);
+    } catch (error) {
+      console.error('Error fetching checkout:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePay = async (orderId: string) => {
+    setPayingOrderId(orderId);
+    try {
+      const response = await apiClient.payments.initialize({ orderId });
+      window.location.href = response.data.data!.paymentUrl;
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setPayingOrderId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-neutral-900 mb-4">Order not found</h2>
+          <Link to="/products" className="btn-primary">
+            Continue Shopping
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center mb-8">
+          <CheckCircleIcon className="h-16 w-16 text-green-500 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-neutral-900 mb-2">Thank you for your order!</h1>
+          <p className="text-neutral-600">
+            Checkout {group.groupNumber}
+            {group.orders.length > 1 && ` - split into ${group.orders.length} orders, one per seller`}
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {group.orders.map((order) => (
+            <div key={order.id} className="card">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-neutral-900">{order.seller.storeName}</h2>
+                  <p className="text-sm text-neutral-600">Order {order.orderNumber}</p>
+                </div>
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  {order.status}
+                </span>
+              </div>
+
+              <div className="space-y-3">
+                {order.items.map((item) => (
+                  <div key={item.productId} className="flex items-center space-x-4">
+                    {item.image ? (
+                      <img src={item.image} alt={item.productName} className="h-12 w-12 rounded object-cover" />
+                    ) : (
+                      <div className="text-2xl">📦</div>
+                    )}
+                    <div className="flex-1">
+                      <p className="font-medium text-neutral-900">{item.productName}</p>
+                      <p className="text-sm text-neutral-600">Quantity: {item.quantity}</p>
+                    </div>
+                    <p className="font-medium text-neutral-900">
+                      ETB {(item.price * item.quantity).toLocaleString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t border-neutral-200 mt-4 pt-4 space-y-2 text-sm">
+                <div className="flex items-center text-neutral-600">
+                  <TruckIcon className="h-4 w-4 mr-2" />
+                  {getDeliveryOptionLabel(order.deliveryOption)}
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-neutral-600">Shipping</span>
+                  <span>{order.shipping === 0 ? 'Free' : `ETB ${order.shipping.toLocaleString()}`}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-neutral-900">
+                  <span>Order total</span>
+                  <span>ETB {order.total.toLocaleString()}</span>
+                </div>
+                {order.payment && (
+                  <div className="flex justify-between text-neutral-600">
+                    <span>Payment ({paymentMethodLabels[order.payment.paymentMethod] || order.payment.paymentMethod})</span>
+                    <span>{order.payment.status}</span>
+                  </div>
+                )}
+                {order.payment?.status === 'PENDING' && order.payment.paymentMethod !== 'CASH_ON_DELIVERY' && (
+                  <div className="flex justify-end pt-2">
+                    <Button
+                      size="sm"
+                      loading={payingOrderId === order.id}
+                      disabled={payingOrderId !== null}
+                      onClick={() => handlePay(order.id)}
+                    >
+                      Pay ETB {order.total.toLocaleString()}
+                    </Button>
+                  </div>
+                )}
+                {order.payment?.status === 'PENDING' && order.payment.paymentMethod === 'CASH_ON_DELIVERY' && (
+                  <p className="text-neutral-600 pt-2">
+                    Have ETB {order.total.toLocaleString()} ready in cash when your order arrives.
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="card mt-6">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className="text-neutral-600">Subtotal</span>
+              <span className="font-medium">ETB {group.subtotal.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-neutral-600">Shipping</span>
+              <span className="font-medium">
+                {group.shipping === 0 ? 'Free' : `ETB ${group.shipping.toLocaleString()}`}
+              </span>
+            </div>
+            <div className="border-t border-neutral-200 pt-2 flex justify-between">
+              <span className="text-lg font-semibold text-neutral-900">Total</span>
+              <span className="text-lg font-bold text-neutral-900">ETB {group.total.toLocaleString()}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-center space-x-4 mt-8">
+          <Link to="/dashboard" className="btn-outline">
+            View My Orders
+          </Link>
+          <Link to="/products" className="btn-primary">
+            Continue Shopping
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckoutConfirmationPage;
@@ -1,81 +1,172 @@
-import React, { useState } from 'react';
-import { Link } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
+import React, { useState, useEffect } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { Button } from '../../components/ui/Button';
-import { 
-  CreditCardIcon, 
-  BanknotesIcon, 
+import AddressForm from '../../components/address/AddressForm';
+import type { AddressFormData } from '../../components/address/AddressForm';
+import { useCart } from '../../contexts/CartContext';
+import { apiClient } from '../../lib/api';
+import { getErrorMessage } from '../../lib/utils';
+import { checkoutDeliveryOptions, getShippingFee } from '../../lib/orders';
+import type { Address, CartItem, DeliveryOption, PaymentMethod } from '../../types';
+import {
+  CreditCardIcon,
+  BanknotesIcon,
   DevicePhoneMobileIcon,
+  BuildingLibraryIcon,
   TruckIcon,
-  ShieldCheckIcon
+  ShieldCheckIcon,
+  PlusIcon
 } from '@heroicons/react/24/outline';
 
-const checkoutSchema = z.object({
-  firstName: z.string().min(2, 'First name is required'),
-  lastName: z.string().min(2, 'Last name is required'),
-  email: z.string().email('Valid email is required'),
-  phone: z.string().min(10, 'Valid phone number is required'),
-  address: z.string().min(10, 'Address is required'),
-  city: z.string().min(2, 'City is required'),
-  state: z.string().min(2, 'State is required'),
-  postalCode: z.string().min(4, 'Postal code is required'),
-  paymentMethod: z.enum(['card', 'mobile', 'bank', 'cod']),
-  deliveryOption: z.enum(['standard', 'express', 'pickup'])
-});
-
-type CheckoutForm = z.infer<typeof checkoutSchema>;
+// Values match the backend PaymentMethod enum
+const paymentOptions: Array<{
+  value: PaymentMethod;
+  label: string;
+  description: string;
+  icon: typeof CreditCardIcon;
+}> = [
+  {
+    value: 'CHAPA',
+    label: 'Chapa',
+    description: 'Telebirr, M-Pesa, bank cards and other local options',
+    icon: DevicePhoneMobileIcon
+  },
+  {
+    value: 'CBE_BIRR',
+    label: 'CBE Birr',
+    description: 'Pay from your Commercial Bank of Ethiopia wallet',
+    icon: BuildingLibraryIcon
+  },
+  {
+    value: 'STRIPE',
+    label: 'Credit/Debit Card',
+    description: 'Visa, Mastercard, American Express',
+    icon: CreditCardIcon
+  },
+  {
+    value: 'CASH_ON_DELIVERY',
+    label: 'Cash on Delivery',
+    description: 'Pay when your order arrives',
+    icon: BanknotesIcon
+  }
+];
 
 const CheckoutPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { cart, isLoading, refreshCart } = useCart();
   const [currentStep, setCurrentStep] = useState(1);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loadingAddresses, setLoadingAddresses] = useState(true);
+  const [showAddressForm, setShowAddressForm] = useState(false);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CHAPA');
+  const [deliveryOptions, setDeliveryOptions] = useState<Record<string, DeliveryOption>>({});
 
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-    watch
-  } = useForm<CheckoutForm>({
-    resolver: zodResolver(checkoutSchema),
-    defaultValues: {
-      paymentMethod: 'card',
-      deliveryOption: 'standard'
+  useEffect(() => {
+    fetchAddresses();
+  }, []);
+
+  const fetchAddresses = async () => {
+    try {
+      setLoadingAddresses(true);
+      const response = await apiClient.users.getAddresses();
+      const savedAddresses = (response.data.data || []).filter(address => address.type !== 'BILLING');
+      setAddresses(savedAddresses);
+
+      const defaultAddress = savedAddresses.find(address => address.isDefault) || savedAddresses[0];
+      setSelectedAddressId(defaultAddress?.id || null);
+      setShowAddressForm(savedAddresses.length === 0);
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+    } finally {
+      setLoadingAddresses(false);
     }
-  });
-
-  const paymentMethod = watch('paymentMethod');
-
-  const orderItems = [
-    {
-      id: '1',
-      name: 'Handwoven Traditional Basket',
-      seller: 'Aster T.',
-      price: 2500,
-      quantity: 1,
-      image: '🧺'
+  };
+
+  const handleCreateAddress = async (data: AddressFormData) => {
+    try {
+      const response = await apiClient.users.createAddress(data);
+      const address = response.data.data!;
+      setAddresses([address, ...addresses.map(a => (address.isDefault ? { ...a, isDefault: false } : a))]);
+      setSelectedAddressId(address.id);
+      setShowAddressForm(false);
+      toast.success('Address saved');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  // Each seller in the cart becomes its own order with its own delivery option
+  const sellerGroups = cart.items.reduce<Array<{ seller: CartItem['seller']; items: CartItem[] }>>(
+    (groups, item) => {
+      const group = groups.find(g => g.seller.id === item.seller.id);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.push({ seller: item.seller, items: [item] });
+      }
+      return groups;
     },
-    {
-      id: '2',
-      name: 'Ethiopian Coffee Beans',
-      seller: 'Hirut M.',
-      price: 1800,
-      quantity: 2,
-      image: '☕'
+    []
+  );
+
+  const getDeliveryOption = (sellerId: string) => deliveryOptions[sellerId] || 'SELLER_DELIVERY';
+
+  const selectedAddress = addresses.find(address => address.id === selectedAddressId);
+  const subtotal = cart.summary.subtotal;
+  const shipping = sellerGroups.reduce((sum, group) => sum + getShippingFee(getDeliveryOption(group.seller.id)), 0);
+  const total = subtotal + shipping;
+
+  const handleNext = () => {
+    if (currentStep === 1 && !selectedAddress) {
+      toast.error('Please select a delivery address');
+      return;
     }
-  ];
+    setCurrentStep(currentStep + 1);
+  };
 
-  const subtotal = orderItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const shipping = 500;
-  const tax = subtotal * 0.15;
-  const total = subtotal + shipping + tax;
+  const handlePlaceOrder = async () => {
+    if (!selectedAddress) return;
 
-  const onSubmit = async (data: CheckoutForm) => {
     setIsProcessing(true);
-    // Simulate payment processing
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    setIsProcessing(false);
-    // Redirect to success page
+    try {
+      const response = await apiClient.orders.checkout({
+        shippingAddressId: selectedAddress.id,
+        paymentMethod,
+        sellers: sellerGroups.map(group => ({
+          sellerId: group.seller.id,
+          deliveryOption: getDeliveryOption(group.seller.id)
+        }))
+      });
+
+      const group = response.data.data!;
+      await refreshCart();
+
+      // A single online payment goes straight to the gateway; multi-seller
+      // checkouts pay each order from the confirmation page
+      if (paymentMethod !== 'CASH_ON_DELIVERY' && group.orders.length === 1) {
+        try {
+          const paymentResponse = await apiClient.payments.initialize({
+            orderId: group.orders[0].id,
+            paymentMethod
+          });
+          window.location.href = paymentResponse.data.data!.paymentUrl;
+        } catch (error) {
+          // The order is placed and the cart emptied - payment can be retried from the confirmation page
+          toast.error(`Your order was placed, but payment could not start: ${getErrorMessage(error)}`);
+          navigate(`/checkout/confirmation/${group.id}`);
+        }
+        return;
+      }
+
+      toast.success(response.data.message || 'Order placed successfully');
+      navigate(`/checkout/confirmation/${group.id}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setIsProcessing(false);
+    }
   };
 
   const steps = [
@@ -84,6 +175,18 @@ const CheckoutPage: React.FC = () => {
     { id: 3, name: 'Review Order', description: 'Confirm your order' }
   ];
 
+  if (isLoading || loadingAddresses) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (cart.items.length === 0 && !isProcessing) {
+    return <Navigate to="/cart" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-neutral-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -95,8 +198,8 @@ const CheckoutPage: React.FC = () => {
             {steps.map((step, index) => (
               <div key={step.id} className="flex items-center">
                 <div className={`flex items-center justify-center w-8 h-8 rounded-full ${
-                  currentStep >= step.id 
-                    ? 'bg-primary-500 text-white' 
+                  currentStep >= step.id
+                    ? 'bg-primary-500 text-white'
                     : 'bg-neutral-200 text-neutral-600'
                 }`}>
                   {step.id}
@@ -119,157 +222,103 @@ const CheckoutPage: React.FC = () => {
           </div>
         </div>
 
-        <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Form */}
           <div className="lg:col-span-2">
             {currentStep === 1 && (
               <div className="card">
-                <h2 className="text-xl font-semibold text-neutral-900 mb-6">Delivery Address</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      First Name *
-                    </label>
-                    <input
-                      {...register('firstName')}
-                      className="input-field"
-                      placeholder="Enter first name"
-                    />
-                    {errors.firstName && (
-                      <p className="mt-1 text-sm text-red-600">{errors.firstName.message}</p>
-                    )}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      Last Name *
-                    </label>
-                    <input
-                      {...register('lastName')}
-                      className="input-field"
-                      placeholder="Enter last name"
-                    />
-                    {errors.lastName && (
-                      <p className="mt-1 text-sm text-red-600">{errors.lastName.message}</p>
-                    )}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      Email *
-                    </label>
-                    <input
-                      {...register('email')}
-                      type="email"
-                      className="input-field"
-                      placeholder="Enter email"
-                    />
-                    {errors.email && (
-                      <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
-                    )}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      Phone *
-                    </label>
-                    <input
-                      {...register('phone')}
-                      type="tel"
-                      className="input-field"
-                      placeholder="+251 9XX XXX XXX"
-                    />
-                    {errors.phone && (
-                      <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>
-                    )}
-                  </div>
-                  <div className="md:col-span-2">
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      Address *
-                    </label>
-                    <textarea
-                      {...register('address')}
-                      rows={3}
-                      className="input-field"
-                      placeholder="Enter full address"
-                    />
-                    {errors.address && (
-                      <p className="mt-1 text-sm text-red-600">{errors.address.message}</p>
-                    )}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      City *
-                    </label>
-                    <input
-                      {...register('city')}
-                      className="input-field"
-                      placeholder="Enter city"
-                    />
-                    {errors.city && (
-                      <p className="mt-1 text-sm text-red-600">{errors.city.message}</p>
-                    )}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      State *
-                    </label>
-                    <input
-                      {...register('state')}
-                      className="input-field"
-                      placeholder="Enter state"
-                    />
-                    {errors.state && (
-                      <p className="mt-1 text-sm text-red-600">{errors.state.message}</p>
-                    )}
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-neutral-700 mb-2">
-                      Postal Code *
-                    </label>
-                    <input
-                      {...register('postalCode')}
-                      className="input-field"
-                      placeholder="Enter postal code"
-                    />
-                    {errors.postalCode && (
-                      <p className="mt-1 text-sm text-red-600">{errors.postalCode.message}</p>
-                    )}
-                  </div>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-xl font-semibold text-neutral-900">Delivery Address</h2>
+                  {!showAddressForm && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<PlusIcon className="h-4 w-4" />}
+                      onClick={() => setShowAddressForm(true)}
+                    >
+                      New Address
+                    </Button>
+                  )}
                 </div>
-                <div className="mt-6">
-                  <label className="block text-sm font-medium text-neutral-700 mb-2">
-                    Delivery Option
-                  </label>
+
+                {showAddressForm ? (
+                  <AddressForm
+                    submitLabel="Save and Use Address"
+                    initialValues={{ isDefault: addresses.length === 0 }}
+                    onSubmit={handleCreateAddress}
+                    onCancel={addresses.length > 0 ? () => setShowAddressForm(false) : undefined}
+                  />
+                ) : (
                   <div className="space-y-3">
-                    <label className="flex items-center p-3 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50">
-                      <input
-                        {...register('deliveryOption')}
-                        type="radio"
-                        value="standard"
-                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
-                      />
-                      <div className="ml-3">
-                        <div className="flex items-center">
-                          <TruckIcon className="h-5 w-5 text-neutral-500 mr-2" />
-                          <span className="font-medium">Standard Delivery</span>
-                        </div>
-                        <p className="text-sm text-neutral-600">5-7 business days - ₦500</p>
-                      </div>
-                    </label>
-                    <label className="flex items-center p-3 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50">
-                      <input
-                        {...register('deliveryOption')}
-                        type="radio"
-                        value="express"
-                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
-                      />
-                      <div className="ml-3">
-                        <div className="flex items-center">
-                          <TruckIcon className="h-5 w-5 text-neutral-500 mr-2" />
-                          <span className="font-medium">Express Delivery</span>
+                    {addresses.map((address) => (
+                      <label
+                        key={address.id}
+                        className={`flex items-start p-4 border rounded-lg cursor-pointer hover:bg-neutral-50 ${
+                          address.id === selectedAddressId ? 'border-primary-500' : 'border-neutral-300'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="shippingAddress"
+                          checked={address.id === selectedAddressId}
+                          onChange={() => setSelectedAddressId(address.id)}
+                          className="h-4 w-4 mt-1 text-primary-600 focus:ring-primary-500 border-neutral-300"
+                        />
+                        <div className="ml-3 text-sm">
+                          <p className="font-medium text-neutral-900">
+                            {address.firstName} {address.lastName}
+                            {address.isDefault && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-primary-100 text-primary-700">
+                                Default
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-neutral-600">{address.street}</p>
+                          <p className="text-neutral-600">
+                            {address.city}, {address.state} {address.postalCode}, {address.country}
+                          </p>
+                          <p className="text-neutral-600">{address.phone}</p>
                         </div>
-                        <p className="text-sm text-neutral-600">2-3 business days - ₦1,000</p>
-                      </div>
-                    </label>
+                      </label>
+                    ))}
                   </div>
+                )}
+
+                <div className="mt-6 space-y-6">
+                  {sellerGroups.map(({ seller, items }) => (
+                    <div key={seller.id}>
+                      <label className="block text-sm font-medium text-neutral-700 mb-2">
+                        Delivery Option - {seller.storeName} ({items.length} {items.length === 1 ? 'item' : 'items'})
+                      </label>
+                      <div className="space-y-3">
+                        {checkoutDeliveryOptions.map((option) => (
+                          <label
+                            key={option.value}
+                            className="flex items-center p-3 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50"
+                          >
+                            <input
+                              type="radio"
+                              name={`delivery-${seller.id}`}
+                              value={option.value}
+                              checked={getDeliveryOption(seller.id) === option.value}
+                              onChange={() => setDeliveryOptions({ ...deliveryOptions, [seller.id]: option.value })}
+                              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
+                            />
+                            <div className="ml-3">
+                              <div className="flex items-center">
+                                <TruckIcon className="h-5 w-5 text-neutral-500 mr-2" />
+                                <span className="font-medium">{option.label}</span>
+                              </div>
+                              <p className="text-sm text-neutral-600">
+                                {option.description} - {option.fee === 0 ? 'Free' : `ETB ${option.fee.toLocaleString()}`}
+                              </p>
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -278,109 +327,34 @@ const CheckoutPage: React.FC = () => {
               <div className="card">
                 <h2 className="text-xl font-semibold text-neutral-900 mb-6">Payment Method</h2>
                 <div className="space-y-4">
-                  <label className="flex items-center p-4 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50">
-                    <input
-                      {...register('paymentMethod')}
-                      type="radio"
-                      value="card"
-                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
-                    />
-                    <div className="ml-3 flex items-center">
-                      <CreditCardIcon className="h-6 w-6 text-neutral-500 mr-3" />
-                      <div>
-                        <span className="font-medium">Credit/Debit Card</span>
-                        <p className="text-sm text-neutral-600">Visa, Mastercard, American Express</p>
-                      </div>
-                    </div>
-                  </label>
-                  
-                  <label className="flex items-center p-4 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50">
-                    <input
-                      {...register('paymentMethod')}
-                      type="radio"
-                      value="mobile"
-                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
-                    />
-                    <div className="ml-3 flex items-center">
-                      <DevicePhoneMobileIcon className="h-6 w-6 text-neutral-500 mr-3" />
-                      <div>
-                        <span className="font-medium">Mobile Money</span>
-                        <p className="text-sm text-neutral-600">Chapa, CBE Birr, Telebirr</p>
-                      </div>
-                    </div>
-                  </label>
-                  
-                  <label className="flex items-center p-4 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50">
-                    <input
-                      {...register('paymentMethod')}
-                      type="radio"
-                      value="bank"
-                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
-                    />
-                    <div className="ml-3 flex items-center">
-                      <BanknotesIcon className="h-6 w-6 text-neutral-500 mr-3" />
-                      <div>
-                        <span className="font-medium">Bank Transfer</span>
-                        <p className="text-sm text-neutral-600">Direct bank transfer</p>
-                      </div>
-                    </div>
-                  </label>
-                  
-                  <label className="flex items-center p-4 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50">
-                    <input
-                      {...register('paymentMethod')}
-                      type="radio"
-                      value="cod"
-                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
-                    />
-                    <div className="ml-3 flex items-center">
-                      <BanknotesIcon className="h-6 w-6 text-neutral-500 mr-3" />
-                      <div>
-                        <span className="font-medium">Cash on Delivery</span>
-                        <p className="text-sm text-neutral-600">Pay when your order arrives</p>
-                      </div>
-                    </div>
-                  </label>
-                </div>
-
-                {paymentMethod === 'card' && (
-                  <div className="mt-6 p-4 bg-neutral-50 rounded-lg">
-                    <h3 className="font-medium text-neutral-900 mb-4">Card Details</h3>
-                    <div className="space-y-4">
-                      <div>
-                        <label className="block text-sm font-medium text-neutral-700 mb-2">
-                          Card Number
-                        </label>
-                        <input
-                          type="text"
-                          className="input-field"
-                          placeholder="1234 5678 9012 3456"
-                        />
-                      </div>
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label className="block text-sm font-medium text-neutral-700 mb-2">
-                            Expiry Date
-                          </label>
-                          <input
-                            type="text"
-                            className="input-field"
-                            placeholder="MM/YY"
-                          />
-                        </div>
+                  {paymentOptions.map((option) => (
+                    <label
+                      key={option.value}
+                      className="flex items-center p-4 border border-neutral-300 rounded-lg cursor-pointer hover:bg-neutral-50"
+                    >
+                      <input
+                        type="radio"
+                        name="paymentMethod"
+                        value={option.value}
+                        checked={paymentMethod === option.value}
+                        onChange={() => setPaymentMethod(option.value)}
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-neutral-300"
+                      />
+                      <div className="ml-3 flex items-center">
+                        <option.icon className="h-6 w-6 text-neutral-500 mr-3" />
                         <div>
-                          <label className="block text-sm font-medium text-neutral-700 mb-2">
-                            CVV
-                          </label>
-                          <input
-                            type="text"
-                            className="input-field"
-                            placeholder="123"
-                          />
+                          <span className="font-medium">{option.label}</span>
+                          <p className="text-sm text-neutral-600">{option.description}</p>
                         </div>
                       </div>
-                    </div>
-                  </div>
+                    </label>
+                  ))}
+                </div>
+
+                {paymentMethod !== 'CASH_ON_DELIVERY' && (
+                  <p className="mt-6 text-sm text-neutral-600">
+                    You will be redirected to the payment page after placing your order.
+                  </p>
                 )}
               </div>
             )}
@@ -388,22 +362,62 @@ const CheckoutPage: React.FC = () => {
             {currentStep === 3 && (
               <div className="card">
                 <h2 className="text-xl font-semibold text-neutral-900 mb-6">Review Your Order</h2>
-                <div className="space-y-4">
-                  {orderItems.map((item) => (
-                    <div key={item.id} className="flex items-center space-x-4 p-4 border border-neutral-200 rounded-lg">
-                      <div className="text-2xl">{item.image}</div>
-                      <div className="flex-1">
-                        <h3 className="font-medium text-neutral-900">{item.name}</h3>
-                        <p className="text-sm text-neutral-600">by {item.seller}</p>
-                        <p className="text-sm text-neutral-600">Quantity: {item.quantity}</p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-semibold text-neutral-900">
-                          ₦{(item.price * item.quantity).toLocaleString()}
-                        </p>
+                {selectedAddress && (
+                  <div className="mb-6 text-sm">
+                    <p className="font-medium text-neutral-900">Deliver to</p>
+                    <p className="text-neutral-600">
+                      {selectedAddress.firstName} {selectedAddress.lastName}, {selectedAddress.street}, {selectedAddress.city}
+                    </p>
+                  </div>
+                )}
+                <p className="text-sm text-neutral-600 mb-4">
+                  {sellerGroups.length > 1
+                    ? `Your cart will be split into ${sellerGroups.length} orders, one per seller.`
+                    : 'Your order will be placed with one seller.'}
+                </p>
+                <div className="space-y-6">
+                  {sellerGroups.map(({ seller, items }) => {
+                    const sellerSubtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+                    const sellerShipping = getShippingFee(getDeliveryOption(seller.id));
+
+                    return (
+                      <div key={seller.id}>
+                        <h3 className="font-semibold text-neutral-900 mb-2">{seller.storeName}</h3>
+                        <div className="space-y-3">
+                          {items.map((item) => (
+                            <div key={item.id} className="flex items-center space-x-4 p-4 border border-neutral-200 rounded-lg">
+                              {item.product.image ? (
+                                <img
+                                  src={item.product.image}
+                                  alt={item.product.title}
+                                  className="h-12 w-12 rounded object-cover"
+                                />
+                              ) : (
+                                <div className="text-2xl">📦</div>
+                              )}
+                              <div className="flex-1">
+                                <h4 className="font-medium text-neutral-900">{item.product.title}</h4>
+                                <p className="text-sm text-neutral-600">Quantity: {item.quantity}</p>
+                              </div>
+                              <div className="text-right">
+                                <p className="font-semibold text-neutral-900">
+                                  ETB {(item.price * item.quantity).toLocaleString()}
+                                </p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-between text-sm text-neutral-600 mt-2">
+                          <span>Shipping</span>
+                          <span>{sellerShipping === 0 ? 'Free' : `ETB ${sellerShipping.toLocaleString()}`}</span>
+                        </div>
+                        <div className="flex justify-between text-sm font-medium text-neutral-900">
+                          <span>Order total</span>
+                          <span>ETB {(sellerSubtotal + sellerShipping).toLocaleString()}</span>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -422,17 +436,21 @@ const CheckoutPage: React.FC = () => {
               {currentStep < 3 && (
                 <Button
                   type="button"
-                  onClick={() => setCurrentStep(currentStep + 1)}
+                  onClick={handleNext}
+                  disabled={currentStep === 1 && showAddressForm}
                 >
                   Next
                 </Button>
               )}
               {currentStep === 3 && (
                 <Button
-                  type="submit"
+                  type="button"
                   loading={isProcessing}
+                  onClick={handlePlaceOrder}
                 >
-                  {isProcessing ? 'Processing Payment...' : 'Complete Order'}
+                  {isProcessing
+                    ? 'Placing Order...'
+                    : paymentMethod === 'CASH_ON_DELIVERY' ? 'Place Order' : 'Place Order and Pay'}
                 </Button>
               )}
             </div>
@@ -442,24 +460,22 @@ const CheckoutPage: React.FC = () => {
           <div className="lg:col-span-1">
             <div className="card sticky top-8">
               <h3 className="text-lg font-semibold text-neutral-900 mb-4">Order Summary</h3>
-              
+
               <div className="space-y-3 mb-6">
                 <div className="flex justify-between">
                   <span className="text-neutral-600">Subtotal</span>
-                  <span className="font-medium">₦{subtotal.toLocaleString()}</span>
+                  <span className="font-medium">ETB {subtotal.toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-neutral-600">Shipping</span>
-                  <span className="font-medium">₦{shipping.toLocaleString()}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-neutral-600">Tax</span>
-                  <span className="font-medium">₦{tax.toLocaleString()}</span>
+                  <span className="text-neutral-600">
+                    Shipping ({sellerGroups.length} {sellerGroups.length === 1 ? 'seller' : 'sellers'})
+                  </span>
+                  <span className="font-medium">{shipping === 0 ? 'Free' : `ETB ${shipping.toLocaleString()}`}</span>
                 </div>
                 <div className="border-t border-neutral-200 pt-3">
                   <div className="flex justify-between">
                     <span className="text-lg font-semibold text-neutral-900">Total</span>
-                    <span className="text-lg font-bold text-neutral-900">₦{total.toLocaleString()}</span>
+                    <span className="text-lg font-bold text-neutral-900">ETB {total.toLocaleString()}</span>
                   </div>
                 </div>
               </div>
@@ -470,7 +486,7 @@ const CheckoutPage: React.FC = () => {
               </div>
             </div>
           </div>
-        </form>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { BeakerIcon } from '@heroicons/react/24/outline';
+import { Button } from '../../components/ui/Button';
+import { getErrorMessage } from '../../lib/utils';
+import { paymentMethodLabels } from '../../lib/orders';
+import type { PaymentMethod } from '../../types';
+
+type SimulatedOutcome = 'success' | 'failed';
+
+interface WebhookDelivery {
+  label: string;
+  status: number;
+  message: string;
+  eventHash: string;
+}
+
+interface SimulatorResponse {
+  status: number;
+  response: { success?: boolean; message?: string } | null;
+  eventHash: string;
+}
+
+// Served by the gateway simulator in the Vite dev server (simulator/gatewaySimulator.ts)
+const SIMULATOR_URL = '/__gateway';
+
+const TestPaymentPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [sending, setSending] = useState<string | null>(null);
+
+  const gateway = searchParams.get('gateway') as PaymentMethod | null;
+  const transactionId = searchParams.get('transactionId');
+  const amount = Number(searchParams.get('amount'));
+  const currency = searchParams.get('currency') || 'ETB';
+  const orderNumber = searchParams.get('orderNumber');
+  const checkoutGroupId = searchParams.get('checkoutGroupId');
+
+  const record = (label: string, data: SimulatorResponse) => {
+    setDeliveries(prev => [{
+      label,
+      status: data.status,
+      message: data.response?.message || (data.response?.success ? 'OK' : 'No message'),
+      eventHash: data.eventHash,
+    }, ...prev]);
+  };
+
+  const sendWebhook = async (label: string, outcome: SimulatedOutcome, chargedAmount = amount) => {
+    setSending(label);
+    try {
+      const response = await axios.post<SimulatorResponse>(`${SIMULATOR_URL}/webhook`, {
+        gateway,
+        transactionId,
+        amount: chargedAmount,
+        currency,
+        outcome,
+      });
+      record(label, response.data);
+    } catch (error) {
+      setDeliveries(prev => [{ label, status: 0, message: getErrorMessage(error), eventHash: '-' }, ...prev]);
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const replayWebhook = async () => {
+    setSending('Replay');
+    try {
+      const response = await axios.post<SimulatorResponse>(`${SIMULATOR_URL}/replay`);
+      record('Replay', response.data);
+    } catch (error) {
+      setDeliveries(prev => [{ label: 'Replay', status: 0, message: getErrorMessage(error), eventHash: '-' }, ...prev]);
+    } finally {
+      setSending(null);
+    }
+  };
+
+  if (!gateway || !transactionId || !amount) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-neutral-900 mb-4">No test payment to show</h2>
+          <p className="text-neutral-600 mb-6">
+            Set PAYMENT_SIMULATOR_URL on the backend and pay for an order to land here.
+          </p>
+          <Link to="/dashboard" className="btn-primary">
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="card">
+          <div className="flex items-center gap-3 mb-6">
+            <BeakerIcon className="h-8 w-8 text-primary-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-neutral-900">Test Payment</h1>
+              <p className="text-sm text-neutral-500">
+                Local {paymentMethodLabels[gateway] || gateway} simulator - no real money moves
+              </p>
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-4 text-sm mb-6">
+            <div>
+              <dt className="text-neutral-500">Order</dt>
+              <dd className="font-medium text-neutral-900">{orderNumber || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-neutral-500">Amount</dt>
+              <dd className="font-medium text-neutral-900">{currency} {amount.toLocaleString()}</dd>
+            </div>
+            <div className="col-span-2">
+              <dt className="text-neutral-500">Transaction</dt>
+              <dd className="font-mono text-neutral-900 break-all">{transactionId}</dd>
+            </div>
+          </dl>
+
+          <div className="flex flex-wrap gap-3">
+            <Button
+              variant="success"
+              loading={sending === 'Pay'}
+              disabled={!!sending}
+              onClick={() => sendWebhook('Pay', 'success')}
+            >
+              Pay {currency} {amount.toLocaleString()}
+            </Button>
+            <Button
+              variant="destructive"
+              loading={sending === 'Decline'}
+              disabled={!!sending}
+              onClick={() => sendWebhook('Decline', 'failed')}
+            >
+              Decline
+            </Button>
+            <Button
+              variant="outline"
+              loading={sending === 'Wrong amount'}
+              disabled={!!sending}
+              onClick={() => sendWebhook('Wrong amount', 'success', amount - 1)}
+            >
+              Pay wrong amount
+            </Button>
+            <Button
+              variant="ghost"
+              loading={sending === 'Replay'}
+              disabled={!!sending || deliveries.length === 0}
+              onClick={replayWebhook}
+            >
+              Replay last webhook
+            </Button>
+          </div>
+        </div>
+
+        {deliveries.length > 0 && (
+          <div className="card">
+            <h2 className="text-lg font-semibold text-neutral-900 mb-4">Webhook Deliveries</h2>
+            <div className="divide-y divide-neutral-100">
+              {deliveries.map((delivery, index) => (
+                <div key={deliveries.length - index} className="flex items-center justify-between py-3 text-sm">
+                  <div>
+                    <p className="font-medium text-neutral-900">{delivery.label}</p>
+                    <p className="text-neutral-500">{delivery.message}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-medium ${delivery.status === 200 ? 'text-green-600' : 'text-red-600'}`}>
+                      {delivery.status || 'Error'}
+                    </p>
+                    <p className="font-mono text-xs text-neutral-400">{delivery.eventHash}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {deliveries.length > 0 && (
+          <div className="text-center">
+            <Link
+              to={checkoutGroupId ? `/checkout/confirmation/${checkoutGroupId}` : '/dashboard'}
+              className="btn-primary"
+            >
+              Continue to your order
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TestPaymentPage;
@@ -0,0 +1,346 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { BanknotesIcon, MapPinIcon, PhoneIcon, TruckIcon } from '@heroicons/react/24/outline';
+import { Button } from '../../components/ui/Button';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiClient } from '../../lib/api';
+import { deliveryStatusLabels, paymentMethodLabels } from '../../lib/orders';
+import { formatDateTime, getErrorMessage, getRelativeTime } from '../../lib/utils';
+import type { CourierDelivery, DeliveryJob, DeliveryStatus } from '../../types';
+
+type View = 'jobs' | 'active' | 'delivered';
+
+const views: Array<{ id: View; label: string }> = [
+  { id: 'jobs', label: 'Job Board' },
+  { id: 'active', label: 'My Deliveries' },
+  { id: 'delivered', label: 'Delivered' },
+];
+
+// The step after each status, as the button a courier taps
+const nextSteps: Partial<Record<DeliveryStatus, { status: DeliveryStatus; label: string }>> = {
+  ASSIGNED: { status: 'PICKED_UP', label: 'Picked up' },
+  PICKED_UP: { status: 'IN_TRANSIT', label: 'In transit' },
+  IN_TRANSIT: { status: 'OUT_FOR_DELIVERY', label: 'Out for delivery' },
+  OUT_FOR_DELIVERY: { status: 'DELIVERED', label: 'Mark delivered' },
+};
+
+const DeliveryDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const [view, setView] = useState<View>('active');
+  const [jobs, setJobs] = useState<DeliveryJob[]>([]);
+  const [deliveries, setDeliveries] = useState<CourierDelivery[]>([]);
+  const [city, setCity] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  // The delivery whose finish form is open, and whether it is being delivered or failed
+  const [finishing, setFinishing] = useState<{ id: string; status: 'DELIVERED' | 'FAILED' } | null>(null);
+  const [cashCollected, setCashCollected] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    fetchView();
+  }, [view]);
+
+  const fetchView = async () => {
+    try {
+      setLoading(true);
+      if (view === 'jobs') {
+        const response = await apiClient.delivery.getJobs({ city: city.trim() || undefined });
+        setJobs(response.data.data?.jobs || []);
+      } else {
+        const response = await apiClient.delivery.getAssignments(view === 'delivered' ? { status: 'DELIVERED' } : undefined);
+        setDeliveries(response.data.data?.assignments || []);
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async (job: DeliveryJob) => {
+    setActingId(job.id);
+    try {
+      await apiClient.delivery.acceptJob(job.id);
+      toast.success(`Order ${job.orderNumber} is yours`);
+      setView('active');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      fetchView();
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const openFinish = (delivery: CourierDelivery, status: 'DELIVERED' | 'FAILED') => {
+    setFinishing({ id: delivery.id, status });
+    setCashCollected(status === 'DELIVERED' && delivery.cashToCollect > 0 ? String(delivery.cashToCollect) : '');
+    setNotes('');
+  };
+
+  const updateStatus = async (delivery: CourierDelivery, status: DeliveryStatus) => {
+    const collectsCash = status === 'DELIVERED' && delivery.cashToCollect > 0;
+
+    if (collectsCash && (cashCollected === '' || Number(cashCollected) < 0)) {
+      toast.error('Enter the cash you collected');
+      return;
+    }
+    if (status === 'FAILED' && !notes.trim()) {
+      toast.error('Say why the delivery failed');
+      return;
+    }
+
+    setActingId(delivery.id);
+    try {
+      const response = await apiClient.delivery.updateStatus(delivery.id, {
+        status,
+        cashCollected: collectsCash ? Number(cashCollected) : undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(response.data.message || 'Delivery updated');
+      setFinishing(null);
+      fetchView();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const cashDue = deliveries.reduce((sum, delivery) => sum + delivery.cashToCollect, 0);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-900 mb-2">Deliveries</h1>
+          <p className="text-neutral-600">
+            {user ? `Hi ${user.firstName}. ` : ''}Accept jobs from the board and update each delivery as you go.
+          </p>
+        </div>
+
+        <div className="border-b border-neutral-200">
+          <nav className="flex space-x-6">
+            {views.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setView(item.id)}
+                className={`pb-3 text-sm font-medium border-b-2 whitespace-nowrap ${
+                  view === item.id
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-neutral-500 hover:text-neutral-700'
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {view === 'jobs' && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              fetchView();
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+              className="input-field flex-1"
+              placeholder="Filter by delivery city"
+            />
+            <Button type="submit" variant="outline">Search</Button>
+          </form>
+        )}
+
+        {view === 'active' && !loading && cashDue > 0 && (
+          <div className="card flex items-center">
+            <BanknotesIcon className="h-8 w-8 text-green-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-neutral-600">Cash to collect</p>
+              <p className="text-2xl font-bold text-neutral-900">ETB {cashDue.toLocaleString()}</p>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="card loading-skeleton h-32"></div>
+            ))}
+          </div>
+        ) : view === 'jobs' ? (
+          jobs.length === 0 ? (
+            <EmptyState message="No open deliveries right now. Check back soon." />
+          ) : (
+            <div className="space-y-4">
+              {jobs.map(job => (
+                <div key={job.id} className="card text-sm flex flex-wrap items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-semibold text-neutral-900">
+                      Order {job.orderNumber}
+                      <span className="font-normal text-neutral-500"> - {job._count.items} items, {getRelativeTime(job.createdAt)}</span>
+                    </p>
+                    <p className="flex items-center text-neutral-700">
+                      <MapPinIcon className="h-4 w-4 mr-2 text-neutral-400" />
+                      {job.seller.storeName || 'Seller'}{job.seller.city && ` (${job.seller.city})`}
+                      {' '}to {job.shippingAddress.city}, {job.shippingAddress.state}
+                    </p>
+                    <p className="text-neutral-500">
+                      Delivery fee ETB {Number(job.shipping).toLocaleString()}
+                      {job.cashToCollect > 0 && ` - collect ETB ${job.cashToCollect.toLocaleString()} in cash`}
+                      {job.deliveryStatus === 'FAILED' && ' - previous attempt failed'}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    loading={actingId === job.id}
+                    disabled={actingId !== null}
+                    onClick={() => handleAccept(job)}
+                  >
+                    Accept
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )
+        ) : deliveries.length === 0 ? (
+          <EmptyState
+            message={view === 'delivered' ? 'No completed deliveries yet.' : 'You have no deliveries. Accept one from the job board.'}
+          />
+        ) : (
+          <div className="space-y-4">
+            {deliveries.map(delivery => {
+              const address = delivery.order.deliveryAddress;
+              const nextStep = nextSteps[delivery.status];
+              const isFinishing = finishing?.id === delivery.id;
+
+              return (
+                <div key={delivery.id} className="card text-sm space-y-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold text-neutral-900">Order {delivery.order.orderNumber}</p>
+                      <p className="text-neutral-500">
+                        From {delivery.order.seller.storeName || 'the seller'}
+                        {delivery.order.seller.phone && ` (${delivery.order.seller.phone})`}
+                      </p>
+                    </div>
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
+                      {deliveryStatusLabels[delivery.status]}
+                    </span>
+                  </div>
+
+                  <div className="space-y-1 text-neutral-700">
+                    <p className="flex items-center">
+                      <MapPinIcon className="h-4 w-4 mr-2 text-neutral-400" />
+                      {address
+                        ? `${address.firstName} ${address.lastName}, ${address.street}, ${address.city}`
+                        : `${delivery.order.buyer.firstName} ${delivery.order.buyer.lastName}`}
+                    </p>
+                    {(address?.phone || delivery.order.buyer.phone) && (
+                      <p className="flex items-center">
+                        <PhoneIcon className="h-4 w-4 mr-2 text-neutral-400" />
+                        {address?.phone || delivery.order.buyer.phone}
+                      </p>
+                    )}
+                    {delivery.order.deliveryNotes && (
+                      <p className="text-neutral-500 italic">{delivery.order.deliveryNotes}</p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap items-center justify-between gap-2 border-t border-neutral-100 pt-3">
+                    <p className="text-neutral-700">
+                      {delivery.cashToCollect > 0
+                        ? <>Collect <span className="font-semibold">ETB {delivery.cashToCollect.toLocaleString()}</span> in cash</>
+                        : delivery.paymentMethod
+                          ? `Paid by ${paymentMethodLabels[delivery.paymentMethod]}`
+                          : 'No payment to collect'}
+                    </p>
+                    {view === 'delivered' ? (
+                      <p className="text-neutral-500">
+                        {delivery.actualDelivery && `Delivered ${formatDateTime(delivery.actualDelivery)}`}
+                        {delivery.cashCollected !== null && ` - ETB ${Number(delivery.cashCollected).toLocaleString()} collected`}
+                      </p>
+                    ) : nextStep && !isFinishing && (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={actingId !== null}
+                          onClick={() => openFinish(delivery, 'FAILED')}
+                        >
+                          Failed
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={nextStep.status === 'DELIVERED' ? 'success' : 'primary'}
+                          loading={actingId === delivery.id}
+                          disabled={actingId !== null}
+                          onClick={() => nextStep.status === 'DELIVERED'
+                            ? openFinish(delivery, 'DELIVERED')
+                            : updateStatus(delivery, nextStep.status)}
+                        >
+                          {nextStep.label}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {isFinishing && (
+                    <div className="space-y-3 border border-neutral-200 rounded-lg p-4">
+                      {finishing.status === 'DELIVERED' && delivery.cashToCollect > 0 && (
+                        <div>
+                          <label className="block text-sm font-medium text-neutral-700 mb-1">
+                            Cash collected (ETB)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={cashCollected}
+                            onChange={(e) => setCashCollected(e.target.value)}
+                            className="input-field"
+                          />
+                        </div>
+                      )}
+                      <input
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        className="input-field"
+                        placeholder={finishing.status === 'FAILED' ? 'What went wrong? (buyer not home, wrong address...)' : 'Notes (optional)'}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setFinishing(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={finishing.status === 'FAILED' ? 'destructive' : 'success'}
+                          loading={actingId === delivery.id}
+                          onClick={() => updateStatus(delivery, finishing.status)}
+                        >
+                          {finishing.status === 'FAILED' ? 'Report failed delivery' : 'Confirm delivery'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const EmptyState: React.FC<{ message: string }> = ({ message }) => (
+  <div className="card text-center py-12">
+    <TruckIcon className="h-12 w-12 text-neutral-400 mx-auto mb-4" />
+    <p className="text-neutral-600">{message}</p>
+  </div>
+);
+
+export default DeliveryDashboard;
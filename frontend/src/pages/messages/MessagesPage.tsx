@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import Conversation from '../../components/chat/Conversation';
+import { useAuth } from '../../contexts/AuthContext';
+import { useChat } from '../../contexts/ChatContext';
+import { apiClient } from '../../lib/api';
+import { getMessagePreview } from '../../lib/chats';
+import { getErrorMessage, getInitials, getRelativeTime } from '../../lib/utils';
+import type { ChatSummary } from '../../types';
+
+const MessagesPage: React.FC = () => {
+  const { chatId } = useParams<{ chatId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { subscribe } = useChat();
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchChats();
+  }, []);
+
+  // Opening a chat reads it, including when the list arrives after the chat was opened
+  useEffect(() => {
+    setChats(prev => prev.map(chat => chat.id === chatId ? { ...chat, unreadCount: 0 } : chat));
+  }, [chatId, loading]);
+
+  useEffect(() => {
+    return subscribe(event => {
+      if (event.type !== 'message') {
+        return;
+      }
+
+      const message = event.data;
+      const chat = chats.find(c => c.id === message.chatId);
+      if (!chat) {
+        // A conversation someone else just started
+        fetchChats();
+        return;
+      }
+
+      setChats(prev => {
+        const isIncoming = message.sender.id !== user?.id;
+        const updated: ChatSummary = {
+          ...chat,
+          lastMessageAt: message.createdAt,
+          unreadCount: isIncoming && message.chatId !== chatId ? chat.unreadCount + 1 : chat.unreadCount,
+          lastMessage: {
+            id: message.id,
+            content: message.content,
+            type: message.type,
+            isRead: message.isRead,
+            createdAt: message.createdAt,
+            sender: {
+              id: message.sender.id,
+              name: `${message.sender.firstName} ${message.sender.lastName}`,
+            },
+          },
+        };
+        return [updated, ...prev.filter(c => c.id !== chat.id)];
+      });
+    });
+  }, [chats, chatId, user?.id, subscribe]);
+
+  const fetchChats = async () => {
+    try {
+      const response = await apiClient.chats.getAll({ limit: 50 });
+      setChats(response.data.data?.chats || []);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activeChat = chats.find(chat => chat.id === chatId);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-neutral-900 mb-6">Messages</h1>
+
+        <div className="card p-0 overflow-hidden grid grid-cols-1 md:grid-cols-3 h-[70vh]">
+          <div className={`border-r border-neutral-200 overflow-y-auto ${chatId ? 'hidden md:block' : ''}`}>
+            {loading ? (
+              <div className="p-4 space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="loading-skeleton h-14 rounded-lg"></div>
+                ))}
+              </div>
+            ) : chats.length === 0 ? (
+              <div className="p-8 text-center">
+                <ChatBubbleLeftRightIcon className="h-10 w-10 text-neutral-300 mx-auto mb-2" />
+                <p className="text-sm text-neutral-500">
+                  No conversations yet. Message a seller from any product page.
+                </p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-neutral-100">
+                {chats.map(chat => (
+                  <li key={chat.id}>
+                    <button
+                      onClick={() => navigate(`/messages/${chat.id}`)}
+                      className={`w-full text-left px-4 py-3 flex items-center gap-3 hover:bg-neutral-50 ${
+                        chat.id === chatId ? 'bg-primary-50' : ''
+                      }`}
+                    >
+                      <div className="relative flex-shrink-0">
+                        {chat.otherParticipant.avatar ? (
+                          <img
+                            src={chat.otherParticipant.avatar}
+                            alt={chat.otherParticipant.name}
+                            className="h-10 w-10 rounded-full object-cover"
+                          />
+                        ) : (
+                          <div className="h-10 w-10 rounded-full bg-primary-100 text-primary-700 flex items-center justify-center text-sm font-semibold">
+                            {getInitials(chat.otherParticipant.name)}
+                          </div>
+                        )}
+                        {chat.otherParticipant.isOnline && (
+                          <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 border-2 border-white"></span>
+                        )}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <div className="flex justify-between gap-2">
+                          <p className="font-medium text-neutral-900 truncate">
+                            {chat.otherParticipant.storeName || chat.otherParticipant.name}
+                          </p>
+                          {chat.lastMessageAt && (
+                            <span className="text-xs text-neutral-500 whitespace-nowrap">
+                              {getRelativeTime(chat.lastMessageAt)}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex justify-between gap-2">
+                          <p className={`text-sm truncate ${chat.unreadCount > 0 ? 'text-neutral-900 font-medium' : 'text-neutral-500'}`}>
+                            {chat.lastMessage
+                              ? `${chat.lastMessage.sender.id === user?.id ? 'You: ' : ''}${getMessagePreview(chat.lastMessage)}`
+                              : chat.product?.title || 'No messages yet'}
+                          </p>
+                          {chat.unreadCount > 0 && (
+                            <span className="bg-primary-500 text-white text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center">
+                              {chat.unreadCount > 9 ? '9+' : chat.unreadCount}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className={`md:col-span-2 min-h-0 ${chatId ? '' : 'hidden md:block'}`}>
+            {activeChat ? (
+              <Conversation
+                chat={activeChat}
+                onBack={() => navigate('/messages')}
+                onChatChange={(updated) => setChats(prev => prev.map(chat => chat.id === updated.id ? updated : chat))}
+              />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-neutral-500 p-8">
+                {chatId && !loading ? 'Conversation not found.' : 'Select a conversation to start chatting.'}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessagesPage;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { ArrowLeftIcon, TruckIcon } from '@heroicons/react/24/outline';
+import { Button } from '../../components/ui/Button';
+import ContactSeller from '../../components/orders/ContactSeller';
+import OrderHistory from '../../components/orders/OrderHistory';
+import OrderRefunds from '../../components/orders/OrderRefunds';
+import OrderTimeline from '../../components/orders/OrderTimeline';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiClient } from '../../lib/api';
+import { formatDateTime, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import {
+  deliveryStatusLabels,
+  getDeliveryOptionLabel,
+  orderStatusStyles,
+  paymentMethodLabels,
+  paymentStatusStyles,
+} from '../../lib/orders';
+import type { OrderDetail } from '../../types';
+
+const OrderDetailPage: React.FC = () => {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showCancel, setShowCancel] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      fetchOrder();
+    }
+  }, [id]);
+
+  const fetchOrder = async () => {
+    try {
+      const response = await apiClient.orders.getById(id!);
+      setOrder(response.data.data || null);
+    } catch (error) {
+      console.error('Error fetching order:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelReason.trim()) {
+      toast.error('Tell the seller why you are cancelling');
+      return;
+    }
+
+    setCancelling(true);
+    try {
+      const response = await apiClient.orders.cancel(id!, { reason: cancelReason.trim() });
+      const { refundAmount, refundStatus } = response.data.data!;
+      if (refundStatus === 'FAILED') {
+        toast.error(response.data.message || 'Order cancelled, but the refund did not go through');
+      } else {
+        toast.success(refundAmount > 0
+          ? `Order cancelled. ETB ${refundAmount.toLocaleString()} is on its way back to you.`
+          : 'Order cancelled');
+      }
+      setShowCancel(false);
+      fetchOrder();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-neutral-900 mb-4">Order not found</h2>
+          <Link to={user?.role === 'BUYER' ? '/orders' : '/dashboard'} className="btn-primary">
+            {user?.role === 'BUYER' ? 'Back to My Orders' : 'Back to Dashboard'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const payment = order.payments[0];
+  const isBuyer = order.buyerId === user?.id;
+  // The latest courier attempt that did not fail or get cancelled
+  const courier = [...order.deliveryAssignments]
+    .reverse()
+    .find(attempt => attempt.partner && attempt.status !== 'FAILED' && attempt.status !== 'CANCELLED')?.partner;
+  const canCancel = isBuyer && (order.status === 'PENDING' || order.status === 'CONFIRMED');
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link
+          to={isBuyer ? '/orders' : '/dashboard'}
+          className="inline-flex items-center text-sm text-neutral-600 hover:text-neutral-900"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          {isBuyer ? 'Back to My Orders' : 'Back to Dashboard'}
+        </Link>
+
+        <div className="card">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-neutral-900">Order {order.orderNumber}</h1>
+              <p className="text-sm text-neutral-600">
+                Placed {formatDateTime(order.createdAt)}
+                {order.seller.storeName && ` with ${order.seller.storeName}`}
+              </p>
+            </div>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${orderStatusStyles[order.status]}`}>
+              {formatEnumLabel(order.status)}
+            </span>
+          </div>
+
+          <div className="space-y-3">
+            {order.items.map(item => (
+              <div key={item.id} className="flex items-center space-x-4">
+                {item.product.images[0] ? (
+                  <img src={item.product.images[0]} alt={item.product.title} className="h-12 w-12 rounded object-cover" />
+                ) : (
+                  <div className="text-2xl">📦</div>
+                )}
+                <div className="flex-1">
+                  <Link to={`/products/${item.product.id}`} className="font-medium text-neutral-900 hover:text-primary-600">
+                    {item.product.title}
+                  </Link>
+                  <p className="text-sm text-neutral-600">Quantity: {item.quantity}</p>
+                </div>
+                <p className="font-medium text-neutral-900">
+                  ETB {(Number(item.price) * item.quantity).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-neutral-200 mt-4 pt-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-neutral-600">Subtotal</span>
+              <span>ETB {Number(order.subtotal).toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-neutral-600">Shipping</span>
+              <span>{Number(order.shipping) === 0 ? 'Free' : `ETB ${Number(order.shipping).toLocaleString()}`}</span>
+            </div>
+            <div className="flex justify-between font-semibold text-neutral-900">
+              <span>Total</span>
+              <span>ETB {Number(order.total).toLocaleString()}</span>
+            </div>
+          </div>
+        </div>
+
+        {isBuyer && (
+          <div className="card">
+            <div className="flex flex-wrap gap-2">
+              <ContactSeller order={order} />
+              {canCancel && !showCancel && (
+                <Button variant="ghost" size="sm" onClick={() => setShowCancel(true)}>
+                  Cancel order
+                </Button>
+              )}
+            </div>
+            {showCancel && (
+              <div className="space-y-2 mt-4">
+                <textarea
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  rows={2}
+                  className="input-field"
+                  placeholder="Why are you cancelling?"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setShowCancel(false)}>
+                    Keep order
+                  </Button>
+                  <Button variant="destructive" size="sm" loading={cancelling} onClick={handleCancel}>
+                    Cancel order
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="card">
+          <h2 className="text-lg font-semibold text-neutral-900 mb-4">Tracking</h2>
+          <OrderTimeline order={order} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="card text-sm">
+            <h2 className="text-lg font-semibold text-neutral-900 mb-3">Delivery</h2>
+            <p className="flex items-center text-neutral-700 mb-2">
+              <TruckIcon className="h-4 w-4 mr-2" />
+              {getDeliveryOptionLabel(order.deliveryOption)} - {deliveryStatusLabels[order.deliveryStatus]}
+            </p>
+            <p className="text-neutral-900">
+              {order.shippingAddress.firstName} {order.shippingAddress.lastName}
+            </p>
+            <p className="text-neutral-600">{order.shippingAddress.street}</p>
+            <p className="text-neutral-600">
+              {order.shippingAddress.city}, {order.shippingAddress.state}
+            </p>
+            {order.trackingNumber && (
+              <p className="text-neutral-600 mt-2">Tracking: {order.trackingNumber}</p>
+            )}
+            {courier && (
+              <p className="text-neutral-600 mt-2">
+                Courier: {courier.user.firstName} {courier.user.lastName}, {courier.vehicleType}
+                {courier.licensePlate && ` (${courier.licensePlate})`}
+              </p>
+            )}
+          </div>
+
+          <div className="card text-sm">
+            <h2 className="text-lg font-semibold text-neutral-900 mb-3">Payment</h2>
+            {payment ? (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-neutral-600">{paymentMethodLabels[payment.paymentMethod]}</span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${paymentStatusStyles[payment.status]}`}>
+                    {formatEnumLabel(payment.status)}
+                  </span>
+                </div>
+                {payment.paidAt && (
+                  <p className="text-neutral-600">Paid {formatDateTime(payment.paidAt)}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-neutral-600">No payment yet</p>
+            )}
+          </div>
+        </div>
+
+        <OrderRefunds order={order} onChange={fetchOrder} />
+
+        <div className="card">
+          <h2 className="text-lg font-semibold text-neutral-900 mb-3">History</h2>
+          <OrderHistory events={order.events} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetailPage;
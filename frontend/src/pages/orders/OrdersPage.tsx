@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { ShoppingBagIcon } from '@heroicons/react/24/outline';
+import OrderCard from '../../components/orders/OrderCard';
+import Pagination from '../../components/ui/Pagination';
+import { apiClient } from '../../lib/api';
+import { formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { OrderStatusValues } from '../../types';
+import type { OrderStats, OrderStatus, OrderSummary } from '../../types';
+
+const PAGE_SIZE = 10;
+
+const OrdersPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [orders, setOrders] = useState<OrderSummary[]>([]);
+  const [orderStats, setOrderStats] = useState<OrderStats | null>(null);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const status = OrderStatusValues.find(value => value === searchParams.get('status'));
+  const page = Number(searchParams.get('page')) || 1;
+
+  useEffect(() => {
+    fetchOrders();
+  }, [status, page]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.orders.getAll({ page, limit: PAGE_SIZE, status });
+      setOrders(response.data.data?.orders || []);
+      setOrderStats(response.data.data?.orderStats || null);
+      setTotalPages(response.data.data?.pagination.totalPages || 1);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectStatus = (value?: OrderStatus) => {
+    setSearchParams(value ? { status: value } : {});
+  };
+
+  const setPage = (value: number) => {
+    setSearchParams({ ...(status && { status }), page: String(value) });
+  };
+
+  const allCount = orderStats ? Object.values(orderStats).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-neutral-900 mb-6">My Orders</h1>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button
+            onClick={() => selectStatus()}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${
+              !status ? 'bg-primary-600 text-white' : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+            }`}
+          >
+            All ({allCount})
+          </button>
+          {orderStats && OrderStatusValues.map(value => {
+            const count = orderStats[value.toLowerCase() as Lowercase<typeof value>];
+            return count > 0 && (
+              <button
+                key={value}
+                onClick={() => selectStatus(value)}
+                className={`px-3 py-1 rounded-full text-sm font-medium ${
+                  status === value ? 'bg-primary-600 text-white' : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+                }`}
+              >
+                {formatEnumLabel(value)} ({count})
+              </button>
+            );
+          })}
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="card loading-skeleton h-28"></div>
+            ))}
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="card text-center py-12">
+            <ShoppingBagIcon className="h-12 w-12 text-neutral-400 mx-auto mb-3" />
+            <p className="text-neutral-600 mb-4">
+              {status ? `No ${formatEnumLabel(status).toLowerCase()} orders.` : "You haven't placed any orders yet."}
+            </p>
+            <Link to="/products" className="btn-primary">Start Shopping</Link>
+          </div>
+        ) : (
+          <div className="card space-y-4">
+            {orders.map(order => (
+              <OrderCard key={order.id} order={order} />
+            ))}
+          </div>
+        )}
+
+        <Pagination page={page} totalPages={totalPages} onPageChange={setPage} />
+      </div>
+    </div>
+  );
+};
+
+export default OrdersPage;
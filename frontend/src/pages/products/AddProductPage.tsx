@@ -12,6 +12,7 @@ import {
   InformationCircleIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '../../lib/api';
+import type { ProductInput } from '../../types';
 
 interface ProductFormData {
   // Step 1: Basic Info
@@ -257,27 +258,18 @@ const AddProduct: React.FC = () => {
 
     setLoading(true);
     try {
-      // Prepare data for API
-      const productData = {
-        name: formData.title,
+      // Prepare data for API (field names match the backend product create route)
+      const productData: ProductInput = {
+        title: formData.title,
         description: formData.description,
-        category: formData.category,
+        categoryId: formData.category,
         tags: formData.tags,
         images: formData.images,
         video: formData.video,
         price: formData.price,
-        originalPrice: formData.comparePrice || undefined,
-        costPerItem: formData.costPerItem || undefined,
-        sku: formData.sku || undefined,
-        trackQuantity: formData.trackQuantity,
+        comparePrice: formData.comparePrice || undefined,
         quantity: formData.trackQuantity ? formData.quantity : undefined,
-        continueSellingWhenOutOfStock: formData.continueSelling,
         weight: formData.requiresShipping ? formData.weight : undefined,
-        weightUnit: formData.requiresShipping ? formData.weightUnit : undefined,
-        requiresShipping: formData.requiresShipping,
-        productType: formData.productType || undefined,
-        vendor: formData.vendor || undefined,
-        collections: formData.collections,
       };
 
       const response = await apiClient.products.create(productData);
@@ -1,6 +1,7 @@
 // pages/ProductDetailPage.tsx
 import React, { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { 
   HeartIcon, 
   StarIcon, 
@@ -11,10 +12,18 @@ import {
   ArrowLeftIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '../../lib/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import { openChatWith } from '../../lib/chats';
+import { getErrorMessage } from '../../lib/utils';
+import type { ProductStock } from '../../types';
+
+// How often the stock line refreshes while the page is open
+const STOCK_REFRESH_MS = 30000;
 
 interface Product {
   id: string;
-  name: string;
+  title: string;
   description: string;
   price: number;
   originalPrice?: number;
@@ -23,7 +32,7 @@ interface Product {
   category: string;
   seller: {
     id: string;
-    name: string;
+    storeName: string;
     rating: number;
     reviewCount: number;
     location: string;
@@ -31,8 +40,6 @@ interface Product {
   rating: number;
   reviewCount: number;
   specifications: Record<string, string>;
-  inStock: boolean;
-  stockQuantity: number;
   tags: string[];
   createdAt: string;
 }
@@ -52,6 +59,8 @@ interface Review {
 const ProductDetailPage: React.FC = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const { user, isAuthenticated } = useAuth();
+  const { addItem } = useCart();
   const [product, setProduct] = useState<Product | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
@@ -60,6 +69,7 @@ const ProductDetailPage: React.FC = () => {
   const [isWishlisted, setIsWishlisted] = useState(false);
   const [loading, setLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
+  const [stock, setStock] = useState<ProductStock | null>(null);
 
   const safeExtract = (res: any) => {
     if (!res) return null;
@@ -74,6 +84,21 @@ const ProductDetailPage: React.FC = () => {
     }
   }, [id]);
 
+  // Other buyers' orders take stock, so keep the count current
+  useEffect(() => {
+    if (!id) return;
+
+    const refreshStock = () => {
+      apiClient.products.getStock(id)
+        .then(response => setStock(response.data.data || null))
+        .catch(() => {});
+    };
+
+    refreshStock();
+    const timer = setInterval(refreshStock, STOCK_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [id]);
+
   const fetchProductData = async () => {
     try {
       setLoading(true);
@@ -108,33 +133,18 @@ const ProductDetailPage: React.FC = () => {
 
     setAddingToCart(true);
     try {
-      // This would typically call a cart API endpoint
-      // For now, we'll simulate adding to cart
-      const cartItem = {
+      await addItem({
         productId: product.id,
         quantity,
-        price: product.price,
-        name: product.name,
-        image: product.images[0]
-      };
-
-      // Store in localStorage for demo
-      const existingCart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const existingItemIndex = existingCart.findIndex((item: any) => item.productId === product.id);
-      
-      if (existingItemIndex > -1) {
-        existingCart[existingItemIndex].quantity += quantity;
-      } else {
-        existingCart.push(cartItem);
-      }
-      
-      localStorage.setItem('cart', JSON.stringify(existingCart));
-      
-      // Show success message
-      alert('Product added to cart successfully!');
+        title: product.title,
+        price: Number(product.price),
+        image: product.images[0],
+        sellerId: product.seller.id,
+        storeName: product.seller.storeName,
+        availableQuantity: stock?.backorder ? null : stock?.available ?? null
+      });
     } catch (error) {
       console.error('Error adding to cart:', error);
-      alert('Failed to add product to cart');
     } finally {
       setAddingToCart(false);
     }
@@ -156,9 +166,24 @@ const ProductDetailPage: React.FC = () => {
     }
   };
 
-  const handleContactSeller = () => {
-    if (product) {
-      navigate(`/chat/${product.seller.id}`);
+  const handleContactSeller = async () => {
+    if (!product) return;
+
+    if (!isAuthenticated) {
+      navigate('/auth/login');
+      return;
+    }
+
+    if (user?.id === product.seller.id) {
+      toast.error('This is your own product');
+      return;
+    }
+
+    try {
+      const chatId = await openChatWith(product.seller.id, product.id);
+      navigate(`/messages/${chatId}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
     }
   };
 
@@ -222,7 +247,7 @@ const ProductDetailPage: React.FC = () => {
               </Link>
             </li>
             <li className="text-neutral-400">/</li>
-            <li className="text-neutral-900 font-medium">{product.name}</li>
+            <li className="text-neutral-900 font-medium">{product.title}</li>
           </ol>
         </nav>
 
@@ -233,7 +258,7 @@ const ProductDetailPage: React.FC = () => {
               {product.images.length > 0 ? (
                 <img
                   src={product.images[selectedImage]}
-                  alt={product.name}
+                  alt={product.title}
                   className="w-full h-full object-contain"
                 />
               ) : (
@@ -256,7 +281,7 @@ const ProductDetailPage: React.FC = () => {
                   >
                     <img
                       src={image}
-                      alt={`${product.name} ${index + 1}`}
+                      alt={`${product.title} ${index + 1}`}
                       className="w-full h-full object-cover rounded-lg"
                     />
                   </button>
@@ -269,7 +294,7 @@ const ProductDetailPage: React.FC = () => {
           <div>
             <div className="mb-4">
               <h1 className="text-3xl font-bold text-neutral-900 mb-2">
-                {product.name}
+                {product.title}
               </h1>
               <div className="flex items-center space-x-4">
                 <div className="flex items-center">
@@ -297,11 +322,11 @@ const ProductDetailPage: React.FC = () => {
                 <div className="flex items-center">
                   <div className="w-10 h-10 bg-primary-100 rounded-full flex items-center justify-center mr-3">
                     <span className="text-primary-600 font-semibold">
-                      {product.seller.name.charAt(0)}
+                      {product.seller.storeName.charAt(0)}
                     </span>
                   </div>
                   <div>
-                    <p className="font-semibold text-neutral-900">{product.seller.name}</p>
+                    <p className="font-semibold text-neutral-900">{product.seller.storeName}</p>
                     <div className="flex items-center">
                       <div className="flex items-center">
                         {[...Array(5)].map((_, i) => (
@@ -368,19 +393,24 @@ const ProductDetailPage: React.FC = () => {
                   <button
                     onClick={() => setQuantity(quantity + 1)}
                     className="px-3 py-2 text-neutral-600 hover:text-neutral-900"
-                    disabled={quantity >= product.stockQuantity}
+                    disabled={stock?.available != null && !stock.backorder && quantity >= stock.available}
                   >
                     +
                   </button>
                 </div>
-                <span className={`text-sm ${
-                  product.inStock ? 'text-green-600' : 'text-red-600'
-                }`}>
-                  {product.inStock 
-                    ? `${product.stockQuantity} in stock`
-                    : 'Out of stock'
-                  }
-                </span>
+                {stock && (
+                  <span className={`text-sm font-medium ${
+                    !stock.inStock ? 'text-red-600' : stock.lowStock || stock.backorder ? 'text-amber-600' : 'text-green-600'
+                  }`}>
+                    {!stock.inStock
+                      ? 'Out of stock'
+                      : stock.backorder
+                        ? 'Available on backorder'
+                        : stock.lowStock
+                          ? `Only ${stock.available} left`
+                          : 'In stock'}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -388,7 +418,7 @@ const ProductDetailPage: React.FC = () => {
             <div className="flex space-x-4 mb-6">
               <button 
                 onClick={handleAddToCart}
-                disabled={!product.inStock || addingToCart}
+                disabled={!stock?.inStock || addingToCart}
                 className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {addingToCart ? 'Adding...' : 'Add to Cart'}
@@ -533,15 +563,15 @@ const ProductDetailPage: React.FC = () => {
                     {relatedProduct.images.length > 0 ? (
                       <img
                         src={relatedProduct.images[0]}
-                        alt={relatedProduct.name}
+                        alt={relatedProduct.title}
                         className="w-full h-full object-cover rounded-lg"
                       />
                     ) : (
                       <div className="text-neutral-400">No Image</div>
                     )}
                   </div>
-                  <h4 className="font-semibold text-neutral-900 mb-2">{relatedProduct.name}</h4>
-                  <p className="text-sm text-neutral-600 mb-2">by {relatedProduct.seller.name}</p>
+                  <h4 className="font-semibold text-neutral-900 mb-2">{relatedProduct.title}</h4>
+                  <p className="text-sm text-neutral-600 mb-2">by {relatedProduct.seller.storeName}</p>
                   <div className="flex items-center justify-between">
                     <span className="text-lg font-bold text-neutral-900">
                       ETB {relatedProduct.price.toLocaleString()}
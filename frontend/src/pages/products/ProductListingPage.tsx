@@ -10,28 +10,9 @@ import {
   HeartIcon
 } from '@heroicons/react/24/outline';
 import { apiClient } from '../../lib/api';
+import type { ProductFilters, ProductSummary } from '../../types';
 
-interface Product {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  originalPrice?: number;
-  images: string[];
-  category: string;
-  seller: {
-    id: string;
-    name: string;
-    rating: number;
-    location: string;
-  };
-  rating: number;
-  reviewCount: number;
-  inStock: boolean;
-  stockQuantity: number;
-  tags: string[];
-  createdAt: string;
-}
+type SortOption = NonNullable<ProductFilters['sortBy']>;
 
 interface FilterState {
   search: string;
@@ -40,7 +21,9 @@ interface FilterState {
   maxPrice: number;
   minRating: number;
   location: string;
-  sortBy: string;
+  // A store picked from the search suggestions
+  sellerId: string;
+  sortBy: SortOption;
   page: number;
   limit: number;
 }
@@ -52,15 +35,13 @@ const safeExtract = (res: any) => {
   return res.data?.data?.items || res.data?.items || res.data || res || null;
 };
 
-const safeExtractTotal = (res: any) => {
-  if (!res) return 0;
-  return res.data?.data?.total || res.data?.total || 0;
-};
+// Search results come best match first unless another order is picked
+const getDefaultSort = (search: string): SortOption => (search ? 'relevance' : 'newest');
 
 
 const ProductListingPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [products, setProducts] = useState<Product[]>([]);
+  const [products, setProducts] = useState<ProductSummary[]>([]);
   const [totalProducts, setTotalProducts] = useState(0);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
@@ -73,16 +54,36 @@ const ProductListingPage: React.FC = () => {
     maxPrice: Number(searchParams.get('maxPrice')) || 10000,
     minRating: Number(searchParams.get('minRating')) || 0,
     location: searchParams.get('location') || 'all',
-    sortBy: searchParams.get('sortBy') || 'newest',
+    sellerId: searchParams.get('sellerId') || '',
+    sortBy: (searchParams.get('sortBy') as SortOption | null) || getDefaultSort(searchParams.get('search') || ''),
     page: Number(searchParams.get('page')) || 1,
     limit: 12
   });
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const urlSearch = searchParams.get('search') || '';
+  const urlCategory = searchParams.get('category') || 'all';
+  const urlSellerId = searchParams.get('sellerId') || '';
 
   useEffect(() => {
     fetchProducts();
     fetchWishlist();
   }, [filters]);
 
+  // A search or suggestion from the navbar while this page is open only changes the URL
+  useEffect(() => {
+    if (urlSearch !== filters.search || urlCategory !== filters.category || urlSellerId !== filters.sellerId) {
+      setSearchInput(urlSearch);
+      setFilters(prev => ({
+        ...prev,
+        search: urlSearch,
+        category: urlCategory,
+        sellerId: urlSellerId,
+        sortBy: urlSearch !== prev.search ? getDefaultSort(urlSearch) : prev.sortBy,
+        page: 1
+      }));
+    }
+  }, [urlSearch, urlCategory, urlSellerId]);
+
   useEffect(() => {
     // Update URL with current filters
     const params = new URLSearchParams();
@@ -97,7 +98,7 @@ const ProductListingPage: React.FC = () => {
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const params: any = {
+      const params: ProductFilters = {
         page: filters.page,
         limit: filters.limit,
         sortBy: filters.sortBy
@@ -107,15 +108,14 @@ const ProductListingPage: React.FC = () => {
       if (filters.category !== 'all') params.category = filters.category;
       if (filters.minPrice > 0) params.minPrice = filters.minPrice;
       if (filters.maxPrice < 10000) params.maxPrice = filters.maxPrice;
-      if (filters.minRating > 0) params.minRating = filters.minRating;
+      if (filters.minRating > 0) params.rating = filters.minRating;
       if (filters.location !== 'all') params.location = filters.location;
+      if (filters.sellerId) params.sellerId = filters.sellerId;
 
       const response = await apiClient.products.getAll(params);
-      const productsData = safeExtract(response) || [];
-      const total = safeExtractTotal(response);
 
-      setProducts(productsData);
-      setTotalProducts(total);
+      setProducts(response.data.data?.products || []);
+      setTotalProducts(response.data.data?.pagination.total || 0);
     } catch (error) {
       console.error('Error fetching products:', error);
     } finally {
@@ -162,7 +162,32 @@ const ProductListingPage: React.FC = () => {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchProducts();
+    const search = searchInput.trim();
+    setFilters(prev => ({
+      ...prev,
+      search,
+      // Keep a sort the shopper picked, but relevance means nothing without a search
+      sortBy: prev.sortBy === getDefaultSort(prev.search) || (!search && prev.sortBy === 'relevance')
+        ? getDefaultSort(search)
+        : prev.sortBy,
+      page: 1
+    }));
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters({
+      search: '',
+      category: 'all',
+      minPrice: 0,
+      maxPrice: 10000,
+      minRating: 0,
+      location: 'all',
+      sellerId: '',
+      sortBy: 'newest',
+      page: 1,
+      limit: 12
+    });
   };
 
   const totalPages = Math.ceil(totalProducts / filters.limit);
@@ -245,10 +270,10 @@ const ProductListingPage: React.FC = () => {
                     <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-neutral-400" />
                     <input
                       type="text"
-                      value={filters.search}
-                      onChange={(e) => handleFilterChange('search', e.target.value)}
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
                       className="w-full pl-10 pr-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                      placeholder="Search products..."
+                      placeholder="Search in English or አማርኛ..."
                     />
                   </div>
                 </form>
@@ -354,17 +379,7 @@ const ProductListingPage: React.FC = () => {
 
                 {/* Clear Filters */}
                 <button
-                  onClick={() => setFilters({
-                    search: '',
-                    category: 'all',
-                    minPrice: 0,
-                    maxPrice: 10000,
-                    minRating: 0,
-                    location: 'all',
-                    sortBy: 'newest',
-                    page: 1,
-                    limit: 12
-                  })}
+                  onClick={clearFilters}
                   className="w-full btn-outline text-sm"
                 >
                   Clear All Filters
@@ -380,6 +395,7 @@ const ProductListingPage: React.FC = () => {
               <div className="flex items-center space-x-4">
                 <span className="text-sm text-neutral-600">
                   {totalProducts} products found
+                  {filters.search && <> for <span className="font-medium text-neutral-900">"{filters.search}"</span></>}
                 </span>
               </div>
               
@@ -389,11 +405,11 @@ const ProductListingPage: React.FC = () => {
                   onChange={(e) => handleFilterChange('sortBy', e.target.value)}
                   className="px-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                 >
+                  {filters.search && <option value="relevance">Best Match</option>}
                   <option value="newest">Newest First</option>
-                  <option value="price-low">Price: Low to High</option>
-                  <option value="price-high">Price: High to Low</option>
+                  <option value="price">Price: Low to High</option>
+                  <option value="price-desc">Price: High to Low</option>
                   <option value="rating">Highest Rated</option>
-                  <option value="popular">Most Popular</option>
                 </select>
                 
                 <div className="flex border border-neutral-300 rounded-lg">
@@ -420,17 +436,7 @@ const ProductListingPage: React.FC = () => {
                 <h3 className="text-lg font-semibold text-neutral-900 mb-2">No products found</h3>
                 <p className="text-neutral-600 mb-4">Try adjusting your filters or search terms</p>
                 <button
-                  onClick={() => setFilters({
-                    search: '',
-                    category: 'all',
-                    minPrice: 0,
-                    maxPrice: 10000,
-                    minRating: 0,
-                    location: 'all',
-                    sortBy: 'newest',
-                    page: 1,
-                    limit: 12
-                  })}
+                  onClick={clearFilters}
                   className="btn-primary"
                 >
                   Clear Filters
@@ -453,7 +459,7 @@ const ProductListingPage: React.FC = () => {
                             {product.images.length > 0 ? (
                               <img
                                 src={product.images?.[0] || ''}
-                                alt={product.name}
+                                alt={product.title}
                                 className="w-full h-full object-cover rounded-lg"
                               />
                             ) : (
@@ -462,7 +468,7 @@ const ProductListingPage: React.FC = () => {
                           </div>
                           <div className="flex justify-between items-start mb-2">
                             <h3 className="font-semibold text-neutral-900 text-lg">
-                              {product.name}
+                              {product.title}
                             </h3>
                             <button 
                               onClick={() => handleAddToWishlist(product.id)}
@@ -473,14 +479,14 @@ const ProductListingPage: React.FC = () => {
                               }`} />
                             </button>
                           </div>
-                          <p className="text-sm text-neutral-600 mb-2">by {product.seller.name}</p>
+                          <p className="text-sm text-neutral-600 mb-2">by {product.seller.storeName}</p>
                           <div className="flex items-center mb-2">
                             <div className="flex items-center">
                               {[...Array(5)].map((_, i) => (
                                 <StarIcon
                                   key={i}
                                   className={`h-4 w-4 ${
-                                    i < Math.floor(product.rating)
+                                    i < Math.floor(Number(product.averageRating || 0))
                                       ? 'text-yellow-400'
                                       : 'text-neutral-300'
                                   }`}
@@ -489,21 +495,21 @@ const ProductListingPage: React.FC = () => {
                               ))}
                             </div>
                             <span className="text-sm text-neutral-600 ml-1">
-                              {product.rating} ({product.reviewCount})
+                              {Number(product.averageRating || 0).toFixed(1)} ({product.reviewCount})
                             </span>
                           </div>
                           <div className="flex items-center justify-between">
                             <div>
                               <span className="text-lg font-bold text-neutral-900">
-                                ETB {product.price.toLocaleString()}
+                                ETB {Number(product.price).toLocaleString()}
                               </span>
-                              {product.originalPrice && product.originalPrice > product.price && (
+                              {product.comparePrice && Number(product.comparePrice) > Number(product.price) && (
                                 <span className="text-sm text-neutral-500 line-through ml-2">
-                                  ETB {product.originalPrice.toLocaleString()}
+                                  ETB {Number(product.comparePrice).toLocaleString()}
                                 </span>
                               )}
                             </div>
-                            <span className="text-xs text-neutral-500">{product.seller.location}</span>
+                            <span className="text-xs text-neutral-500">{product.category.name}</span>
                           </div>
                         </>
                       ) : (
@@ -512,7 +518,7 @@ const ProductListingPage: React.FC = () => {
                             {product.images.length > 0 ? (
                               <img
                                 src={product.images?.[0] || ''}
-                                alt={product.name}
+                                alt={product.title}
                                 className="w-full h-full object-cover rounded-lg"
                               />
                             ) : (
@@ -522,7 +528,7 @@ const ProductListingPage: React.FC = () => {
                           <div className="flex-1">
                             <div className="flex justify-between items-start mb-2">
                               <h3 className="font-semibold text-neutral-900 text-lg">
-                                {product.name}
+                                {product.title}
                               </h3>
                               <button 
                                 onClick={() => handleAddToWishlist(product.id)}
@@ -533,14 +539,14 @@ const ProductListingPage: React.FC = () => {
                                 }`} />
                               </button>
                             </div>
-                            <p className="text-sm text-neutral-600 mb-2">by {product.seller.name}</p>
+                            <p className="text-sm text-neutral-600 mb-2">by {product.seller.storeName}</p>
                             <div className="flex items-center mb-2">
                               <div className="flex items-center">
                                 {[...Array(5)].map((_, i) => (
                                   <StarIcon
                                     key={i}
                                     className={`h-4 w-4 ${
-                                      i < Math.floor(product.rating)
+                                      i < Math.floor(Number(product.averageRating || 0))
                                         ? 'text-yellow-400'
                                         : 'text-neutral-300'
                                     }`}
@@ -549,21 +555,21 @@ const ProductListingPage: React.FC = () => {
                                 ))}
                               </div>
                               <span className="text-sm text-neutral-600 ml-1">
-                                {product.rating} ({product.reviewCount})
+                                {Number(product.averageRating || 0).toFixed(1)} ({product.reviewCount})
                               </span>
                             </div>
                             <div className="flex items-center justify-between">
                               <div>
                                 <span className="text-lg font-bold text-neutral-900">
-                                  ETB {product.price.toLocaleString()}
+                                  ETB {Number(product.price).toLocaleString()}
                                 </span>
-                                {product.originalPrice && product.originalPrice > product.price && (
+                                {product.comparePrice && Number(product.comparePrice) > Number(product.price) && (
                                   <span className="text-sm text-neutral-500 line-through ml-2">
-                                    ETB {product.originalPrice.toLocaleString()}
+                                    ETB {Number(product.comparePrice).toLocaleString()}
                                   </span>
                                 )}
                               </div>
-                              <span className="text-xs text-neutral-500">{product.seller.location}</span>
+                              <span className="text-xs text-neutral-500">{product.category.name}</span>
                             </div>
                           </div>
                         </>
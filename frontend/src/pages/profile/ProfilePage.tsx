@@ -1,19 +1,532 @@
-import React from 'react';
-import { UserIcon, CogIcon, HeartIcon, ShoppingBagIcon } from '@heroicons/react/24/outline';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  UserIcon,
+  MapPinIcon,
+  LockClosedIcon,
+  CameraIcon,
+  PlusIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  EyeIcon,
+  EyeSlashIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Button } from '../../components/ui/Button';
+import AddressForm from '../../components/address/AddressForm';
+import type { AddressFormData } from '../../components/address/AddressForm';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiClient } from '../../lib/api';
+import { formatDate, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { AddressTypeValues } from '../../types';
+import type { Address, UserProfile } from '../../types';
+
+const tabs = [
+  { id: 'account', label: 'Account', icon: UserIcon },
+  { id: 'addresses', label: 'Addresses', icon: MapPinIcon },
+  { id: 'security', label: 'Password', icon: LockClosedIcon },
+] as const;
+
+type TabId = typeof tabs[number]['id'];
 
 const ProfilePage: React.FC = () => {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab: TabId = tabs.find(tab => tab.id === searchParams.get('tab'))?.id ?? 'account';
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-neutral-50">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <h1 className="text-3xl font-bold text-neutral-900 mb-8">Profile</h1>
-        <div className="text-center">
-          <div className="text-6xl mb-4">👤</div>
-          <h2 className="text-2xl font-semibold text-neutral-900 mb-2">Profile Page</h2>
-          <p className="text-neutral-600">User profile management coming soon...</p>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-neutral-900 mb-2">Profile</h1>
+        <p className="text-neutral-600 mb-6">
+          {user.email} - member since {formatDate(user.createdAt)}
+        </p>
+
+        {/* Tabs */}
+        <div className="border-b border-neutral-200 mb-8">
+          <nav className="flex space-x-6 overflow-x-auto">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setSearchParams(tab.id === 'account' ? {} : { tab: tab.id })}
+                className={`flex items-center pb-3 text-sm font-medium border-b-2 whitespace-nowrap ${
+                  activeTab === tab.id
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-neutral-500 hover:text-neutral-700'
+                }`}
+              >
+                <tab.icon className="h-5 w-5 mr-2" />
+                {tab.label}
+              </button>
+            ))}
+          </nav>
         </div>
+
+        {activeTab === 'account' && <AccountSettings user={user} />}
+        {activeTab === 'addresses' && <AddressBook />}
+        {activeTab === 'security' && <ChangePassword />}
       </div>
     </div>
   );
 };
 
 export default ProfilePage;
+
+//
+// --- Account ---
+//
+const accountSchema = z.object({
+  firstName: z.string().min(2, 'First name must be at least 2 characters'),
+  lastName: z.string().min(2, 'Last name must be at least 2 characters'),
+  phone: z.string().refine(value => value === '' || value.length >= 10, 'Valid phone number is required'),
+  storeName: z.string(),
+  bio: z.string().max(500, 'Bio must be 500 characters or less'),
+});
+
+type AccountForm = z.infer<typeof accountSchema>;
+
+const AccountSettings: React.FC<{ user: UserProfile }> = ({ user }) => {
+  const { updateUser } = useAuth();
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const isSeller = user.role === 'SELLER' || user.role === 'ADMIN';
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting, isDirty },
+  } = useForm<AccountForm>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      phone: user.phone || '',
+      storeName: user.storeName || '',
+      bio: user.bio || '',
+    },
+  });
+
+  const onSubmit = async (data: AccountForm) => {
+    if (isSeller && !data.storeName.trim()) {
+      toast.error('Store name is required for sellers');
+      return;
+    }
+
+    try {
+      const response = await apiClient.users.updateProfile({
+        firstName: data.firstName,
+        lastName: data.lastName,
+        phone: data.phone,
+        ...(isSeller && { storeName: data.storeName.trim(), bio: data.bio }),
+      });
+      updateUser({ ...user, ...response.data.data });
+      reset(data);
+      toast.success('Profile updated');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error('Image size must be less than 5MB');
+      return;
+    }
+
+    setUploadingAvatar(true);
+    try {
+      const upload = await apiClient.upload.image(file);
+      const response = await apiClient.users.updateProfile({ avatar: upload.data.data!.url });
+      updateUser({ ...user, ...response.data.data });
+      toast.success('Profile photo updated');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setUploadingAvatar(true);
+    try {
+      const response = await apiClient.users.updateProfile({ avatar: null });
+      updateUser({ ...user, ...response.data.data });
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Avatar */}
+      <div className="card flex items-center gap-6">
+        <div className="relative">
+          {user.avatar ? (
+            <img src={user.avatar} alt="Profile" className="h-20 w-20 rounded-full object-cover" />
+          ) : (
+            <div className="h-20 w-20 rounded-full bg-primary-100 text-primary-700 flex items-center justify-center text-2xl font-semibold">
+              {user.firstName.charAt(0)}{user.lastName.charAt(0)}
+            </div>
+          )}
+          {uploadingAvatar && (
+            <div className="absolute inset-0 rounded-full bg-white/70 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+        </div>
+        <div>
+          <p className="font-medium text-neutral-900">{user.firstName} {user.lastName}</p>
+          <p className="text-sm text-neutral-500 mb-3">{formatEnumLabel(user.role)}</p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<CameraIcon className="h-4 w-4" />}
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={uploadingAvatar}
+            >
+              Change photo
+            </Button>
+            {user.avatar && (
+              <Button size="sm" variant="ghost" onClick={handleRemoveAvatar} disabled={uploadingAvatar}>
+                Remove
+              </Button>
+            )}
+          </div>
+          <input
+            ref={avatarInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleAvatarChange}
+          />
+        </div>
+      </div>
+
+      {/* Details */}
+      <form onSubmit={handleSubmit(onSubmit)} className="card space-y-4">
+        <h2 className="text-lg font-semibold text-neutral-900">Personal Details</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">First Name *</label>
+            <input {...register('firstName')} className="input-field" />
+            {errors.firstName && <p className="mt-1 text-sm text-red-600">{errors.firstName.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">Last Name *</label>
+            <input {...register('lastName')} className="input-field" />
+            {errors.lastName && <p className="mt-1 text-sm text-red-600">{errors.lastName.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">Phone</label>
+            <input {...register('phone')} className="input-field" placeholder="+251 9XX XXX XXX" />
+            {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">Email</label>
+            <input value={user.email} className="input-field bg-neutral-100" disabled />
+          </div>
+        </div>
+
+        {isSeller && (
+          <>
+            <h2 className="text-lg font-semibold text-neutral-900 pt-4">Store</h2>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Store Name *</label>
+              <input {...register('storeName')} className="input-field" placeholder="Your store name" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-2">Bio</label>
+              <textarea
+                {...register('bio')}
+                rows={4}
+                className="input-field"
+                placeholder="Tell buyers about you and what you make"
+              />
+              {errors.bio && <p className="mt-1 text-sm text-red-600">{errors.bio.message}</p>}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" loading={isSubmitting} disabled={!isDirty}>
+            Save Changes
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+//
+// --- Addresses ---
+//
+const AddressBook: React.FC = () => {
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null = closed, 'new' = adding, otherwise the address being edited
+  const [editing, setEditing] = useState<Address | 'new' | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAddresses();
+  }, []);
+
+  const fetchAddresses = async () => {
+    try {
+      const response = await apiClient.users.getAddresses();
+      setAddresses(response.data.data || []);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (data: AddressFormData) => {
+    try {
+      if (editing && editing !== 'new') {
+        await apiClient.users.updateAddress(editing.id, data);
+        toast.success('Address updated');
+      } else {
+        await apiClient.users.createAddress(data);
+        toast.success('Address saved');
+      }
+      setEditing(null);
+      // Defaults may have moved, so reload rather than patching locally
+      fetchAddresses();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleSetDefault = async (address: Address) => {
+    setBusyId(address.id);
+    try {
+      await apiClient.users.updateAddress(address.id, { isDefault: true });
+      setAddresses(prev =>
+        prev.map(a => (a.type === address.type ? { ...a, isDefault: a.id === address.id } : a))
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (address: Address) => {
+    if (!window.confirm('Delete this address?')) {
+      return;
+    }
+
+    setBusyId(address.id);
+    try {
+      await apiClient.users.deleteAddress(address.id);
+      toast.success('Address deleted');
+      fetchAddresses();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(2)].map((_, i) => (
+          <div key={i} className="card loading-skeleton h-32"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (editing) {
+    return (
+      <div className="card">
+        <h2 className="text-lg font-semibold text-neutral-900 mb-4">
+          {editing === 'new' ? 'New Address' : 'Edit Address'}
+        </h2>
+        <AddressForm
+          key={editing === 'new' ? 'new' : editing.id}
+          initialValues={editing === 'new' ? undefined : editing}
+          showTypeSelect
+          onSubmit={handleSubmit}
+          onCancel={() => setEditing(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-end">
+        <Button leftIcon={<PlusIcon className="h-4 w-4" />} onClick={() => setEditing('new')}>
+          Add Address
+        </Button>
+      </div>
+
+      {AddressTypeValues.map(type => {
+        const group = addresses.filter(address => address.type === type);
+        return (
+          <div key={type}>
+            <h2 className="text-lg font-semibold text-neutral-900 mb-3">{formatEnumLabel(type)} Addresses</h2>
+            {group.length === 0 ? (
+              <p className="text-sm text-neutral-500">No {type.toLowerCase()} addresses saved.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {group.map(address => (
+                  <div
+                    key={address.id}
+                    className={`card ${address.isDefault ? 'ring-2 ring-primary-500' : ''}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="text-sm text-neutral-700">
+                        <p className="font-medium text-neutral-900">
+                          {address.firstName} {address.lastName}
+                        </p>
+                        <p>{address.street}</p>
+                        <p>{address.city}, {address.state} {address.postalCode}</p>
+                        <p>{address.country}</p>
+                        <p className="text-neutral-500">{address.phone}</p>
+                      </div>
+                      {address.isDefault && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
+                          Default
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 mt-4">
+                      {!address.isDefault && (
+                        <button
+                          onClick={() => handleSetDefault(address)}
+                          disabled={busyId === address.id}
+                          className="px-2 py-1 text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        >
+                          Set as default
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditing(address)}
+                        className="ml-auto p-1 text-neutral-500 hover:text-primary-600"
+                        aria-label="Edit address"
+                      >
+                        <PencilSquareIcon className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(address)}
+                        disabled={busyId === address.id}
+                        className="p-1 text-neutral-500 hover:text-red-600 disabled:opacity-50"
+                        aria-label="Delete address"
+                      >
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+//
+// --- Password ---
+//
+const passwordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type PasswordForm = z.infer<typeof passwordSchema>;
+
+const ChangePassword: React.FC = () => {
+  const [showPasswords, setShowPasswords] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<PasswordForm>({
+    resolver: zodResolver(passwordSchema),
+  });
+
+  const onSubmit = async ({ currentPassword, newPassword }: PasswordForm) => {
+    try {
+      await apiClient.auth.changePassword({ currentPassword, newPassword });
+      reset({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      toast.success('Password changed');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const fields: Array<{ name: keyof PasswordForm; label: string; autoComplete: string }> = [
+    { name: 'currentPassword', label: 'Current Password', autoComplete: 'current-password' },
+    { name: 'newPassword', label: 'New Password', autoComplete: 'new-password' },
+    { name: 'confirmPassword', label: 'Confirm New Password', autoComplete: 'new-password' },
+  ];
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="card max-w-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-neutral-900">Change Password</h2>
+        <button
+          type="button"
+          onClick={() => setShowPasswords(!showPasswords)}
+          className="text-neutral-400 hover:text-neutral-600"
+          aria-label={showPasswords ? 'Hide passwords' : 'Show passwords'}
+        >
+          {showPasswords ? <EyeSlashIcon className="h-5 w-5" /> : <EyeIcon className="h-5 w-5" />}
+        </button>
+      </div>
+      {fields.map(field => (
+        <div key={field.name}>
+          <label className="block text-sm font-medium text-neutral-700 mb-2">{field.label}</label>
+          <input
+            {...register(field.name)}
+            type={showPasswords ? 'text' : 'password'}
+            autoComplete={field.autoComplete}
+            className="input-field"
+          />
+          {errors[field.name] && <p className="mt-1 text-sm text-red-600">{errors[field.name]?.message}</p>}
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <Button type="submit" loading={isSubmitting}>
+          Update Password
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,470 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  CheckIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  ShieldCheckIcon,
+  XCircleIcon,
+  ArrowUpTrayIcon,
+  DocumentIcon,
+  InformationCircleIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiClient } from '../../lib/api';
+import { formatDate, formatDateTime, getErrorMessage } from '../../lib/utils';
+import type { KycDocumentField as DocumentKey, KycVerification } from '../../types';
+
+interface KycFormData {
+  dateOfBirth: string;
+  address: string;
+  idCard: string;
+  selfieWithId: string;
+  proofOfAddress: string;
+}
+
+const emptyForm: KycFormData = {
+  dateOfBirth: '',
+  address: '',
+  idCard: '',
+  selfieWithId: '',
+  proofOfAddress: '',
+};
+
+const steps = [
+  { number: 1, title: 'Personal Info', description: 'Date of birth and address' },
+  { number: 2, title: 'ID Card', description: 'Kebele ID or passport' },
+  { number: 3, title: 'Selfie', description: 'You holding your ID' },
+  { number: 4, title: 'Address Proof', description: 'Utility bill or lease' },
+  { number: 5, title: 'Review', description: 'Check and submit' },
+];
+
+const documentSteps: Record<number, { key: DocumentKey; title: string; hint: string }> = {
+  2: {
+    key: 'idCard',
+    title: 'ID Card',
+    hint: 'Upload a clear photo of the front of your Kebele ID, national ID or passport. All four corners should be visible.',
+  },
+  3: {
+    key: 'selfieWithId',
+    title: 'Selfie with ID',
+    hint: 'Take a photo of yourself holding the same ID next to your face. Both your face and the ID must be readable.',
+  },
+  4: {
+    key: 'proofOfAddress',
+    title: 'Proof of Address',
+    hint: 'Upload a photo of a recent utility bill, lease agreement or Kebele letter showing your name and address.',
+  },
+};
+
+// Local preview of an uploaded file (the stored copy is private, so there is no URL to show)
+interface FilePreview {
+  url: string;
+  name: string;
+  isImage: boolean;
+}
+
+const PreviewContent: React.FC<{ preview: FilePreview; alt: string; className: string }> = ({ preview, alt, className }) =>
+  preview.isImage ? (
+    <img src={preview.url} alt={alt} className={className} />
+  ) : (
+    <div className={`${className} flex flex-col items-center justify-center text-gray-500`}>
+      <DocumentIcon className="w-10 h-10 mb-2" />
+      <span className="text-sm px-2 truncate max-w-full">{preview.name}</span>
+    </div>
+  );
+
+const KycVerificationPage: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [verification, setVerification] = useState<KycVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [resubmitting, setResubmitting] = useState(false);
+  const [currentStep, setCurrentStep] = useState(1);
+  const [formData, setFormData] = useState<KycFormData>(emptyForm);
+  const [errors, setErrors] = useState<Partial<Record<keyof KycFormData, string>>>({});
+  const [uploading, setUploading] = useState<DocumentKey | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [previews, setPreviews] = useState<Partial<Record<DocumentKey, FilePreview>>>({});
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+
+  useEffect(() => {
+    fetchVerification();
+    // Release the local preview URLs when leaving the page
+    return () => {
+      Object.values(previewsRef.current).forEach(preview => preview && URL.revokeObjectURL(preview.url));
+    };
+  }, []);
+
+  const fetchVerification = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.users.getKYCStatus();
+      setVerification(response.data.data || null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startResubmission = () => {
+    // Keep the personal details, but ask for fresh documents
+    const personalInfo = verification?.submission?.personalInfo;
+    setFormData({
+      ...emptyForm,
+      dateOfBirth: personalInfo?.dateOfBirth || '',
+      address: personalInfo?.address || '',
+    });
+    setPreviews({});
+    setCurrentStep(1);
+    setResubmitting(true);
+  };
+
+  const validateStep = (step: number): boolean => {
+    const newErrors: Partial<Record<keyof KycFormData, string>> = {};
+
+    if (step === 1) {
+      if (!formData.dateOfBirth) {
+        newErrors.dateOfBirth = 'Date of birth is required';
+      } else if (new Date(formData.dateOfBirth) > new Date(Date.now() - 18 * 365.25 * 24 * 60 * 60 * 1000)) {
+        newErrors.dateOfBirth = 'You must be at least 18 years old to sell on Balmuya';
+      }
+      if (formData.address.trim().length < 5) {
+        newErrors.address = 'Address is required';
+      }
+    }
+
+    const documentStep = documentSteps[step];
+    if (documentStep && !formData[documentStep.key]) {
+      newErrors[documentStep.key] = `${documentStep.title} is required`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleNext = () => {
+    if (validateStep(currentStep)) {
+      setCurrentStep(prev => Math.min(prev + 1, steps.length));
+    }
+  };
+
+  const handleBack = () => {
+    setCurrentStep(prev => Math.max(prev - 1, 1));
+  };
+
+  const handleUpload = async (key: DocumentKey, file: File) => {
+    setUploading(key);
+    try {
+      const response = await apiClient.upload.kyc(file);
+      setFormData(prev => ({ ...prev, [key]: response.data.data!.filePath }));
+      setPreviews(prev => {
+        const previous = prev[key];
+        if (previous) URL.revokeObjectURL(previous.url);
+        return {
+          ...prev,
+          [key]: { url: URL.createObjectURL(file), name: file.name, isImage: file.type.startsWith('image/') },
+        };
+      });
+      setErrors(prev => ({ ...prev, [key]: undefined }));
+    } catch (error) {
+      setErrors(prev => ({ ...prev, [key]: getErrorMessage(error) }));
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await apiClient.users.submitKYC({
+        documents: {
+          idCard: formData.idCard,
+          selfieWithId: formData.selfieWithId,
+          proofOfAddress: formData.proofOfAddress,
+        },
+        personalInfo: {
+          dateOfBirth: formData.dateOfBirth,
+          address: formData.address.trim(),
+        },
+      });
+      toast.success('Documents submitted for review');
+      if (user) {
+        updateUser({ ...user, kycStatus: 'UNDER_REVIEW' });
+      }
+      setResubmitting(false);
+      fetchVerification();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const kycStatus = verification?.kycStatus ?? 'PENDING';
+  const showWizard = kycStatus === 'PENDING' || resubmitting;
+
+  const renderStep = () => {
+    if (currentStep === 1) {
+      return (
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Date of Birth *
+            </label>
+            <input
+              type="date"
+              value={formData.dateOfBirth}
+              onChange={(e) => setFormData(prev => ({ ...prev, dateOfBirth: e.target.value }))}
+              className={`input-field ${errors.dateOfBirth ? 'border-red-500' : ''}`}
+            />
+            {errors.dateOfBirth && <p className="text-red-500 text-sm mt-1">{errors.dateOfBirth}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Residential Address *
+            </label>
+            <textarea
+              value={formData.address}
+              onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+              rows={3}
+              className={`input-field ${errors.address ? 'border-red-500' : ''}`}
+              placeholder="House number, kebele, woreda, sub-city, city"
+            />
+            {errors.address && <p className="text-red-500 text-sm mt-1">{errors.address}</p>}
+          </div>
+        </div>
+      );
+    }
+
+    const documentStep = documentSteps[currentStep];
+    if (documentStep) {
+      const preview = formData[documentStep.key] ? previews[documentStep.key] : undefined;
+      return (
+        <div className="space-y-4">
+          <p className="text-gray-600">{documentStep.hint}</p>
+          <label
+            className={`flex flex-col items-center justify-center h-64 rounded-lg border-2 border-dashed cursor-pointer ${
+              errors[documentStep.key] ? 'border-red-400' : 'border-gray-300 hover:border-primary-400'
+            }`}
+          >
+            {uploading === documentStep.key ? (
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-600"></div>
+            ) : preview ? (
+              <PreviewContent preview={preview} alt={documentStep.title} className="h-full w-full object-contain rounded-lg" />
+            ) : (
+              <>
+                <ArrowUpTrayIcon className="w-10 h-10 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-600">Click to upload a JPG, PNG or WebP photo, or a PDF</span>
+              </>
+            )}
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,application/pdf"
+              className="hidden"
+              disabled={uploading !== null}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUpload(documentStep.key, file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {preview && <p className="text-sm text-gray-500">Click the file to replace it.</p>}
+          {errors[documentStep.key] && <p className="text-red-500 text-sm">{errors[documentStep.key]}</p>}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Date of Birth</p>
+            <p className="text-gray-900">{formatDate(formData.dateOfBirth)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-600">Address</p>
+            <p className="text-gray-900">{formData.address}</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {Object.values(documentSteps).map(step => (
+            <div key={step.key}>
+              <p className="text-sm font-medium text-gray-600 mb-2">{step.title}</p>
+              {previews[step.key] && (
+                <PreviewContent
+                  preview={previews[step.key]!}
+                  alt={step.title}
+                  className="h-32 w-full object-cover rounded-lg border border-gray-200"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500">
+          By submitting, you confirm these documents are yours and accurate. Our team usually reviews submissions within two working days.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Seller Verification</h1>
+          <p className="text-gray-600">Verify your identity to start listing products on Balmuya</p>
+        </div>
+
+        {/* Current status */}
+        {!showWizard && (
+          <div className="card">
+            {kycStatus === 'UNDER_REVIEW' && (
+              <div className="text-center py-6">
+                <ClockIcon className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
+                <h2 className="text-2xl font-semibold text-gray-900 mb-2">Under Review</h2>
+                <p className="text-gray-600">
+                  We received your documents
+                  {verification?.submission && ` on ${formatDateTime(verification.submission.submittedAt)}`}.
+                  We will let you know as soon as they have been reviewed.
+                </p>
+              </div>
+            )}
+
+            {kycStatus === 'APPROVED' && (
+              <div className="text-center py-6">
+                <ShieldCheckIcon className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                <h2 className="text-2xl font-semibold text-gray-900 mb-2">You're Verified</h2>
+                <p className="text-gray-600 mb-6">
+                  Your identity was confirmed
+                  {verification?.kycApprovedAt && ` on ${formatDate(verification.kycApprovedAt)}`}.
+                  You can now list products.
+                </p>
+                <Link to="/seller/products/add" className="btn-primary">
+                  Add Your First Product
+                </Link>
+              </div>
+            )}
+
+            {kycStatus === 'REJECTED' && (
+              <div className="text-center py-6">
+                <XCircleIcon className="w-16 h-16 text-red-500 mx-auto mb-4" />
+                <h2 className="text-2xl font-semibold text-gray-900 mb-2">Verification Unsuccessful</h2>
+                <p className="text-gray-600 mb-4">We could not verify your identity with the documents you sent.</p>
+                {verification?.submission?.rejectionReason && (
+                  <div className="max-w-xl mx-auto mb-6 p-4 rounded-lg bg-red-50 text-left">
+                    <p className="text-sm font-medium text-red-800">Reason</p>
+                    <p className="text-sm text-red-700">{verification.submission.rejectionReason}</p>
+                  </div>
+                )}
+                <button onClick={startResubmission} className="btn-primary">
+                  Resubmit Documents
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Wizard */}
+        {showWizard && (
+          <>
+            {/* Progress Steps */}
+            <div className="mb-8">
+              <div className="flex items-center justify-between">
+                {steps.map((step, index) => (
+                  <React.Fragment key={step.number}>
+                    <div className="flex items-center">
+                      <div className={`flex items-center justify-center w-8 h-8 rounded-full ${
+                        currentStep >= step.number
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-gray-200 text-gray-600'
+                      }`}>
+                        {currentStep > step.number ? (
+                          <CheckIcon className="w-4 h-4" />
+                        ) : (
+                          <span className="text-sm font-medium">{step.number}</span>
+                        )}
+                      </div>
+                      <div className="ml-3 hidden sm:block">
+                        <p className={`text-sm font-medium ${
+                          currentStep >= step.number ? 'text-primary-600' : 'text-gray-500'
+                        }`}>
+                          {step.title}
+                        </p>
+                        <p className="text-xs text-gray-500">{step.description}</p>
+                      </div>
+                    </div>
+                    {index < steps.length - 1 && (
+                      <div className={`flex-1 h-1 mx-4 ${
+                        currentStep > step.number ? 'bg-primary-600' : 'bg-gray-200'
+                      }`} />
+                    )}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            {/* Form Container */}
+            <div className="card">
+              {renderStep()}
+
+              {/* Navigation Buttons */}
+              <div className="flex justify-between pt-8 mt-8 border-t border-gray-200">
+                <button
+                  onClick={handleBack}
+                  disabled={currentStep === 1}
+                  className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeftIcon className="w-4 h-4 mr-2" />
+                  Back
+                </button>
+
+                {currentStep < steps.length ? (
+                  <button
+                    onClick={handleNext}
+                    disabled={uploading !== null}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    Next
+                    <ChevronRightIcon className="w-4 h-4 ml-2" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSubmit}
+                    disabled={submitting}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    {submitting ? 'Submitting...' : 'Submit for Review'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Help Text */}
+            <div className="mt-6 flex items-start text-sm text-gray-500">
+              <InformationCircleIcon className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+              <p>
+                Your documents are stored privately. Only the Balmuya verification team can open them, and every view is logged.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KycVerificationPage;
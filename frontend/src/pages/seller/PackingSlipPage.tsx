@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { PrinterIcon } from '@heroicons/react/24/outline';
+import { Button } from '../../components/ui/Button';
+import { apiClient } from '../../lib/api';
+import { getDeliveryOptionLabel, paymentMethodLabels } from '../../lib/orders';
+import { formatDate, getErrorMessage } from '../../lib/utils';
+import type { OrderDetail } from '../../types';
+
+// A printable slip to pack an order against, laid out for A4/letter paper
+const PackingSlipPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      fetchOrder(id);
+    }
+  }, [id]);
+
+  const fetchOrder = async (orderId: string) => {
+    try {
+      const response = await apiClient.orders.getById(orderId);
+      setOrder(response.data.data || null);
+    } catch (error) {
+      setError(getErrorMessage(error));
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="max-w-3xl mx-auto p-8 text-center">
+        <p className="text-neutral-600 mb-4">{error}</p>
+        <Link to="/seller/orders" className="btn-primary">Back to orders</Link>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-3xl mx-auto p-8">
+        <div className="loading-skeleton h-96 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  const payment = order.payments[0];
+  const cashDue = payment?.paymentMethod === 'CASH_ON_DELIVERY' && payment.status !== 'COMPLETED';
+  const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-neutral-100 print:bg-white py-8 print:py-0">
+      <div className="max-w-3xl mx-auto mb-4 flex justify-between print:hidden">
+        <Link to="/seller/orders" className="text-sm text-primary-600 hover:text-primary-700">
+          Back to orders
+        </Link>
+        <Button size="sm" leftIcon={<PrinterIcon className="h-4 w-4" />} onClick={() => window.print()}>
+          Print
+        </Button>
+      </div>
+
+      <div className="max-w-3xl mx-auto bg-white p-10 shadow print:shadow-none print:p-0 text-sm text-neutral-900">
+        <div className="flex justify-between items-start border-b border-neutral-300 pb-6 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">{order.seller.storeName || 'Packing Slip'}</h1>
+            {order.seller.phone && <p className="text-neutral-600">{order.seller.phone}</p>}
+          </div>
+          <div className="text-right">
+            <p className="text-lg font-semibold">Packing Slip</p>
+            <p>Order #{order.orderNumber}</p>
+            <p className="text-neutral-600">{formatDate(order.createdAt)}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-8 mb-8">
+          <div>
+            <h2 className="text-xs font-semibold uppercase text-neutral-500 mb-2">Ship to</h2>
+            <p className="font-medium">
+              {order.shippingAddress.firstName} {order.shippingAddress.lastName}
+            </p>
+            <p>{order.shippingAddress.street}</p>
+            <p>
+              {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.postalCode}
+            </p>
+            <p>{order.shippingAddress.phone}</p>
+          </div>
+          <div>
+            <h2 className="text-xs font-semibold uppercase text-neutral-500 mb-2">Delivery</h2>
+            <p>{getDeliveryOptionLabel(order.deliveryOption)}</p>
+            {order.trackingNumber && <p>Tracking: {order.trackingNumber}</p>}
+            {payment && <p className="mt-2">Payment: {paymentMethodLabels[payment.paymentMethod]}</p>}
+            {cashDue && (
+              <p className="mt-1 font-semibold">Collect ETB {Number(order.total).toLocaleString()} on delivery</p>
+            )}
+          </div>
+        </div>
+
+        <table className="w-full mb-8">
+          <thead>
+            <tr className="border-b border-neutral-300 text-left">
+              <th className="py-2 w-10"></th>
+              <th className="py-2">Item</th>
+              <th className="py-2 text-right">Qty</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.items.map(item => (
+              <tr key={item.id} className="border-b border-neutral-200">
+                <td className="py-3">
+                  <span className="inline-block h-4 w-4 border border-neutral-400"></span>
+                </td>
+                <td className="py-3">{item.product.title}</td>
+                <td className="py-3 text-right font-medium">{item.quantity}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td></td>
+              <td className="py-3 font-medium">Total items</td>
+              <td className="py-3 text-right font-semibold">{itemCount}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {(order.deliveryNotes || order.notes) && (
+          <div className="border border-neutral-300 rounded p-4">
+            <h2 className="text-xs font-semibold uppercase text-neutral-500 mb-2">Buyer notes</h2>
+            {order.deliveryNotes && <p>{order.deliveryNotes}</p>}
+            {order.notes && <p>{order.notes}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PackingSlipPage;
@@ -9,9 +9,26 @@ import {
   ChatBubbleLeftRightIcon,
   PlusIcon,
   EyeIcon,
+  ShieldExclamationIcon,
+  BanknotesIcon,
+  ReceiptRefundIcon,
+  ExclamationTriangleIcon,
 } from "@heroicons/react/24/outline";
+import toast from "react-hot-toast";
+import { useAuth } from "../../contexts/AuthContext";
+import RefundQueue from "../../components/orders/RefundQueue";
+import { Button } from "../../components/ui/Button";
 import { apiClient } from "../../lib/api";
-import { Order, Review } from "../../types";
+import { escrowStatusStyles } from "../../lib/orders";
+import { formatDate, formatEnumLabel, getErrorMessage } from "../../lib/utils";
+import {
+  SellerOrder,
+  Review,
+  KYCStatus,
+  SellerBalance,
+  InventoryHealth,
+  InventoryAlertProduct,
+} from "../../types";
 
 // Dashboard data structure
 interface DashboardStats {
@@ -19,7 +36,7 @@ interface DashboardStats {
   totalOrders: number;
   totalProducts: number;
   pendingOrders: number;
-  recentOrders: Order[];
+  recentOrders: SellerOrder[];
   productPerformance: Array<{
     id: string;
     name: string;
@@ -31,6 +48,7 @@ interface DashboardStats {
 }
 
 const SellerDashboard: React.FC = () => {
+  const { user } = useAuth();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -42,7 +60,7 @@ const SellerDashboard: React.FC = () => {
     try {
       const [statsRes, ordersRes, reviewsRes] = await Promise.all([
         apiClient.users.getSellerStats(),
-        apiClient.orders.getAll({ limit: 5 }),
+        apiClient.orders.getSellerOrders({ limit: 5 }),
         apiClient.reviews.getBySeller("current"),
       ]);
 
@@ -53,14 +71,7 @@ const SellerDashboard: React.FC = () => {
         statsRes ||
         {};
 
-      // handle orders safely (array or wrapped)
-      const ordersRaw = (ordersRes as any)?.data ?? ordersRes;
-      const ordersData = Array.isArray(ordersRaw)
-        ? ordersRaw
-        : ordersRaw?.data?.data ||
-          ordersRaw?.data?.items ||
-          ordersRaw?.data ||
-          [];
+      const ordersData = ordersRes.data.data?.orders || [];
 
       // handle reviews safely (array or wrapped)
       const reviewsRaw = (reviewsRes as any)?.data ?? reviewsRes;
@@ -113,6 +124,11 @@ const SellerDashboard: React.FC = () => {
           </p>
         </div>
 
+        {/* Verification reminder (product creation is blocked until KYC is approved) */}
+        {user && user.kycStatus !== "APPROVED" && (
+          <KycBanner kycStatus={user.kycStatus} />
+        )}
+
         {/* Quick Stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <DashboardCard
@@ -145,6 +161,21 @@ const SellerDashboard: React.FC = () => {
           />
         </div>
 
+        {/* Low and out-of-stock products */}
+        <InventoryHealthPanel />
+
+        {/* Escrow balance */}
+        <BalancePanel />
+
+        {/* Refund requests */}
+        <div className="card mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-gray-900">Refund Requests</h2>
+            <ReceiptRefundIcon className="w-5 h-5 text-gray-400" />
+          </div>
+          <RefundQueue />
+        </div>
+
         {/* Quick Actions */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
           <DashboardAction
@@ -218,6 +249,253 @@ const DashboardCard: React.FC<DashboardCardProps> = ({
   </div>
 );
 
+const kycBannerText: Record<Exclude<KYCStatus, "APPROVED">, { title: string; subtitle: string; action?: string }> = {
+  PENDING: {
+    title: "Verify your identity to start selling",
+    subtitle: "Upload your ID and proof of address before listing products.",
+    action: "Start verification",
+  },
+  UNDER_REVIEW: {
+    title: "Your documents are under review",
+    subtitle: "You can list products as soon as your verification is approved.",
+  },
+  REJECTED: {
+    title: "Your verification was not approved",
+    subtitle: "See why and resubmit your documents.",
+    action: "View details",
+  },
+};
+
+const KycBanner: React.FC<{ kycStatus: KYCStatus }> = ({ kycStatus }) => {
+  if (kycStatus === "APPROVED") return null;
+  const text = kycBannerText[kycStatus];
+
+  return (
+    <div className="mb-8 flex items-center justify-between p-4 rounded-lg border border-yellow-200 bg-yellow-50">
+      <div className="flex items-center">
+        <ShieldExclamationIcon className="w-6 h-6 text-yellow-600 mr-3" />
+        <div>
+          <p className="font-medium text-gray-900">{text.title}</p>
+          <p className="text-sm text-gray-600">{text.subtitle}</p>
+        </div>
+      </div>
+      <Link
+        to="/seller/kyc"
+        className="text-primary-600 hover:text-primary-700 text-sm font-medium whitespace-nowrap"
+      >
+        {text.action ?? "View status"}
+      </Link>
+    </div>
+  );
+};
+
+//
+// --- Balance ---
+//
+const BalancePanel: React.FC = () => {
+  const [balance, setBalance] = useState<SellerBalance | null>(null);
+
+  useEffect(() => {
+    apiClient.payments
+      .getSellerBalance()
+      .then((response) => setBalance(response.data.data ?? null))
+      .catch((error) => console.error("Error fetching balance:", error));
+  }, []);
+
+  if (!balance) {
+    return <div className="card loading-skeleton h-40 mb-8"></div>;
+  }
+
+  const totals = [
+    {
+      label: "Held in escrow",
+      value: balance.held,
+      hint: `Released ${balance.disputeWindowDays} days after delivery`,
+    },
+    { label: "Available", value: balance.available, hint: "Waiting for payout" },
+    { label: "Paid out", value: balance.paidOut, hint: "Transferred to you" },
+  ];
+
+  return (
+    <div className="card mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Balance</h2>
+        <BanknotesIcon className="w-5 h-5 text-gray-400" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {totals.map((total) => (
+          <div key={total.label} className="p-4 border border-gray-200 rounded-lg">
+            <p className="text-sm text-gray-600">{total.label}</p>
+            <p className="text-2xl font-bold text-gray-900">
+              ETB {total.value.toLocaleString()}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">{total.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {balance.entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Payments for your orders will appear here once buyers pay.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {balance.entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">
+                  Order #{entry.order.orderNumber}
+                </p>
+                <p className="text-gray-500">
+                  {entry.status === "HELD"
+                    ? entry.releaseAt
+                      ? `Releases ${formatDate(entry.releaseAt)}`
+                      : "Releases after delivery"
+                    : entry.releasedAt
+                    ? `Released ${formatDate(entry.releasedAt)}`
+                    : `Paid ${formatDate(entry.heldAt)}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-semibold text-gray-900">
+                  ETB {Number(entry.amount).toLocaleString()}
+                </p>
+                <span
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${escrowStatusStyles[entry.status]}`}
+                >
+                  {formatEnumLabel(entry.status)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+//
+// --- Inventory Health ---
+//
+const InventoryHealthPanel: React.FC = () => {
+  const [health, setHealth] = useState<InventoryHealth | null>(null);
+
+  const fetchHealth = () =>
+    apiClient.products
+      .getInventoryHealth()
+      .then((response) => setHealth(response.data.data ?? null))
+      .catch((error) => console.error("Error fetching inventory health:", error));
+
+  useEffect(() => {
+    fetchHealth();
+  }, []);
+
+  if (!health) {
+    return <div className="card loading-skeleton h-40 mb-8"></div>;
+  }
+
+  return (
+    <div className="card mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Inventory Health</h2>
+          {health.products.length > 0 && (
+            <p className="text-sm text-gray-600">
+              {health.summary.outOfStock} out of stock, {health.summary.lowStock} running low
+            </p>
+          )}
+        </div>
+        <ExclamationTriangleIcon className="w-5 h-5 text-gray-400" />
+      </div>
+
+      {health.products.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          All your tracked products are above their low-stock levels.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {health.products.map((product) => (
+            <RestockRow key={product.id} product={product} onRestocked={fetchHealth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RestockRow: React.FC<{
+  product: InventoryAlertProduct;
+  onRestocked: () => void;
+}> = ({ product, onRestocked }) => {
+  const [quantity, setQuantity] = useState(String(product.quantity));
+  const [saving, setSaving] = useState(false);
+  const outOfStock = product.level === "OUT_OF_STOCK";
+
+  const handleRestock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(quantity);
+    if (!(value >= 0)) {
+      toast.error("Enter a quantity of 0 or more");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await apiClient.products.update(product.id, { quantity: value });
+      toast.success(`${product.title} updated`);
+      onRestocked();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleRestock}
+      className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3"
+    >
+      <div className="flex items-center">
+        {product.images[0] && (
+          <img
+            src={product.images[0]}
+            alt={product.title}
+            className="w-10 h-10 rounded-lg object-cover"
+          />
+        )}
+        <div className="ml-3">
+          <p className="font-medium text-gray-900">{product.title}</p>
+          <p className={`text-sm ${outOfStock ? "text-red-600" : "text-yellow-600"}`}>
+            {outOfStock
+              ? product.allowBackorder
+                ? "Out of stock, taking backorders"
+                : "Out of stock"
+              : `${product.quantity} left (alert at ${product.lowStockThreshold})`}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor={`restock-${product.id}`} className="sr-only">
+          Stock for {product.title}
+        </label>
+        <input
+          id={`restock-${product.id}`}
+          type="number"
+          min="0"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className="input-field w-24"
+        />
+        <Button type="submit" size="sm" loading={saving}>
+          Update stock
+        </Button>
+      </div>
+    </form>
+  );
+};
+
 interface DashboardActionProps {
   to: string;
   icon: React.ReactNode;
@@ -246,7 +524,7 @@ const DashboardAction: React.FC<DashboardActionProps> = ({
 //
 // --- Recent Orders ---
 //
-const RecentOrders: React.FC<{ orders: Order[] }> = ({ orders }) => (
+const RecentOrders: React.FC<{ orders: SellerOrder[] }> = ({ orders }) => (
   <div className="card">
     <div className="flex items-center justify-between mb-6">
       <h2 className="text-xl font-semibold text-gray-900">Recent Orders</h2>
@@ -276,13 +554,13 @@ const RecentOrders: React.FC<{ orders: Order[] }> = ({ orders }) => (
             </div>
             <div className="text-right">
               <p className="font-semibold text-gray-900">
-                ETB {order.total.toLocaleString()}
+                ETB {Number(order.total).toLocaleString()}
               </p>
               <span
                 className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                  order.status === "delivered"
+                  order.status === "DELIVERED"
                     ? "bg-green-100 text-green-800"
-                    : order.status === "pending"
+                    : order.status === "PENDING"
                     ? "bg-yellow-100 text-yellow-800"
                     : "bg-blue-100 text-blue-800"
                 }`}
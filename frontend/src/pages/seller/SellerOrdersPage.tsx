@@ -0,0 +1,424 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { MagnifyingGlassIcon, PrinterIcon, ShoppingBagIcon } from '@heroicons/react/24/outline';
+import { Button } from '../../components/ui/Button';
+import Pagination from '../../components/ui/Pagination';
+import { apiClient } from '../../lib/api';
+import {
+  deliveryStatusLabels,
+  orderStatusStyles,
+  paymentStatusStyles,
+  sellerCancellableStatuses,
+  sellerNextSteps,
+} from '../../lib/orders';
+import { formatDate, formatEnumLabel, getErrorMessage } from '../../lib/utils';
+import { OrderStatusValues } from '../../types';
+import type { BulkStatusUpdate, OrderStats, OrderStatus, SellerOrder } from '../../types';
+
+const PAGE_SIZE = 20;
+
+// Bulk actions, in fulfilment order
+const bulkActions = (['PENDING', 'CONFIRMED', 'PROCESSING'] as OrderStatus[]).map(status => sellerNextSteps[status]!);
+
+const SellerOrdersPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [orders, setOrders] = useState<SellerOrder[]>([]);
+  const [stats, setStats] = useState<OrderStats | null>(null);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [shipping, setShipping] = useState<SellerOrder[] | null>(null);
+  const [trackingNumbers, setTrackingNumbers] = useState<Record<string, string>>({});
+  const [cancelling, setCancelling] = useState<SellerOrder | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [updating, setUpdating] = useState(false);
+
+  const status = OrderStatusValues.find(value => value === searchParams.get('status'));
+  const page = Number(searchParams.get('page')) || 1;
+  const query = searchParams.get('search') || '';
+
+  useEffect(() => {
+    setSearch(query);
+  }, [query]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [status, page, query]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      const response = await apiClient.orders.getSellerOrders({
+        page,
+        limit: PAGE_SIZE,
+        status,
+        search: query || undefined,
+      });
+      setOrders(response.data.data?.orders || []);
+      setStats(response.data.data?.stats || null);
+      setTotalPages(response.data.data?.pagination.totalPages || 1);
+      setSelectedIds([]);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateParams = (next: { status?: OrderStatus; page?: number; search?: string }) => {
+    const params: Record<string, string> = {};
+    if (next.status) params.status = next.status;
+    if (next.page && next.page > 1) params.page = String(next.page);
+    if (next.search) params.search = next.search;
+    setSearchParams(params);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ status, search: search.trim() });
+  };
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev => prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]);
+  };
+
+  const selectableOrders = orders.filter(order => sellerNextSteps[order.status]);
+  const allSelected = selectableOrders.length > 0 && selectableOrders.every(order => selectedIds.includes(order.id));
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : selectableOrders.map(order => order.id));
+  };
+
+  const reportBulkResult = (result: BulkStatusUpdate) => {
+    if (result.updated > 0) {
+      toast.success(`${result.updated} ${result.updated === 1 ? 'order' : 'orders'} moved to ${formatEnumLabel(result.status).toLowerCase()}`);
+    }
+    result.results
+      .filter(item => !item.success)
+      .forEach(item => toast.error(`${item.orderNumber ? `#${item.orderNumber}: ` : ''}${item.message}`));
+  };
+
+  const runBulkAction = async (nextStatus: OrderStatus, orderIds: string[], numbers?: Record<string, string>) => {
+    setUpdating(true);
+    try {
+      const response = await apiClient.orders.bulkUpdateStatus({
+        orderIds,
+        status: nextStatus,
+        trackingNumbers: numbers,
+      });
+      reportBulkResult(response.data.data!);
+      setShipping(null);
+      setTrackingNumbers({});
+      fetchOrders();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Shipping asks for tracking numbers first; the other steps apply straight away
+  const startAction = (nextStatus: OrderStatus, selected: SellerOrder[]) => {
+    if (selected.length === 0) {
+      toast.error('Select at least one order');
+      return;
+    }
+    if (nextStatus === 'SHIPPED') {
+      setCancelling(null);
+      setShipping(selected);
+      setTrackingNumbers(Object.fromEntries(selected.map(order => [order.id, order.trackingNumber || ''])));
+      return;
+    }
+    runBulkAction(nextStatus, selected.map(order => order.id));
+  };
+
+  const handleShip = () => {
+    if (!shipping) return;
+    const numbers = Object.fromEntries(
+      Object.entries(trackingNumbers)
+        .map(([orderId, value]) => [orderId, value.trim()])
+        .filter(([, value]) => value)
+    );
+    runBulkAction('SHIPPED', shipping.map(order => order.id), numbers);
+  };
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+    if (!cancelReason.trim()) {
+      toast.error('Tell the buyer why the order is cancelled');
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await apiClient.orders.updateStatus(cancelling.id, { status: 'CANCELLED', reason: cancelReason.trim() });
+      if (response.data.data?.refundStatus === 'FAILED') {
+        toast.error(`Order #${cancelling.orderNumber} cancelled, but the buyer's refund did not go through`);
+      } else {
+        toast.success(`Order #${cancelling.orderNumber} cancelled`);
+      }
+      setCancelling(null);
+      setCancelReason('');
+      fetchOrders();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const selectedOrders = orders.filter(order => selectedIds.includes(order.id));
+  const allCount = stats ? Object.values(stats).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-neutral-900">Orders</h1>
+            <Link to="/seller" className="text-sm text-primary-600 hover:text-primary-700">
+              Back to dashboard
+            </Link>
+          </div>
+          <form onSubmit={handleSearch} className="relative sm:w-72">
+            <MagnifyingGlassIcon className="h-5 w-5 text-neutral-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="input-field pl-10"
+              placeholder="Order number or buyer name"
+            />
+          </form>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button
+            onClick={() => updateParams({ search: query })}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${
+              !status ? 'bg-primary-600 text-white' : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+            }`}
+          >
+            All ({allCount})
+          </button>
+          {stats && OrderStatusValues.map(value => (
+            <button
+              key={value}
+              onClick={() => updateParams({ status: value, search: query })}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                status === value ? 'bg-primary-600 text-white' : 'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
+              }`}
+            >
+              {formatEnumLabel(value)} ({stats[value.toLowerCase() as Lowercase<typeof value>]})
+            </button>
+          ))}
+        </div>
+
+        {selectedIds.length > 0 && (
+          <div className="card flex flex-wrap items-center gap-3 mb-4">
+            <span className="text-sm font-medium text-neutral-900">{selectedIds.length} selected</span>
+            {bulkActions.map(action => {
+              const eligible = selectedOrders.filter(order => sellerNextSteps[order.status]?.status === action.status);
+              return (
+                <Button
+                  key={action.status}
+                  size="sm"
+                  variant="outline"
+                  disabled={eligible.length === 0 || updating}
+                  onClick={() => startAction(action.status, eligible)}
+                >
+                  {action.label} ({eligible.length})
+                </Button>
+              );
+            })}
+            <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {shipping && (
+          <div className="card mb-4">
+            <h2 className="text-lg font-semibold text-neutral-900 mb-1">Ship {shipping.length} {shipping.length === 1 ? 'order' : 'orders'}</h2>
+            <p className="text-sm text-neutral-600 mb-4">Add a tracking number where the carrier gave you one.</p>
+            <div className="space-y-3">
+              {shipping.map(order => (
+                <div key={order.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <span className="sm:w-48 text-sm text-neutral-900">
+                    #{order.orderNumber} <span className="text-neutral-500">{order.buyer.firstName}</span>
+                  </span>
+                  <input
+                    type="text"
+                    value={trackingNumbers[order.id] || ''}
+                    onChange={(e) => setTrackingNumbers(prev => ({ ...prev, [order.id]: e.target.value }))}
+                    className="input-field flex-1"
+                    placeholder="Tracking number (optional)"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="ghost" size="sm" onClick={() => setShipping(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" loading={updating} onClick={handleShip}>
+                Mark as shipped
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {cancelling && (
+          <div className="card mb-4">
+            <h2 className="text-lg font-semibold text-neutral-900 mb-1">Cancel order #{cancelling.orderNumber}</h2>
+            <p className="text-sm text-neutral-600 mb-3">
+              The buyer sees this reason. Paid orders are refunded automatically.
+            </p>
+            <textarea
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              rows={3}
+              className="input-field"
+              placeholder="e.g. Out of stock"
+            />
+            <div className="flex justify-end gap-2 mt-3">
+              <Button variant="ghost" size="sm" onClick={() => setCancelling(null)}>
+                Keep order
+              </Button>
+              <Button variant="destructive" size="sm" loading={updating} onClick={handleCancel}>
+                Cancel order
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="card loading-skeleton h-20"></div>
+            ))}
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="card text-center py-12">
+            <ShoppingBagIcon className="h-12 w-12 text-neutral-400 mx-auto mb-3" />
+            <p className="text-neutral-600">
+              {status ? `No ${formatEnumLabel(status).toLowerCase()} orders.` : 'No orders yet.'}
+            </p>
+          </div>
+        ) : (
+          <div className="card p-0 overflow-x-auto">
+            <table className="min-w-full divide-y divide-neutral-200 text-sm">
+              <thead className="bg-neutral-50">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      disabled={selectableOrders.length === 0}
+                      aria-label="Select all orders"
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-500">Order</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-500">Buyer</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-500">Items</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-500">Total</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-500">Status</th>
+                  <th className="px-4 py-3 text-right font-medium text-neutral-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100">
+                {orders.map(order => {
+                  const nextStep = sellerNextSteps[order.status];
+                  const itemCount = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+                  return (
+                    <tr key={order.id} className={selectedIds.includes(order.id) ? 'bg-primary-50' : ''}>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(order.id)}
+                          onChange={() => toggleSelected(order.id)}
+                          disabled={!nextStep}
+                          aria-label={`Select order ${order.orderNumber}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link to={`/orders/${order.id}`} className="font-medium text-neutral-900 hover:text-primary-600">
+                          #{order.orderNumber}
+                        </Link>
+                        <p className="text-xs text-neutral-500">{formatDate(order.createdAt)}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-neutral-900">{order.buyer.firstName} {order.buyer.lastName}</p>
+                        <p className="text-xs text-neutral-500">{order.shippingAddress.city}</p>
+                      </td>
+                      <td className="px-4 py-3 text-neutral-700">
+                        <p className="truncate max-w-[12rem]">{order.items[0]?.product.title}</p>
+                        <p className="text-xs text-neutral-500">{itemCount} {itemCount === 1 ? 'item' : 'items'}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-neutral-900">ETB {Number(order.total).toLocaleString()}</p>
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${paymentStatusStyles[order.paymentStatus]}`}>
+                          {formatEnumLabel(order.paymentStatus)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${orderStatusStyles[order.status]}`}>
+                          {formatEnumLabel(order.status)}
+                        </span>
+                        <p className="text-xs text-neutral-500 mt-1">
+                          {order.trackingNumber ? `Tracking ${order.trackingNumber}` : deliveryStatusLabels[order.deliveryStatus]}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-2">
+                          {nextStep && (
+                            <Button
+                              size="sm"
+                              disabled={updating}
+                              onClick={() => startAction(nextStep.status, [order])}
+                            >
+                              {nextStep.label}
+                            </Button>
+                          )}
+                          {sellerCancellableStatuses.includes(order.status) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setShipping(null);
+                                setCancelReason('');
+                                setCancelling(order);
+                              }}
+                            >
+                              Cancel
+                            </Button>
+                          )}
+                          <Link
+                            to={`/seller/orders/${order.id}/packing-slip`}
+                            target="_blank"
+                            className="p-2 text-neutral-500 hover:text-primary-600"
+                            title="Packing slip"
+                          >
+                            <PrinterIcon className="h-5 w-5" />
+                          </Link>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Pagination page={page} totalPages={totalPages} onPageChange={(value) => updateParams({ status, page: value, search: query })} />
+      </div>
+    </div>
+  );
+};
+
+export default SellerOrdersPage;
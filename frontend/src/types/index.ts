@@ -1,248 +1,915 @@
-// User types
-export interface User {
-  id: string;
-  email: string;
+// Model types and enums are generated from backend/prisma/schema.prisma into ./prisma.ts.
+// This file narrows the Json columns and describes the shapes the API actually returns.
+import type {
+  JsonValue,
+  User,
+  Category,
+  Product as ProductModel,
+  Order as OrderModel,
+  OrderItem,
+  OrderEvent,
+  Payment,
+  Review,
+  Address,
+  KycDocument as KycDocumentModel,
+  KycAccessLog,
+  EscrowTransaction,
+  Payout,
+  DeliveryPartner,
+  DeliveryAssignment,
+  CashReconciliation,
+  DeliveryStatus,
+  Notification as NotificationModel,
+  Refund as RefundModel,
+  RefundItem,
+  RefundStatus,
+  UserRole,
+  KYCStatus,
+  OrderStatus,
+  PaymentStatus,
+  PaymentMethod,
+  DeliveryOption,
+  ChatStatus,
+  MessageType,
+  Report as ReportModel,
+  ReportCategory,
+} from './prisma';
+
+export type {
+  JsonValue,
+  UserRole,
+  UserStatus,
+  KYCStatus,
+  ProductStatus,
+  OrderStatus,
+  PaymentStatus,
+  PaymentMethod,
+  DeliveryOption,
+  ChatStatus,
+  DeliveryStatus,
+  OrderEventField,
+  AddressType,
+  MessageType,
+  ReportCategory,
+  ReportStatus,
+  PlanType,
+  SubscriptionStatus,
+  User,
+  Category,
+  OrderItem,
+  OrderEvent,
+  Payment,
+  Review,
+  Address,
+  WishlistItem,
+  Chat,
+  Message,
+  Subscription,
+  DeliveryPartner,
+  DeliveryAssignment,
+  CashReconciliation,
+  KycAccessLog,
+  EscrowStatus,
+  EscrowTransaction,
+  Payout,
+  RefundStatus,
+  RefundItem,
+} from './prisma';
+
+export {
+  UserRoleValues,
+  UserStatusValues,
+  KYCStatusValues,
+  ProductStatusValues,
+  OrderStatusValues,
+  PaymentStatusValues,
+  PaymentMethodValues,
+  DeliveryOptionValues,
+  ChatStatusValues,
+  DeliveryStatusValues,
+  OrderEventFieldValues,
+  AddressTypeValues,
+  MessageTypeValues,
+  ReportCategoryValues,
+  ReportStatusValues,
+} from './prisma';
+
+// Json columns
+export type ProductSpecifications = Record<string, string>;
+
+export interface DeliveryAddress {
   firstName: string;
   lastName: string;
-  phone?: string;
-  avatar?: string;
-  role: string;
-  status: string;
-  isVerified: boolean;
-  emailVerifiedAt?: string;
-  lastLoginAt?: string;
-  createdAt: string;
-  updatedAt: string;
-  
-  // Seller specific fields
-  storeName?: string;
-  bio?: string;
-  kycStatus: string;
-  kycSubmittedAt?: string;
-  kycApprovedAt?: string;
-  isPremiumSeller: boolean;
-  premiumExpiresAt?: string;
-}
-
-// Product types
-export interface Product {
-  id: string;
+  phone: string;
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}
+
+// Links a notification back to what it is about
+export interface NotificationData {
+  orderId?: string;
+  deliveryStatus?: DeliveryStatus;
+}
+
+export interface KycPersonalInfo {
+  dateOfBirth?: string;
+  address?: string;
+}
+
+export interface Product extends Omit<ProductModel, 'specifications'> {
+  specifications: ProductSpecifications | null;
+}
+
+export interface Order extends Omit<OrderModel, 'deliveryAddress'> {
+  deliveryAddress: DeliveryAddress | null;
+}
+
+export interface Notification extends Omit<NotificationModel, 'data'> {
+  data: NotificationData | null;
+}
+
+export interface KycDocument extends Omit<KycDocumentModel, 'personalInfo'> {
+  personalInfo: KycPersonalInfo | null;
+}
+
+// User shapes returned by the API (password is never included)
+export type UserProfile = Pick<
+  User,
+  | 'id'
+  | 'email'
+  | 'firstName'
+  | 'lastName'
+  | 'phone'
+  | 'avatar'
+  | 'role'
+  | 'isVerified'
+  | 'storeName'
+  | 'bio'
+  | 'kycStatus'
+  | 'isPremiumSeller'
+  | 'premiumExpiresAt'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AuthResponse extends TokenPair {
+  user: UserProfile;
+}
+
+export interface SellerStats {
+  totalProducts: number;
+  totalOrders: number;
+  totalRevenue: number;
+  pendingOrders: number;
+  averageRating: number;
+  totalReviews: number;
+  monthlySales: Array<{
+    month: string;
+    sales: number;
+  }>;
+}
+
+export interface KycSubmission {
+  documents: {
+    idCard: string;
+    selfieWithId: string;
+    proofOfAddress: string;
+  };
+  personalInfo: KycPersonalInfo;
+}
+
+export interface KycVerification {
+  kycStatus: KYCStatus;
+  kycApprovedAt: string | null;
+  submission: Pick<
+    KycDocument,
+    'id' | 'personalInfo' | 'status' | 'submittedAt' | 'reviewedAt' | 'rejectionReason'
+  > | null;
+}
+
+export interface Storefront {
+  seller: Pick<User, 'id' | 'storeName' | 'bio' | 'avatar' | 'createdAt'> & {
+    joinedDate: string;
+    averageRating: number;
+    totalReviews: number;
+  };
+  products: Array<Pick<Product, 'id' | 'title' | 'price' | 'images' | 'averageRating' | 'reviewCount'>>;
+  reviews: Array<Pick<Review, 'id' | 'rating' | 'comment' | 'createdAt'> & { authorName: string }>;
+  pagination: Pagination;
+}
+
+// Product shapes returned by the API
+export type ProductSummary = Pick<
+  Product,
+  'id' | 'title' | 'description' | 'price' | 'comparePrice' | 'images' | 'averageRating' | 'reviewCount' | 'isPublished' | 'createdAt'
+> & {
+  category: Pick<Category, 'id' | 'name'>;
+  seller: Pick<User, 'id' | 'storeName'>;
+};
+
+export type ProductDetail = Pick<
+  Product,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'comparePrice'
+  | 'quantity'
+  | 'trackQuantity'
+  | 'allowBackorder'
+  | 'lowStockThreshold'
+  | 'sku'
+  | 'weight'
+  | 'dimensions'
+  | 'images'
+  | 'video'
+  | 'tags'
+  | 'specifications'
+  | 'status'
+  | 'isPublished'
+  | 'isFeatured'
+  | 'averageRating'
+  | 'reviewCount'
+  | 'salesCount'
+  | 'createdAt'
+> & {
+  category: Pick<Category, 'id' | 'name'>;
+  seller: Pick<User, 'id' | 'storeName'>;
+  stock: ProductStock;
+};
+
+// What buyers see of a product's stock; available is null when stock isn't tracked
+export interface ProductStock {
+  inStock: boolean;
+  available: number | null;
+  lowStock: boolean;
+  backorder: boolean;
+}
+
+// Search box type-ahead; recent is empty when signed out
+export interface SearchSuggestions {
+  products: Array<Pick<Product, 'id' | 'title' | 'price'> & { image: string | null }>;
+  categories: Array<Pick<Category, 'id' | 'name'>>;
+  sellers: Array<Pick<User, 'id' | 'storeName' | 'avatar'>>;
+  popular: string[];
+  recent: string[];
+}
+
+export type SellerProduct = Pick<
+  Product,
+  'id' | 'title' | 'price' | 'quantity' | 'images' | 'isPublished' | 'salesCount' | 'averageRating' | 'createdAt'
+>;
+
+export interface SellerProductStats {
+  totalProducts: number;
+  publishedProducts: number;
+  draftProducts: number;
+  outOfStock: number;
+}
+
+export type StockAlertLevel = 'LOW_STOCK' | 'OUT_OF_STOCK';
+
+// A tracked product at or below its low-stock threshold
+export type InventoryAlertProduct = Pick<
+  Product,
+  'id' | 'title' | 'images' | 'quantity' | 'lowStockThreshold' | 'allowBackorder' | 'isPublished' | 'salesCount'
+> & {
+  level: StockAlertLevel;
+};
+
+export interface InventoryHealth {
+  products: InventoryAlertProduct[];
+  summary: {
+    outOfStock: number;
+    lowStock: number;
+  };
+}
+
+export type CategoryWithCount = Pick<Category, 'id' | 'name' | 'description' | 'image' | 'parentId'> & {
+  children: Array<Pick<Category, 'id' | 'name'>>;
+  productCount: number;
+};
+
+export type CategoryProduct = Pick<Product, 'id' | 'title' | 'price' | 'images' | 'averageRating'> & {
+  seller: Pick<User, 'storeName'>;
+};
+
+export interface ProductInput {
   title: string;
   description: string;
   price: number;
   comparePrice?: number;
-  cost?: number;
-  quantity: number;
-  trackQuantity: boolean;
-  allowBackorder: boolean;
-  lowStockThreshold: number;
-  sku?: string;
-  weight?: number;
-  dimensions?: any;
-  images: string[];
-  video?: string;
-  tags: string[];
-  specifications?: any;
-  status: string;
-  isPublished: boolean;
-  isFeatured: boolean;
-  averageRating?: number;
-  reviewCount: number;
-  salesCount: number;
-  viewCount: number;
-  createdAt: string;
-  updatedAt: string;
-  
-  sellerId: string;
+  quantity?: number;
   categoryId: string;
-  seller: User;
-  category: Category;
+  images?: string[];
+  video?: string;
+  tags?: string[];
+  weight?: number;
+  dimensions?: JsonValue;
+  specifications?: ProductSpecifications;
+  isPublished?: boolean;
 }
 
-// Category types
-export interface Category {
-  id: string;
-  name: string;
-  slug: string;
-  description?: string;
-  image?: string;
-  parentId?: string;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-  
-  products: Product[];
-  parent?: Category;
-  children: Category[];
+// Order shapes returned by the API
+export type OrderSummary = Pick<
+  Order,
+  | 'id'
+  | 'orderNumber'
+  | 'status'
+  | 'paymentStatus'
+  | 'deliveryStatus'
+  | 'deliveryOption'
+  | 'total'
+  | 'createdAt'
+  | 'shippedAt'
+  | 'deliveredAt'
+> & {
+  seller: Pick<User, 'storeName'>;
+  items: Array<Pick<OrderItem, 'quantity'> & { product: Pick<Product, 'id' | 'title' | 'images'> }>;
+};
+
+export type OrderStats = Record<Lowercase<OrderStatus>, number>;
+
+// Buyer order list with counts over all of the buyer's orders
+export type BuyerOrders = PaginatedData<'orders', OrderSummary> & {
+  orderStats: OrderStats;
+};
+
+export type SellerOrder = Pick<
+  Order,
+  | 'id'
+  | 'orderNumber'
+  | 'status'
+  | 'paymentStatus'
+  | 'deliveryStatus'
+  | 'deliveryOption'
+  | 'trackingNumber'
+  | 'total'
+  | 'createdAt'
+> & {
+  buyer: Pick<User, 'firstName' | 'lastName' | 'phone'>;
+  shippingAddress: Pick<Address, 'city'>;
+  items: Array<Pick<OrderItem, 'quantity' | 'price'> & { product: Pick<Product, 'id' | 'title' | 'images'> }>;
+};
+
+// Seller order list with counts over all of the seller's orders
+export type SellerOrders = PaginatedData<'orders', SellerOrder> & {
+  stats: OrderStats;
+};
+
+export type OrderDetail = Omit<Order, 'items' | 'deliveryAssignments' | 'events'> & {
+  items: Array<OrderItem & { product: Pick<Product, 'id' | 'title' | 'images'> }>;
+  shippingAddress: Address;
+  seller: Pick<User, 'storeName' | 'phone'>;
+  buyer: Pick<User, 'firstName' | 'lastName' | 'phone'>;
+  payments: PaymentSummary[];
+  deliveryAssignments: OrderDeliveryAttempt[];
+  events: OrderHistoryEntry[];
+};
+
+// One status change in an order's history; actor is null for changes the platform made
+export type OrderHistoryEntry = Pick<OrderEvent, 'id' | 'field' | 'fromStatus' | 'toStatus' | 'note' | 'createdAt'> & {
+  actor: Pick<User, 'firstName' | 'lastName' | 'role'> | null;
+};
+
+// A courier's attempt at delivering an order, oldest first on the order
+export type OrderDeliveryAttempt = Pick<
+  DeliveryAssignment,
+  'id' | 'status' | 'notes' | 'createdAt' | 'pickedUpAt' | 'inTransitAt' | 'outForDeliveryAt' | 'actualDelivery' | 'failedAt'
+> & {
+  partner: (Pick<DeliveryPartner, 'vehicleType' | 'licensePlate'> & {
+    user: Pick<User, 'firstName' | 'lastName'>;
+  }) | null;
+};
+
+export interface OrderCreation {
+  order: Pick<Order, 'id' | 'orderNumber' | 'status' | 'total' | 'paymentStatus'> & {
+    items: Array<{
+      productId: string;
+      productName: string;
+      quantity: number;
+      price: number;
+    }>;
+  };
+  payment: {
+    // null for cash on delivery
+    paymentUrl: string | null;
+    transactionId: string;
+  };
 }
 
-// Order types
-export interface Order {
-  id: string;
-  orderNumber: string;
-  status: string;
-  paymentStatus: string;
-  deliveryStatus: string;
-  subtotal: number;
-  shipping: number;
-  tax: number;
-  discount: number;
-  total: number;
-  deliveryOption: string;
-  trackingNumber?: string;
-  deliveryAddress?: any;
-  deliveryNotes?: string;
-  notes?: string;
-  cancelledAt?: string;
-  cancelledBy?: string;
-  cancellationReason?: string;
-  paidAt?: string;
-  shippedAt?: string;
-  deliveredAt?: string;
-  createdAt: string;
+// refundStatus is null when nothing was paid, FAILED when the refund needs an admin
+export interface OrderCancellation {
+  orderId: string;
+  status: OrderStatus;
+  refundAmount: number;
+  refundStatus: RefundStatus | null;
+}
+
+export interface OrderStatusUpdate {
+  orderId: string;
+  previousStatus: OrderStatus;
+  newStatus: OrderStatus;
   updatedAt: string;
-  
-  buyerId: string;
-  sellerId: string;
-  shippingAddressId: string;
-  buyer: User;
-  seller: User;
-  shippingAddress: Address;
-  items: OrderItem[];
-  payments: Payment[];
-  reviews: Review[];
+  refundStatus: RefundStatus | null;
 }
 
-// Order Item types
-export interface OrderItem {
-  id: string;
+// Per-order outcome of a bulk status change
+export interface BulkStatusUpdate {
+  status: OrderStatus;
+  updated: number;
+  failed: number;
+  results: Array<{
+    orderId: string;
+    orderNumber?: string;
+    success: boolean;
+    message?: string;
+  }>;
+}
+
+export interface PaymentInitialization {
+  paymentUrl: string;
+  transactionId: string;
+  amount: number;
+  currency: string;
+}
+
+export type PaymentSummary = Pick<Payment, 'id' | 'status' | 'amount' | 'paymentMethod' | 'transactionId' | 'paidAt'>;
+
+// The stored payment status; settling happens through the gateway webhooks
+export interface PaymentVerification {
+  transactionId: string;
+  status: PaymentStatus;
   orderId: string;
+  amount: number;
+  paidAt: string | null;
+}
+
+// Escrow: paid orders are held until delivery plus the dispute window
+export type EscrowEntry = Pick<EscrowTransaction, 'id' | 'amount' | 'status' | 'heldAt' | 'releaseAt' | 'releasedAt'> & {
+  order: Pick<Order, 'id' | 'orderNumber' | 'status'>;
+};
+
+export interface SellerBalance {
+  held: number;
+  available: number;
+  paidOut: number;
+  refunded: number;
+  disputeWindowDays: number;
+  entries: EscrowEntry[];
+  payouts: Array<Pick<Payout, 'id' | 'amount' | 'reference' | 'createdAt'>>;
+}
+
+// Refunds: buyers request them, sellers or admins approve and the gateway pays them back
+export type Refund = Omit<RefundModel, 'items'> & {
+  items: Array<RefundItem & {
+    orderItem: Pick<OrderItem, 'id' | 'quantity' | 'price'> & {
+      product: Pick<Product, 'id' | 'title' | 'images'>;
+    };
+  }>;
+  requestedBy: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  reviewedBy: Pick<User, 'id' | 'firstName' | 'lastName' | 'role'> | null;
+};
+
+export interface RefundableItem {
+  orderItemId: string;
   productId: string;
-  quantity: number;
   price: number;
-  createdAt: string;
-  updatedAt: string;
-  
-  order: Order;
-  product: Product;
+  quantity: number;
+  refundedQuantity: number;
+  refundableQuantity: number;
 }
 
-// Payment types
-export interface Payment {
-  id: string;
+export interface OrderRefunds {
+  refunds: Refund[];
+  refundableItems: RefundableItem[];
+  paid: number;
+  refunded: number;
+  canRequest: boolean;
+}
+
+export type RefundReview = Refund & {
+  order: Pick<Order, 'id' | 'orderNumber' | 'status' | 'total'> & {
+    buyer: Pick<User, 'firstName' | 'lastName'>;
+    seller: Pick<User, 'storeName'>;
+  };
+  payment: Pick<Payment, 'paymentMethod'>;
+};
+
+export interface RefundRequest {
   orderId: string;
-  userId: string;
-  amount: number;
-  currency: string;
-  status: string;
-  paymentMethod: string;
-  transactionId?: string;
-  gatewayResponse?: any;
-  failureReason?: string;
-  createdAt: string;
-  updatedAt: string;
-  
-  order: Order;
-  user: User;
+  reason: string;
+  // Left out for a full refund
+  items?: Array<{ orderItemId: string; quantity: number }>;
 }
 
-// Review types
-export interface Review {
-  id: string;
+// Deliveries as the courier sees them, with the cash due on cash-on-delivery orders
+export type CourierDelivery = Omit<DeliveryAssignment, 'order' | 'partner' | 'cashReconciliation'> & {
+  order: Pick<Order, 'id' | 'orderNumber' | 'status' | 'total' | 'paymentStatus' | 'deliveryAddress' | 'deliveryNotes' | 'buyerId'> & {
+    buyer: Pick<User, 'firstName' | 'lastName' | 'phone'>;
+    seller: Pick<User, 'storeName' | 'phone'>;
+  };
+  paymentMethod: PaymentMethod | null;
+  cashToCollect: number;
+};
+
+export interface DeliveryUpdate {
+  assignmentId: string;
+  orderId: string;
+  status: DeliveryStatus;
+  cashCollected: number | null;
+}
+
+// Open platform deliveries on the courier job board
+export type DeliveryJob = Pick<Order, 'id' | 'orderNumber' | 'status' | 'deliveryStatus' | 'total' | 'shipping' | 'createdAt'> & {
+  shippingAddress: Pick<Address, 'city' | 'state'>;
+  seller: { storeName: string | null; city: string | null };
+  paymentMethod: PaymentMethod | null;
+  cashToCollect: number;
+  _count: { items: number };
+};
+
+// Review shapes returned by the API
+export interface ReviewAuthor {
+  firstName: string;
+  lastName: string;
+  avatar: string | null;
+}
+
+export type ProductReview = Pick<Review, 'id' | 'rating' | 'comment' | 'images' | 'createdAt'> & {
+  author: ReviewAuthor;
+};
+
+export interface ProductReviews {
+  averageRating: number;
+  totalReviews: number;
+  reviews: ProductReview[];
+  ratingDistribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export type SellerReview = Pick<Review, 'id' | 'rating' | 'comment' | 'createdAt'> & {
+  author: ReviewAuthor;
+  product: Pick<Product, 'id' | 'title' | 'images'>;
+};
+
+export interface SellerReviews {
+  averageRating: number;
+  totalReviews: number;
+  reviews: SellerReview[];
+  pagination: Pagination;
+}
+
+export type MyReview = Pick<Review, 'id' | 'rating' | 'comment' | 'createdAt'> & {
+  product: Pick<Product, 'id' | 'title' | 'images'>;
+  seller: Pick<User, 'storeName'>;
+};
+
+// A delivered product with no review from the buyer yet
+export interface AwaitingReview {
+  product: Pick<Product, 'id' | 'title' | 'images'>;
+  orderId: string;
+  orderNumber: string;
+  deliveredAt: string | null;
+  seller: Pick<User, 'storeName'>;
+}
+
+export type NotificationList = PaginatedData<'notifications', Notification> & {
+  unreadCount: number;
+};
+
+export type MyReviews = PaginatedData<'reviews', MyReview> & {
+  awaitingReview: AwaitingReview[];
+};
+
+export interface ReviewInput {
   productId: string;
   orderId: string;
-  userId: string;
-  sellerId: string;
   rating: number;
   comment?: string;
-  images: string[];
-  isVerified: boolean;
-  createdAt: string;
-  updatedAt: string;
-  
-  product: Product;
-  order: Order;
-  user: User;
-  seller: User;
+  images?: string[];
 }
 
-// Address types
-export interface Address {
+// Wishlist shapes returned by the API
+export interface WishlistEntry {
   id: string;
-  userId: string;
-  type: string;
-  firstName: string;
-  lastName: string;
-  phone: string;
-  street: string;
-  city: string;
-  state: string;
-  postalCode: string;
-  country: string;
-  isDefault: boolean;
-  createdAt: string;
-  updatedAt: string;
-  
-  user: User;
-  orders: Order[];
+  product: Pick<Product, 'id' | 'title' | 'price' | 'comparePrice' | 'images' | 'averageRating' | 'reviewCount' | 'isPublished'> & {
+    seller: Pick<User, 'id' | 'storeName'>;
+  };
+  savedPrice: number;
+  priceDrop: number;
+  addedAt: string;
+}
+
+export interface WishlistCount {
+  count: number;
+  priceDrops: number;
 }
 
-// Wishlist types
-export interface WishlistItem {
+// Cart types
+export type CartItemIssue = 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'INSUFFICIENT_STOCK' | 'PRICE_CHANGED';
+
+export interface CartItem {
   id: string;
-  userId: string;
   productId: string;
+  quantity: number;
+  price: number;
+  previousPrice?: number | null;
+  availableQuantity?: number | null;
+  issues: CartItemIssue[];
+  product: {
+    id: string;
+    title: string;
+    price: number;
+    comparePrice?: number | null;
+    image?: string | null;
+  };
+  seller: {
+    id: string;
+    storeName: string;
+  };
+  addedAt?: string;
+}
+
+export interface Cart {
+  items: CartItem[];
+  summary: {
+    itemCount: number;
+    sellerCount: number;
+    subtotal: number;
+    hasIssues: boolean;
+  };
+}
+
+// Checkout types - one checkout group holds one order per seller
+export interface CheckoutOrder {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  deliveryOption: DeliveryOption;
+  subtotal: number;
+  shipping: number;
+  total: number;
+  notes?: string | null;
+  seller: {
+    id: string;
+    storeName: string;
+  };
+  items: Array<{
+    productId: string;
+    productName: string;
+    image?: string | null;
+    quantity: number;
+    price: number;
+  }>;
+  payment: {
+    id: string;
+    status: PaymentStatus;
+    amount: number;
+    paymentMethod: PaymentMethod;
+    paymentUrl?: string | null;
+  } | null;
+}
+
+export interface CheckoutGroup {
+  id: string;
+  groupNumber: string;
+  paymentMethod: PaymentMethod;
+  subtotal: number;
+  shipping: number;
+  total: number;
   createdAt: string;
-  
-  user: User;
-  product: Product;
+  orders: CheckoutOrder[];
+}
+
+export interface CheckoutRequest {
+  shippingAddressId: string;
+  paymentMethod: PaymentMethod;
+  sellers: Array<{
+    sellerId: string;
+    deliveryOption: DeliveryOption;
+    notes?: string;
+  }>;
+}
+
+// Chat shapes returned by the API
+export interface ChatParticipant {
+  id: string;
+  name: string;
+  avatar: string | null;
+  storeName: string | null;
+  isOnline: boolean;
 }
 
-// Chat types
-export interface Chat {
+// The product a conversation was started from
+export type ChatProduct = Pick<Product, 'id' | 'title' | 'price' | 'images' | 'sellerId'>;
+
+export interface ChatSummary {
   id: string;
-  status: string;
-  lastMessage?: string;
-  lastMessageAt?: string;
+  status: ChatStatus;
+  lastMessageAt: string | null;
   createdAt: string;
-  updatedAt: string;
-  
-  participant1Id: string;
-  participant2Id: string;
-  participant1: User;
-  participant2: User;
-  messages: Message[];
+  otherParticipant: ChatParticipant;
+  product: ChatProduct | null;
+  unreadCount: number;
+  // Whether the current user blocked the other participant; only they can unblock
+  blockedByMe: boolean;
+  lastMessage: {
+    id: string;
+    content: string;
+    type: MessageType;
+    isRead: boolean;
+    createdAt: string;
+    sender: {
+      id: string;
+      name: string;
+    };
+  } | null;
+}
+
+// An order as attached to a chat message, frozen at the time it was posted
+export interface ChatOrderCard {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  total: number;
+  fromStatus?: OrderStatus;
 }
 
-// Message types
-export interface Message {
+// Each message type carries its own metadata
+export type ChatMessage = {
   id: string;
   chatId: string;
-  senderId: string;
-  receiverId: string;
   content: string;
-  type: string;
   isRead: boolean;
-  readAt?: string;
+  readAt: string | null;
   createdAt: string;
-  
-  chat: Chat;
-  sender: User;
-  receiver: User;
+  sender: Pick<User, 'id' | 'firstName' | 'lastName' | 'avatar'>;
+} & (
+  | { type: 'TEXT' | 'SYSTEM'; metadata: null }
+  | { type: 'IMAGE'; metadata: { imageUrl: string } }
+  | { type: 'ORDER_UPDATE'; metadata: ChatOrderCard }
+);
+
+// An order between the chat's participants that can be attached as a card
+export type ChatOrderOption = Pick<Order, 'id' | 'orderNumber' | 'status' | 'total' | 'createdAt'>;
+
+export type ChatMessageInput =
+  | { type?: 'TEXT'; content: string }
+  | { type: 'IMAGE'; imageUrl: string; content?: string }
+  | { type: 'ORDER_UPDATE'; orderId: string; content?: string };
+
+// Events pushed over the chat stream
+export type ChatStreamEvent =
+  | { type: 'message'; data: ChatMessage }
+  | { type: 'typing'; data: { chatId: string; userId: string; isTyping: boolean } }
+  | { type: 'read'; data: { chatId: string; readerId: string; readAt: string } };
+
+// A user the current user has blocked
+export type BlockedUser = Pick<User, 'id' | 'firstName' | 'lastName' | 'avatar' | 'storeName'> & {
+  blockedAt: string;
+};
+
+// A report names the user, or the message when one is reported
+export type ReportInput = {
+  category: ReportCategory;
+  details?: string;
+  block?: boolean;
+} & ({ reportedUserId: string; messageId?: never } | { messageId: string; reportedUserId?: never });
+
+// Upload shapes returned by the API
+export interface UploadedFile {
+  url: string;
+  fileName: string;
+  filePath: string;
+  size: number;
+  mimeType: string;
 }
 
-// Notification types
-export interface Notification {
+// KYC files live in private storage, so uploads only return the storage path
+export type KycUpload = Pick<UploadedFile, 'filePath' | 'size' | 'mimeType'>;
+
+// Admin shapes returned by the API
+export type ReportAction = 'WARN' | 'SUSPEND' | 'DISMISS';
+
+// A report in the moderation queue, with the conversation around the reported message
+export type ModerationReport = Pick<
+  ReportModel,
+  'id' | 'category' | 'details' | 'status' | 'resolutionNote' | 'resolvedAt' | 'createdAt' | 'messageId'
+> & {
+  reporter: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+  reportedUser: Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'storeName' | 'role' | 'status' | 'warningCount'> & {
+    reportCount: number;
+  };
+  resolvedBy: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+  context: ChatMessage[];
+};
+
+export type AdminUser = Pick<
+  User,
+  'id' | 'email' | 'firstName' | 'lastName' | 'role' | 'status' | 'isVerified' | 'kycStatus' | 'createdAt' | 'lastLoginAt' | 'storeName'
+>;
+
+export type KycDocumentField = 'idCard' | 'selfieWithId' | 'proofOfAddress';
+
+export type KycApplication = Omit<KycDocument, KycDocumentField> & {
+  user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'storeName' | 'createdAt'>;
+  reviewer: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+  _count: { accessLogs: number };
+};
+
+export type KycDocumentUrls = Record<KycDocumentField, string | null> & {
+  expiresAt: string;
+};
+
+export interface KycAccessHistory {
   id: string;
-  userId: string;
-  type: string;
-  title: string;
-  message: string;
-  data?: any;
-  isRead: boolean;
-  createdAt: string;
-  
-  user: User;
+  reviewedAt: string | null;
+  reviewer: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+  accessLogs: Array<Pick<KycAccessLog, 'id' | 'ipAddress' | 'accessedAt'> & {
+    admin: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  }>;
+}
+
+export type AdminOrder = Omit<Order, 'items' | 'events'> & {
+  buyer: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+  seller: Pick<User, 'id' | 'firstName' | 'lastName' | 'storeName'>;
+  items: Array<Pick<OrderItem, 'quantity' | 'price'> & { product: Pick<Product, 'title'> }>;
+  events: OrderHistoryEntry[];
+};
+
+export type AdminCategory = Category & {
+  _count: { products: number };
+  children: Array<Category & { _count: { products: number } }>;
+};
+
+export type CategoryInput = Partial<Pick<Category, 'name' | 'description' | 'image' | 'parentId' | 'isActive'>>;
+
+export interface AdminPayouts {
+  pending: Array<{
+    seller: Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'storeName'>;
+    amount: number;
+    orderCount: number;
+  }>;
+  recentPayouts: Array<Pick<Payout, 'id' | 'amount' | 'reference' | 'createdAt'> & {
+    seller: Pick<User, 'id' | 'firstName' | 'lastName' | 'storeName'>;
+    paidBy: Pick<User, 'firstName' | 'lastName'>;
+    _count: { escrowTransactions: number };
+  }>;
+}
+
+// One courier's cash-on-delivery collections for a day
+export interface CourierCashSummary {
+  partner: Pick<DeliveryPartner, 'id' | 'vehicleType'> & {
+    user: Pick<User, 'firstName' | 'lastName' | 'phone'>;
+  };
+  expected: number;
+  collected: number;
+  unreconciled: number;
+  deliveries: Array<{
+    id: string;
+    orderId: string;
+    orderNumber: string;
+    expected: number;
+    collected: number;
+    collectedAt: string;
+  }>;
+  reconciliation: (CashReconciliation & { reconciledBy: Pick<User, 'firstName' | 'lastName'> }) | null;
+}
+
+export interface AdminCashReconciliation {
+  date: string;
+  couriers: CourierCashSummary[];
+}
+
+export interface AdminDashboard {
+  overview: {
+    totalUsers: number;
+    totalSellers: number;
+    totalProducts: number;
+    totalOrders: number;
+    totalRevenue: number;
+  };
+  recentUsers: Array<Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'role' | 'createdAt'>>;
+  recentOrders: Array<Order & {
+    buyer: Pick<User, 'firstName' | 'lastName'>;
+    seller: Pick<User, 'storeName'>;
+  }>;
+  kycStats: {
+    pending: number;
+    underReview: number;
+    approved: number;
+    rejected: number;
+  };
+  orderStats: OrderStats;
 }
 
 // API Response types
@@ -253,14 +920,21 @@ export interface ApiResponse<T> {
   errors?: string[];
 }
 
-export interface PaginatedResponse<T> {
-  data: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// Lists returned as data: { [key]: T[], pagination }
+export type PaginatedData<K extends string, T> = { [P in K]: T[] } & {
+  pagination: Pagination;
+};
+
+// Lists returned as data: T[] with pagination next to data (wishlist)
+export interface PaginatedResponse<T> extends ApiResponse<T[]> {
+  pagination: Pagination;
 }
 
 // Form types
@@ -276,7 +950,7 @@ export interface RegisterForm {
   firstName: string;
   lastName: string;
   phone?: string;
-  role: string;
+  role: UserRole;
   agreeToTerms: boolean;
 }
 
@@ -292,13 +966,17 @@ export interface ResetPasswordForm {
 
 // Filter types
 export interface ProductFilters {
+  page?: number;
+  limit?: number;
+  sellerId?: string;
   category?: string;
   minPrice?: number;
   maxPrice?: number;
   rating?: number;
   location?: string;
   search?: string;
-  sortBy?: 'newest' | 'price_asc' | 'price_desc' | 'popularity' | 'rating';
+  // relevance is the default with a search
+  sortBy?: 'relevance' | 'newest' | 'oldest' | 'price' | 'price-desc' | 'rating';
 }
 
 // Analytics types
@@ -312,7 +990,7 @@ export interface SellerAnalytics {
     revenue: number;
   }>;
   topProducts: Array<{
-    product: Product;
+    product: ProductSummary;
     sales: number;
     revenue: number;
   }>;
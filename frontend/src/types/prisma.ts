@@ -0,0 +1,601 @@
+// This file is generated from backend/prisma/schema.prisma - do not edit it by hand.
+// Regenerate with `npm run types:generate` in backend/.
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export const UserRoleValues = ['BUYER', 'SELLER', 'ADMIN', 'DELIVERY_PARTNER'] as const;
+export type UserRole = typeof UserRoleValues[number];
+
+export const UserStatusValues = ['ACTIVE', 'SUSPENDED', 'PENDING_VERIFICATION'] as const;
+export type UserStatus = typeof UserStatusValues[number];
+
+export const KYCStatusValues = ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED'] as const;
+export type KYCStatus = typeof KYCStatusValues[number];
+
+export const ProductStatusValues = ['DRAFT', 'PUBLISHED', 'ARCHIVED'] as const;
+export type ProductStatus = typeof ProductStatusValues[number];
+
+export const OrderStatusValues = ['PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED'] as const;
+export type OrderStatus = typeof OrderStatusValues[number];
+
+export const PaymentStatusValues = ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'REFUNDED'] as const;
+export type PaymentStatus = typeof PaymentStatusValues[number];
+
+export const PaymentMethodValues = ['CHAPA', 'CBE_BIRR', 'STRIPE', 'CASH_ON_DELIVERY'] as const;
+export type PaymentMethod = typeof PaymentMethodValues[number];
+
+export const EscrowStatusValues = ['HELD', 'RELEASED', 'PAID_OUT', 'REFUNDED'] as const;
+export type EscrowStatus = typeof EscrowStatusValues[number];
+
+export const RefundStatusValues = ['REQUESTED', 'APPROVED', 'REJECTED', 'COMPLETED', 'FAILED'] as const;
+export type RefundStatus = typeof RefundStatusValues[number];
+
+export const OrderEventFieldValues = ['STATUS', 'DELIVERY_STATUS'] as const;
+export type OrderEventField = typeof OrderEventFieldValues[number];
+
+export const ReportCategoryValues = ['HARASSMENT', 'SPAM', 'SCAM', 'INAPPROPRIATE_CONTENT', 'HATE_SPEECH', 'OTHER'] as const;
+export type ReportCategory = typeof ReportCategoryValues[number];
+
+export const ReportStatusValues = ['OPEN', 'WARNED', 'SUSPENDED', 'DISMISSED'] as const;
+export type ReportStatus = typeof ReportStatusValues[number];
+
+export const WebhookEventResultValues = ['PROCESSED', 'IGNORED', 'REJECTED'] as const;
+export type WebhookEventResult = typeof WebhookEventResultValues[number];
+
+export const DeliveryOptionValues = ['SELLER_DELIVERY', 'BUYER_PICKUP', 'SPLIT_DELIVERY', 'PLATFORM_DELIVERY', 'SELLER_RESPONSIBLE', 'BUYER_RESPONSIBLE', 'SPLIT_RESPONSIBILITY'] as const;
+export type DeliveryOption = typeof DeliveryOptionValues[number];
+
+export const ChatStatusValues = ['ACTIVE', 'ARCHIVED', 'BLOCKED'] as const;
+export type ChatStatus = typeof ChatStatusValues[number];
+
+export const DeliveryStatusValues = ['PENDING', 'ASSIGNED', 'PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'FAILED', 'CANCELLED'] as const;
+export type DeliveryStatus = typeof DeliveryStatusValues[number];
+
+export const AddressTypeValues = ['SHIPPING', 'BILLING'] as const;
+export type AddressType = typeof AddressTypeValues[number];
+
+export const MessageTypeValues = ['TEXT', 'IMAGE', 'SYSTEM', 'ORDER_UPDATE'] as const;
+export type MessageType = typeof MessageTypeValues[number];
+
+export const PlanTypeValues = ['BASIC', 'PREMIUM', 'ENTERPRISE'] as const;
+export type PlanType = typeof PlanTypeValues[number];
+
+export const SubscriptionStatusValues = ['ACTIVE', 'INACTIVE', 'CANCELLED', 'EXPIRED'] as const;
+export type SubscriptionStatus = typeof SubscriptionStatusValues[number];
+
+export interface User {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone: string | null;
+  avatar: string | null;
+  role: UserRole;
+  status: UserStatus;
+  isVerified: boolean;
+  emailVerifiedAt: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  storeName: string | null;
+  bio: string | null;
+  kycStatus: KYCStatus;
+  kycSubmittedAt: string | null;
+  kycApprovedAt: string | null;
+  isPremiumSeller: boolean;
+  premiumExpiresAt: string | null;
+  averageRating: number | null;
+  reviewCount: number;
+  warningCount: number;
+  kycDocuments?: KycDocument[];
+  reviewedKyc?: KycDocument[];
+  kycAccessLogs?: KycAccessLog[];
+  products?: Product[];
+  orders?: Order[];
+  sellerOrders?: Order[];
+  reviews?: Review[];
+  receivedReviews?: Review[];
+  wishlistItems?: WishlistItem[];
+  cartItems?: CartItem[];
+  checkoutGroups?: CheckoutGroup[];
+  sentMessages?: Message[];
+  receivedMessages?: Message[];
+  chats?: Chat[];
+  chats2?: Chat[];
+  payments?: Payment[];
+  addresses?: Address[];
+  notifications?: Notification[];
+  subscriptions?: Subscription[];
+  deliveryPartner?: DeliveryPartner | null;
+  escrowTransactions?: EscrowTransaction[];
+  payouts?: Payout[];
+  payoutsMade?: Payout[];
+  refundRequests?: Refund[];
+  refundsReviewed?: Refund[];
+  cashReconciled?: CashReconciliation[];
+  orderEvents?: OrderEvent[];
+  blocksMade?: UserBlock[];
+  blocksReceived?: UserBlock[];
+  reportsMade?: Report[];
+  reportsReceived?: Report[];
+  reportsResolved?: Report[];
+  searchQueries?: SearchQuery[];
+}
+
+export interface KycDocument {
+  id: string;
+  userId: string;
+  idCard: string | null;
+  selfieWithId: string | null;
+  proofOfAddress: string | null;
+  personalInfo: JsonValue | null;
+  status: KYCStatus;
+  submittedAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  rejectionReason: string | null;
+  user?: User | null;
+  reviewer?: User | null;
+  accessLogs?: KycAccessLog[];
+}
+
+export interface KycAccessLog {
+  id: string;
+  kycDocumentId: string;
+  adminId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  accessedAt: string;
+  kycDocument?: KycDocument | null;
+  admin?: User | null;
+}
+
+export interface Address {
+  id: string;
+  userId: string;
+  type: AddressType;
+  firstName: string;
+  lastName: string;
+  phone: string;
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+  user?: User | null;
+  orders?: Order[];
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  description: string | null;
+  image: string | null;
+  parentId: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  parent?: Category | null;
+  children?: Category[];
+  products?: Product[];
+}
+
+export interface Product {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  comparePrice: number | null;
+  cost: number | null;
+  quantity: number;
+  trackQuantity: boolean;
+  allowBackorder: boolean;
+  lowStockThreshold: number;
+  sku: string | null;
+  weight: number | null;
+  dimensions: JsonValue | null;
+  images: string[];
+  video: string | null;
+  tags: string[];
+  specifications: JsonValue | null;
+  status: ProductStatus;
+  isPublished: boolean;
+  isFeatured: boolean;
+  averageRating: number | null;
+  reviewCount: number;
+  salesCount: number;
+  viewCount: number;
+  createdAt: string;
+  updatedAt: string;
+  sellerId: string;
+  categoryId: string;
+  seller?: User | null;
+  category?: Category | null;
+  orderItems?: OrderItem[];
+  reviews?: Review[];
+  wishlistItems?: WishlistItem[];
+  cartItems?: CartItem[];
+  chats?: Chat[];
+}
+
+export interface SearchQuery {
+  id: string;
+  userId: string | null;
+  query: string;
+  resultCount: number;
+  createdAt: string;
+  user?: User | null;
+}
+
+export interface Order {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  deliveryStatus: DeliveryStatus;
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  discount: number;
+  total: number;
+  deliveryOption: DeliveryOption;
+  trackingNumber: string | null;
+  deliveryAddress: JsonValue | null;
+  deliveryNotes: string | null;
+  notes: string | null;
+  cancelledAt: string | null;
+  cancelledBy: string | null;
+  cancellationReason: string | null;
+  stockReserved: boolean;
+  paidAt: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  buyerId: string;
+  sellerId: string;
+  shippingAddressId: string;
+  checkoutGroupId: string | null;
+  buyer?: User | null;
+  seller?: User | null;
+  shippingAddress?: Address | null;
+  checkoutGroup?: CheckoutGroup | null;
+  items?: OrderItem[];
+  payments?: Payment[];
+  reviews?: Review[];
+  deliveryAssignments?: DeliveryAssignment[];
+  escrowTransaction?: EscrowTransaction | null;
+  refunds?: Refund[];
+  events?: OrderEvent[];
+}
+
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  field: OrderEventField;
+  fromStatus: string | null;
+  toStatus: string;
+  actorId: string | null;
+  note: string | null;
+  createdAt: string;
+  order?: Order | null;
+  actor?: User | null;
+}
+
+export interface UserBlock {
+  id: string;
+  blockerId: string;
+  blockedId: string;
+  createdAt: string;
+  blocker?: User | null;
+  blocked?: User | null;
+}
+
+export interface Report {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  messageId: string | null;
+  category: ReportCategory;
+  details: string | null;
+  status: ReportStatus;
+  resolvedById: string | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  reporter?: User | null;
+  reportedUser?: User | null;
+  message?: Message | null;
+  resolvedBy?: User | null;
+}
+
+export interface CheckoutGroup {
+  id: string;
+  groupNumber: string;
+  paymentMethod: PaymentMethod;
+  subtotal: number;
+  shipping: number;
+  total: number;
+  createdAt: string;
+  updatedAt: string;
+  buyerId: string;
+  buyer?: User | null;
+  orders?: Order[];
+}
+
+export interface OrderItem {
+  id: string;
+  orderId: string;
+  productId: string;
+  quantity: number;
+  price: number;
+  createdAt: string;
+  order?: Order | null;
+  product?: Product | null;
+  refundItems?: RefundItem[];
+}
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  status: PaymentStatus;
+  transactionId: string | null;
+  paymentUrl: string | null;
+  paidAt: string | null;
+  refundedAt: string | null;
+  refundAmount: number | null;
+  metadata: JsonValue | null;
+  createdAt: string;
+  updatedAt: string;
+  order?: Order | null;
+  user?: User | null;
+  escrowTransaction?: EscrowTransaction | null;
+  webhookEvents?: WebhookEvent[];
+  refunds?: Refund[];
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  paymentId: string;
+  requestedById: string;
+  reviewedById: string | null;
+  status: RefundStatus;
+  amount: number;
+  reason: string;
+  note: string | null;
+  restock: boolean;
+  gatewayReference: string | null;
+  requestedAt: string;
+  reviewedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  order?: Order | null;
+  payment?: Payment | null;
+  requestedBy?: User | null;
+  reviewedBy?: User | null;
+  items?: RefundItem[];
+}
+
+export interface RefundItem {
+  id: string;
+  refundId: string;
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+  refund?: Refund | null;
+  orderItem?: OrderItem | null;
+}
+
+export interface WebhookEvent {
+  id: string;
+  gateway: PaymentMethod;
+  eventId: string;
+  transactionId: string | null;
+  status: string | null;
+  amount: number | null;
+  currency: string | null;
+  payload: JsonValue;
+  result: WebhookEventResult;
+  message: string | null;
+  paymentId: string | null;
+  receivedAt: string;
+  processedAt: string | null;
+  payment?: Payment | null;
+}
+
+export interface EscrowTransaction {
+  id: string;
+  orderId: string;
+  paymentId: string;
+  sellerId: string;
+  amount: number;
+  status: EscrowStatus;
+  heldAt: string;
+  releaseAt: string | null;
+  releasedAt: string | null;
+  refundedAt: string | null;
+  payoutId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  order?: Order | null;
+  payment?: Payment | null;
+  seller?: User | null;
+  payout?: Payout | null;
+}
+
+export interface Payout {
+  id: string;
+  sellerId: string;
+  amount: number;
+  reference: string | null;
+  paidById: string;
+  createdAt: string;
+  seller?: User | null;
+  paidBy?: User | null;
+  escrowTransactions?: EscrowTransaction[];
+}
+
+export interface Review {
+  id: string;
+  productId: string;
+  orderId: string;
+  userId: string;
+  sellerId: string;
+  rating: number;
+  comment: string | null;
+  images: string[];
+  isVerified: boolean;
+  createdAt: string;
+  updatedAt: string;
+  product?: Product | null;
+  order?: Order | null;
+  user?: User | null;
+  seller?: User | null;
+}
+
+export interface WishlistItem {
+  id: string;
+  userId: string;
+  productId: string;
+  price: number;
+  createdAt: string;
+  user?: User | null;
+  product?: Product | null;
+}
+
+export interface CartItem {
+  id: string;
+  userId: string;
+  productId: string;
+  quantity: number;
+  price: number;
+  createdAt: string;
+  updatedAt: string;
+  user?: User | null;
+  product?: Product | null;
+}
+
+export interface Chat {
+  id: string;
+  status: ChatStatus;
+  lastMessageAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  participant1Id: string;
+  participant2Id: string;
+  productId: string | null;
+  participant1?: User | null;
+  participant2?: User | null;
+  product?: Product | null;
+  messages?: Message[];
+}
+
+export interface Message {
+  id: string;
+  chatId: string;
+  senderId: string;
+  receiverId: string;
+  content: string;
+  type: MessageType;
+  metadata: JsonValue | null;
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+  chat?: Chat | null;
+  sender?: User | null;
+  receiver?: User | null;
+  reports?: Report[];
+}
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  data: JsonValue | null;
+  isRead: boolean;
+  createdAt: string;
+  user?: User | null;
+}
+
+export interface SystemSettings {
+  id: string;
+  key: string;
+  value: string;
+  description: string | null;
+}
+
+export interface Subscription {
+  id: string;
+  planType: PlanType;
+  status: SubscriptionStatus;
+  startDate: string;
+  endDate: string;
+  autoRenew: boolean;
+  createdAt: string;
+  updatedAt: string;
+  user?: User | null;
+  userId: string;
+}
+
+export interface DeliveryPartner {
+  id: string;
+  userId: string;
+  isActive: boolean;
+  vehicleType: string;
+  licensePlate: string | null;
+  rating: number | null;
+  totalDeliveries: number;
+  createdAt: string;
+  updatedAt: string;
+  user?: User | null;
+  deliveries?: DeliveryAssignment[];
+  cashReconciliations?: CashReconciliation[];
+}
+
+export interface DeliveryAssignment {
+  id: string;
+  status: DeliveryStatus;
+  estimatedDelivery: string | null;
+  actualDelivery: string | null;
+  notes: string | null;
+  pickedUpAt: string | null;
+  inTransitAt: string | null;
+  outForDeliveryAt: string | null;
+  failedAt: string | null;
+  cashCollected: number | null;
+  cashCollectedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  order?: Order | null;
+  orderId: string;
+  partner?: DeliveryPartner | null;
+  partnerId: string | null;
+  cashReconciliation?: CashReconciliation | null;
+  cashReconciliationId: string | null;
+}
+
+export interface CashReconciliation {
+  id: string;
+  partnerId: string;
+  date: string;
+  expectedAmount: number;
+  collectedAmount: number;
+  receivedAmount: number;
+  notes: string | null;
+  reconciledById: string;
+  createdAt: string;
+  partner?: DeliveryPartner | null;
+  reconciledBy?: User | null;
+  assignments?: DeliveryAssignment[];
+}
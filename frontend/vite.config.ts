@@ -1,12 +1,29 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { gatewaySimulator } from './simulator/gatewaySimulator'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-  server: {
-    port: 5173,
-    host: true
+export default defineConfig(({ mode }) => {
+  // Webhook secrets are read without the VITE_ prefix so they never reach the browser bundle
+  const env = loadEnv(mode, process.cwd(), '')
+
+  return {
+    plugins: [
+      react(),
+      tailwindcss(),
+      gatewaySimulator({
+        apiUrl: env.VITE_API_URL || 'http://localhost:5000/api',
+        secrets: {
+          CHAPA: env.CHAPA_WEBHOOK_SECRET,
+          CBE_BIRR: env.CBE_BIRR_WEBHOOK_SECRET,
+          STRIPE: env.STRIPE_WEBHOOK_SECRET,
+        },
+      }),
+    ],
+    server: {
+      port: 5173,
+      host: true
+    }
   }
 })